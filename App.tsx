@@ -1,7 +1,8 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import StockList from './components/StockList';
+import ItemDetail from './components/ItemDetail';
 import NewEntry from './components/NewEntry';
 import NewExit from './components/NewExit';
 import Reports from './components/Reports';
@@ -11,46 +12,564 @@ import ChangePasswordModal from './components/ChangePasswordModal';
 import Inventory from './components/Inventory';
 import BackupRestore from './components/BackupRestore';
 import AuditLog from './components/AuditLog';
+import Toast from './components/ui/Toast';
 import SupplierManagement from './components/SupplierManagement';
-import { Page, Item, User, EntryExitRecord, AuditLog as AuditLogType, Supplier, Category, UnitOfMeasurement } from './types';
-import { mockUsers, mockItems, mockEntryExitHistory, mockAuditLogs, mockSuppliers, mockCategories, mockUnits } from './data/mock';
+import RoleManagement from './components/RoleManagement';
+import LocationManagement from './components/LocationManagement';
+import CategoryManagement from './components/CategoryManagement';
+import UnitManagement from './components/UnitManagement';
+import ToolLoans from './components/ToolLoans';
+import EmployeeManagement from './components/EmployeeManagement';
+import Requisitions from './components/Requisitions';
+import ExitApprovals from './components/ExitApprovals';
+import CostCenterManagement from './components/CostCenterManagement';
+import PeriodClosingManagement from './components/PeriodClosingManagement';
+import PurchaseOrders from './components/PurchaseOrders';
+import { Page, Item, User, Role, Permission, EntryExitRecord, NewMovement, AuditLog as AuditLogType, Supplier, Category, UnitOfMeasurement, Location, Employee, CostCenter, PeriodClosing, InventorySession, ToolLoan, NewToolLoan, ToolLoanReturn, Requisition, NewRequisition, RequisitionFulfilment, ApprovalRule, ExitApproval, PurchaseOrder, NewPurchaseOrder, PurchaseOrderReceipt, InvoiceImport } from './types';
+import { mockUsers, mockItems, mockEntryExitHistory, mockAuditLogs, mockSuppliers, mockCategories, mockUnits, mockLocations, mockEmployees, mockCostCenters } from './data/mock';
+import { usePersistedCollection, setSaveErrorHandler, itemRepository, userRepository, roleRepository, supplierRepository, categoryRepository, unitRepository, locationRepository, historyRepository, auditLogRepository, inventorySessionRepository, toolLoanRepository, employeeRepository, costCenterRepository, periodClosingRepository, requisitionRepository, approvalRuleRepository, exitApprovalRepository, purchaseOrderRepository } from './storage';
+import { isApiEnabled, postAuditLog, postItems, postMovements, postInventorySession, putCatalogEntry, postCatalogMerge, postToolLoan, postToolLoanReturn, postRequisition, postRequisitionFulfilment, postRequisitionCancel, postExitApproval, postExitApprove, postExitReject, postPurchaseOrders, putPurchaseOrder, postPurchaseOrderSend, postPurchaseOrderReceipt, postPurchaseOrderCancel, postInvoiceImport, postMovementReversal, setUnauthorizedHandler } from './api/client';
+import { authService, AuthResult } from './auth';
+import { SecuritySettings, DEFAULT_SECURITY_SETTINGS } from './auth/securityPolicy';
+import { DEFAULT_ROLES, hasPermission, canAccessPage } from './auth/permissions';
+import { applyMovements, buildInventoryAdjustments, withoutStock, buildOpeningBalances } from './utils/movements';
+import { moveItemsToCategory, moveItemsToUnit, refreshCatalogNames } from './utils/catalog';
+import { checkOutItem, checkInItem, buildLoan, closeLoan } from './utils/loans';
+import { getRequisitionValidationError, getNextRequisitionNumber, buildRequisition, fulfilRequisition as applyFulfilment, cancelRequisition as closeRequisition, reverseRequisitionFulfilment } from './utils/requisitions';
+import { getDeliveryEmployeeError } from './utils/epi';
+import { getExitCostCenterError } from './utils/costCenters';
+import { getApprovalReasons, getUnapprovedExitError, buildExitApproval, decideExitApproval, describeExitDecision, ApprovalError } from './utils/approvals';
+import { buildInvoiceEntries } from './utils/nfe';
+import { getPurchaseOrderValidationError, getNextPurchaseOrderNumber, buildPurchaseOrder, updatePurchaseOrder as applyOrderUpdate, sendPurchaseOrder as markOrderSent, receivePurchaseOrder as applyOrderReceipt, cancelPurchaseOrder as closePurchaseOrder, reversePurchaseOrderReceipt } from './utils/purchaseOrders';
+import { buildReversal, markReversed, describeReversal } from './utils/reversals';
+import { useRoute, buildPath } from './routing';
 
 const App: React.FC = () => {
   const [authenticatedUser, setAuthenticatedUser] = useState<User | null>(null);
-  const [currentPage, setCurrentPage] = useState<Page>('dashboard');
-  const [itemForEntry, setItemForEntry] = useState<Item | null>(null);
-  const [itemForExit, setItemForExit] = useState<Item | null>(null);
-  const [users, setUsers] = useState<User[]>(mockUsers);
-  const [items, setItems] = useState<Item[]>(mockItems);
-  const [suppliers, setSuppliers] = useState<Supplier[]>(mockSuppliers);
-  const [categories, setCategories] = useState<Category[]>(mockCategories);
-  const [units, setUnits] = useState<UnitOfMeasurement[]>(mockUnits);
-  const [entryExitHistory, setEntryExitHistory] = useState<EntryExitRecord[]>(mockEntryExitHistory);
-  const [auditLogs, setAuditLogs] = useState<AuditLogType[]>(mockAuditLogs);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS);
+  // Shown on the login screen after the session ended without the user logging out.
+  const [sessionNotice, setSessionNotice] = useState('');
+  // Changes the storage refused; they have already been undone.
+  const [saveError, setSaveError] = useState('');
+  // Data is only loaded once the user is logged in and no longer needs to replace a temporary password.
+  const isDataEnabled = !!authenticatedUser && !authenticatedUser.mustChangePassword;
+  const { route, navigate } = useRoute();
+  const currentPage = route.page;
+  const setCurrentPage = (page: Page) => navigate(buildPath(page));
+  const [users, setUsers, usersLoaded, syncUsers] = usePersistedCollection<User>(userRepository, mockUsers, isDataEnabled);
+  const [roles, setRoles, rolesLoaded] = usePersistedCollection<Role>(roleRepository, DEFAULT_ROLES, isDataEnabled);
+  const [items, setItems, itemsLoaded, syncItems] = usePersistedCollection<Item>(itemRepository, mockItems, isDataEnabled);
+  const [suppliers, setSuppliers, suppliersLoaded, syncSuppliers] = usePersistedCollection<Supplier>(supplierRepository, mockSuppliers, isDataEnabled);
+  const [categories, setCategories, categoriesLoaded, syncCategories] = usePersistedCollection<Category>(categoryRepository, mockCategories, isDataEnabled);
+  const [units, setUnits, unitsLoaded, syncUnits] = usePersistedCollection<UnitOfMeasurement>(unitRepository, mockUnits, isDataEnabled);
+  const [locations, setLocations, locationsLoaded] = usePersistedCollection<Location>(locationRepository, mockLocations, isDataEnabled);
+  const [employees, setEmployees, employeesLoaded] = usePersistedCollection<Employee>(employeeRepository, mockEmployees, isDataEnabled);
+  const [costCenters, setCostCenters, costCentersLoaded] = usePersistedCollection<CostCenter>(costCenterRepository, mockCostCenters, isDataEnabled);
+  const [periodClosings, setPeriodClosings, periodClosingsLoaded] = usePersistedCollection<PeriodClosing>(periodClosingRepository, [], isDataEnabled);
+  const [entryExitHistory, setEntryExitHistory, historyLoaded, syncHistory] = usePersistedCollection<EntryExitRecord>(historyRepository, mockEntryExitHistory, isDataEnabled);
+  // The server only lists the audit log to users allowed to view it.
+  const isAuditLogEnabled = isDataEnabled && (!isApiEnabled || hasPermission(authenticatedUser, roles, 'audit.view'));
+  const [auditLogs, setAuditLogs, auditLogsLoaded, syncAuditLogs] = usePersistedCollection<AuditLogType>(auditLogRepository, mockAuditLogs, isAuditLogEnabled);
+  const [inventorySessions, setInventorySessions, inventorySessionsLoaded, syncInventorySessions] = usePersistedCollection<InventorySession>(inventorySessionRepository, [], isDataEnabled);
+  const [toolLoans, setToolLoans, toolLoansLoaded, syncToolLoans] = usePersistedCollection<ToolLoan>(toolLoanRepository, [], isDataEnabled);
+  const [requisitions, setRequisitions, requisitionsLoaded, syncRequisitions] = usePersistedCollection<Requisition>(requisitionRepository, [], isDataEnabled);
+  const [approvalRules, setApprovalRules, approvalRulesLoaded] = usePersistedCollection<ApprovalRule>(approvalRuleRepository, [], isDataEnabled);
+  const [exitApprovals, setExitApprovals, exitApprovalsLoaded, syncExitApprovals] = usePersistedCollection<ExitApproval>(exitApprovalRepository, [], isDataEnabled);
+  const [purchaseOrders, setPurchaseOrders, purchaseOrdersLoaded, syncPurchaseOrders] = usePersistedCollection<PurchaseOrder>(purchaseOrderRepository, [], isDataEnabled);
+  const isDataLoaded = usersLoaded && rolesLoaded && itemsLoaded && suppliersLoaded && categoriesLoaded && unitsLoaded && locationsLoaded && employeesLoaded && costCentersLoaded && periodClosingsLoaded && historyLoaded && (auditLogsLoaded || !isAuditLogEnabled) && inventorySessionsLoaded && toolLoansLoaded && requisitionsLoaded && approvalRulesLoaded && exitApprovalsLoaded && purchaseOrdersLoaded;
   const [changePasswordUser, setChangePasswordUser] = useState<User | null>(null);
-  const [initialStockSearch, setInitialStockSearch] = useState<string>('');
-  const [initialStockFilters, setInitialStockFilters] = useState<{ category?: string; status?: string }>({});
 
   
-  const addAuditLog = (action: string, userOverride?: User) => {
-    const user = userOverride || authenticatedUser;
-    if (!user) return;
+  useEffect(() => {
+    authService.restoreSession()
+      .then(user => setAuthenticatedUser(user))
+      .catch(() => setAuthenticatedUser(null))
+      .finally(() => setIsRestoringSession(false));
+    authService.getSecuritySettings().then(setSecuritySettings);
+    // The server ended the session (expired or revoked): go back to the login screen.
+    setUnauthorizedHandler(() => {
+      setAuthenticatedUser(null);
+      setChangePasswordUser(null);
+      setSessionNotice('Sua sessão expirou. Faça login novamente.');
+    });
+    setSaveErrorHandler(setSaveError);
+    return () => {
+      setUnauthorizedHandler(null);
+      setSaveErrorHandler(null);
+    };
+  }, []);
+
+  const can = (permission: Permission) => hasPermission(authenticatedUser, roles, permission);
+
+  // Route guard: links to pages the user is not allowed to open go to the dashboard.
+  useEffect(() => {
+    if (authenticatedUser && isDataLoaded && !canAccessPage(authenticatedUser, roles, currentPage)) {
+      navigate(buildPath('dashboard'), { replace: true });
+    }
+  }, [authenticatedUser, isDataLoaded, roles, currentPage, navigate]);
+
+  // With the API the entry is written by the server, which takes the user and time from the session.
+  const addAuditLog = (action: string) => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      postAuditLog(action)
+        .then(log => syncAuditLogs([log]))
+        .catch(error => console.error('Falha ao registrar o log de auditoria:', error));
+      return;
+    }
     const newLog: AuditLogType = {
       id: `log-${Date.now()}`,
       timestamp: new Date().toISOString(),
-      userId: user.id,
-      userName: user.name,
+      userId: authenticatedUser.id,
+      userName: authenticatedUser.name,
       action,
     };
     setAuditLogs(prevLogs => [newLog, ...prevLogs]);
   };
 
+  // Records are made in the name of the logged-in user, or of the operator who requested
+  // an exit that was held for approval.
+  const addMovements = (movements: NewMovement[], user: Pick<User, 'id' | 'name'> | null = authenticatedUser): EntryExitRecord[] => {
+    if (!user || movements.length === 0) return [];
+    const date = new Date().toISOString().split('T')[0];
+    const newRecords: EntryExitRecord[] = movements.map((movement, index) => ({
+      ...movement,
+      id: `mov-${Date.now()}-${index}`,
+      date,
+      userId: user.id,
+      userName: user.name,
+    }));
+    setEntryExitHistory(prevHistory => [...prevHistory, ...newRecords]);
+    return newRecords;
+  };
+
+  // Stock-changing movements. With the API they are committed server-side in a single
+  // transaction; otherwise they are applied locally. Resolves with the applied movements
+  // (including the resulting average costs) and throws if any movement is rejected.
+  const registerMovements = async (movements: NewMovement[]): Promise<NewMovement[]> => {
+    if (!authenticatedUser || movements.length === 0) return [];
+    if (isApiEnabled) {
+      const result = await postMovements(movements);
+      syncItems(result.items);
+      syncHistory(result.records);
+      return result.records;
+    }
+    const result = applyMovements(items, movements, locations);
+    const updatedById = new Map(result.items.map(item => [item.id, item]));
+    setItems(prevItems => prevItems.map(item => updatedById.get(item.id) ?? item));
+    addMovements(result.movements);
+    return result.movements;
+  };
+
+  // New items are saved without stock and the quantity typed on them is registered as an
+  // opening balance adjustment; with the API both are written in a single server-side
+  // transaction. Throws if the items or their opening balances are rejected.
+  const createItems = async (newItems: Item[], observations: string) => {
+    if (!authenticatedUser || newItems.length === 0) return;
+    if (isApiEnabled) {
+      const result = await postItems(newItems, observations);
+      syncItems(result.items);
+      syncHistory(result.records);
+      return;
+    }
+    const unstocked = newItems.map(withoutStock);
+    const openingBalances = buildOpeningBalances(newItems, observations);
+    const result = applyMovements([...items, ...unstocked], openingBalances, locations);
+    const updatedById = new Map(result.items.map(item => [item.id, item]));
+    setItems(prevItems => [...prevItems, ...unstocked.map(item => updatedById.get(item.id) ?? item)]);
+    addMovements(result.movements);
+  };
+
+  // A reversal (estorno) adds the movements that cancel a registered one, marks it as
+  // reversed, records it in the audit log and gives its quantity back to the purchase order
+  // or requisition it was made for; with the API all of it is written in a single
+  // server-side transaction.
+  // Resolves with the applied reversal movements and throws if the reversal is rejected.
+  const reverseMovement = async (record: EntryExitRecord, reason: string): Promise<NewMovement[]> => {
+    if (!authenticatedUser) return [];
+    if (isApiEnabled) {
+      const result = await postMovementReversal(record.id, reason);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncAuditLogs([result.auditLog]);
+      if (result.order) syncPurchaseOrders([result.order]);
+      if (result.requisition) syncRequisitions([result.requisition]);
+      return result.records.filter(r => r.reversalOfId === record.id);
+    }
+    const movements = buildReversal(record, reason, periodClosings, entryExitHistory.filter(r => r.itemId === record.itemId));
+    const applied = await registerMovements(movements);
+    const reversed = markReversed(record, reason, authenticatedUser);
+    setEntryExitHistory(prevHistory => prevHistory.map(r => r.id === record.id ? reversed : r));
+    addAuditLog(describeReversal(record, items.find(item => item.id === record.itemId), reason, applied));
+    if (record.purchaseOrderId) {
+      setPurchaseOrders(prevOrders => prevOrders.map(order => order.id === record.purchaseOrderId ? reversePurchaseOrderReceipt(order, record) : order));
+    }
+    if (record.requisitionId) {
+      setRequisitions(prevRequisitions => prevRequisitions.map(r => r.id === record.requisitionId ? reverseRequisitionFulfilment(r, record) : r));
+    }
+    return applied;
+  };
+
+  // Items keep a copy of the category name and unit abbreviation, so saving one refreshes its
+  // items; with the API both are written in a single server-side transaction. Resolves with
+  // the items that changed.
+  const saveCategory = async (category: Category): Promise<Item[]> => {
+    if (isApiEnabled) {
+      const result = await putCatalogEntry('categories', category);
+      syncCategories([result.record]);
+      syncItems(result.items);
+      return result.items;
+    }
+    const renamed = refreshCatalogNames(items, [category], []);
+    const renamedById = new Map(renamed.map(item => [item.id, item]));
+    setCategories(prevCategories => prevCategories.some(c => c.id === category.id) ? prevCategories.map(c => c.id === category.id ? category : c) : [...prevCategories, category]);
+    setItems(prevItems => prevItems.map(item => renamedById.get(item.id) ?? item));
+    return renamed;
+  };
+
+  const saveUnit = async (unit: UnitOfMeasurement): Promise<Item[]> => {
+    if (isApiEnabled) {
+      const result = await putCatalogEntry('units', unit);
+      syncUnits([result.record]);
+      syncItems(result.items);
+      return result.items;
+    }
+    const renamed = refreshCatalogNames(items, [], [unit]);
+    const renamedById = new Map(renamed.map(item => [item.id, item]));
+    setUnits(prevUnits => prevUnits.some(u => u.id === unit.id) ? prevUnits.map(u => u.id === unit.id ? unit : u) : [...prevUnits, unit]);
+    setItems(prevItems => prevItems.map(item => renamedById.get(item.id) ?? item));
+    return renamed;
+  };
+
+  // Merging moves the items of a category or unit to another one and removes it. With the
+  // API both happen in a single server-side transaction.
+  const mergeCategory = async (sourceId: string, targetId: string) => {
+    const target = categories.find(category => category.id === targetId);
+    if (!target) return;
+    if (isApiEnabled) {
+      const result = await postCatalogMerge('categories', sourceId, targetId);
+      syncItems(result.items);
+      syncCategories([], [sourceId]);
+      return;
+    }
+    const movedById = new Map(moveItemsToCategory(items, sourceId, target).map(item => [item.id, item]));
+    setItems(prevItems => prevItems.map(item => movedById.get(item.id) ?? item));
+    setCategories(prevCategories => prevCategories.filter(category => category.id !== sourceId));
+  };
+
+  const mergeUnit = async (sourceId: string, targetId: string) => {
+    const target = units.find(unit => unit.id === targetId);
+    if (!target) return;
+    if (isApiEnabled) {
+      const result = await postCatalogMerge('units', sourceId, targetId);
+      syncItems(result.items);
+      syncUnits([], [sourceId]);
+      return;
+    }
+    const movedById = new Map(moveItemsToUnit(items, sourceId, target).map(item => [item.id, item]));
+    setItems(prevItems => prevItems.map(item => movedById.get(item.id) ?? item));
+    setUnits(prevUnits => prevUnits.filter(unit => unit.id !== sourceId));
+  };
+
+  const registerInventorySession = async (counts: { itemId: string; countedQuantity: number; location?: string }[]) => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postInventorySession(counts);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncInventorySessions([result.session]);
+      return;
+    }
+    const { lines, movements } = buildInventoryAdjustments(items, counts);
+    await registerMovements(movements);
+    setInventorySessions(prevSessions => [{
+      id: `inv-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      userId: authenticatedUser.id,
+      userName: authenticatedUser.name,
+      lines,
+    }, ...prevSessions]);
+  };
+
+  // Loans change the item's loaned quantity and the loan record together; with the API
+  // both are written in a single server-side transaction. Throws if the loan is rejected.
+  const checkOutTool = async (request: NewToolLoan): Promise<ToolLoan | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postToolLoan(request);
+      syncItems([result.item]);
+      syncToolLoans([result.loan]);
+      return result.loan;
+    }
+    const item = items.find(i => i.id === request.itemId);
+    if (!item) throw new Error('Item não encontrado.');
+    const updated = checkOutItem(item, request);
+    const loan = buildLoan(request, authenticatedUser, `loan-${Date.now()}`);
+    setItems(prevItems => prevItems.map(i => i.id === updated.id ? updated : i));
+    setToolLoans(prevLoans => [loan, ...prevLoans]);
+    return loan;
+  };
+
+  const checkInTool = async (loanId: string, data: ToolLoanReturn): Promise<ToolLoan | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postToolLoanReturn(loanId, data);
+      syncItems([result.item]);
+      syncToolLoans([result.loan]);
+      return result.loan;
+    }
+    const loan = toolLoans.find(l => l.id === loanId);
+    const item = loan && items.find(i => i.id === loan.itemId);
+    if (!loan || !item) throw new Error('Empréstimo não encontrado.');
+    const closed = closeLoan(loan, data, authenticatedUser);
+    const updated = checkInItem(item, loan);
+    setItems(prevItems => prevItems.map(i => i.id === updated.id ? updated : i));
+    setToolLoans(prevLoans => prevLoans.map(l => l.id === closed.id ? closed : l));
+    return closed;
+  };
+
+  // Requisitions are numbered on creation; with the API the number comes from the server.
+  const createRequisition = async (request: NewRequisition): Promise<Requisition | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const requisition = await postRequisition(request);
+      syncRequisitions([requisition]);
+      return requisition;
+    }
+    const costCenter = costCenters.find(c => c.id === request.costCenterId);
+    const error = (request.costCenterId ? getExitCostCenterError(costCenter) : null)
+      ?? getRequisitionValidationError(request, items)
+      ?? request.lines.map(line => line.employeeId ? getDeliveryEmployeeError(employees.find(e => e.id === line.employeeId)) : null).find(Boolean);
+    if (error) throw new Error(error);
+    const requisition = buildRequisition(costCenter ? { ...request, department: costCenter.name } : request, authenticatedUser, `req-${Date.now()}`, getNextRequisitionNumber(requisitions));
+    setRequisitions(prevRequisitions => [requisition, ...prevRequisitions]);
+    return requisition;
+  };
+
+  // Each delivered line becomes an exit. The requisition is only updated once all the
+  // exits were accepted; with the API both happen in a single server-side transaction.
+  const fulfilRequisition = async (requisitionId: string, data: RequisitionFulfilment): Promise<Requisition | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postRequisitionFulfilment(requisitionId, data);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncRequisitions([result.requisition]);
+      return result.requisition;
+    }
+    const current = requisitions.find(r => r.id === requisitionId);
+    if (!current) throw new Error('Requisição não encontrada.');
+    const { movements, requisition } = applyFulfilment(current, data);
+    const approvalError = can('exit.approve') ? null : getUnapprovedExitError(movements, items, approvalRules);
+    if (approvalError) throw new ApprovalError(approvalError);
+    await registerMovements(movements.map(movement => {
+      if (!movement.employeeId) return movement;
+      const employee = employees.find(e => e.id === movement.employeeId);
+      const error = getDeliveryEmployeeError(employee);
+      if (error) throw new Error(error);
+      return { ...movement, employeeName: employee!.name };
+    }));
+    setRequisitions(prevRequisitions => prevRequisitions.map(r => r.id === requisition.id ? requisition : r));
+    return requisition;
+  };
+
+  const cancelRequisition = async (requisitionId: string, reason: string): Promise<Requisition | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const requisition = await postRequisitionCancel(requisitionId, reason);
+      syncRequisitions([requisition]);
+      return requisition;
+    }
+    const current = requisitions.find(r => r.id === requisitionId);
+    if (!current) throw new Error('Requisição não encontrada.');
+    const cancelled = closeRequisition(current, reason, authenticatedUser);
+    setRequisitions(prevRequisitions => prevRequisitions.map(r => r.id === cancelled.id ? cancelled : r));
+    return cancelled;
+  };
+
+  // Exits matching an approval rule are held instead of registered. Throws if the exit
+  // needs no approval or could not be applied with the current stock.
+  const requestExitApproval = async (movement: NewMovement): Promise<ExitApproval | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const approval = await postExitApproval(movement);
+      syncExitApprovals([approval]);
+      return approval;
+    }
+    const item = items.find(i => i.id === movement.itemId);
+    if (!item) throw new Error('Item não encontrado.');
+    const reasons = getApprovalReasons(item, movement, approvalRules);
+    if (reasons.length === 0) throw new Error('Esta saída não precisa de aprovação.');
+    applyMovements([item], [movement], locations);
+    const approval = buildExitApproval(movement, reasons, authenticatedUser, `apr-${Date.now()}`);
+    setExitApprovals(prevApprovals => [approval, ...prevApprovals]);
+    return approval;
+  };
+
+  // Approving registers the exit against the stock at that time, in the name of the
+  // operator who requested it.
+  const approveExit = async (approvalId: string, notes: string): Promise<ExitApproval | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postExitApprove(approvalId, notes);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncExitApprovals([result.approval]);
+      syncAuditLogs([result.auditLog]);
+      return result.approval;
+    }
+    const current = exitApprovals.find(a => a.id === approvalId);
+    if (!current) throw new Error('Solicitação de aprovação não encontrada.');
+    const decided = decideExitApproval(current, true, notes, authenticatedUser);
+    const result = applyMovements(items, [decided.movement], locations);
+    const updatedById = new Map(result.items.map(item => [item.id, item]));
+    setItems(prevItems => prevItems.map(item => updatedById.get(item.id) ?? item));
+    const [record] = addMovements(result.movements, { id: decided.requestedById, name: decided.requestedByName });
+    const approved = { ...decided, recordId: record?.id };
+    setExitApprovals(prevApprovals => prevApprovals.map(a => a.id === approved.id ? approved : a));
+    addAuditLog(describeExitDecision(approved, items.find(item => item.id === approved.movement.itemId)));
+    return approved;
+  };
+
+  const rejectExit = async (approvalId: string, notes: string): Promise<ExitApproval | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postExitReject(approvalId, notes);
+      syncExitApprovals([result.approval]);
+      syncAuditLogs([result.auditLog]);
+      return result.approval;
+    }
+    const current = exitApprovals.find(a => a.id === approvalId);
+    if (!current) throw new Error('Solicitação de aprovação não encontrada.');
+    const rejected = decideExitApproval(current, false, notes, authenticatedUser);
+    setExitApprovals(prevApprovals => prevApprovals.map(a => a.id === rejected.id ? rejected : a));
+    addAuditLog(describeExitDecision(rejected, items.find(item => item.id === rejected.movement.itemId)));
+    return rejected;
+  };
+
+  // Orders are created as drafts and numbered on creation; with the API the numbers
+  // come from the server.
+  const createPurchaseOrders = async (orders: NewPurchaseOrder[]): Promise<PurchaseOrder[]> => {
+    if (!authenticatedUser) return [];
+    if (isApiEnabled) {
+      const created = await postPurchaseOrders(orders);
+      syncPurchaseOrders(created);
+      return created;
+    }
+    const error = orders.map(order => getPurchaseOrderValidationError(order, items, suppliers)).find(Boolean);
+    if (error) throw new Error(error);
+    const created = orders.reduce<PurchaseOrder[]>((acc, order, index) => [
+      ...acc,
+      buildPurchaseOrder(order, authenticatedUser, `po-${Date.now()}-${index}`, getNextPurchaseOrderNumber([...purchaseOrders, ...acc])),
+    ], []);
+    setPurchaseOrders(prevOrders => [...created, ...prevOrders]);
+    return created;
+  };
+
+  const replacePurchaseOrder = (order: PurchaseOrder) => {
+    setPurchaseOrders(prevOrders => prevOrders.map(o => o.id === order.id ? order : o));
+    return order;
+  };
 
-  const handleLogout = () => {
-    addAuditLog('Fez logout do sistema.');
+  const updatePurchaseOrder = async (orderId: string, order: NewPurchaseOrder): Promise<PurchaseOrder | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const updated = await putPurchaseOrder(orderId, order);
+      syncPurchaseOrders([updated]);
+      return updated;
+    }
+    const current = purchaseOrders.find(o => o.id === orderId);
+    if (!current) throw new Error('Pedido de compra não encontrado.');
+    const error = getPurchaseOrderValidationError(order, items, suppliers);
+    if (error) throw new Error(error);
+    return replacePurchaseOrder(applyOrderUpdate(current, order));
+  };
+
+  const sendPurchaseOrder = async (orderId: string): Promise<PurchaseOrder | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const sent = await postPurchaseOrderSend(orderId);
+      syncPurchaseOrders([sent]);
+      return sent;
+    }
+    const current = purchaseOrders.find(o => o.id === orderId);
+    if (!current) throw new Error('Pedido de compra não encontrado.');
+    return replacePurchaseOrder(markOrderSent(current));
+  };
+
+  // Each received line becomes an entry. The order balance is only updated once all the
+  // entries were accepted; with the API both happen in a single server-side transaction.
+  const receivePurchaseOrder = async (orderId: string, receipt: PurchaseOrderReceipt): Promise<PurchaseOrder | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const result = await postPurchaseOrderReceipt(orderId, receipt);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncPurchaseOrders([result.order]);
+      return result.order;
+    }
+    const current = purchaseOrders.find(o => o.id === orderId);
+    if (!current) throw new Error('Pedido de compra não encontrado.');
+    const { movements, order } = applyOrderReceipt(current, receipt);
+    await registerMovements(movements);
+    return replacePurchaseOrder(order);
+  };
+
+  const cancelPurchaseOrder = async (orderId: string, reason: string): Promise<PurchaseOrder | undefined> => {
+    if (!authenticatedUser) return;
+    if (isApiEnabled) {
+      const cancelled = await postPurchaseOrderCancel(orderId, reason);
+      syncPurchaseOrders([cancelled]);
+      return cancelled;
+    }
+    const current = purchaseOrders.find(o => o.id === orderId);
+    if (!current) throw new Error('Pedido de compra não encontrado.');
+    return replacePurchaseOrder(closePurchaseOrder(current, reason, authenticatedUser));
+  };
+
+  // The lines of an NF-e become entries and the supplier learns their codes; with the
+  // API both happen in a single server-side transaction. Resolves with the applied entries.
+  const importInvoice = async (data: InvoiceImport): Promise<NewMovement[]> => {
+    if (!authenticatedUser) return [];
+    if (isApiEnabled) {
+      const result = await postInvoiceImport(data);
+      syncItems(result.items);
+      syncHistory(result.records);
+      syncSuppliers([result.supplier]);
+      return result.records;
+    }
+    const { movements, supplier } = buildInvoiceEntries(data, suppliers, items, entryExitHistory);
+    const applied = await registerMovements(movements);
+    setSuppliers(prevSuppliers => prevSuppliers.map(s => s.id === supplier.id ? supplier : s));
+    return applied;
+  };
+
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+    } catch (error) {
+      console.error('Falha ao encerrar a sessão:', error);
+    }
     setAuthenticatedUser(null);
+    setChangePasswordUser(null);
     setCurrentPage('dashboard');
   };
+
+  const handleSessionTimeout = async () => {
+    try {
+      await authService.logout('timeout');
+    } catch (error) {
+      console.error('Falha ao encerrar a sessão:', error);
+    }
+    setAuthenticatedUser(null);
+    setChangePasswordUser(null);
+    setSessionNotice('Sua sessão foi encerrada por inatividade.');
+  };
+
+  const handleSessionActivity = () => {
+    authService.touchSession().catch(error => console.error('Falha ao renovar a sessão:', error));
+  };
   
   const handleUpdateProfilePicture = (newImageUrl: string) => {
     if (authenticatedUser) {
@@ -60,37 +579,38 @@ const App: React.FC = () => {
     }
   };
 
-  const handleUpdatePassword = (userId: string, newPassword: string) => {
-    const userToUpdate = users.find(u => u.id === userId);
-    if (!userToUpdate) return;
-    
-    const wasForcedChange = userToUpdate.password === 'changeme';
-
-    setUsers(prevUsers =>
-      prevUsers.map(u => (u.id === userId ? { ...u, password: newPassword } : u))
-    );
-    
-    if (authenticatedUser?.id === userId) {
-      addAuditLog(`Alterou a própria senha.`);
-      setAuthenticatedUser(prev => prev ? { ...prev, password: newPassword } : null);
-    } else {
-      addAuditLog(`Alterou a senha do usuário ${userToUpdate.name}.`);
-    }
-    
-    if (wasForcedChange) {
-      setAuthenticatedUser({ ...userToUpdate, password: newPassword });
+  // Auth operations record their own audit entries; merge them with the returned user into state.
+  const applyAuthResult = (result: AuthResult) => {
+    syncUsers([result.user]);
+    syncAuditLogs([result.auditLog]);
+    if (authenticatedUser?.id === result.user.id) {
+      setAuthenticatedUser(result.user);
     }
+  };
 
+  // Users change their own password (confirming the current one); administrators assign
+  // a temporary password to other users.
+  const handleUpdatePassword = async (userId: string, newPassword: string, currentPassword: string) => {
+    const result = authenticatedUser?.id === userId
+      ? await authService.changePassword(currentPassword, newPassword)
+      : await authService.resetPassword(userId, newPassword);
+    applyAuthResult(result);
     setChangePasswordUser(null);
   };
+
+  const handleCreateUser = async (user: User, temporaryPassword: string) => {
+    applyAuthResult(await authService.createUser(user, temporaryPassword));
+  };
+
+  const handleUnlockUser = async (user: User) => {
+    applyAuthResult(await authService.unlockUser(user.id));
+  };
   
-  const handleLogin = (user: User) => {
-    if (user.password === 'changeme') {
-      setChangePasswordUser(user);
-    } else {
-      setAuthenticatedUser(user);
-      addAuditLog('Fez login no sistema.', user);
-    }
+  const handleLogin = async (email: string, password: string) => {
+    const user = await authService.login(email, password);
+    setSessionNotice('');
+    // The URL is kept, so a link opened before logging in still leads to its page.
+    setAuthenticatedUser(user);
   };
 
   const onRequestChangePasswordForUser = (user: User) => {
@@ -98,99 +618,143 @@ const App: React.FC = () => {
   };
   
   const handleGlobalSearch = (term: string) => {
-    setInitialStockSearch(term);
-    setCurrentPage('stock');
+    navigate(buildPath('stock', {}, { busca: term }));
   };
   
   const handleNavigateWithFilters = (filters: { category?: string; status?: string }) => {
-    setInitialStockFilters(filters);
-    setCurrentPage('stock');
+    navigate(buildPath('stock', {}, { categoria: filters.category, status: filters.status }));
   };
 
+  const routeItem = items.find(item => item.code === route.query.item) ?? null;
+  const routeOrder = purchaseOrders.find(order => order.number === route.query.pedido) ?? null;
+
 
   const renderPage = useCallback(() => {
     if (!authenticatedUser) return null;
 
-    // Enforce admin-only pages
-    const adminPages: Page[] = ['users', 'suppliers', 'inventory', 'audit', 'backup'];
-    if (adminPages.includes(currentPage) && authenticatedUser.role !== 'Admin') {
-        // Redirect non-admins trying to access admin pages to the dashboard
-        return <Dashboard items={items} history={entryExitHistory} setCurrentPage={setCurrentPage} setInitialStockFilters={setInitialStockFilters} />;
+    // Users without the page's permission are sent to the dashboard
+    if (!canAccessPage(authenticatedUser, roles, currentPage)) {
+        return <Dashboard items={items} history={entryExitHistory} employees={employees} navigate={navigate} can={can} />;
     }
 
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard items={items} history={entryExitHistory} setCurrentPage={setCurrentPage} setInitialStockFilters={setInitialStockFilters} />;
+        return <Dashboard items={items} history={entryExitHistory} employees={employees} navigate={navigate} can={can} />;
       case 'stock':
         return <StockList 
                     items={items}
                     suppliers={suppliers}
                     categories={categories}
                     units={units}
+                    locations={locations}
                     setItems={setItems} 
-                    setActivePage={setCurrentPage} 
-                    setItemForEntry={setItemForEntry} 
-                    setItemForExit={setItemForExit} 
-                    history={entryExitHistory} 
-                    initialSearchTerm={initialStockSearch}
-                    clearInitialSearch={() => setInitialStockSearch('')}
-                    initialFilters={initialStockFilters}
-                    clearInitialFilters={() => setInitialStockFilters({})}
+                    route={route}
+                    navigate={navigate}
                     addAuditLog={addAuditLog}
+                    createItems={createItems}
+                    registerMovements={registerMovements}
+                    can={can}
                 />;
+      case 'item':
+        return <ItemDetail items={items} locations={locations} history={entryExitHistory} suppliers={suppliers} route={route} navigate={navigate} registerMovements={registerMovements} periodClosings={periodClosings} reverseMovement={reverseMovement} addAuditLog={addAuditLog} can={can} />;
       case 'new-entry':
-        return <NewEntry items={items} setItems={setItems} itemForEntry={itemForEntry} clearItemForEntry={() => setItemForEntry(null)} addAuditLog={addAuditLog} suppliers={suppliers} />;
+        return <NewEntry key={routeItem?.id ?? routeOrder?.id} items={items} itemForEntry={routeItem} addAuditLog={addAuditLog} registerMovements={registerMovements} suppliers={suppliers} purchaseOrders={purchaseOrders} orderForEntry={routeOrder} receivePurchaseOrder={receivePurchaseOrder} history={entryExitHistory} importInvoice={importInvoice} />;
       case 'new-exit':
-        return <NewExit items={items} setItems={setItems} itemForExit={itemForExit} clearItemForExit={() => setItemForExit(null)} addAuditLog={addAuditLog} />;
+        return <NewExit key={routeItem?.id} items={items} locations={locations} employees={employees} costCenters={costCenters} history={entryExitHistory} approvalRules={approvalRules} canApproveExits={can('exit.approve')} itemForExit={routeItem} addAuditLog={addAuditLog} registerMovements={registerMovements} requestExitApproval={requestExitApproval} />;
+      case 'loans':
+        return <ToolLoans items={items} loans={toolLoans} route={route} navigate={navigate} checkOutTool={checkOutTool} checkInTool={checkInTool} addAuditLog={addAuditLog} />;
+      case 'requisitions':
+        return <Requisitions requisitions={requisitions} items={items} employees={employees} costCenters={costCenters} currentUser={authenticatedUser} route={route} navigate={navigate} can={can} createRequisition={createRequisition} fulfilRequisition={fulfilRequisition} cancelRequisition={cancelRequisition} addAuditLog={addAuditLog} />;
+      case 'approvals':
+        return <ExitApprovals approvals={exitApprovals} rules={approvalRules} setRules={setApprovalRules} items={items} categories={categories} route={route} navigate={navigate} approveExit={approveExit} rejectExit={rejectExit} addAuditLog={addAuditLog} />;
+      case 'purchase-orders':
+        return <PurchaseOrders orders={purchaseOrders} items={items} suppliers={suppliers} route={route} navigate={navigate} createPurchaseOrders={createPurchaseOrders} updatePurchaseOrder={updatePurchaseOrder} sendPurchaseOrder={sendPurchaseOrder} cancelPurchaseOrder={cancelPurchaseOrder} canReceive={can('movement.entry')} addAuditLog={addAuditLog} />;
       case 'reports':
-        return <Reports items={items} history={entryExitHistory} addAuditLog={addAuditLog} suppliers={suppliers} />;
+        return <Reports items={items} history={entryExitHistory} costCenters={costCenters} purchaseOrders={purchaseOrders} createPurchaseOrders={createPurchaseOrders} addAuditLog={addAuditLog} suppliers={suppliers} can={can} route={route} navigate={navigate} />;
       case 'users':
         return <UserManagement 
                     users={users} 
+                    roles={roles}
                     setUsers={setUsers} 
+                    onCreateUser={handleCreateUser}
+                    onUnlockUser={handleUnlockUser}
                     onChangePassword={onRequestChangePasswordForUser}
                     addAuditLog={addAuditLog}
                 />;
+      case 'roles':
+          return <RoleManagement roles={roles} setRoles={setRoles} users={users} addAuditLog={addAuditLog} />;
       case 'suppliers':
-          return <SupplierManagement suppliers={suppliers} setSuppliers={setSuppliers} addAuditLog={addAuditLog} />;
+          return <SupplierManagement suppliers={suppliers} setSuppliers={setSuppliers} items={items} addAuditLog={addAuditLog} />;
+      case 'categories':
+          return <CategoryManagement categories={categories} setCategories={setCategories} items={items} onSave={saveCategory} onMerge={mergeCategory} addAuditLog={addAuditLog} />;
+      case 'units':
+          return <UnitManagement units={units} setUnits={setUnits} items={items} onSave={saveUnit} onMerge={mergeUnit} addAuditLog={addAuditLog} />;
+      case 'employees':
+          return <EmployeeManagement employees={employees} setEmployees={setEmployees} items={items} history={entryExitHistory} addAuditLog={addAuditLog} />;
+      case 'cost-centers':
+          return <CostCenterManagement costCenters={costCenters} setCostCenters={setCostCenters} history={entryExitHistory} addAuditLog={addAuditLog} />;
+      case 'periods':
+          return <PeriodClosingManagement closings={periodClosings} setClosings={setPeriodClosings} history={entryExitHistory} currentUser={authenticatedUser} addAuditLog={addAuditLog} />;
+      case 'locations':
+          return <LocationManagement locations={locations} setLocations={setLocations} items={items} addAuditLog={addAuditLog} can={can} />;
       case 'inventory':
-          return <Inventory items={items} setItems={setItems} addAuditLog={addAuditLog} />;
+          return <Inventory items={items} sessions={inventorySessions} addAuditLog={addAuditLog} registerInventorySession={registerInventorySession} />;
       case 'audit':
           return <AuditLog logs={auditLogs} users={users} />;
       case 'backup':
           return <BackupRestore 
                     items={items}
                     users={users}
+                    roles={roles}
                     history={entryExitHistory}
                     suppliers={suppliers}
                     categories={categories}
                     units={units}
+                    locations={locations}
+                    employees={employees}
+                    costCenters={costCenters}
                     auditLogs={auditLogs}
                     setItems={setItems}
                     setUsers={setUsers}
+                    setRoles={setRoles}
                     setHistory={setEntryExitHistory}
                     setSuppliers={setSuppliers}
                     setCategories={setCategories}
                     setUnits={setUnits}
+                    setLocations={setLocations}
+                    setEmployees={setEmployees}
+                    setCostCenters={setCostCenters}
                     setAuditLogs={setAuditLogs}
                     addAuditLog={addAuditLog}
                   />;
       default:
-        return <Dashboard items={items} history={entryExitHistory} setCurrentPage={setCurrentPage} setInitialStockFilters={setInitialStockFilters} />;
+        return <Dashboard items={items} history={entryExitHistory} employees={employees} navigate={navigate} can={can} />;
     }
-  }, [currentPage, itemForEntry, itemForExit, authenticatedUser, users, items, suppliers, categories, units, entryExitHistory, auditLogs, initialStockSearch, initialStockFilters]);
+  }, [route, routeItem, routeOrder, authenticatedUser, users, roles, items, suppliers, categories, units, locations, employees, costCenters, periodClosings, entryExitHistory, auditLogs, inventorySessions, toolLoans, requisitions, approvalRules, exitApprovals, purchaseOrders]);
+
+  if (isRestoringSession || (isDataEnabled && !isDataLoaded)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#002347]">
+        <p className="text-white text-lg">Carregando dados do almoxarifado...</p>
+      </div>
+    );
+  }
 
-  if (!authenticatedUser && !changePasswordUser) {
-    return <Login onLogin={handleLogin} users={users} />;
+  if (!authenticatedUser) {
+    return <Login onLogin={handleLogin} notice={sessionNotice} />;
   }
 
+  const isPasswordChangeForced = !!authenticatedUser.mustChangePassword;
+  const passwordModalUser = isPasswordChangeForced ? authenticatedUser : changePasswordUser;
+  const isChangingOwnPassword = passwordModalUser?.id === authenticatedUser.id;
+
   const getModalTitle = () => {
-    if (!changePasswordUser) return '';
-    if (changePasswordUser.password === 'changeme') {
+    if (!passwordModalUser) return '';
+    if (isPasswordChangeForced) {
       return 'Crie uma Nova Senha';
     }
-    if (authenticatedUser && authenticatedUser.id !== changePasswordUser.id) {
-      return `Alterar Senha de ${changePasswordUser.name}`;
+    if (!isChangingOwnPassword) {
+      return `Definir Senha Temporária de ${passwordModalUser.name}`;
     }
     return 'Alterar Senha';
   };
@@ -198,35 +762,39 @@ const App: React.FC = () => {
   return (
     <>
       <Layout 
-        user={authenticatedUser || changePasswordUser!} // Provide a user object to layout even during forced change
+        user={authenticatedUser}
         onLogout={handleLogout}
         activePage={currentPage} 
         setActivePage={setCurrentPage}
         onUpdateProfilePicture={handleUpdateProfilePicture}
-        isPasswordChangeForced={!!changePasswordUser && changePasswordUser.password === 'changeme'}
+        isPasswordChangeForced={isPasswordChangeForced}
         items={items}
         onGlobalSearch={handleGlobalSearch}
         onNavigateWithFilters={handleNavigateWithFilters}
+        securitySettings={securitySettings}
+        onSessionTimeout={handleSessionTimeout}
+        onSessionActivity={handleSessionActivity}
+        can={can}
       >
         {renderPage()}
       </Layout>
+
+      {saveError && <Toast message={saveError} type="error" onClose={() => setSaveError('')} />}
       
-      {changePasswordUser && (
+      {passwordModalUser && (
         <ChangePasswordModal
-          isOpen={!!changePasswordUser}
+          isOpen={!!passwordModalUser}
           onClose={() => {
             // Only allow closing if it's not a forced change
-            if (changePasswordUser.password !== 'changeme') {
+            if (!isPasswordChangeForced) {
               setChangePasswordUser(null);
             }
           }}
-          onSave={(newPassword) => handleUpdatePassword(changePasswordUser.id, newPassword)}
+          onSave={(newPassword, currentPassword) => handleUpdatePassword(passwordModalUser.id, newPassword, currentPassword)}
           title={getModalTitle()}
-          isForced={changePasswordUser.password === 'changeme'}
-          allowDefaultPassword={
-            authenticatedUser?.role === 'Admin' && 
-            authenticatedUser.id !== changePasswordUser.id
-          }
+          isForced={isPasswordChangeForced}
+          requireCurrentPassword={isChangingOwnPassword}
+          securitySettings={securitySettings}
         />
       )}
     </>
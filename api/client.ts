@@ -0,0 +1,243 @@
+import { Item, Category, UnitOfMeasurement, AuditLog, EntryExitRecord, NewMovement, InventorySession, ToolLoan, NewToolLoan, ToolLoanReturn, Requisition, NewRequisition, RequisitionFulfilment, ExitApproval, PurchaseOrder, NewPurchaseOrder, PurchaseOrderReceipt, Supplier, InvoiceImport } from '../types';
+
+// Base URL of the REST API (e.g. "/api" behind the Vite proxy). When empty the
+// app runs standalone on the browser's IndexedDB storage.
+export const API_URL = process.env.API_URL || '';
+export const isApiEnabled = API_URL !== '';
+
+export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+// The session token is kept in sessionStorage so a page reload does not log the user
+// out, while closing the browser tab does.
+const SESSION_TOKEN_KEY = 'alumasa.sessionToken';
+
+let sessionToken: string | null = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(SESSION_TOKEN_KEY) : null;
+let unauthorizedHandler: (() => void) | null = null;
+
+export const getSessionToken = () => sessionToken;
+
+export const setSessionToken = (token: string | null) => {
+    sessionToken = token;
+    if (token) {
+        sessionStorage.setItem(SESSION_TOKEN_KEY, token);
+    } else {
+        sessionStorage.removeItem(SESSION_TOKEN_KEY);
+    }
+};
+
+// Called when the server rejects the session (expired or revoked), so the app can return to the login screen.
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+    unauthorizedHandler = handler;
+};
+
+export const apiRequest = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${API_URL}${path}`, {
+            ...options,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
+                ...options.headers,
+            },
+        });
+    } catch {
+        throw new ApiError(0, 'Não foi possível conectar ao servidor.');
+    }
+    if (response.status === 401 && sessionToken) {
+        setSessionToken(null);
+        unauthorizedHandler?.();
+    }
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new ApiError(response.status, body?.error || `Erro ${response.status} ao comunicar com o servidor.`);
+    }
+    if (response.status === 204) return undefined as T;
+    return response.json() as Promise<T>;
+};
+
+// Audit entries are appended by the server, in the name of the session user and at its time.
+export const postAuditLog = (action: string) => {
+    return apiRequest<AuditLog>('/audit-logs', {
+        method: 'POST',
+        body: JSON.stringify({ action }),
+    });
+};
+
+export interface MovementResult {
+    items: Item[];
+    records: EntryExitRecord[];
+}
+
+// New items are saved without stock together with the opening balance of the quantity
+// typed on them.
+export const postItems = (items: Item[], observations: string) => {
+    return apiRequest<MovementResult>('/items', {
+        method: 'POST',
+        body: JSON.stringify({ items, observations }),
+    });
+};
+
+// The user responsible for the movements is taken from the session on the server.
+export const postMovements = (movements: NewMovement[]) => {
+    return apiRequest<MovementResult>('/movements', {
+        method: 'POST',
+        body: JSON.stringify({ movements }),
+    });
+};
+
+// The reversal movements, the mark on the reversed movement, its audit entry and the purchase
+// order or requisition it was made for are saved together; the records include the reversed
+// movement.
+export const postMovementReversal = (recordId: string, reason: string) => {
+    return apiRequest<MovementResult & { auditLog: AuditLog; order?: PurchaseOrder; requisition?: Requisition }>(`/movements/${encodeURIComponent(recordId)}/reverse`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+    });
+};
+
+// Saves a category or unit and refreshes the name copied onto its items, in one transaction.
+export const putCatalogEntry = <T extends Category | UnitOfMeasurement>(resource: 'categories' | 'units', record: T) => {
+    return apiRequest<{ record: T; items: Item[] }>(`/${resource}/${encodeURIComponent(record.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(record),
+    });
+};
+
+// Moves the items of a category or unit to another one and removes it, in one transaction.
+export const postCatalogMerge = (resource: 'categories' | 'units', sourceId: string, targetId: string) => {
+    return apiRequest<{ items: Item[] }>(`/${resource}/${encodeURIComponent(sourceId)}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ targetId }),
+    });
+};
+
+export const postInventorySession = (counts: { itemId: string; countedQuantity: number; location?: string }[]) => {
+    return apiRequest<MovementResult & { session: InventorySession }>('/inventory-sessions', {
+        method: 'POST',
+        body: JSON.stringify({ counts }),
+    });
+};
+
+export interface LoanResult {
+    item: Item;
+    loan: ToolLoan;
+}
+
+// Check-out and check-in update the item and the loan together.
+export const postToolLoan = (loan: NewToolLoan) => {
+    return apiRequest<LoanResult>('/tool-loans', {
+        method: 'POST',
+        body: JSON.stringify(loan),
+    });
+};
+
+export const postToolLoanReturn = (loanId: string, data: ToolLoanReturn) => {
+    return apiRequest<LoanResult>(`/tool-loans/${encodeURIComponent(loanId)}/return`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+};
+
+export type RequisitionResult = MovementResult & { requisition: Requisition };
+
+export const postRequisition = (requisition: NewRequisition) => {
+    return apiRequest<Requisition>('/requisitions', {
+        method: 'POST',
+        body: JSON.stringify(requisition),
+    });
+};
+
+// The exits of all lines and the requisition are saved together.
+export const postRequisitionFulfilment = (requisitionId: string, data: RequisitionFulfilment) => {
+    return apiRequest<RequisitionResult>(`/requisitions/${encodeURIComponent(requisitionId)}/fulfil`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+};
+
+export const postRequisitionCancel = (requisitionId: string, reason: string) => {
+    return apiRequest<Requisition>(`/requisitions/${encodeURIComponent(requisitionId)}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+    });
+};
+
+export type ApprovalResult = MovementResult & { approval: ExitApproval; auditLog: AuditLog };
+export type RejectionResult = { approval: ExitApproval; auditLog: AuditLog };
+
+// Exits matching an approval rule are held until approved.
+export const postExitApproval = (movement: NewMovement) => {
+    return apiRequest<ExitApproval>('/exit-approvals', {
+        method: 'POST',
+        body: JSON.stringify({ movement }),
+    });
+};
+
+// Approving registers the exit; both are saved together with the audit entry of the decision.
+export const postExitApprove = (approvalId: string, notes: string) => {
+    return apiRequest<ApprovalResult>(`/exit-approvals/${encodeURIComponent(approvalId)}/approve`, {
+        method: 'POST',
+        body: JSON.stringify({ notes }),
+    });
+};
+
+export const postExitReject = (approvalId: string, notes: string) => {
+    return apiRequest<RejectionResult>(`/exit-approvals/${encodeURIComponent(approvalId)}/reject`, {
+        method: 'POST',
+        body: JSON.stringify({ notes }),
+    });
+};
+
+// Orders generated together are numbered and saved together.
+export const postPurchaseOrders = (orders: NewPurchaseOrder[]) => {
+    return apiRequest<PurchaseOrder[]>('/purchase-orders', {
+        method: 'POST',
+        body: JSON.stringify({ orders }),
+    });
+};
+
+// Only drafts can be changed.
+export const putPurchaseOrder = (orderId: string, order: NewPurchaseOrder) => {
+    return apiRequest<PurchaseOrder>(`/purchase-orders/${encodeURIComponent(orderId)}`, {
+        method: 'PUT',
+        body: JSON.stringify(order),
+    });
+};
+
+export const postPurchaseOrderSend = (orderId: string) => {
+    return apiRequest<PurchaseOrder>(`/purchase-orders/${encodeURIComponent(orderId)}/send`, {
+        method: 'POST',
+    });
+};
+
+export type ReceiptResult = MovementResult & { order: PurchaseOrder };
+
+// The entries of all received lines and the order balance are saved together.
+export const postPurchaseOrderReceipt = (orderId: string, receipt: PurchaseOrderReceipt) => {
+    return apiRequest<ReceiptResult>(`/purchase-orders/${encodeURIComponent(orderId)}/receive`, {
+        method: 'POST',
+        body: JSON.stringify(receipt),
+    });
+};
+
+export const postPurchaseOrderCancel = (orderId: string, reason: string) => {
+    return apiRequest<PurchaseOrder>(`/purchase-orders/${encodeURIComponent(orderId)}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+    });
+};
+
+export type InvoiceImportResult = MovementResult & { supplier: Supplier };
+
+// The entries of the NF-e and the supplier codes learned are saved together.
+export const postInvoiceImport = (data: InvoiceImport) => {
+    return apiRequest<InvoiceImportResult>(`/suppliers/${encodeURIComponent(data.supplierId)}/invoices`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+};
@@ -0,0 +1,76 @@
+import { User } from '../types';
+import { apiRequest, getSessionToken, setSessionToken } from '../api/client';
+import { AuthService, AuthResult } from './authService';
+import { SecuritySettings, DEFAULT_SECURITY_SETTINGS } from './securityPolicy';
+
+// Authentication against the REST API. Passwords are verified and hashed on the server,
+// which issues the session token sent with every request.
+export const createApiAuthService = (): AuthService => {
+    const login = async (email: string, password: string) => {
+        setSessionToken(null);
+        const session = await apiRequest<{ token: string; user: User; expiresAt: string }>('/auth/login', {
+            method: 'POST',
+            body: JSON.stringify({ email, password }),
+        });
+        setSessionToken(session.token);
+        return session.user;
+    };
+
+    const restoreSession = async () => {
+        if (!getSessionToken()) return null;
+        try {
+            const session = await apiRequest<{ user: User; expiresAt: string }>('/auth/session');
+            return session.user;
+        } catch {
+            return null;
+        }
+    };
+
+    const logout = async (reason?: 'timeout') => {
+        try {
+            await apiRequest<void>('/auth/logout', { method: 'POST', body: JSON.stringify({ reason }) });
+        } finally {
+            setSessionToken(null);
+        }
+    };
+
+    // Any authenticated request refreshes the server-side idle timer.
+    const touchSession = async () => {
+        await apiRequest<{ user: User; expiresAt: string }>('/auth/session');
+    };
+
+    const getSecuritySettings = async () => {
+        try {
+            return await apiRequest<SecuritySettings>('/auth/settings');
+        } catch {
+            return DEFAULT_SECURITY_SETTINGS;
+        }
+    };
+
+    const changePassword = (currentPassword: string, newPassword: string) => {
+        return apiRequest<AuthResult>('/auth/password', {
+            method: 'POST',
+            body: JSON.stringify({ currentPassword, newPassword }),
+        });
+    };
+
+    const resetPassword = (userId: string, temporaryPassword: string) => {
+        return apiRequest<AuthResult>(`/users/${encodeURIComponent(userId)}/password`, {
+            method: 'PUT',
+            body: JSON.stringify({ temporaryPassword }),
+        });
+    };
+
+    const createUser = (user: User, temporaryPassword: string) => {
+        return apiRequest<AuthResult>('/users', {
+            method: 'POST',
+            body: JSON.stringify({ user, temporaryPassword }),
+        });
+    };
+
+    const unlockUser = (userId: string) => {
+        return apiRequest<AuthResult>(`/users/${encodeURIComponent(userId)}/unlock`, { method: 'POST' });
+    };
+
+    return { login, restoreSession, logout, touchSession, getSecuritySettings, changePassword, resetPassword, createUser, unlockUser };
+};
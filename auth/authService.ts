@@ -0,0 +1,31 @@
+import { User, AuditLog } from '../types';
+import { SecuritySettings } from './securityPolicy';
+
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Result of an operation that changes credentials: the updated user record and the
+// audit entry recorded for it, so the caller can merge both into its state.
+export interface AuthResult {
+    user: User;
+    auditLog: AuditLog;
+}
+
+// Passwords never leave the auth service: the rest of the app only sees users and the
+// `mustChangePassword` flag. Every method rejects with an Error whose message can be
+// shown to the user.
+export interface AuthService {
+    login: (email: string, password: string) => Promise<User>;
+    // Returns the user of the session that is still open in this tab, if any.
+    restoreSession: () => Promise<User | null>;
+    // `reason: 'timeout'` records the logout as an idle timeout instead of a regular logout.
+    logout: (reason?: 'timeout') => Promise<void>;
+    // Tells the session store the user is still active, so the idle timeout starts over.
+    touchSession: () => Promise<void>;
+    getSecuritySettings: () => Promise<SecuritySettings>;
+    changePassword: (currentPassword: string, newPassword: string) => Promise<AuthResult>;
+    // Assigns a temporary password that the user must replace on the next login.
+    resetPassword: (userId: string, temporaryPassword: string) => Promise<AuthResult>;
+    createUser: (user: User, temporaryPassword: string) => Promise<AuthResult>;
+    // Lifts a lockout caused by failed logins before the lockout period ends.
+    unlockUser: (userId: string) => Promise<AuthResult>;
+}
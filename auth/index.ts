@@ -0,0 +1,7 @@
+import { isApiEnabled } from '../api/client';
+import { createApiAuthService } from './apiAuthService';
+import { createLocalAuthService } from './localAuthService';
+
+export const authService = isApiEnabled ? createApiAuthService() : createLocalAuthService();
+
+export type { AuthService, AuthResult } from './authService';
@@ -0,0 +1,247 @@
+import { User, AuditLog, AuditEventType } from '../types';
+import { createRepository } from '../storage/repository';
+import { AuthService, AuthResult, SESSION_TTL_MS } from './authService';
+import {
+    DEFAULT_SECURITY_SETTINGS,
+    validatePassword,
+    getPasswordReuseMessage,
+    isAccountLocked,
+    getLockoutMessage,
+    registerFailedLogin,
+} from './securityPolicy';
+
+interface StoredCredential {
+    id: string; // user id
+    passwordHash?: string;
+    // Plain password carried over by the storage migration, replaced by a hash on first use.
+    pendingPassword?: string;
+    failedAttempts?: number;
+    // Hashes of the most recent passwords, current one first.
+    passwordHistory?: string[];
+}
+
+interface LocalSession {
+    userId: string;
+    expiresAt: string;
+    lastSeenAt: string;
+}
+
+const LOCAL_SESSION_KEY = 'alumasa.localSession';
+const PBKDF2_ITERATIONS = 210000;
+const settings = DEFAULT_SECURITY_SETTINGS;
+
+const credentialRepository = createRepository<StoredCredential>('credentials');
+const userRepository = createRepository<User>('users');
+const auditLogRepository = createRepository<AuditLog>('auditLogs');
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) => [...new Uint8Array(bytes)].map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+const deriveKey = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    return toHex(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256));
+};
+
+// Same "<algorithm>$...$<hash>" layout as the server, with PBKDF2 because scrypt is not
+// available in the browser.
+const hashPassword = async (password: string) => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toHex(salt)}$${await deriveKey(password, salt, PBKDF2_ITERATIONS)}`;
+};
+
+const verifyPassword = async (password: string, storedHash: string) => {
+    const [algorithm, iterations, saltHex, hashHex] = storedHash.split('$');
+    if (algorithm !== 'pbkdf2-sha256' || !saltHex || !hashHex) return false;
+    return await deriveKey(password, fromHex(saltHex), Number(iterations)) === hashHex;
+};
+
+const getCredential = async (userId: string): Promise<StoredCredential | undefined> => {
+    const credential = await credentialRepository.getById(userId);
+    if (credential?.pendingPassword !== undefined) {
+        const passwordHash = await hashPassword(credential.pendingPassword);
+        const hashed: StoredCredential = { id: userId, passwordHash, failedAttempts: 0, passwordHistory: [passwordHash] };
+        await credentialRepository.save(hashed);
+        return hashed;
+    }
+    return credential;
+};
+
+// Validates the password against the policy and the recent history before storing its hash.
+const setPassword = async (userId: string, password: string) => {
+    if (!password) throw new Error('A senha é obrigatória.');
+    const policyError = validatePassword(password, settings);
+    if (policyError) throw new Error(policyError);
+
+    const history = (await getCredential(userId))?.passwordHistory ?? [];
+    for (const hash of history.slice(0, settings.passwordHistorySize)) {
+        if (await verifyPassword(password, hash)) throw new Error(getPasswordReuseMessage(settings));
+    }
+
+    const passwordHash = await hashPassword(password);
+    await credentialRepository.save({
+        id: userId,
+        passwordHash,
+        failedAttempts: 0,
+        passwordHistory: [passwordHash, ...history].slice(0, settings.passwordHistorySize),
+    });
+};
+
+const recordAuditLog = async (user: User, action: string, eventType?: AuditEventType) => {
+    const auditLog: AuditLog = {
+        id: `log-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        userId: user.id,
+        userName: user.name,
+        action,
+        eventType,
+    };
+    await auditLogRepository.save(auditLog);
+    return auditLog;
+};
+
+const writeSession = (session: LocalSession | null) => {
+    if (session) {
+        sessionStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+    } else {
+        sessionStorage.removeItem(LOCAL_SESSION_KEY);
+    }
+};
+
+// Returns the open session, ending it if it expired or was idle for too long.
+const readSession = async (): Promise<LocalSession | null> => {
+    const stored = sessionStorage.getItem(LOCAL_SESSION_KEY);
+    if (!stored) return null;
+    const session = JSON.parse(stored) as LocalSession;
+    const now = new Date();
+    if (session.expiresAt <= now.toISOString()) {
+        writeSession(null);
+        return null;
+    }
+    if (now.getTime() - new Date(session.lastSeenAt).getTime() > settings.idleTimeoutMinutes * 60000) {
+        writeSession(null);
+        const user = await userRepository.getById(session.userId);
+        if (user) await recordAuditLog(user, 'Sessão encerrada por inatividade.', 'session_timeout');
+        return null;
+    }
+    return session;
+};
+
+const requireSessionUser = async () => {
+    const session = await readSession();
+    const user = session && await userRepository.getById(session.userId);
+    if (!user) throw new Error('Sessão expirada. Faça login novamente.');
+    return user;
+};
+
+// Standalone mode: credentials are hashed and kept in the browser's IndexedDB, in a
+// store that is not exposed through the user records, backups or exports.
+export const createLocalAuthService = (): AuthService => {
+    const login = async (email: string, password: string) => {
+        const now = new Date();
+        const normalized = email.trim().toLowerCase();
+        let user = (await userRepository.getAll()).find(u => u.email.toLowerCase() === normalized);
+        const credential = user && await getCredential(user.id);
+        if (!user || !credential?.passwordHash) {
+            throw new Error('E-mail ou senha inválidos.');
+        }
+
+        if (isAccountLocked(user, now)) {
+            throw new Error(getLockoutMessage(user, now));
+        }
+        if (user.lockedUntil) {
+            const { lockedUntil, ...unlocked } = user;
+            user = unlocked;
+            credential.failedAttempts = 0;
+            await userRepository.save(user);
+            await recordAuditLog(user, 'Conta desbloqueada após o fim do período de bloqueio.', 'account_unlocked');
+        }
+
+        if (!(await verifyPassword(password, credential.passwordHash))) {
+            const failure = registerFailedLogin(credential.failedAttempts ?? 0, settings, now);
+            await credentialRepository.save({ ...credential, failedAttempts: failure.failedAttempts });
+            if (failure.lockedUntil) {
+                await userRepository.save({ ...user, lockedUntil: failure.lockedUntil });
+                await recordAuditLog(user, `Conta bloqueada após ${settings.maxFailedLogins} tentativas de login inválidas.`, 'account_locked');
+                throw new Error(getLockoutMessage({ lockedUntil: failure.lockedUntil }, now));
+            }
+            throw new Error('E-mail ou senha inválidos.');
+        }
+
+        await credentialRepository.save({ ...credential, failedAttempts: 0 });
+        writeSession({ userId: user.id, expiresAt: new Date(now.getTime() + SESSION_TTL_MS).toISOString(), lastSeenAt: now.toISOString() });
+        await recordAuditLog(user, 'Fez login no sistema.', 'login');
+        return user;
+    };
+
+    const restoreSession = async () => {
+        const session = await readSession();
+        return session ? (await userRepository.getById(session.userId)) ?? null : null;
+    };
+
+    const logout = async (reason?: 'timeout') => {
+        const session = await readSession();
+        const user = session && await userRepository.getById(session.userId);
+        writeSession(null);
+        if (!user) return;
+        if (reason === 'timeout') {
+            await recordAuditLog(user, 'Sessão encerrada por inatividade.', 'session_timeout');
+        } else {
+            await recordAuditLog(user, 'Fez logout do sistema.', 'logout');
+        }
+    };
+
+    const touchSession = async () => {
+        const session = await readSession();
+        if (session) writeSession({ ...session, lastSeenAt: new Date().toISOString() });
+    };
+
+    const getSecuritySettings = async () => settings;
+
+    const changePassword = async (currentPassword: string, newPassword: string): Promise<AuthResult> => {
+        const sessionUser = await requireSessionUser();
+        const credential = await getCredential(sessionUser.id);
+        if (!credential?.passwordHash || !(await verifyPassword(currentPassword, credential.passwordHash))) {
+            throw new Error('A senha atual está incorreta.');
+        }
+        await setPassword(sessionUser.id, newPassword);
+        const user = { ...sessionUser, mustChangePassword: false };
+        await userRepository.save(user);
+        return { user, auditLog: await recordAuditLog(user, 'Alterou a própria senha.', 'password_changed') };
+    };
+
+    const resetPassword = async (userId: string, temporaryPassword: string): Promise<AuthResult> => {
+        const actor = await requireSessionUser();
+        const target = await userRepository.getById(userId);
+        if (!target) throw new Error('Usuário não encontrado.');
+        await setPassword(userId, temporaryPassword);
+        const { lockedUntil, ...fields } = target;
+        const user = { ...fields, mustChangePassword: true };
+        await userRepository.save(user);
+        return { user, auditLog: await recordAuditLog(actor, `Definiu uma senha temporária para o usuário ${user.name}.`, 'password_reset') };
+    };
+
+    const createUser = async (newUser: User, temporaryPassword: string): Promise<AuthResult> => {
+        const actor = await requireSessionUser();
+        const normalized = newUser.email.trim().toLowerCase();
+        if ((await userRepository.getAll()).some(u => u.email.toLowerCase() === normalized)) {
+            throw new Error('Já existe um usuário com este e-mail.');
+        }
+        await setPassword(newUser.id, temporaryPassword);
+        const user = { ...newUser, mustChangePassword: true };
+        await userRepository.save(user);
+        return { user, auditLog: await recordAuditLog(actor, `Criou o usuário ${user.name} (${user.email}).`, 'user_created') };
+    };
+
+    const unlockUser = async (userId: string): Promise<AuthResult> => {
+        const actor = await requireSessionUser();
+        const target = await userRepository.getById(userId);
+        if (!target) throw new Error('Usuário não encontrado.');
+        const credential = await getCredential(userId);
+        if (credential) await credentialRepository.save({ ...credential, failedAttempts: 0 });
+        const { lockedUntil, ...user } = target;
+        await userRepository.save(user);
+        return { user, auditLog: await recordAuditLog(actor, `Desbloqueou a conta do usuário ${user.name}.`, 'account_unlocked') };
+    };
+
+    return { login, restoreSession, logout, touchSession, getSecuritySettings, changePassword, resetPassword, createUser, unlockUser };
+};
@@ -0,0 +1,90 @@
+import { Page, Permission, Role, User } from '../types';
+
+export interface PermissionDefinition {
+    id: Permission;
+    label: string;
+    group: string;
+}
+
+export const PERMISSIONS: PermissionDefinition[] = [
+    { id: 'item.create', label: 'Cadastrar itens', group: 'Itens' },
+    { id: 'item.edit', label: 'Editar itens', group: 'Itens' },
+    { id: 'item.edit_cost', label: 'Informar custo dos itens', group: 'Itens' },
+    { id: 'item.delete', label: 'Excluir itens', group: 'Itens' },
+    { id: 'location.manage', label: 'Gerenciar localizações', group: 'Itens' },
+    { id: 'movement.entry', label: 'Registrar entradas', group: 'Movimentações' },
+    { id: 'movement.exit', label: 'Registrar saídas', group: 'Movimentações' },
+    { id: 'movement.transfer', label: 'Transferir entre localizações', group: 'Movimentações' },
+    { id: 'movement.reverse', label: 'Estornar movimentações', group: 'Movimentações' },
+    { id: 'requisition.create', label: 'Criar requisições de material', group: 'Movimentações' },
+    { id: 'exit.approve', label: 'Aprovar saídas', group: 'Movimentações' },
+    { id: 'loan.manage', label: 'Emprestar ferramentas', group: 'Movimentações' },
+    { id: 'inventory.approve', label: 'Aprovar inventários', group: 'Movimentações' },
+    { id: 'report.view', label: 'Ver relatórios', group: 'Relatórios' },
+    { id: 'report.view_values', label: 'Ver valores e custos', group: 'Relatórios' },
+    { id: 'supplier.manage', label: 'Gerenciar fornecedores', group: 'Controle' },
+    { id: 'purchase_order.manage', label: 'Gerenciar pedidos de compra', group: 'Controle' },
+    { id: 'period.close', label: 'Fechar períodos de estoque', group: 'Controle' },
+    { id: 'employee.manage', label: 'Gerenciar colaboradores e EPI', group: 'Controle' },
+    { id: 'cost_center.manage', label: 'Gerenciar centros de custo', group: 'Controle' },
+    { id: 'user.manage', label: 'Gerenciar usuários', group: 'Controle' },
+    { id: 'role.manage', label: 'Gerenciar perfis de acesso', group: 'Controle' },
+    { id: 'backup.restore', label: 'Backup e restauração', group: 'Controle' },
+    { id: 'audit.view', label: 'Ver log de auditoria', group: 'Controle' },
+];
+
+export const ADMIN_ROLE_ID = 'Admin';
+
+// Built-in roles. The ids match the old fixed profiles, so existing users keep their access.
+// The administrator role always has every permission and cannot be edited or removed.
+export const DEFAULT_ROLES: Role[] = [
+    {
+        id: ADMIN_ROLE_ID,
+        name: 'Administrador',
+        permissions: PERMISSIONS.map(permission => permission.id),
+        isSystem: true,
+    },
+    {
+        id: 'Operator',
+        name: 'Operador',
+        permissions: ['item.create', 'item.edit', 'item.edit_cost', 'item.delete', 'movement.entry', 'movement.exit', 'movement.transfer', 'requisition.create', 'loan.manage', 'employee.manage', 'report.view', 'report.view_values'],
+    },
+];
+
+// Pages that need a permission; the others are open to every logged-in user.
+export const PAGE_PERMISSIONS: Partial<Record<Page, Permission>> = {
+    'new-entry': 'movement.entry',
+    'new-exit': 'movement.exit',
+    requisitions: 'requisition.create',
+    approvals: 'exit.approve',
+    'purchase-orders': 'purchase_order.manage',
+    loans: 'loan.manage',
+    inventory: 'inventory.approve',
+    locations: 'location.manage',
+    categories: 'item.edit',
+    units: 'item.edit',
+    reports: 'report.view',
+    users: 'user.manage',
+    roles: 'role.manage',
+    suppliers: 'supplier.manage',
+    employees: 'employee.manage',
+    'cost-centers': 'cost_center.manage',
+    periods: 'period.close',
+    backup: 'backup.restore',
+    audit: 'audit.view',
+};
+
+export const getRolePermissions = (roleId: string, roles: Role[]): Permission[] => {
+    if (roleId === ADMIN_ROLE_ID) return PERMISSIONS.map(permission => permission.id);
+    return roles.find(role => role.id === roleId)?.permissions ?? [];
+};
+
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, roles: Role[], permission: Permission) =>
+    !!user && getRolePermissions(user.role, roles).includes(permission);
+
+export const canAccessPage = (user: Pick<User, 'role'> | null | undefined, roles: Role[], page: Page) => {
+    const permission = PAGE_PERMISSIONS[page];
+    return !permission || hasPermission(user, roles, permission);
+};
+
+export const getRoleName = (roleId: string, roles: Role[]) => roles.find(role => role.id === roleId)?.name ?? roleId;
@@ -0,0 +1,75 @@
+import { User } from '../types';
+
+export interface SecuritySettings {
+    // Failed logins in a row before the account is locked.
+    maxFailedLogins: number;
+    lockoutMinutes: number;
+    passwordMinLength: number;
+    passwordRequireUppercase: boolean;
+    passwordRequireLowercase: boolean;
+    passwordRequireDigit: boolean;
+    passwordRequireSymbol: boolean;
+    // Number of previous passwords (including the current one) that cannot be reused.
+    passwordHistorySize: number;
+    idleTimeoutMinutes: number;
+    // How long before the idle logout the warning is shown.
+    idleWarningSeconds: number;
+}
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+    maxFailedLogins: 5,
+    lockoutMinutes: 15,
+    passwordMinLength: 8,
+    passwordRequireUppercase: true,
+    passwordRequireLowercase: true,
+    passwordRequireDigit: true,
+    passwordRequireSymbol: false,
+    passwordHistorySize: 5,
+    idleTimeoutMinutes: 15,
+    idleWarningSeconds: 60,
+};
+
+export interface PasswordRule {
+    label: string;
+    test: (password: string) => boolean;
+}
+
+export const getPasswordRules = (settings: SecuritySettings): PasswordRule[] => {
+    const rules: PasswordRule[] = [
+        { label: `Pelo menos ${settings.passwordMinLength} caracteres`, test: password => password.length >= settings.passwordMinLength },
+    ];
+    if (settings.passwordRequireUppercase) rules.push({ label: 'Uma letra maiúscula', test: password => /[A-Z]/.test(password) });
+    if (settings.passwordRequireLowercase) rules.push({ label: 'Uma letra minúscula', test: password => /[a-z]/.test(password) });
+    if (settings.passwordRequireDigit) rules.push({ label: 'Um número', test: password => /\d/.test(password) });
+    if (settings.passwordRequireSymbol) rules.push({ label: 'Um caractere especial', test: password => /[^A-Za-z0-9]/.test(password) });
+    return rules;
+};
+
+// Returns the message to show when the password breaks the policy, or null when it is valid.
+// Reuse of previous passwords is checked separately, against the stored hashes.
+export const validatePassword = (password: string, settings: SecuritySettings): string | null => {
+    const unmet = getPasswordRules(settings).filter(rule => !rule.test(password));
+    if (unmet.length === 0) return null;
+    return `A senha não atende à política de segurança: ${unmet.map(rule => rule.label.toLowerCase()).join(', ')}.`;
+};
+
+export const getPasswordReuseMessage = (settings: SecuritySettings) =>
+    `A nova senha não pode ser igual a nenhuma das últimas ${settings.passwordHistorySize} senhas.`;
+
+export const isAccountLocked = (user: Pick<User, 'lockedUntil'>, now = new Date()) =>
+    !!user.lockedUntil && user.lockedUntil > now.toISOString();
+
+export const getLockoutMessage = (user: Pick<User, 'lockedUntil'>, now = new Date()) => {
+    const minutes = Math.max(1, Math.ceil((new Date(user.lockedUntil!).getTime() - now.getTime()) / 60000));
+    return `Conta bloqueada por excesso de tentativas de login. Tente novamente em ${minutes} minuto(s) ou contate o administrador.`;
+};
+
+// Counts a failed login and, once the limit is reached, returns the end of the lockout
+// period (the counter then starts over for the next period).
+export const registerFailedLogin = (failedAttempts: number, settings: SecuritySettings, now = new Date()) => {
+    const attempts = failedAttempts + 1;
+    if (attempts < settings.maxFailedLogins) {
+        return { failedAttempts: attempts, lockedUntil: undefined };
+    }
+    return { failedAttempts: 0, lockedUntil: new Date(now.getTime() + settings.lockoutMinutes * 60000).toISOString() };
+};
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { AuditLog, User } from '../types';
+import { AuditLog, AuditEventType, User } from '../types';
+import { AUDIT_EVENT_LABELS, AUDIT_EVENT_BADGE_CLASSES } from '../utils/audit';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Select from './ui/Select';
@@ -15,6 +16,7 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
     const [endDate, setEndDate] = useState('');
     const [selectedUserId, setSelectedUserId] = useState('');
     const [searchTerm, setSearchTerm] = useState('');
+    const [selectedEventType, setSelectedEventType] = useState<AuditEventType | ''>('');
 
     const [currentPage, setCurrentPage] = useState(1);
     const [itemsPerPage] = useState(15);
@@ -31,13 +33,14 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
             const matchesEndDate = endDate ? logDate <= new Date(new Date(endDate).setHours(23, 59, 59, 999)) : true;
             const matchesUser = selectedUserId ? log.userId === selectedUserId : true;
             const matchesSearch = searchTerm ? log.action.toLowerCase().includes(searchTerm.toLowerCase()) || log.userName.toLowerCase().includes(searchTerm.toLowerCase()) : true;
-            return matchesStartDate && matchesEndDate && matchesUser && matchesSearch;
+            const matchesEventType = selectedEventType ? log.eventType === selectedEventType : true;
+            return matchesStartDate && matchesEndDate && matchesUser && matchesSearch && matchesEventType;
         });
-    }, [logs, startDate, endDate, selectedUserId, searchTerm]);
+    }, [logs, startDate, endDate, selectedUserId, searchTerm, selectedEventType]);
 
     useEffect(() => {
         setCurrentPage(1);
-    }, [startDate, endDate, selectedUserId, searchTerm]);
+    }, [startDate, endDate, selectedUserId, searchTerm, selectedEventType]);
 
     const paginatedLogs = useMemo(() => {
         const startIndex = (currentPage - 1) * itemsPerPage;
@@ -61,6 +64,7 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
         setEndDate('');
         setSelectedUserId('');
         setSearchTerm('');
+        setSelectedEventType('');
     };
 
     return (
@@ -68,7 +72,7 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
             <h1 className="text-3xl font-bold text-gray-800">Log de Auditoria</h1>
 
             <Card>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 p-4 border-b">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 p-4 border-b">
                     <Input
                         type="date"
                         value={startDate}
@@ -85,6 +89,12 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
                         <option value="">Todos Usuários</option>
                         {logUsers.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
                     </Select>
+                    <Select value={selectedEventType} onChange={e => setSelectedEventType(e.target.value as AuditEventType | '')}>
+                        <option value="">Todos os Eventos</option>
+                        {(Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[]).map(type => (
+                            <option key={type} value={type}>{AUDIT_EVENT_LABELS[type]}</option>
+                        ))}
+                    </Select>
                     <Input
                         placeholder="Buscar na ação..."
                         value={searchTerm}
@@ -123,6 +133,11 @@ const AuditLog: React.FC<AuditLogProps> = ({ logs, users }) => {
                                             {log.userName}
                                         </td>
                                         <td className="px-6 py-4 text-sm text-gray-700">
+                                            {log.eventType && (
+                                                <span className={`mr-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${AUDIT_EVENT_BADGE_CLASSES[log.eventType]}`}>
+                                                    {AUDIT_EVENT_LABELS[log.eventType]}
+                                                </span>
+                                            )}
                                             {log.action}
                                         </td>
                                     </tr>
@@ -1,25 +1,35 @@
 import React, { useState, useRef } from 'react';
-import { Item, User, EntryExitRecord, Supplier, Category, UnitOfMeasurement, AuditLog as AuditLogType } from '../types';
+import { Item, User, Role, EntryExitRecord, Supplier, Category, UnitOfMeasurement, Location, Employee, CostCenter, AuditLog as AuditLogType } from '../types';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import Toast from './ui/Toast';
 import { UploadIcon, ExportIcon } from './icons/Icons';
+import { linkItemsToCatalog } from '../utils/catalog';
+import { isApiEnabled } from '../api/client';
 
 interface BackupRestoreProps {
     items: Item[];
     users: User[];
+    roles: Role[];
     history: EntryExitRecord[];
     suppliers: Supplier[];
     categories: Category[];
     units: UnitOfMeasurement[];
+    locations: Location[];
+    employees: Employee[];
+    costCenters: CostCenter[];
     auditLogs: AuditLogType[];
     setItems: React.Dispatch<React.SetStateAction<Item[]>>;
     setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+    setRoles: React.Dispatch<React.SetStateAction<Role[]>>;
     setHistory: React.Dispatch<React.SetStateAction<EntryExitRecord[]>>;
     setSuppliers: React.Dispatch<React.SetStateAction<Supplier[]>>;
     setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
     setUnits: React.Dispatch<React.SetStateAction<UnitOfMeasurement[]>>;
+    setLocations: React.Dispatch<React.SetStateAction<Location[]>>;
+    setEmployees: React.Dispatch<React.SetStateAction<Employee[]>>;
+    setCostCenters: React.Dispatch<React.SetStateAction<CostCenter[]>>;
     setAuditLogs: React.Dispatch<React.SetStateAction<AuditLogType[]>>;
     addAuditLog: (action: string) => void;
 }
@@ -27,17 +37,25 @@ interface BackupRestoreProps {
 const BackupRestore: React.FC<BackupRestoreProps> = ({ 
     items, 
     users, 
+    roles,
     history,
     suppliers,
     categories,
     units,
+    locations,
+    employees,
+    costCenters,
     auditLogs, 
     setItems, 
     setUsers, 
+    setRoles,
     setHistory, 
     setSuppliers,
     setCategories,
     setUnits,
+    setLocations,
+    setEmployees,
+    setCostCenters,
     setAuditLogs,
     addAuditLog 
 }) => {
@@ -51,10 +69,14 @@ const BackupRestore: React.FC<BackupRestoreProps> = ({
             const backupData = {
                 items,
                 users,
+                roles,
                 history,
                 suppliers,
                 categories,
                 units,
+                locations,
+                employees,
+                costCenters,
                 auditLogs,
                 backupDate: new Date().toISOString(),
             };
@@ -108,14 +130,28 @@ const BackupRestore: React.FC<BackupRestoreProps> = ({
                     throw new Error('Arquivo de backup inválido ou corrompido. A estrutura esperada não foi encontrada.');
                 }
                 
+                // Backups made before items referenced categories and units by id get them linked by name.
+                const catalog = linkItemsToCatalog<Item>(data.items, data.categories, data.units);
+
                 // Restore state
-                setItems(data.items);
-                setUsers(data.users);
-                setHistory(data.history);
+                setItems(catalog.items);
+                // Backups made before passwords were moved out of the user records may still contain them.
+                setUsers(data.users.map(({ password, ...user }: User & { password?: unknown }) => user));
+                // Backups made before custom roles existed keep the current roles.
+                if (Array.isArray(data.roles)) setRoles(data.roles);
+                // The server's movement ledger is never rewritten, so it is kept as it is.
+                if (!isApiEnabled) setHistory(data.history);
                 setSuppliers(data.suppliers);
-                setCategories(data.categories);
-                setUnits(data.units);
-                setAuditLogs(data.auditLogs);
+                setCategories(catalog.categories);
+                setUnits(catalog.units);
+                // Backups made before locations were registered keep the current ones.
+                if (Array.isArray(data.locations)) setLocations(data.locations);
+                // Same for employees, registered with EPI delivery control.
+                if (Array.isArray(data.employees)) setEmployees(data.employees);
+                // And for cost centers, which exits are charged to.
+                if (Array.isArray(data.costCenters)) setCostCenters(data.costCenters);
+                // The server's audit trail is only appended to, so it is kept as it is.
+                if (!isApiEnabled) setAuditLogs(data.auditLogs);
 
                 addAuditLog(`Restaurou o sistema a partir do arquivo ${selectedFile.name}.`);
                 setToast({ message: 'Sistema restaurado com sucesso a partir do backup!', type: 'success' });
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Category, Item } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PlusIcon, EditIcon, TrashIcon, TransferIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import {
+  isCatalogEntryActive,
+  countItemsWithCategory,
+  getCategoryValidationError,
+  getCategoryRemovalError,
+} from '../utils/catalog';
+
+interface CategoryManagementProps {
+  categories: Category[];
+  setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
+  items: Item[];
+  onSave: (category: Category) => Promise<Item[]>;
+  onMerge: (sourceId: string, targetId: string) => Promise<void>;
+  addAuditLog: (action: string) => void;
+}
+
+const CategoryManagement: React.FC<CategoryManagementProps> = ({ categories, setCategories, items, onSave, onMerge, addAuditLog }) => {
+  const [currentCategory, setCurrentCategory] = useState<Category | null>(null);
+  const [categoryToMerge, setCategoryToMerge] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  const isCreating = !!currentCategory && !categories.some(c => c.id === currentCategory.id);
+  const sortedCategories = [...categories].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSaveCategory = async () => {
+    if (!currentCategory) return;
+    const error = getCategoryValidationError(currentCategory, categories);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+
+    const saved = { ...currentCategory, name: currentCategory.name.trim() };
+    const previous = categories.find(c => c.id === saved.id);
+    // Items keep a copy of the name, so a rename reaches every item of the category.
+    let renamed: Item[];
+    try {
+      renamed = await onSave(saved);
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Não foi possível salvar a categoria.', type: 'warning' });
+      return;
+    }
+    if (!previous) {
+      addAuditLog(`Criou a categoria ${saved.name}.`);
+      setToast({ message: 'Categoria criada com sucesso!', type: 'success' });
+    } else {
+      if (previous.name !== saved.name) {
+        addAuditLog(`Renomeou a categoria ${previous.name} para ${saved.name} (${renamed.length} itens atualizados).`);
+      }
+      if (isCatalogEntryActive(previous) !== isCatalogEntryActive(saved)) {
+        addAuditLog(`${isCatalogEntryActive(saved) ? 'Reativou' : 'Desativou'} a categoria ${saved.name}.`);
+      }
+      setToast({ message: 'Categoria atualizada com sucesso!', type: 'success' });
+    }
+    setCurrentCategory(null);
+  };
+
+  const handleDeleteCategory = (category: Category) => {
+    const error = getCategoryRemovalError(category, items);
+    if (error) {
+      setToast({ message: `${error} Mescle-a com outra categoria ou desative-a.`, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir a categoria ${category.name}?`)) {
+      setCategories(categories.filter(c => c.id !== category.id));
+      addAuditLog(`Excluiu a categoria ${category.name}.`);
+      setToast({ message: 'Categoria excluída com sucesso!', type: 'success' });
+    }
+  };
+
+  const openMergeModal = (category: Category) => {
+    setCategoryToMerge(category);
+    setMergeTargetId('');
+  };
+
+  const handleMerge = async () => {
+    const target = categories.find(c => c.id === mergeTargetId);
+    if (!categoryToMerge || !target) {
+      setToast({ message: 'Selecione a categoria de destino.', type: 'warning' });
+      return;
+    }
+    const count = countItemsWithCategory(categoryToMerge.id, items);
+    setIsMerging(true);
+    try {
+      await onMerge(categoryToMerge.id, target.id);
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Não foi possível mesclar as categorias.', type: 'warning' });
+      setIsMerging(false);
+      return;
+    }
+    addAuditLog(`Mesclou a categoria ${categoryToMerge.name} em ${target.name} (${count} itens movidos).`);
+    setToast({ message: 'Categorias mescladas com sucesso!', type: 'success' });
+    setIsMerging(false);
+    setCategoryToMerge(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Categorias</h1>
+        <Button onClick={() => setCurrentCategory({ id: `category-${Date.now()}`, name: '' })}>
+          <PlusIcon />
+          Nova Categoria
+        </Button>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Itens</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedCategories.map(category => (
+                <tr key={category.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{category.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${isCatalogEntryActive(category) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                      {isCatalogEntryActive(category) ? 'Ativa' : 'Inativa'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{countItemsWithCategory(category.id, items)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                    <button onClick={() => setCurrentCategory({ ...category })} className="text-blue-600 hover:text-blue-900" title="Editar">
+                      <EditIcon />
+                    </button>
+                    <button onClick={() => openMergeModal(category)} className="text-purple-600 hover:text-purple-900" title="Mesclar com outra categoria">
+                      <TransferIcon />
+                    </button>
+                    <button onClick={() => handleDeleteCategory(category)} className="text-red-600 hover:text-red-900" title="Excluir">
+                      <TrashIcon />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal isOpen={!!currentCategory} onClose={() => setCurrentCategory(null)} title={isCreating ? 'Nova Categoria' : 'Editar Categoria'}>
+        {currentCategory && (
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="categoryName" className="block text-sm font-medium text-gray-700">Nome</label>
+                    <Input id="categoryName" type="text" value={currentCategory.name} onChange={e => setCurrentCategory({ ...currentCategory, name: e.target.value })} />
+                </div>
+                <div>
+                    <label htmlFor="categoryStatus" className="block text-sm font-medium text-gray-700">Situação</label>
+                    <Select id="categoryStatus" value={isCatalogEntryActive(currentCategory) ? 'active' : 'inactive'} onChange={e => setCurrentCategory({ ...currentCategory, active: e.target.value === 'active' })}>
+                        <option value="active">Ativa</option>
+                        <option value="inactive">Inativa</option>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Categorias inativas continuam nos itens que as usam, mas não podem ser escolhidas para outros itens.</p>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setCurrentCategory(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSaveCategory}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!categoryToMerge} onClose={() => setCategoryToMerge(null)} title={`Mesclar Categoria - ${categoryToMerge?.name ?? ''}`}>
+        {categoryToMerge && (
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                    Os {countItemsWithCategory(categoryToMerge.id, items)} itens da categoria <strong>{categoryToMerge.name}</strong> passarão
+                    para a categoria de destino, e {categoryToMerge.name} será excluída.
+                </p>
+                <div>
+                    <label htmlFor="mergeTarget" className="block text-sm font-medium text-gray-700">Categoria de destino</label>
+                    <Select id="mergeTarget" value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)}>
+                        <option value="">Selecione...</option>
+                        {sortedCategories.filter(c => c.id !== categoryToMerge.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </Select>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setCategoryToMerge(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleMerge} disabled={isMerging}>{isMerging ? 'Mesclando...' : 'Mesclar'}</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default CategoryManagement;
@@ -3,32 +3,43 @@ import React, { useState, useEffect } from 'react';
 import Modal from './ui/Modal';
 import Input from './ui/Input';
 import Button from './ui/Button';
-import { EyeIcon, EyeOffIcon } from './icons/Icons';
+import { EyeIcon, EyeOffIcon, CheckCircleIcon, XCircleIcon } from './icons/Icons';
+import { SecuritySettings, getPasswordRules, validatePassword } from '../auth/securityPolicy';
 
 interface ChangePasswordModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (newPassword: string) => void;
+  onSave: (newPassword: string, currentPassword: string) => Promise<void>;
   title: string;
   isForced?: boolean;
-  allowDefaultPassword?: boolean;
+  // Asked when users change their own password; administrators assigning a temporary
+  // password to someone else do not need it.
+  requireCurrentPassword?: boolean;
+  securitySettings: SecuritySettings;
 }
 
-const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClose, onSave, title, isForced = false, allowDefaultPassword = false }) => {
+const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClose, onSave, title, isForced = false, requireCurrentPassword = true, securitySettings }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
+      setCurrentPassword('');
       setNewPassword('');
       setConfirmPassword('');
       setError('');
     }
   }, [isOpen]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    if (requireCurrentPassword && !currentPassword) {
+      setError('Informe a senha atual.');
+      return;
+    }
     if (!newPassword || !confirmPassword) {
       setError('Ambos os campos de senha são obrigatórios.');
       return;
@@ -37,15 +48,24 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
       setError('As senhas não coincidem.');
       return;
     }
-    if (newPassword === 'changeme' && !allowDefaultPassword) {
-        setError('A nova senha não pode ser a senha padrão.');
-        return;
+    const policyError = validatePassword(newPassword, securitySettings);
+    if (policyError) {
+      setError(policyError);
+      return;
     }
     setError('');
-    onSave(newPassword);
+    setIsSaving(true);
+    try {
+      await onSave(newPassword, currentPassword);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível alterar a senha.');
+    } finally {
+      setIsSaving(false);
+    }
   };
   
-  const canSave = newPassword && confirmPassword && newPassword === confirmPassword;
+  const passwordRules = getPasswordRules(securitySettings);
+  const canSave = !isSaving && (!requireCurrentPassword || currentPassword) && newPassword && confirmPassword && newPassword === confirmPassword;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={title}>
@@ -57,6 +77,28 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
             </p>
           </div>
         )}
+        {!requireCurrentPassword && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+            <p className="text-sm text-blue-800">
+              Esta será uma senha temporária. O usuário deverá criar uma nova senha no próximo login.
+            </p>
+          </div>
+        )}
+        {requireCurrentPassword && (
+          <div>
+            <label htmlFor="current-password" className="block text-sm font-medium text-gray-700 mb-1">
+              Senha Atual
+            </label>
+            <Input
+              id="current-password"
+              type={showPassword ? 'text' : 'password'}
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="Digite a senha atual"
+              required
+            />
+          </div>
+        )}
         <div>
           <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
             Nova Senha
@@ -81,6 +123,17 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
             </button>
           </div>
         </div>
+        <ul className="space-y-1">
+          {passwordRules.map(rule => {
+            const isMet = rule.test(newPassword);
+            return (
+              <li key={rule.label} className={`flex items-center gap-2 text-sm ${isMet ? 'text-green-700' : 'text-gray-500'}`}>
+                {isMet ? <CheckCircleIcon /> : <XCircleIcon />}
+                {rule.label}
+              </li>
+            );
+          })}
+        </ul>
         <div>
           <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-1">
             Confirmar Nova Senha
@@ -103,7 +156,7 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
           </Button>
         )}
         <Button onClick={handleSave} disabled={!canSave}>
-          Salvar Nova Senha
+          {isSaving ? 'Salvando...' : 'Salvar Nova Senha'}
         </Button>
       </div>
     </Modal>
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { CostCenter, EntryExitRecord } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PlusIcon, EditIcon, TrashIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import {
+  isCostCenterActive,
+  getCostCenterValidationError,
+  getCostCenterRemovalError,
+  getMonthlyConsumption,
+  getMonthKey,
+  formatMonth,
+} from '../utils/costCenters';
+import { formatCurrency } from '../utils/costing';
+import { getToday } from '../utils/lots';
+
+interface CostCenterManagementProps {
+  costCenters: CostCenter[];
+  setCostCenters: React.Dispatch<React.SetStateAction<CostCenter[]>>;
+  history: EntryExitRecord[];
+  addAuditLog: (action: string) => void;
+}
+
+const CostCenterManagement: React.FC<CostCenterManagementProps> = ({ costCenters, setCostCenters, history, addAuditLog }) => {
+  const [currentCostCenter, setCurrentCostCenter] = useState<CostCenter | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  const isCreating = !!currentCostCenter && !costCenters.some(c => c.id === currentCostCenter.id);
+  const sortedCostCenters = [...costCenters].sort((a, b) => a.code.localeCompare(b.code));
+  const currentMonth = getMonthKey(getToday());
+
+  const handleSave = () => {
+    if (!currentCostCenter) return;
+    const error = getCostCenterValidationError(currentCostCenter, costCenters);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+
+    const saved = { ...currentCostCenter, code: currentCostCenter.code.trim(), name: currentCostCenter.name.trim() };
+    const budgetText = saved.monthlyBudget ? `, orçamento mensal de ${formatCurrency(saved.monthlyBudget)}` : '';
+    if (isCreating) {
+      setCostCenters([...costCenters, saved]);
+      addAuditLog(`Cadastrou o centro de custo ${saved.code} - ${saved.name}${budgetText}.`);
+      setToast({ message: 'Centro de custo cadastrado com sucesso!', type: 'success' });
+    } else {
+      const previous = costCenters.find(c => c.id === saved.id)!;
+      setCostCenters(costCenters.map(c => c.id === saved.id ? saved : c));
+      addAuditLog(`Editou o centro de custo ${saved.code} - ${saved.name}${budgetText}.`);
+      if (isCostCenterActive(previous) !== isCostCenterActive(saved)) {
+        addAuditLog(`${isCostCenterActive(saved) ? 'Reativou' : 'Desativou'} o centro de custo ${saved.name}.`);
+      }
+      setToast({ message: 'Centro de custo atualizado com sucesso!', type: 'success' });
+    }
+    setCurrentCostCenter(null);
+  };
+
+  const handleDelete = (costCenter: CostCenter) => {
+    const error = getCostCenterRemovalError(costCenter, history);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir o centro de custo ${costCenter.name}?`)) {
+      setCostCenters(costCenters.filter(c => c.id !== costCenter.id));
+      addAuditLog(`Excluiu o centro de custo ${costCenter.code} - ${costCenter.name}.`);
+      setToast({ message: 'Centro de custo excluído com sucesso!', type: 'success' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Centros de Custo</h1>
+        <Button onClick={() => setCurrentCostCenter({ id: `cost-center-${Date.now()}`, code: '', name: '' })}>
+          <PlusIcon />
+          Novo Centro de Custo
+        </Button>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Código</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Orçamento Mensal</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Consumido em {formatMonth(currentMonth)}</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedCostCenters.map(costCenter => {
+                const consumed = getMonthlyConsumption(history, costCenter.id, currentMonth);
+                const isOverBudget = !!costCenter.monthlyBudget && consumed > costCenter.monthlyBudget;
+                return (
+                  <tr key={costCenter.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{costCenter.code}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{costCenter.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{costCenter.monthlyBudget ? formatCurrency(costCenter.monthlyBudget) : '-'}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${isOverBudget ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                      {formatCurrency(consumed)}
+                      {costCenter.monthlyBudget ? <span className="block text-xs font-normal">{Math.round(consumed / costCenter.monthlyBudget * 100)}% do orçamento</span> : null}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${isCostCenterActive(costCenter) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {isCostCenterActive(costCenter) ? 'Ativo' : 'Inativo'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                      <button onClick={() => setCurrentCostCenter({ ...costCenter })} className="text-blue-600 hover:text-blue-900" title="Editar">
+                        <EditIcon />
+                      </button>
+                      <button onClick={() => handleDelete(costCenter)} className="text-red-600 hover:text-red-900" title="Excluir">
+                        <TrashIcon />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal isOpen={!!currentCostCenter} onClose={() => setCurrentCostCenter(null)} title={isCreating ? 'Novo Centro de Custo' : 'Editar Centro de Custo'}>
+        {currentCostCenter && (
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label htmlFor="costCenterCode" className="block text-sm font-medium text-gray-700">Código</label>
+                        <Input id="costCenterCode" type="text" value={currentCostCenter.code} onChange={e => setCurrentCostCenter({ ...currentCostCenter, code: e.target.value })} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="costCenterName" className="block text-sm font-medium text-gray-700">Nome</label>
+                        <Input id="costCenterName" type="text" value={currentCostCenter.name} onChange={e => setCurrentCostCenter({ ...currentCostCenter, name: e.target.value })} />
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="costCenterBudget" className="block text-sm font-medium text-gray-700">Orçamento Mensal (R$)</label>
+                    <Input id="costCenterBudget" type="number" min="0" step="0.01" value={currentCostCenter.monthlyBudget ?? ''} onChange={e => setCurrentCostCenter({ ...currentCostCenter, monthlyBudget: e.target.value === '' ? undefined : parseFloat(e.target.value) })} />
+                    <p className="text-xs text-gray-500 mt-1">Opcional. Saídas que ultrapassam o orçamento do mês são sinalizadas, mas não bloqueadas.</p>
+                </div>
+                <div>
+                    <label htmlFor="costCenterStatus" className="block text-sm font-medium text-gray-700">Situação</label>
+                    <Select id="costCenterStatus" value={isCostCenterActive(currentCostCenter) ? 'active' : 'inactive'} onChange={e => setCurrentCostCenter({ ...currentCostCenter, active: e.target.value === 'active' })}>
+                        <option value="active">Ativo</option>
+                        <option value="inactive">Inativo</option>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Centros de custo inativos mantêm o histórico de consumo, mas não recebem novas saídas.</p>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setCurrentCostCenter(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSave}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default CostCenterManagement;
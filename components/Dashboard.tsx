@@ -1,10 +1,14 @@
 import React, { useState, useMemo } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, Sector } from 'recharts';
 import Card from './ui/Card';
-import { StockIcon, EntryIcon, ReportsIcon, ExitIcon } from './icons/Icons';
-import { Item, EntryExitRecord, Page } from '../types';
+import { StockIcon, EntryIcon, ReportsIcon, ExitIcon, WarningIcon } from './icons/Icons';
+import { Item, Employee, EntryExitRecord, Permission } from '../types';
 import Select from './ui/Select';
 import Input from './ui/Input';
+import { Navigate, buildPath } from '../routing';
+import { getExpiredLots } from '../utils/lots';
+import { getItemsWithExpiredCa, getDueReplacements } from '../utils/epi';
+import { isReversed } from '../utils/movements';
 
 const consumptionData = [
   { name: 'Parafusos', value: 4000 },
@@ -30,11 +34,12 @@ const getToday = () => {
 interface DashboardProps {
     items: Item[];
     history: EntryExitRecord[];
-    setCurrentPage: (page: Page) => void;
-    setInitialStockFilters: (filters: { category: string }) => void;
+    employees: Employee[];
+    navigate: Navigate;
+    can: (permission: Permission) => boolean;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, setInitialStockFilters }) => {
+const Dashboard: React.FC<DashboardProps> = ({ items, history, employees, navigate, can }) => {
     const [startDate, setStartDate] = useState(getStartOfMonth());
     const [endDate, setEndDate] = useState(getToday());
     const [filterCategory, setFilterCategory] = useState('');
@@ -65,16 +70,23 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
             return recordDate >= start && recordDate <= end && matchesCategory;
         });
 
-        const entries = filteredHistory.filter(r => r.type === 'entry').reduce((sum, r) => sum + r.quantity, 0);
-        const exits = filteredHistory.filter(r => r.type === 'exit').reduce((sum, r) => sum + r.quantity, 0);
+        // Reversed movements are left out; their reversals are adjustments, not counted here.
+        const entries = filteredHistory.filter(r => r.type === 'entry' && !isReversed(r)).reduce((sum, r) => sum + r.quantity, 0);
+        const exits = filteredHistory.filter(r => r.type === 'exit' && !isReversed(r)).reduce((sum, r) => sum + r.quantity, 0);
 
-        return { totalValue, lowStockCount, totalItems, entries, exits, categoryChartData };
+        const expiredLots = getExpiredLots(filteredItems);
+        const expiredItemCount = new Set(expiredLots.map(({ item }) => item.id)).size;
+
+        return { totalValue, lowStockCount, totalItems, entries, exits, categoryChartData, expiredLots, expiredItemCount };
     }, [filterCategory, startDate, endDate, items, history]);
 
+    // Not filtered by period or category: a pending NR-6 obligation is shown until it is resolved.
+    const expiredCaItems = useMemo(() => getItemsWithExpiredCa(items), [items]);
+    const dueReplacementCount = useMemo(() => getDueReplacements(history, items, employees).length, [history, items, employees]);
+
     const handleCategoryClick = (data: any) => {
         if (data && data.name) {
-            setInitialStockFilters({ category: data.name });
-            setCurrentPage('stock');
+            navigate(buildPath('stock', {}, { categoria: data.name }));
         }
     };
 
@@ -103,9 +115,44 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                 </div>
             </Card>
             
+            {filteredDashboardData.expiredLots.length > 0 && (
+                <div className="cursor-pointer" onClick={() => navigate(buildPath('reports', { report: 'lotes-a-vencer' }, filterCategory ? { categoria: filterCategory } : {}))}>
+                    <Card className="bg-red-50 border border-red-200">
+                        <div className="flex items-center gap-4 p-4 text-red-800">
+                            <WarningIcon />
+                            <div>
+                                <p className="font-semibold">Estoque vencido</p>
+                                <p className="text-sm">
+                                    {filteredDashboardData.expiredLots.length} {filteredDashboardData.expiredLots.length > 1 ? 'lotes vencidos' : 'lote vencido'} em {filteredDashboardData.expiredItemCount} {filteredDashboardData.expiredItemCount > 1 ? 'itens' : 'item'}.
+                                    {' '}Separe o material para descarte e baixe-o escolhendo os lotes na saída.
+                                </p>
+                            </div>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {(expiredCaItems.length > 0 || dueReplacementCount > 0) && (
+                <div className={can('employee.manage') ? 'cursor-pointer' : ''} onClick={() => can('employee.manage') && navigate(buildPath('employees'))}>
+                    <Card className="bg-yellow-50 border border-yellow-200">
+                        <div className="flex items-center gap-4 p-4 text-yellow-800">
+                            <WarningIcon />
+                            <div>
+                                <p className="font-semibold">Controle de EPI</p>
+                                <p className="text-sm">
+                                    {expiredCaItems.length > 0 && `${expiredCaItems.length} ${expiredCaItems.length > 1 ? 'EPIs com CA vencido' : 'EPI com CA vencido'}. `}
+                                    {dueReplacementCount > 0 && `${dueReplacementCount} ${dueReplacementCount > 1 ? 'trocas de EPI pendentes' : 'troca de EPI pendente'}.`}
+                                </p>
+                            </div>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
             {/* Stat Cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
-                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => setCurrentPage('stock')}>
+                {can('report.view_values') && (
+                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => navigate(buildPath('stock'))}>
                     <Card className="bg-gradient-to-br from-sky-500 to-sky-600 text-white shadow-lg h-full">
                         <div className="flex items-center p-4">
                             <div className="p-3 bg-black bg-opacity-20 rounded-full"><StockIcon /></div>
@@ -116,7 +163,8 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                         </div>
                     </Card>
                 </div>
-                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => setCurrentPage('stock')}>
+                )}
+                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => navigate(buildPath('stock'))}>
                     <Card className="bg-gradient-to-br from-slate-500 to-slate-600 text-white shadow-lg h-full">
                         <div className="flex items-center p-4">
                             <div className="p-3 bg-black bg-opacity-20 rounded-full"><StockIcon /></div>
@@ -127,7 +175,7 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                         </div>
                     </Card>
                 </div>
-                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => setCurrentPage('stock')}>
+                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => navigate(buildPath('stock', {}, { status: 'low' }))}>
                     <Card className="bg-gradient-to-br from-amber-500 to-amber-600 text-white shadow-lg h-full">
                         <div className="flex items-center p-4">
                             <div className="p-3 bg-black bg-opacity-20 rounded-full"><ReportsIcon /></div>
@@ -138,7 +186,7 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                         </div>
                     </Card>
                 </div>
-                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => setCurrentPage('reports')}>
+                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => navigate(buildPath('reports', { report: 'movimentacao' }, { de: startDate, ate: endDate }))}>
                     <Card className="bg-gradient-to-br from-emerald-500 to-emerald-600 text-white shadow-lg h-full">
                         <div className="flex items-center p-4">
                             <div className="p-3 bg-black bg-opacity-20 rounded-full"><EntryIcon /></div>
@@ -149,7 +197,7 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                         </div>
                     </Card>
                 </div>
-                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => setCurrentPage('reports')}>
+                 <div className="cursor-pointer transition-transform transform hover:scale-105" onClick={() => navigate(buildPath('reports', { report: 'movimentacao' }, { de: startDate, ate: endDate }))}>
                     <Card className="bg-gradient-to-br from-orange-500 to-orange-600 text-white shadow-lg h-full">
                         <div className="flex items-center p-4">
                             <div className="p-3 bg-black bg-opacity-20 rounded-full"><ExitIcon /></div>
@@ -164,6 +212,7 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
 
             {/* Charts */}
             <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                {can('report.view_values') && (
                 <Card className="lg:col-span-3">
                     <h3 className="text-xl font-semibold text-gray-700 p-4">Top 7 Itens Consumidos (Valor)</h3>
                     <div style={{ width: '100%', height: 400 }}>
@@ -179,6 +228,7 @@ const Dashboard: React.FC<DashboardProps> = ({ items, history, setCurrentPage, s
                         </ResponsiveContainer>
                     </div>
                 </Card>
+                )}
                  <Card className="lg:col-span-2">
                     <h3 className="text-xl font-semibold text-gray-700 p-4">Itens por Categoria</h3>
                     <div style={{ width: '100%', height: 400 }}>
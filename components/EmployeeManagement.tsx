@@ -0,0 +1,345 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Employee, Item, EntryExitRecord } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PlusIcon, EditIcon, TrashIcon, PrintIcon, WarningIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import {
+  CA_STATUS_LABELS,
+  CA_STATUS_BADGE_CLASSES,
+  getCaStatus,
+  isEmployeeActive,
+  getEmployeeValidationError,
+  getEmployeeRemovalError,
+  getEpiDeliveries,
+  getDueReplacements,
+} from '../utils/epi';
+import { formatLotDate } from '../utils/lots';
+
+interface EmployeeManagementProps {
+  employees: Employee[];
+  setEmployees: React.Dispatch<React.SetStateAction<Employee[]>>;
+  items: Item[];
+  history: EntryExitRecord[];
+  addAuditLog: (action: string) => void;
+}
+
+const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ employees, setEmployees, items, history, addAuditLog }) => {
+  const [currentEmployee, setCurrentEmployee] = useState<Employee | null>(null);
+  const [sheetEmployee, setSheetEmployee] = useState<Employee | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  const sheetRef = useRef<HTMLDivElement>(null);
+  const isCreating = !!currentEmployee && !employees.some(e => e.id === currentEmployee.id);
+  const sortedEmployees = [...employees].sort((a, b) => a.name.localeCompare(b.name));
+
+  const epiItems = useMemo(() => items.filter(item => item.epi).sort((a, b) => a.code.localeCompare(b.code)), [items]);
+  const caAlerts = epiItems.filter(item => getCaStatus(item.epi!) !== 'valid');
+  const dueReplacements = useMemo(() => getDueReplacements(history, items, employees), [history, items, employees]);
+  const sheetDeliveries = sheetEmployee ? getEpiDeliveries(history, sheetEmployee.id) : [];
+  const itemById = new Map<string, Item>(items.map(item => [item.id, item]));
+
+  const handleSaveEmployee = () => {
+    if (!currentEmployee) return;
+    const error = getEmployeeValidationError(currentEmployee, employees);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+
+    const saved = { ...currentEmployee, name: currentEmployee.name.trim(), registration: currentEmployee.registration.trim() };
+    if (isCreating) {
+      setEmployees([...employees, saved]);
+      addAuditLog(`Cadastrou o colaborador ${saved.name} (matrícula ${saved.registration}).`);
+      setToast({ message: 'Colaborador cadastrado com sucesso!', type: 'success' });
+    } else {
+      const previous = employees.find(e => e.id === saved.id)!;
+      setEmployees(employees.map(e => e.id === saved.id ? saved : e));
+      addAuditLog(`Editou os dados do colaborador ${saved.name} (matrícula ${saved.registration}).`);
+      if (isEmployeeActive(previous) !== isEmployeeActive(saved)) {
+        addAuditLog(`${isEmployeeActive(saved) ? 'Reativou' : 'Desativou'} o colaborador ${saved.name}.`);
+      }
+      setToast({ message: 'Colaborador atualizado com sucesso!', type: 'success' });
+    }
+    setCurrentEmployee(null);
+  };
+
+  const handleDeleteEmployee = (employee: Employee) => {
+    const error = getEmployeeRemovalError(employee, history);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir o colaborador ${employee.name}?`)) {
+      setEmployees(employees.filter(e => e.id !== employee.id));
+      addAuditLog(`Excluiu o colaborador ${employee.name} (matrícula ${employee.registration}).`);
+      setToast({ message: 'Colaborador excluído com sucesso!', type: 'success' });
+    }
+  };
+
+  const handlePrintSheet = () => {
+    const printArea = sheetRef.current;
+    if (!printArea || !sheetEmployee) return;
+
+    const printWindow = window.open('about:blank', '_blank');
+    if (printWindow) {
+      printWindow.document.write(`
+        <html>
+          <head>
+            <title>Ficha de EPI - ${sheetEmployee.name}</title>
+            <script src="https://cdn.tailwindcss.com"></script>
+            <style>
+              body { font-family: sans-serif; margin: 20px; }
+              table { width: 100%; border-collapse: collapse; }
+              th, td { border: 1px solid #ddd; padding: 6px; text-align: left; font-size: 12px; }
+              th { background-color: #f2f2f2; }
+              .no-print { display: none; }
+              @media print { body { margin: 1cm; } tr { page-break-inside: avoid; } }
+            </style>
+          </head>
+          <body>${printArea.innerHTML}</body>
+        </html>
+      `);
+      printWindow.document.close();
+      printWindow.onload = () => {
+        printWindow.print();
+        printWindow.onafterprint = () => printWindow.close();
+      };
+    }
+    addAuditLog(`Imprimiu a ficha de EPI do colaborador ${sheetEmployee.name}.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Colaboradores e EPI</h1>
+        <Button onClick={() => setCurrentEmployee({ id: `employee-${Date.now()}`, name: '', registration: '' })}>
+          <PlusIcon />
+          Novo Colaborador
+        </Button>
+      </div>
+
+      {(caAlerts.length > 0 || dueReplacements.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {caAlerts.length > 0 && (
+            <Card className="bg-red-50 border border-red-200 p-4">
+              <div className="flex items-center gap-2 text-red-800 font-semibold mb-2"><WarningIcon /> Certificados de Aprovação</div>
+              <ul className="text-sm text-red-800 space-y-1">
+                {caAlerts.map(item => (
+                  <li key={item.id}>
+                    {item.code} - {item.description}: CA {item.epi!.caNumber}, {CA_STATUS_LABELS[getCaStatus(item.epi!)].toLowerCase()} em {formatLotDate(item.epi!.caExpiryDate)}
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+          {dueReplacements.length > 0 && (
+            <Card className="bg-yellow-50 border border-yellow-200 p-4">
+              <div className="flex items-center gap-2 text-yellow-800 font-semibold mb-2"><WarningIcon /> Trocas de EPI pendentes</div>
+              <ul className="text-sm text-yellow-800 space-y-1">
+                {dueReplacements.map(({ employee, item, lastDelivery, dueDate }) => (
+                  <li key={`${employee.id}-${item.id}`}>
+                    {employee.name}: {item.code} - {item.description} (última entrega {formatLotDate(lastDelivery)}, troca em {formatLotDate(dueDate)})
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Matrícula</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Setor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Função</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Entregas</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedEmployees.map(employee => {
+                const dueCount = dueReplacements.filter(due => due.employee.id === employee.id).length;
+                return (
+                  <tr key={employee.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {employee.name}
+                      {dueCount > 0 && <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">{dueCount} {dueCount > 1 ? 'trocas pendentes' : 'troca pendente'}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{employee.registration}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{employee.department || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{employee.jobTitle || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${isEmployeeActive(employee) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {isEmployeeActive(employee) ? 'Ativo' : 'Inativo'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{getEpiDeliveries(history, employee.id).length}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                      <button onClick={() => setCurrentEmployee({ ...employee })} className="text-blue-600 hover:text-blue-900" title="Editar">
+                        <EditIcon />
+                      </button>
+                      <button onClick={() => setSheetEmployee(employee)} className="text-gray-600 hover:text-gray-900" title="Ficha de EPI">
+                        <PrintIcon />
+                      </button>
+                      <button onClick={() => handleDeleteEmployee(employee)} className="text-red-600 hover:text-red-900" title="Excluir">
+                        <TrashIcon />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Card>
+        <div className="p-4">
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">Itens de EPI</h2>
+          {epiItems.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Nº do CA</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Validade do CA</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Troca a cada</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {epiItems.map(item => {
+                  const caStatus = getCaStatus(item.epi!);
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{item.code} - {item.description}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{item.epi!.caNumber}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {formatLotDate(item.epi!.caExpiryDate)}
+                        <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${CA_STATUS_BADGE_CLASSES[caStatus]}`}>{CA_STATUS_LABELS[caStatus]}</span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500 text-right">{item.epi!.replacementDays ? `${item.epi!.replacementDays} dias` : '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">Nenhum item cadastrado como EPI. Marque a opção de EPI no cadastro do item para informar o CA.</p>
+          )}
+        </div>
+      </Card>
+
+      <Modal isOpen={!!currentEmployee} onClose={() => setCurrentEmployee(null)} title={isCreating ? 'Novo Colaborador' : 'Editar Colaborador'}>
+        {currentEmployee && (
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="employeeName" className="block text-sm font-medium text-gray-700">Nome</label>
+                        <Input id="employeeName" type="text" value={currentEmployee.name} onChange={e => setCurrentEmployee({ ...currentEmployee, name: e.target.value })} />
+                    </div>
+                    <div>
+                        <label htmlFor="employeeRegistration" className="block text-sm font-medium text-gray-700">Matrícula</label>
+                        <Input id="employeeRegistration" type="text" value={currentEmployee.registration} onChange={e => setCurrentEmployee({ ...currentEmployee, registration: e.target.value })} />
+                    </div>
+                    <div>
+                        <label htmlFor="employeeDepartment" className="block text-sm font-medium text-gray-700">Setor</label>
+                        <Input id="employeeDepartment" type="text" value={currentEmployee.department ?? ''} onChange={e => setCurrentEmployee({ ...currentEmployee, department: e.target.value })} />
+                    </div>
+                    <div>
+                        <label htmlFor="employeeJobTitle" className="block text-sm font-medium text-gray-700">Função</label>
+                        <Input id="employeeJobTitle" type="text" value={currentEmployee.jobTitle ?? ''} onChange={e => setCurrentEmployee({ ...currentEmployee, jobTitle: e.target.value })} />
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="employeeStatus" className="block text-sm font-medium text-gray-700">Situação</label>
+                    <Select id="employeeStatus" value={isEmployeeActive(currentEmployee) ? 'active' : 'inactive'} onChange={e => setCurrentEmployee({ ...currentEmployee, active: e.target.value === 'active' })}>
+                        <option value="active">Ativo</option>
+                        <option value="inactive">Inativo</option>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Colaboradores inativos mantêm a ficha de EPI, mas não recebem novas entregas.</p>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setCurrentEmployee(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSaveEmployee}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!sheetEmployee} onClose={() => setSheetEmployee(null)} title={`Ficha de EPI - ${sheetEmployee?.name ?? ''}`}>
+        {sheetEmployee && (
+            <div className="space-y-4">
+                <div ref={sheetRef} className="space-y-4">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800">Ficha de Controle de EPI</h2>
+                        <p className="text-sm text-gray-600">
+                            Colaborador: <strong>{sheetEmployee.name}</strong> · Matrícula: {sheetEmployee.registration}
+                            {sheetEmployee.department && ` · Setor: ${sheetEmployee.department}`}
+                            {sheetEmployee.jobTitle && ` · Função: ${sheetEmployee.jobTitle}`}
+                        </p>
+                    </div>
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Data</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">EPI</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qtd.</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Nº do CA</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entregue por</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {sheetDeliveries.length > 0 ? sheetDeliveries.map(record => {
+                                const item = itemById.get(record.itemId);
+                                return (
+                                    <tr key={record.id}>
+                                        <td className="px-4 py-2 text-sm text-gray-600">{formatLotDate(record.date)}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-900">{item ? `${item.code} - ${item.description}` : record.itemId}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-600 text-right">{record.quantity.toLocaleString('pt-BR')} {item?.unit}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-600">{record.caNumber || '-'}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-600">{record.userName || '-'}</td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr>
+                                    <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">Nenhuma entrega de EPI registrada.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-600">
+                        Declaro ter recebido os equipamentos de proteção individual acima, gratuitamente, e ter sido orientado sobre seu uso correto,
+                        guarda e conservação, conforme a NR-6.
+                    </p>
+                    <div className="pt-8 grid grid-cols-2 gap-8 text-xs text-gray-600">
+                        <div className="border-t border-gray-400 pt-1 text-center">{sheetEmployee.name}</div>
+                        <div className="border-t border-gray-400 pt-1 text-center">Data</div>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setSheetEmployee(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Fechar</Button>
+                    <Button onClick={handlePrintSheet}><PrintIcon /> Imprimir</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default EmployeeManagement;
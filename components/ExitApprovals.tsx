@@ -0,0 +1,294 @@
+import React, { useMemo, useState } from 'react';
+import { Item, Category, ApprovalRule, ApprovalRuleKind, ExitApproval } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import Modal from './ui/Modal';
+import Toast from './ui/Toast';
+import { PlusIcon, EditIcon, TrashIcon, CheckCircleIcon, XCircleIcon } from './icons/Icons';
+import {
+    APPROVAL_RULE_KIND_LABELS,
+    EXIT_APPROVAL_STATUS_LABELS,
+    EXIT_APPROVAL_STATUS_BADGE_CLASSES,
+    isApprovalRuleActive,
+    describeApprovalRule,
+    getApprovalRuleError,
+    describeApprovalExit,
+} from '../utils/approvals';
+import { Route, Navigate, withQuery } from '../routing';
+
+interface ExitApprovalsProps {
+    approvals: ExitApproval[];
+    rules: ApprovalRule[];
+    setRules: React.Dispatch<React.SetStateAction<ApprovalRule[]>>;
+    items: Item[];
+    categories: Category[];
+    route: Route;
+    navigate: Navigate;
+    approveExit: (approvalId: string, notes: string) => Promise<ExitApproval | undefined>;
+    rejectExit: (approvalId: string, notes: string) => Promise<ExitApproval | undefined>;
+    addAuditLog: (action: string) => void;
+}
+
+// Values of the "situacao" query parameter.
+const STATUS_FILTERS: Record<string, { label: string; matches: (approval: ExitApproval) => boolean }> = {
+    pendentes: { label: 'Aguardando aprovação', matches: approval => approval.status === 'pending' },
+    aprovadas: { label: 'Aprovadas', matches: approval => approval.status === 'approved' },
+    recusadas: { label: 'Recusadas', matches: approval => approval.status === 'rejected' },
+    todas: { label: 'Todas', matches: () => true },
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const ExitApprovals: React.FC<ExitApprovalsProps> = ({ approvals, rules, setRules, items, categories, route, navigate, approveExit, rejectExit, addAuditLog }) => {
+    const statusFilter = route.query.situacao && STATUS_FILTERS[route.query.situacao] ? route.query.situacao : 'pendentes';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+
+    const [decision, setDecision] = useState<{ approval: ExitApproval; approve: boolean } | null>(null);
+    const [notes, setNotes] = useState('');
+    const [currentRule, setCurrentRule] = useState<ApprovalRule | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const filteredApprovals = approvals
+        .filter(STATUS_FILTERS[statusFilter].matches)
+        .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+    const pendingCount = approvals.filter(approval => approval.status === 'pending').length;
+    const isCreatingRule = !!currentRule && !rules.some(rule => rule.id === currentRule.id);
+
+    const describeExit = (approval: ExitApproval) => describeApprovalExit(approval, itemById.get(approval.movement.itemId));
+
+    const openDecision = (approval: ExitApproval, approve: boolean) => {
+        setDecision({ approval, approve });
+        setNotes('');
+    };
+
+    const handleDecision = async () => {
+        if (!decision) return;
+        setIsSaving(true);
+        let decided: ExitApproval | undefined;
+        try {
+            decided = decision.approve ? await approveExit(decision.approval.id, notes) : await rejectExit(decision.approval.id, notes);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível registrar a decisão.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!decided) return;
+        setToast({ message: decided.status === 'approved' ? 'Saída aprovada e registrada.' : 'Saída recusada.', type: 'success' });
+        setDecision(null);
+    };
+
+    const handleSaveRule = () => {
+        if (!currentRule) return;
+        const saved: ApprovalRule = currentRule.kind === 'category'
+            ? { id: currentRule.id, kind: currentRule.kind, categoryId: currentRule.categoryId, active: currentRule.active }
+            : { id: currentRule.id, kind: currentRule.kind, threshold: currentRule.threshold, active: currentRule.active };
+        const error = getApprovalRuleError(saved, categories);
+        if (error) {
+            setToast({ message: error, type: 'warning' });
+            return;
+        }
+        if (isCreatingRule) {
+            setRules([...rules, saved]);
+            addAuditLog(`Criou a regra de aprovação de saídas: ${describeApprovalRule(saved, categories)}.`);
+        } else {
+            setRules(rules.map(rule => rule.id === saved.id ? saved : rule));
+            addAuditLog(`Editou a regra de aprovação de saídas: ${describeApprovalRule(saved, categories)}${isApprovalRuleActive(saved) ? '' : ' (inativa)'}.`);
+        }
+        setToast({ message: 'Regra salva com sucesso!', type: 'success' });
+        setCurrentRule(null);
+    };
+
+    const handleDeleteRule = (rule: ApprovalRule) => {
+        if (window.confirm('Tem certeza que deseja excluir esta regra? Saídas já aguardando aprovação continuam pendentes.')) {
+            setRules(rules.filter(r => r.id !== rule.id));
+            addAuditLog(`Excluiu a regra de aprovação de saídas: ${describeApprovalRule(rule, categories)}.`);
+            setToast({ message: 'Regra excluída com sucesso!', type: 'success' });
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    onClose={() => setToast(null)}
+                />
+            )}
+            <h1 className="text-3xl font-bold text-gray-800">Aprovação de Saídas</h1>
+
+            <Card className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                    <div>
+                        <label htmlFor="approvalStatusFilter" className="block text-sm font-medium text-gray-700">Situação</label>
+                        <Select id="approvalStatusFilter" value={statusFilter} onChange={e => updateQuery({ situacao: e.target.value === 'pendentes' ? '' : e.target.value })}>
+                            {Object.entries(STATUS_FILTERS).map(([value, filter]) => <option key={value} value={value}>{filter.label}</option>)}
+                        </Select>
+                    </div>
+                    <p className="text-sm text-gray-600">{pendingCount} {pendingCount === 1 ? 'saída aguardando aprovação' : 'saídas aguardando aprovação'}.</p>
+                </div>
+            </Card>
+
+            <Card>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Solicitada em</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Operador</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Saída</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Destino</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Motivo da retenção</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {filteredApprovals.length > 0 ? filteredApprovals.map(approval => (
+                                <tr key={approval.id}>
+                                    <td className="px-4 py-2 text-sm text-gray-500">{formatDateTime(approval.requestedAt)}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-700">{approval.requestedByName}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-900">{describeExit(approval)}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-700">
+                                        {approval.movement.employeeName ?? approval.movement.requester}
+                                        {approval.movement.responsible && <div className="text-xs text-gray-500">Responsável: {approval.movement.responsible}</div>}
+                                    </td>
+                                    <td className="px-4 py-2 text-sm text-gray-700">
+                                        <ul className="list-disc list-inside">
+                                            {approval.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                                        </ul>
+                                    </td>
+                                    <td className="px-4 py-2 text-sm">
+                                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${EXIT_APPROVAL_STATUS_BADGE_CLASSES[approval.status]}`}>
+                                            {EXIT_APPROVAL_STATUS_LABELS[approval.status]}
+                                        </span>
+                                        {approval.decidedAt && (
+                                            <div className="text-xs text-gray-500 mt-1">
+                                                Por {approval.decidedByName} em {formatDateTime(approval.decidedAt)}{approval.decisionNotes ? `: ${approval.decisionNotes}` : ''}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-2 text-sm">
+                                        {approval.status === 'pending' && (
+                                            <div className="flex items-center gap-3">
+                                                <button onClick={() => openDecision(approval, true)} className="text-green-600 hover:text-green-900 flex items-center gap-1" title="Aprovar saída">
+                                                    <CheckCircleIcon /> Aprovar
+                                                </button>
+                                                <button onClick={() => openDecision(approval, false)} className="text-red-600 hover:text-red-900 flex items-center gap-1" title="Recusar saída">
+                                                    <XCircleIcon /> Recusar
+                                                </button>
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">Nenhuma saída encontrada.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Card className="p-4">
+                <div className="flex justify-between items-center mb-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-800">Regras de Aprovação</h2>
+                        <p className="text-sm text-gray-600">Saídas que se enquadram em uma regra ativa aguardam aprovação antes de baixar o estoque.</p>
+                    </div>
+                    <Button onClick={() => setCurrentRule({ id: `rule-${Date.now()}`, kind: 'exit_value', threshold: 1000 })}>
+                        <PlusIcon />
+                        Nova Regra
+                    </Button>
+                </div>
+                {rules.length > 0 ? (
+                    <ul className="divide-y divide-gray-200">
+                        {rules.map(rule => (
+                            <li key={rule.id} className="py-2 flex justify-between items-center text-sm">
+                                <span className={isApprovalRuleActive(rule) ? 'text-gray-800' : 'text-gray-400'}>
+                                    {describeApprovalRule(rule, categories)}{isApprovalRuleActive(rule) ? '' : ' (inativa)'}
+                                </span>
+                                <div className="flex items-center gap-3">
+                                    <button onClick={() => setCurrentRule(rule)} className="text-blue-600 hover:text-blue-900" title="Editar regra"><EditIcon /></button>
+                                    <button onClick={() => handleDeleteRule(rule)} className="text-red-600 hover:text-red-900" title="Excluir regra"><TrashIcon /></button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500">Nenhuma regra cadastrada: todas as saídas são registradas diretamente.</p>
+                )}
+            </Card>
+
+            <Modal isOpen={!!decision} onClose={() => setDecision(null)} title={decision?.approve ? 'Aprovar Saída' : 'Recusar Saída'}>
+                {decision && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Saída de <strong>{describeExit(decision.approval)}</strong> solicitada por <strong>{decision.approval.requestedByName}</strong> em {formatDateTime(decision.approval.requestedAt)}.
+                            {decision.approve && ' Ao aprovar, a saída é registrada com o saldo atual do estoque.'}
+                        </p>
+                        <div>
+                            <label htmlFor="decisionNotes" className="block text-sm font-medium text-gray-700">{decision.approve ? 'Observações' : 'Motivo da recusa'}</label>
+                            <Textarea id="decisionNotes" rows={3} value={notes} onChange={e => setNotes(e.target.value)} />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setDecision(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Voltar</Button>
+                            <Button onClick={handleDecision} disabled={isSaving} className={decision.approve ? '' : 'bg-red-600 hover:bg-red-700'}>
+                                {isSaving ? 'Salvando...' : decision.approve ? 'Aprovar' : 'Recusar'}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!currentRule} onClose={() => setCurrentRule(null)} title={isCreatingRule ? 'Nova Regra de Aprovação' : 'Editar Regra de Aprovação'}>
+                {currentRule && (
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="ruleKind" className="block text-sm font-medium text-gray-700">Exigir aprovação para</label>
+                            <Select id="ruleKind" value={currentRule.kind} onChange={e => setCurrentRule({ ...currentRule, kind: e.target.value as ApprovalRuleKind })}>
+                                {Object.entries(APPROVAL_RULE_KIND_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </Select>
+                        </div>
+                        {currentRule.kind === 'category' ? (
+                            <div>
+                                <label htmlFor="ruleCategory" className="block text-sm font-medium text-gray-700">Categoria</label>
+                                <Select id="ruleCategory" value={currentRule.categoryId ?? ''} onChange={e => setCurrentRule({ ...currentRule, categoryId: e.target.value })}>
+                                    <option value="">Selecione...</option>
+                                    {[...categories].sort((a, b) => a.name.localeCompare(b.name)).map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+                                </Select>
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="ruleThreshold" className="block text-sm font-medium text-gray-700">{currentRule.kind === 'exit_value' ? 'Valor (R$)' : 'Percentual (%)'}</label>
+                                <Input id="ruleThreshold" type="number" min="0" step="0.01" value={currentRule.threshold ?? ''} onChange={e => setCurrentRule({ ...currentRule, threshold: e.target.value === '' ? undefined : parseFloat(e.target.value) })} />
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                checked={isApprovalRuleActive(currentRule)}
+                                onChange={e => setCurrentRule({ ...currentRule, active: e.target.checked })}
+                            />
+                            Regra ativa
+                        </label>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setCurrentRule(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                            <Button onClick={handleSaveRule}>Salvar</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default ExitApprovals;
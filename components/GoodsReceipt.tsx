@@ -0,0 +1,349 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Item, Supplier, EntryExitRecord, NewMovement, GoodsReceipt as GoodsReceiptDocument } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import { TrashIcon } from './icons/Icons';
+import { calculateWeightedAverageCost, formatCurrency } from '../utils/costing';
+import { getItemUnitOptions, toStockQuantity, formatQuantity } from '../utils/units';
+import { parseSerialList } from '../utils/serials';
+import { getToday } from '../utils/lots';
+import {
+    apportion,
+    buildReceiptEntries,
+    getGoodsReceiptError,
+    getLastEntryCost,
+    getLineFactor,
+    getReceiptItemsValue,
+    getReceiptLineValue,
+    getReceiptTotal,
+    getReceiptTotalDifference,
+} from '../utils/receipts';
+
+interface GoodsReceiptProps {
+    items: Item[];
+    suppliers: Supplier[];
+    history: EntryExitRecord[];
+    // Item given in the URL (/entradas/nova?item=PAR-001), added as the first line.
+    itemForEntry: Item | null;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
+    addAuditLog: (action: string) => void;
+    onRegistered: (message: string) => void;
+}
+
+// Line as typed in the grid; key identifies it while lines are added and removed.
+interface LineDraft {
+    key: number;
+    itemId: string;
+    quantity: string;
+    unit: string; // Empty means the item's stock unit
+    unitCost: string;
+    lot: string;
+    manufacturingDate: string;
+    expiryDate: string;
+    serialText: string;
+}
+
+const GoodsReceipt: React.FC<GoodsReceiptProps> = ({ items, suppliers, history, itemForEntry, registerMovements, addAuditLog, onRegistered }) => {
+    const nextKey = useRef(0);
+    const newLine = (item: Item, quantity: string): LineDraft => ({
+        key: nextKey.current++,
+        itemId: item.id,
+        quantity,
+        unit: '',
+        unitCost: String(getLastEntryCost(history, item.id) ?? item.avgUnitValue),
+        lot: '',
+        manufacturingDate: '',
+        expiryDate: '',
+        serialText: '',
+    });
+
+    const [supplierId, setSupplierId] = useState(itemForEntry?.preferredSupplierId || '');
+    const [invoice, setInvoice] = useState('');
+    const [invoiceDate, setInvoiceDate] = useState(getToday());
+    const [invoiceTotal, setInvoiceTotal] = useState('');
+    const [freight, setFreight] = useState('');
+    const [taxes, setTaxes] = useState('');
+    const [observations, setObservations] = useState('');
+    const [lines, setLines] = useState<LineDraft[]>(() => itemForEntry ? [newLine(itemForEntry, '')] : []);
+    const [scanCode, setScanCode] = useState('');
+    const [scanError, setScanError] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const scanInputRef = useRef<HTMLInputElement>(null);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const sortedSuppliers = useMemo(() => [...suppliers].sort((a, b) => a.name.localeCompare(b.name)), [suppliers]);
+
+    const receipt: GoodsReceiptDocument = {
+        supplierId,
+        invoice,
+        invoiceDate,
+        invoiceTotal: parseFloat(invoiceTotal) || 0,
+        freight: parseFloat(freight) || 0,
+        taxes: parseFloat(taxes) || 0,
+        observations,
+        lines: lines.map(line => ({
+            itemId: line.itemId,
+            quantity: parseFloat(line.quantity) || 0,
+            unit: line.unit || undefined,
+            unitCost: parseFloat(line.unitCost),
+            lot: line.lot,
+            manufacturingDate: line.manufacturingDate,
+            expiryDate: line.expiryDate,
+            serials: parseSerialList(line.serialText),
+        })),
+    };
+    const difference = getReceiptTotalDifference(receipt);
+    // Shares of the invoice freight and taxes, for the average cost preview of each line.
+    const freightShares = apportion(receipt.freight || 0, receipt.lines.map(getReceiptLineValue));
+    const taxShares = apportion(receipt.taxes || 0, receipt.lines.map(getReceiptLineValue));
+
+    const updateLine = (key: number, changes: Partial<LineDraft>) => {
+        setLines(lines.map(line => line.key === key ? { ...line, ...changes } : line));
+    };
+
+    // Codes read by a barcode scanner end with Enter. Scanning an item already on the grid
+    // adds one unit to its line, unless each unit needs its own lot or serial number.
+    const handleScan = () => {
+        const code = scanCode.trim().toLowerCase();
+        if (!code) return;
+        const item = items.find(i => i.code.toLowerCase() === code);
+        if (!item) {
+            setScanError(`Código ${scanCode.trim()} não encontrado.`);
+            return;
+        }
+        const existing = !item.lotTracked && !item.serialTracked ? [...lines].reverse().find(line => line.itemId === item.id) : undefined;
+        setLines(existing
+            ? lines.map(line => line.key === existing.key ? { ...line, quantity: String((parseFloat(line.quantity) || 0) + 1) } : line)
+            : [...lines, newLine(item, '1')]);
+        if (!supplierId && item.preferredSupplierId) setSupplierId(item.preferredSupplierId);
+        setScanCode('');
+        setScanError(null);
+        scanInputRef.current?.focus();
+    };
+
+    const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            handleScan();
+        }
+    };
+
+    const resetForm = () => {
+        setSupplierId('');
+        setInvoice('');
+        setInvoiceDate(getToday());
+        setInvoiceTotal('');
+        setFreight('');
+        setTaxes('');
+        setObservations('');
+        setLines([]);
+        setError(null);
+    };
+
+    const handleSubmit = async () => {
+        setError(null);
+        const validationError = getGoodsReceiptError(receipt, items);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+
+        setIsSaving(true);
+        let applied: NewMovement[];
+        try {
+            applied = await registerMovements(buildReceiptEntries(receipt, items));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível registrar o recebimento.');
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+
+        const supplierName = suppliers.find(s => s.id === supplierId)?.name ?? '';
+        const details = applied.map(movement => {
+            const item = itemById.get(movement.itemId);
+            const lotText = movement.lot ? ` lote ${movement.lot}` : movement.serials?.length ? ` séries ${movement.serials.join(', ')}` : '';
+            const costText = movement.avgCostBefore !== undefined && movement.avgCostAfter !== undefined
+                ? `, custo médio ${formatCurrency(movement.avgCostBefore)} → ${formatCurrency(movement.avgCostAfter)}`
+                : '';
+            return `${item?.code} ${formatQuantity(movement.quantity, item?.unit ?? '')}${lotText}${costText}`;
+        });
+        addAuditLog(`Registrou o recebimento da NF ${invoice.trim()} de ${supplierName}, total de ${formatCurrency(receipt.invoiceTotal)}: ${details.join('; ')}.`);
+        onRegistered(`Recebimento da NF ${invoice.trim()} registrado com ${applied.length} ${applied.length > 1 ? 'itens' : 'item'}.`);
+        resetForm();
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="md:col-span-2">
+                        <label htmlFor="receiptSupplier" className="block text-sm font-medium text-gray-700 mb-1">Fornecedor</label>
+                        <Select id="receiptSupplier" value={supplierId} onChange={e => setSupplierId(e.target.value)} required>
+                            <option value="">Selecione um fornecedor</option>
+                            {sortedSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label htmlFor="receiptInvoiceNumber" className="block text-sm font-medium text-gray-700 mb-1">Nota Fiscal</label>
+                        <Input id="receiptInvoiceNumber" type="text" value={invoice} onChange={e => setInvoice(e.target.value)} placeholder="e.g., 987654" required />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptInvoiceDate" className="block text-sm font-medium text-gray-700 mb-1">Data de Emissão</label>
+                        <Input id="receiptInvoiceDate" type="date" value={invoiceDate} onChange={e => setInvoiceDate(e.target.value)} required />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptInvoiceTotal" className="block text-sm font-medium text-gray-700 mb-1">Valor Total da Nota (R$)</label>
+                        <Input id="receiptInvoiceTotal" type="number" value={invoiceTotal} onChange={e => setInvoiceTotal(e.target.value)} min="0" step="0.01" required />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptFreight" className="block text-sm font-medium text-gray-700 mb-1">Frete (R$)</label>
+                        <Input id="receiptFreight" type="number" value={freight} onChange={e => setFreight(e.target.value)} placeholder="Opcional" min="0" step="0.01" />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptTaxes" className="block text-sm font-medium text-gray-700 mb-1">Impostos (R$)</label>
+                        <Input id="receiptTaxes" type="number" value={taxes} onChange={e => setTaxes(e.target.value)} placeholder="Opcional" min="0" step="0.01" />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptObservations" className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
+                        <Textarea id="receiptObservations" rows={1} value={observations} onChange={e => setObservations(e.target.value)} placeholder="Opcional" />
+                    </div>
+                </div>
+            </Card>
+
+            <Card>
+                <div className="p-6 space-y-4">
+                    <div>
+                        <label htmlFor="receiptScan" className="block text-sm font-medium text-gray-700 mb-1">Adicionar item</label>
+                        <Input
+                            ref={scanInputRef}
+                            id="receiptScan"
+                            type="text"
+                            value={scanCode}
+                            onChange={e => { setScanCode(e.target.value); setScanError(null); }}
+                            onKeyDown={handleScanKeyDown}
+                            placeholder="Leia o código de barras ou digite o código e tecle Enter"
+                            autoFocus={!itemForEntry}
+                            className={scanError ? 'border-red-500' : ''}
+                        />
+                        {scanError && <p className="text-sm text-red-600 mt-1">{scanError}</p>}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Quantidade</th>
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Valor Unit. (R$)</th>
+                                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                                    <th className="px-3 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {lines.length > 0 ? lines.map((line, index) => {
+                                    const item = itemById.get(line.itemId);
+                                    if (!item) return null;
+                                    const parsed = receipt.lines[index];
+                                    const factor = getLineFactor(item, parsed);
+                                    const stockQuantity = toStockQuantity(parsed.quantity, factor);
+                                    const newAvgCost = parsed.quantity > 0 && parsed.unitCost >= 0
+                                        ? calculateWeightedAverageCost(item.stockQuantity, item.avgUnitValue, { quantity: stockQuantity, unitCost: parsed.unitCost / factor, freight: freightShares[index], taxes: taxShares[index] })
+                                        : null;
+                                    return (
+                                        <React.Fragment key={line.key}>
+                                            <tr>
+                                                <td className="px-3 py-2 text-sm text-gray-900">
+                                                    <span className="font-medium">{item.code}</span> - {item.description}
+                                                    <p className="text-xs text-gray-500">
+                                                        Custo médio: {formatCurrency(item.avgUnitValue)}{newAvgCost !== null && <> &rarr; {formatCurrency(newAvgCost)}</>}
+                                                        {factor !== 1 && parsed.quantity > 0 && <>. Entra como {formatQuantity(stockQuantity, item.unit)}</>}
+                                                    </p>
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    <div className="flex gap-2">
+                                                        <Input aria-label={`Quantidade de ${item.code}`} type="number" value={line.quantity} onChange={e => updateLine(line.key, { quantity: e.target.value })} min="0" step="any" className="w-24" />
+                                                        {getItemUnitOptions(item).length > 1 ? (
+                                                            <Select aria-label={`Unidade de ${item.code}`} value={line.unit || item.unit} onChange={e => updateLine(line.key, { unit: e.target.value === item.unit ? '' : e.target.value })} className="w-36">
+                                                                {getItemUnitOptions(item).map(option => (
+                                                                    <option key={option.unit} value={option.unit}>
+                                                                        {option.factor === 1 ? option.unit : `${option.unit} (${formatQuantity(option.factor, item.unit)})`}
+                                                                    </option>
+                                                                ))}
+                                                            </Select>
+                                                        ) : (
+                                                            <span className="self-center text-sm text-gray-500">{item.unit}</span>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                                <td className="px-3 py-2">
+                                                    <Input aria-label={`Valor unitário de ${item.code}`} type="number" value={line.unitCost} onChange={e => updateLine(line.key, { unitCost: e.target.value })} min="0" step="any" className="w-28" />
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right whitespace-nowrap">{formatCurrency(getReceiptLineValue(parsed))}</td>
+                                                <td className="px-3 py-2">
+                                                    <button onClick={() => setLines(lines.filter(l => l.key !== line.key))} className="text-red-600 hover:text-red-900" title="Remover linha">
+                                                        <TrashIcon />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                            {item.lotTracked && (
+                                                <tr>
+                                                    <td colSpan={5} className="px-3 pb-3">
+                                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                                            <Input aria-label={`Lote de ${item.code}`} type="text" value={line.lot} onChange={e => updateLine(line.key, { lot: e.target.value })} placeholder={`Lote de ${item.code}`} />
+                                                            <Input aria-label={`Fabricação de ${item.code}`} type="date" value={line.manufacturingDate} onChange={e => updateLine(line.key, { manufacturingDate: e.target.value })} title="Fabricação" />
+                                                            <Input aria-label={`Validade de ${item.code}`} type="date" value={line.expiryDate} onChange={e => updateLine(line.key, { expiryDate: e.target.value })} title="Validade" />
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                            {item.serialTracked && (
+                                                <tr>
+                                                    <td colSpan={5} className="px-3 pb-3">
+                                                        <Textarea aria-label={`Números de série de ${item.code}`} rows={2} value={line.serialText} onChange={e => updateLine(line.key, { serialText: e.target.value })} placeholder={`Números de série de ${item.code}, um por linha`} />
+                                                        <p className="text-xs text-gray-500 mt-1">{parsed.serials?.length ?? 0} de {stockQuantity} informados.</p>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    );
+                                }) : (
+                                    <tr>
+                                        <td colSpan={5} className="px-3 py-6 text-center text-sm text-gray-500">Nenhum item adicionado. Leia ou digite o código dos itens da nota.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 border-t pt-4">
+                        <div className="text-sm text-gray-700 space-y-1">
+                            <p>Itens: <span className="font-semibold">{formatCurrency(getReceiptItemsValue(receipt))}</span> ({lines.length} {lines.length === 1 ? 'linha' : 'linhas'})</p>
+                            <p>Frete e impostos: <span className="font-semibold">{formatCurrency((receipt.freight || 0) + (receipt.taxes || 0))}</span></p>
+                            <p>Total calculado: <span className="font-semibold">{formatCurrency(getReceiptTotal(receipt))}</span> de {formatCurrency(receipt.invoiceTotal)} na nota</p>
+                            {receipt.invoiceTotal > 0 && lines.length > 0 && (
+                                difference === 0
+                                    ? <p className="text-green-700 font-semibold">Confere com o total da nota.</p>
+                                    : <p className="text-red-600 font-semibold">{difference > 0 ? 'Excede' : 'Faltam'} {formatCurrency(Math.abs(difference))} {difference > 0 ? 'o total da nota' : 'para o total da nota'}.</p>
+                            )}
+                        </div>
+                        <Button onClick={handleSubmit} disabled={isSaving || lines.length === 0}>
+                            {isSaving ? 'Registrando...' : 'Confirmar Recebimento'}
+                        </Button>
+                    </div>
+                    {error && (
+                        <div className="p-4 rounded-md text-sm bg-red-100 text-red-800">
+                            {error}
+                        </div>
+                    )}
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default GoodsReceipt;
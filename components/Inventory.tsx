@@ -1,38 +1,52 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Item } from '../types';
+import { Item, InventorySession } from '../types';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Select from './ui/Select';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import Toast from './ui/Toast';
+import { getItemLocations, getLocationQuantity, isItemAtLocation, formatLocationBalances } from '../utils/locations';
+
+interface CountEntry {
+    itemId: string;
+    location: string; // Counted location; empty when the whole item was counted
+    value: string;
+}
 
 interface InventoryProps {
     items: Item[];
-    setItems: React.Dispatch<React.SetStateAction<Item[]>>;
+    sessions: InventorySession[];
     addAuditLog: (action: string) => void;
+    registerInventorySession: (counts: { itemId: string; countedQuantity: number; location?: string }[]) => Promise<void>;
 }
 
-const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) => {
+const Inventory: React.FC<InventoryProps> = ({ items, sessions, addAuditLog, registerInventorySession }) => {
     const [filterCategory, setFilterCategory] = useState('');
     const [filterLocation, setFilterLocation] = useState('');
     const [searchTerm, setSearchTerm] = useState('');
-    const [countedQuantities, setCountedQuantities] = useState<Record<string, string>>({});
+    // Keyed by item and counted location, so switching the location filter does not mix counts.
+    const [countedQuantities, setCountedQuantities] = useState<Record<string, CountEntry>>({});
     const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
     const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
     // Pagination state
     const [currentPage, setCurrentPage] = useState(1);
     const [itemsPerPage] = useState(20);
 
+    const getSortLocation = (item: Item) => filterLocation || [...getItemLocations(item)].sort((a, b) => a.localeCompare(b))[0];
+    const getSystemQuantity = (item: Item) => filterLocation ? getLocationQuantity(item, filterLocation) : item.stockQuantity;
+    const getCountKey = (itemId: string) => `${itemId}|${filterLocation}`;
+
     const filteredItems = useMemo(() => {
         return items.filter(item => {
             const matchesCategory = filterCategory ? item.category === filterCategory : true;
-            const matchesLocation = filterLocation ? item.location === filterLocation : true;
+            const matchesLocation = filterLocation ? isItemAtLocation(item, filterLocation) : true;
             const matchesSearch = searchTerm ? item.description.toLowerCase().includes(searchTerm.toLowerCase()) || item.code.toLowerCase().includes(searchTerm.toLowerCase()) : true;
             return matchesCategory && matchesLocation && matchesSearch;
-        }).sort((a, b) => a.location.localeCompare(b.location) || a.code.localeCompare(b.code));
+        }).sort((a, b) => getSortLocation(a).localeCompare(getSortLocation(b)) || a.code.localeCompare(b.code));
     }, [filterCategory, filterLocation, searchTerm, items]);
 
     // Reset page to 1 on filter change
@@ -48,30 +62,31 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
     const totalPages = Math.ceil(filteredItems.length / itemsPerPage);
 
     const categories = useMemo(() => [...new Set(items.map(item => item.category))], [items]);
-    const locations = useMemo(() => [...new Set(items.map(item => item.location))], [items]);
+    const locations = useMemo(() => [...new Set<string>(items.flatMap(getItemLocations))].sort((a, b) => a.localeCompare(b)), [items]);
 
     const handleCountChange = (itemId: string, value: string) => {
         setCountedQuantities(prev => ({
             ...prev,
-            [itemId]: value,
+            [getCountKey(itemId)]: { itemId, location: filterLocation, value },
         }));
     };
     
     const itemsToUpdate = useMemo(() => {
-        return Object.entries(countedQuantities)
-            .map(([itemId, countedValue]) => {
-                if (countedValue === undefined || countedValue === '' || countedValue === null) return null;
+        return Object.entries<CountEntry>(countedQuantities)
+            .map(([key, { itemId, location, value }]) => {
+                if (value === undefined || value === '' || value === null) return null;
                 const item = items.find(i => i.id === itemId);
-                const countedQty = parseFloat(String(countedValue));
-                if (!item || isNaN(countedQty) || item.stockQuantity === countedQty) return null;
-                return { ...item, newQuantity: countedQty, difference: countedQty - item.stockQuantity };
+                const countedQty = parseFloat(String(value));
+                if (!item) return null;
+                const systemQuantity = location ? getLocationQuantity(item, location) : item.stockQuantity;
+                if (isNaN(countedQty) || systemQuantity === countedQty) return null;
+                return { ...item, key, countedLocation: location, systemQuantity, newQuantity: countedQty, difference: countedQty - systemQuantity };
             })
             .filter((item): item is NonNullable<typeof item> => item !== null);
     }, [countedQuantities, items]);
 
     const summary = useMemo(() => {
-        const countedItemsSet = new Set(Object.keys(countedQuantities).filter(key => countedQuantities[key].trim() !== ''));
-        const countedItemsCount = countedItemsSet.size;
+        const countedItemsCount = filteredItems.filter(item => (countedQuantities[getCountKey(item.id)]?.value ?? '').trim() !== '').length;
         const progress = filteredItems.length > 0 ? (countedItemsCount / filteredItems.length) * 100 : 0;
         const divergenceCount = itemsToUpdate.length;
         const totalAdjustmentValue = itemsToUpdate.reduce((sum, item) => {
@@ -79,26 +94,23 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
             return sum + valueDifference;
         }, 0);
         return { countedItemsCount, progress, divergenceCount, totalAdjustmentValue };
-    }, [countedQuantities, filteredItems.length, itemsToUpdate]);
+    }, [countedQuantities, filteredItems, filterLocation, itemsToUpdate]);
 
-    const handleSaveInventory = () => {
-        itemsToUpdate.forEach(item => {
-            addAuditLog(`Ajustou o estoque do item ${item.code} de ${item.stockQuantity} para ${item.newQuantity}.`);
-        });
+    const handleSaveInventory = async () => {
+        setIsSaving(true);
+        try {
+            await registerInventorySession(itemsToUpdate.map(item => ({ itemId: item.id, countedQuantity: item.newQuantity, location: item.countedLocation || undefined })));
+        } catch (error) {
+            setIsSaving(false);
+            setIsConfirmModalOpen(false);
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível salvar o inventário.', type: 'warning' });
+            return;
+        }
 
-        const updatedItems = items.map(item => {
-            const itemUpdate = itemsToUpdate.find(i => i.id === item.id);
-            if (itemUpdate) {
-                return {
-                    ...item,
-                    stockQuantity: itemUpdate.newQuantity,
-                    totalValue: itemUpdate.newQuantity * item.avgUnitValue,
-                };
-            }
-            return item;
+        itemsToUpdate.forEach(item => {
+            addAuditLog(`Ajustou o estoque do item ${item.code}${item.countedLocation ? ` em ${item.countedLocation}` : ''} de ${item.systemQuantity} para ${item.newQuantity}.`);
         });
-
-        setItems(updatedItems);
+        setIsSaving(false);
         setCountedQuantities({});
         setIsConfirmModalOpen(false);
         setToast({ message: 'Inventário atualizado com sucesso!', type: 'success' });
@@ -181,7 +193,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                     <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
                             <tr>
-                                {['Código', 'Descrição', 'Estoque (Sistema)', 'Qtd. Contada', 'Diferença'].map(header => (
+                                {['Código', 'Descrição', 'Localização', 'Estoque (Sistema)', 'Qtd. Contada', 'Diferença'].map(header => (
                                     <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                         {header}
                                     </th>
@@ -190,9 +202,9 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
                             {paginatedItems.map((item, index) => {
-                                const countedValue = countedQuantities[item.id] ?? '';
+                                const countedValue = countedQuantities[getCountKey(item.id)]?.value ?? '';
                                 const hasBeenCounted = countedValue.trim() !== '';
-                                const systemQty = item.stockQuantity;
+                                const systemQty = getSystemQuantity(item);
                                 const countedQty = hasBeenCounted ? parseFloat(countedValue) : systemQty;
                                 const difference = isNaN(countedQty) ? 0 : countedQty - systemQty;
                                 const rowClass = hasBeenCounted ? 'bg-blue-50' : index % 2 === 0 ? 'bg-white' : 'bg-gray-50';
@@ -201,6 +213,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                                     <tr key={item.id} className={rowClass}>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.code}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{item.description}</td>
+                                        <td className="px-6 py-4 text-sm text-gray-600">{filterLocation || formatLocationBalances(item) || item.location}</td>
                                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 font-medium">{systemQty.toLocaleString('pt-BR')}</td>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <Input
@@ -254,6 +267,36 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                     Salvar Inventário ({itemsToUpdate.length} {itemsToUpdate.length === 1 ? 'item' : 'itens'} para ajustar)
                 </Button>
             </div>
+
+            <Card>
+                <div className="p-4 border-b">
+                    <h2 className="text-lg font-semibold text-gray-800">Histórico de Inventários</h2>
+                </div>
+                {sessions.length === 0 ? (
+                    <p className="p-4 text-sm text-gray-500">Nenhum inventário registrado.</p>
+                ) : (
+                    <ul className="divide-y">
+                        {sessions.map(session => (
+                            <li key={session.id} className="p-4 text-sm flex flex-wrap justify-between gap-2">
+                                <span className="text-gray-700">
+                                    {new Date(session.timestamp).toLocaleString('pt-BR')} &middot; {session.userName}
+                                </span>
+                                <span className="text-gray-600">
+                                    {session.lines.length} {session.lines.length === 1 ? 'item ajustado' : 'itens ajustados'}
+                                    {session.lines.length > 0 && (
+                                        <span className="ml-2 font-mono text-xs text-gray-500">
+                                            {session.lines.map(line => {
+                                                const item = items.find(i => i.id === line.itemId);
+                                                return `${item?.code ?? line.itemId}${line.location ? ` (${line.location})` : ''}: ${line.systemQuantity} → ${line.countedQuantity}`;
+                                            }).join(', ')}
+                                        </span>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </Card>
             
             <Modal isOpen={isConfirmModalOpen} onClose={() => setIsConfirmModalOpen(false)} title="Confirmar Ajuste de Inventário">
                  <div className="space-y-4">
@@ -270,10 +313,10 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                             {itemsToUpdate.map(item => {
                                 const valueDifference = item.difference * item.avgUnitValue;
                                 return (
-                                <li key={item.id} className="py-2 px-1 text-sm grid grid-cols-6 gap-2 items-center">
-                                    <span className="col-span-3">{item.code} - {item.description}</span>
+                                <li key={item.key} className="py-2 px-1 text-sm grid grid-cols-6 gap-2 items-center">
+                                    <span className="col-span-3">{item.code} - {item.description}{item.countedLocation && <span className="text-gray-500"> ({item.countedLocation})</span>}</span>
                                     <span className="font-mono text-center">
-                                        {item.stockQuantity} &rarr; <span className="font-bold">{item.newQuantity}</span> (<DifferenceDisplay value={item.difference} />)
+                                        {item.systemQuantity} &rarr; <span className="font-bold">{item.newQuantity}</span> (<DifferenceDisplay value={item.difference} />)
                                     </span>
                                     <span className="col-span-2">
                                         <ValueDisplay value={valueDifference} />
@@ -289,8 +332,8 @@ const Inventory: React.FC<InventoryProps> = ({ items, setItems, addAuditLog }) =
                         <Button onClick={() => setIsConfirmModalOpen(false)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">
                             Cancelar
                         </Button>
-                        <Button onClick={handleSaveInventory} className="bg-green-600 hover:bg-green-700">
-                            Confirmar e Salvar
+                        <Button onClick={handleSaveInventory} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+                            {isSaving ? 'Salvando...' : 'Confirmar e Salvar'}
                         </Button>
                     </div>
                 </div>
@@ -0,0 +1,490 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Item, Location, EntryExitRecord, NewMovement, Supplier, Permission, PeriodClosing } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Toast from './ui/Toast';
+import TransferModal from './TransferModal';
+import ReversalModal from './ReversalModal';
+import { PrintIcon, ExportIcon, EntryIcon, ExitIcon, TransferIcon } from './icons/Icons';
+import { buildKardex, getMovementDelta, KardexLine } from '../utils/movements';
+import { getMovementTypeLabel, getMovementBadgeClasses, getReversalError } from '../utils/reversals';
+import { formatCurrency } from '../utils/costing';
+import { getLocationBalances, findLocationByName } from '../utils/locations';
+import { formatEnteredQuantity, formatInAlternateUnits } from '../utils/units';
+import { SERIAL_STATUS_LABELS, SERIAL_STATUS_BADGE_CLASSES, getSerialHistory, getUnserializedQuantity } from '../utils/serials';
+import { getAvailableQuantity } from '../utils/loans';
+import { getItemLots, sortLotsFefo, isLotExpired, formatLotQuantities, formatLotDate } from '../utils/lots';
+import { Route, Navigate, buildPath, withQuery } from '../routing';
+
+interface ItemDetailProps {
+    items: Item[];
+    locations: Location[];
+    history: EntryExitRecord[];
+    suppliers: Supplier[];
+    // The item is the path segment (/itens/:code); the period is given by ?de=&ate=.
+    // Other query values are the stock list filters, kept for the way back.
+    route: Route;
+    navigate: Navigate;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
+    // Months closed for corrections; their movements can no longer be reversed.
+    periodClosings: PeriodClosing[];
+    reverseMovement: (record: EntryExitRecord, reason: string) => Promise<NewMovement[]>;
+    addAuditLog: (action: string) => void;
+    can: (permission: Permission) => boolean;
+}
+
+const ItemDetail: React.FC<ItemDetailProps> = ({ items, locations, history, suppliers, route, navigate, registerMovements, periodClosings, reverseMovement, addAuditLog, can }) => {
+    const item = items.find(i => i.code === route.params.code);
+    const startDate = route.query.de ?? '';
+    const endDate = route.query.ate ?? '';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+    const canViewValues = can('report.view_values');
+    const kardexPrintRef = useRef<HTMLDivElement>(null);
+    const [isTransferOpen, setIsTransferOpen] = useState(false);
+    const [recordToReverse, setRecordToReverse] = useState<EntryExitRecord | null>(null);
+    const canReverse = can('movement.reverse');
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+    const kardex = useMemo(() => item ? buildKardex(history, item.id) : [], [item, history]);
+
+    // Movements before the period are summed into the opening balance.
+    const { openingLine, periodLines } = useMemo(() => {
+        const before = startDate ? kardex.filter(line => line.record.date < startDate) : [];
+        return {
+            openingLine: before[before.length - 1] ?? null,
+            periodLines: kardex.filter(line => (!startDate || line.record.date >= startDate) && (!endDate || line.record.date <= endDate)),
+        };
+    }, [kardex, startDate, endDate]);
+
+    const periodTotals = useMemo(() => periodLines.reduce((acc, { record }) => {
+        const delta = getMovementDelta(record);
+        if (delta > 0) acc.in += delta;
+        else acc.out -= delta;
+        return acc;
+    }, { in: 0, out: 0 }), [periodLines]);
+
+    const backToStock = () => {
+        navigate(buildPath('stock', {}, { ...route.query, de: undefined, ate: undefined }));
+    };
+
+    if (!item) {
+        return (
+            <Card className="text-center py-12">
+                <p className="text-gray-600 mb-4">Item "{route.params.code}" não encontrado.</p>
+                <Button onClick={backToStock}>Voltar ao Estoque</Button>
+            </Card>
+        );
+    }
+
+    const ledgerBalance = kardex.length > 0 ? kardex[kardex.length - 1].balance : 0;
+    const locationBalances = getLocationBalances(item);
+    const itemLots = sortLotsFefo(getItemLots(item));
+    const itemSerials = [...(item.serials ?? [])].sort((a, b) => a.serial.localeCompare(b.serial));
+
+    const getMovementDocument = (record: EntryExitRecord) => {
+        if (record.type === 'entry') {
+            const supplierName = suppliers.find(s => s.id === record.supplierId)?.name;
+            const invoiceText = record.invoice && `NF ${record.invoice}${record.invoiceDate ? ` de ${new Date(`${record.invoiceDate}T00:00:00`).toLocaleDateString('pt-BR')}` : ''}`;
+            return [invoiceText, supplierName, record.lot && `Lote ${record.lot}`].filter(Boolean).join(' - ');
+        }
+        if (record.type === 'exit') {
+            const lots = record.lots?.length ? `Lotes ${formatLotQuantities(record.lots)}` : '';
+            return [[record.requester, record.responsible].filter(Boolean).join(' / '), lots].filter(Boolean).join(' - ');
+        }
+        if (record.type === 'transfer') {
+            return `${record.fromLocation} → ${record.toLocation}`;
+        }
+        return '';
+    };
+
+    const periodLabel = startDate || endDate
+        ? `${startDate ? new Date(startDate).toLocaleDateString('pt-BR') : 'início'} a ${endDate ? new Date(endDate).toLocaleDateString('pt-BR') : 'hoje'}`
+        : 'Todo o histórico';
+
+    const escapeCsvCell = (cell: string | number) => {
+        const cellStr = String(cell);
+        if (cellStr.includes(',') || cellStr.includes('"') || cellStr.includes('\n')) {
+            return `"${cellStr.replace(/"/g, '""')}"`;
+        }
+        return cellStr;
+    };
+
+    const handleExportCsv = () => {
+        const headers = ['Data', 'Tipo', 'Entrada', 'Saída', 'Qtd. Informada', 'Saldo', ...(canViewValues ? ['Custo Unitário', 'Custo Médio', 'Valor do Saldo'] : []), 'Usuário', 'Documento', 'Observações'];
+        const toRow = (line: KardexLine) => {
+            const delta = getMovementDelta(line.record);
+            return [
+                new Date(line.record.date).toLocaleDateString('pt-BR'),
+                line.record.reversedAt ? `${getMovementTypeLabel(line.record)} (estornado por ${line.record.reversedByName})` : getMovementTypeLabel(line.record),
+                delta > 0 ? delta : '',
+                delta < 0 ? -delta : '',
+                formatEnteredQuantity(line.record),
+                line.balance,
+                ...(canViewValues ? [line.record.unitCost ?? '', line.avgCost, line.balanceValue] : []),
+                line.record.userName || '',
+                getMovementDocument(line.record),
+                line.record.observations || '',
+            ];
+        };
+        const rows: (string | number)[][] = [
+            ...(openingLine ? [['', 'Saldo anterior', '', '', '', openingLine.balance, ...(canViewValues ? ['', openingLine.avgCost, openingLine.balanceValue] : []), '', '', '']] : []),
+            ...periodLines.map(toRow),
+        ];
+
+        const csvContent = [
+            headers.map(escapeCsvCell).join(','),
+            ...rows.map(row => row.map(escapeCsvCell).join(','))
+        ].join('\n');
+
+        const blob = new Blob([`\uFEFF${csvContent}`], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(blob);
+        link.setAttribute("download", `kardex_${item.code}${startDate ? `_${startDate}` : ''}${endDate ? `_${endDate}` : ''}.csv`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const handlePrint = () => {
+        const printArea = kardexPrintRef.current;
+        if (!printArea) return;
+
+        const printWindow = window.open('about:blank', '_blank');
+        if (printWindow) {
+            printWindow.document.write(`
+                <html>
+                    <head>
+                        <title>Ficha de Estoque - ${item.code}</title>
+                        <script src="https://cdn.tailwindcss.com"></script>
+                        <style>
+                            body { font-family: sans-serif; margin: 20px; }
+                            table { width: 100%; border-collapse: collapse; }
+                            th, td { border: 1px solid #ddd; padding: 6px; text-align: left; font-size: 12px; }
+                            th { background-color: #f2f2f2; }
+                            .no-print { display: none; }
+                            @media print { body { margin: 1cm; } tr { page-break-inside: avoid; } }
+                        </style>
+                    </head>
+                    <body>${printArea.innerHTML}</body>
+                </html>
+            `);
+            printWindow.document.close();
+            printWindow.onload = () => {
+                printWindow.print();
+                printWindow.onafterprint = () => printWindow.close();
+            };
+        }
+    };
+
+    const cellClass = 'px-4 py-2 whitespace-nowrap text-sm text-gray-600';
+    const numberCellClass = `${cellClass} text-right`;
+
+    return (
+        <div className="space-y-6">
+            {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+            <div className="flex justify-between items-center flex-wrap gap-4">
+                <div>
+                    <button onClick={backToStock} className="text-sm text-blue-600 hover:underline">← Voltar ao Estoque</button>
+                    <h1 className="text-3xl font-bold text-gray-800">{item.code} - {item.description}</h1>
+                </div>
+                <div className="flex items-center gap-4">
+                    {can('movement.entry') && (
+                        <Button onClick={() => navigate(buildPath('new-entry', {}, { item: item.code }))} className="bg-green-600 hover:bg-green-700">
+                            <EntryIcon />
+                            Entrada
+                        </Button>
+                    )}
+                    {can('movement.exit') && (
+                        <Button onClick={() => navigate(buildPath('new-exit', {}, { item: item.code }))} className="bg-yellow-500 hover:bg-yellow-600">
+                            <ExitIcon />
+                            Saída
+                        </Button>
+                    )}
+                    {can('movement.transfer') && (
+                        <Button onClick={() => setIsTransferOpen(true)}>
+                            <TransferIcon />
+                            Transferir
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card className="p-4">
+                    <p className="text-sm text-gray-500">Estoque Atual</p>
+                    <p className="text-2xl font-bold text-gray-800">{item.stockQuantity.toLocaleString('pt-BR')} {item.unit}</p>
+                    {item.unitConversions?.length ? <p className="text-xs text-gray-500">{formatInAlternateUnits(item, item.stockQuantity)}</p> : null}
+                    {!!item.loanedQuantity && (
+                        <p className="text-xs text-blue-700">{item.loanedQuantity.toLocaleString('pt-BR')} emprestadas · disponível: {getAvailableQuantity(item).toLocaleString('pt-BR')}</p>
+                    )}
+                    {ledgerBalance !== item.stockQuantity && (
+                        <p className="text-xs text-red-600 font-semibold">Saldo pelas movimentações: {ledgerBalance.toLocaleString('pt-BR')}</p>
+                    )}
+                </Card>
+                <Card className="p-4">
+                    <p className="text-sm text-gray-500">Estoque Mínimo</p>
+                    <p className="text-2xl font-bold text-gray-800">{item.minQuantity.toLocaleString('pt-BR')} {item.unit}</p>
+                </Card>
+                <Card className="p-4">
+                    <p className="text-sm text-gray-500">Categoria / Localizações</p>
+                    <p className="text-lg font-semibold text-gray-800">{item.category}</p>
+                    {locationBalances.length > 0 ? locationBalances.map(balance => (
+                        <p key={balance.location} className="text-sm text-gray-600">
+                            {balance.location}: {balance.quantity.toLocaleString('pt-BR')} {item.unit}
+                            {balance.location === item.location && <span className="text-xs text-gray-400"> (padrão)</span>}
+                            {findLocationByName(locations, balance.location)?.status === 'blocked' && <span className="text-xs text-yellow-700"> (bloqueada)</span>}
+                        </p>
+                    )) : (
+                        <p className="text-sm text-gray-600">{item.location}</p>
+                    )}
+                </Card>
+                {canViewValues && (
+                    <Card className="p-4">
+                        <p className="text-sm text-gray-500">Custo Médio / Valor Total</p>
+                        <p className="text-lg font-semibold text-gray-800">{formatCurrency(item.avgUnitValue)}</p>
+                        <p className="text-sm text-gray-600">{formatCurrency(item.totalValue)}</p>
+                    </Card>
+                )}
+            </div>
+
+            {item.lotTracked && (
+                <Card className="p-4">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Lotes</h3>
+                    {itemLots.length > 0 ? (
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lote</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fabricação</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Validade</th>
+                                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantidade</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {itemLots.map(lot => (
+                                    <tr key={lot.lot}>
+                                        <td className={cellClass}>{lot.lot}</td>
+                                        <td className={cellClass}>{formatLotDate(lot.manufacturingDate)}</td>
+                                        <td className={`${cellClass} ${isLotExpired(lot) ? 'text-red-600 font-semibold' : ''}`}>
+                                            {formatLotDate(lot.expiryDate)}{isLotExpired(lot) && ' (vencido)'}
+                                        </td>
+                                        <td className={numberCellClass}>{lot.quantity.toLocaleString('pt-BR')} {item.unit}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-sm text-gray-500">Nenhum lote em estoque.</p>
+                    )}
+                </Card>
+            )}
+
+            {item.serialTracked && (
+                <Card className="p-4">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Números de Série</h3>
+                    {getUnserializedQuantity(item) > 0 && (
+                        <p className="text-sm text-gray-500 mb-2">{getUnserializedQuantity(item).toLocaleString('pt-BR')} {item.unit} em estoque sem número de série.</p>
+                    )}
+                    {itemSerials.length > 0 ? (
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Número de Série</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Movimentações</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {itemSerials.map(({ serial, status }) => (
+                                    <tr key={serial}>
+                                        <td className={`${cellClass} font-mono`}>{serial}</td>
+                                        <td className="px-4 py-2 whitespace-nowrap">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${SERIAL_STATUS_BADGE_CLASSES[status]}`}>
+                                                {SERIAL_STATUS_LABELS[status]}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-2 text-sm text-gray-600">
+                                            {getSerialHistory(history, item.id, serial).map(record => (
+                                                <p key={record.id}>
+                                                    {new Date(record.date).toLocaleDateString('pt-BR')} · {getMovementTypeLabel(record)}
+                                                    {getMovementDocument(record) && ` · ${getMovementDocument(record)}`}
+                                                    {record.userName && ` · ${record.userName}`}
+                                                </p>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-sm text-gray-500">Nenhum número de série registrado.</p>
+                    )}
+                </Card>
+            )}
+
+            <Card className="p-4">
+                <div className="flex justify-between items-end flex-wrap gap-4 mb-4">
+                    <div className="flex items-end gap-4">
+                        <div>
+                            <label htmlFor="kardexStart" className="block text-sm font-medium text-gray-700 mb-1">Data Início</label>
+                            <Input id="kardexStart" type="date" value={startDate} onChange={e => updateQuery({ de: e.target.value })} />
+                        </div>
+                        <div>
+                            <label htmlFor="kardexEnd" className="block text-sm font-medium text-gray-700 mb-1">Data Fim</label>
+                            <Input id="kardexEnd" type="date" value={endDate} onChange={e => updateQuery({ ate: e.target.value })} />
+                        </div>
+                        {(startDate || endDate) && (
+                            <Button onClick={() => updateQuery({ de: '', ate: '' })} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Limpar</Button>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <Button onClick={handleExportCsv} disabled={periodLines.length === 0 && !openingLine} className="bg-gray-600 hover:bg-gray-700">
+                            <ExportIcon />
+                            Exportar CSV
+                        </Button>
+                        <Button onClick={handlePrint}>
+                            <PrintIcon />
+                            Imprimir
+                        </Button>
+                    </div>
+                </div>
+
+                <div ref={kardexPrintRef}>
+                    <div className="mb-4">
+                        <h2 className="text-xl font-bold">Ficha de Estoque (Kardex)</h2>
+                        <p className="text-sm text-gray-600">{item.code} - {item.description} ({item.unit}) · {item.location}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                            <strong>Período:</strong> {periodLabel} · Entradas: {periodTotals.in.toLocaleString('pt-BR')} · Saídas: {periodTotals.out.toLocaleString('pt-BR')} · Gerado em {new Date().toLocaleString('pt-BR')}
+                        </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Data</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tipo</th>
+                                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Entrada</th>
+                                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Saída</th>
+                                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Saldo</th>
+                                    {canViewValues && (
+                                        <>
+                                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Custo Unit.</th>
+                                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Custo Médio</th>
+                                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Valor do Saldo</th>
+                                        </>
+                                    )}
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Usuário</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Documento</th>
+                                    {canReverse && <th className="px-4 py-2 no-print"></th>}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {openingLine && (
+                                    <tr className="bg-gray-50 font-semibold">
+                                        <td className={cellClass} colSpan={4}>Saldo anterior</td>
+                                        <td className={numberCellClass}>{openingLine.balance.toLocaleString('pt-BR')}</td>
+                                        {canViewValues && (
+                                            <>
+                                                <td className={numberCellClass}></td>
+                                                <td className={numberCellClass}>{formatCurrency(openingLine.avgCost)}</td>
+                                                <td className={numberCellClass}>{formatCurrency(openingLine.balanceValue)}</td>
+                                            </>
+                                        )}
+                                        <td className={cellClass} colSpan={2}></td>
+                                        {canReverse && <td className="no-print"></td>}
+                                    </tr>
+                                )}
+                                {periodLines.length > 0 ? periodLines.map(({ record, balance, avgCost, balanceValue }) => {
+                                    const delta = getMovementDelta(record);
+                                    const reversalError = getReversalError(record, periodClosings);
+                                    return (
+                                        <tr key={record.id}>
+                                            <td className={cellClass}>{new Date(record.date).toLocaleDateString('pt-BR')}</td>
+                                            <td className="px-4 py-2 whitespace-nowrap">
+                                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getMovementBadgeClasses(record)}`}>
+                                                    {getMovementTypeLabel(record)}
+                                                </span>
+                                                {record.reversedAt && (
+                                                    <span className="block text-xs text-red-600" title={record.reversalReason}>
+                                                        estornado por {record.reversedByName} em {new Date(record.reversedAt).toLocaleDateString('pt-BR')}
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className={numberCellClass}>
+                                                {delta > 0 ? delta.toLocaleString('pt-BR') : ''}
+                                                {delta > 0 && record.enteredUnit && <span className="block text-xs text-gray-500">{formatEnteredQuantity(record)}</span>}
+                                            </td>
+                                            <td className={numberCellClass}>
+                                                {delta < 0 ? (-delta).toLocaleString('pt-BR') : ''}
+                                                {delta < 0 && record.enteredUnit && <span className="block text-xs text-gray-500">{formatEnteredQuantity(record)}</span>}
+                                            </td>
+                                            <td className={`${numberCellClass} font-semibold`}>{balance.toLocaleString('pt-BR')}</td>
+                                            {canViewValues && (
+                                                <>
+                                                    <td className={numberCellClass}>{record.unitCost !== undefined ? formatCurrency(record.unitCost) : '-'}</td>
+                                                    <td className={numberCellClass}>{formatCurrency(avgCost)}</td>
+                                                    <td className={numberCellClass}>{formatCurrency(balanceValue)}</td>
+                                                </>
+                                            )}
+                                            <td className={cellClass}>{record.userName || '-'}</td>
+                                            <td className="px-4 py-2 text-sm text-gray-600" title={record.observations}>{getMovementDocument(record) || record.observations || '-'}</td>
+                                            {canReverse && (
+                                                <td className="px-4 py-2 whitespace-nowrap text-sm no-print">
+                                                    {!record.reversalOfId && !record.reversedAt && (
+                                                        <button
+                                                            onClick={() => setRecordToReverse(record)}
+                                                            disabled={!!reversalError}
+                                                            title={reversalError ?? undefined}
+                                                            className="text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+                                                        >
+                                                            Estornar
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            )}
+                                        </tr>
+                                    );
+                                }) : (
+                                    <tr>
+                                        <td colSpan={(canViewValues ? 10 : 7) + (canReverse ? 1 : 0)} className="text-center py-8 text-gray-500">
+                                            Nenhuma movimentação encontrada no período.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </Card>
+
+            {isTransferOpen && (
+                <TransferModal
+                    item={item}
+                    locations={locations}
+                    onClose={() => setIsTransferOpen(false)}
+                    onTransferred={message => {
+                        setIsTransferOpen(false);
+                        setToast({ message, type: 'success' });
+                    }}
+                    registerMovements={registerMovements}
+                    addAuditLog={addAuditLog}
+                />
+            )}
+
+            <ReversalModal
+                key={recordToReverse?.id}
+                record={recordToReverse}
+                item={item}
+                onClose={() => setRecordToReverse(null)}
+                onReversed={message => {
+                    setRecordToReverse(null);
+                    setToast({ message, type: 'success' });
+                }}
+                reverseMovement={reverseMovement}
+            />
+        </div>
+    );
+};
+
+export default ItemDetail;
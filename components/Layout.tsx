@@ -1,12 +1,15 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Page, User, Item } from '../types';
+import { Page, User, Item, Permission } from '../types';
 // FIX: Import missing EntryIcon and ExitIcon components.
 import { DashboardIcon, StockIcon, ReportsIcon, LogoutIcon, MenuIcon, CloseIcon, UserIcon, CameraIcon, InventoryIcon, BackupIcon, SearchIcon, AuditIcon, MovementIcon, ControlIcon, ChevronRightIcon, SupplierIcon, BellIcon, EntryIcon, ExitIcon, ChatIcon } from './icons/Icons';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import Input from './ui/Input';
 import Chat from './Chat';
+import { SecuritySettings } from '../auth/securityPolicy';
+import { PAGE_PERMISSIONS } from '../auth/permissions';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -19,6 +22,10 @@ interface LayoutProps {
   items: Item[];
   onGlobalSearch: (searchTerm: string) => void;
   onNavigateWithFilters: (filters: { category?: string, status?: string }) => void;
+  securitySettings: SecuritySettings;
+  onSessionTimeout: () => void;
+  onSessionActivity: () => void;
+  can: (permission: Permission) => boolean;
 }
 
 const NavLink: React.FC<{
@@ -43,7 +50,7 @@ const NavLink: React.FC<{
   </li>
 );
 
-const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, setActivePage, onUpdateProfilePicture, isPasswordChangeForced, items, onGlobalSearch, onNavigateWithFilters }) => {
+const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, setActivePage, onUpdateProfilePicture, isPasswordChangeForced, items, onGlobalSearch, onNavigateWithFilters, securitySettings, onSessionTimeout, onSessionActivity, can }) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
@@ -55,6 +62,13 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
   const [openMenu, setOpenMenu] = useState<string | null>(null);
   const [isChatOpen, setIsChatOpen] = useState(false);
 
+  const idleTimeout = useIdleTimeout(
+    securitySettings.idleTimeoutMinutes * 60 * 1000,
+    securitySettings.idleWarningSeconds * 1000,
+    onSessionTimeout,
+    onSessionActivity
+  );
+
   const lowStockCount = useMemo(() => items.filter(item => item.stockQuantity <= item.minQuantity).length, [items]);
 
   const navStructure = [
@@ -63,46 +77,52 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
       label: 'Dashboard',
       icon: <DashboardIcon />,
       page: 'dashboard' as Page,
-      role: ['Admin', 'Operator'],
     },
     {
       id: 'estoque',
       label: 'Estoque',
       icon: <StockIcon />,
-      role: ['Admin', 'Operator'],
       children: [
-        { id: 'stock', label: 'Estoque Atual', page: 'stock' as Page, role: ['Admin', 'Operator'] },
-        { id: 'inventory', label: 'Inventário', page: 'inventory' as Page, role: ['Admin'] },
+        { id: 'stock', label: 'Estoque Atual', page: 'stock' as Page },
+        { id: 'inventory', label: 'Inventário', page: 'inventory' as Page },
+        { id: 'locations', label: 'Localizações', page: 'locations' as Page },
+        { id: 'categories', label: 'Categorias', page: 'categories' as Page },
+        { id: 'units', label: 'Unidades de Medida', page: 'units' as Page },
       ],
     },
     {
       id: 'movimentacoes',
       label: 'Movimentações',
       icon: <MovementIcon />,
-      role: ['Admin', 'Operator'],
       children: [
-        { id: 'new-entry', label: 'Nova Entrada', page: 'new-entry' as Page, role: ['Admin', 'Operator'] },
-        { id: 'new-exit', label: 'Nova Saída', page: 'new-exit' as Page, role: ['Admin', 'Operator'] },
+        { id: 'new-entry', label: 'Nova Entrada', page: 'new-entry' as Page },
+        { id: 'purchase-orders', label: 'Pedidos de Compra', page: 'purchase-orders' as Page },
+        { id: 'new-exit', label: 'Nova Saída', page: 'new-exit' as Page },
+        { id: 'requisitions', label: 'Requisições', page: 'requisitions' as Page },
+        { id: 'approvals', label: 'Aprovação de Saídas', page: 'approvals' as Page },
+        { id: 'loans', label: 'Empréstimo de Ferramentas', page: 'loans' as Page },
       ],
     },
     {
       id: 'controle',
       label: 'Controle',
       icon: <ControlIcon />,
-      role: ['Admin'],
       children: [
-        { id: 'users', label: 'Usuários', page: 'users' as Page, role: ['Admin'] },
-        { id: 'suppliers', label: 'Fornecedores', page: 'suppliers' as Page, role: ['Admin'] },
-        { id: 'backup', label: 'Backup & Restauração', page: 'backup' as Page, role: ['Admin'] },
+        { id: 'users', label: 'Usuários', page: 'users' as Page },
+        { id: 'roles', label: 'Perfis de Acesso', page: 'roles' as Page },
+        { id: 'suppliers', label: 'Fornecedores', page: 'suppliers' as Page },
+        { id: 'employees', label: 'Colaboradores e EPI', page: 'employees' as Page },
+        { id: 'cost-centers', label: 'Centros de Custo', page: 'cost-centers' as Page },
+        { id: 'periods', label: 'Fechamento de Períodos', page: 'periods' as Page },
+        { id: 'backup', label: 'Backup & Restauração', page: 'backup' as Page },
       ],
     },
     {
         id: 'auditoria',
         label: 'Auditoria',
         icon: <AuditIcon />,
-        role: ['Admin'],
         children: [
-            { id: 'audit', label: 'Monitoramento', page: 'audit' as Page, role: ['Admin'] },
+            { id: 'audit', label: 'Monitoramento', page: 'audit' as Page },
         ]
     },
     {
@@ -110,10 +130,14 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
       label: 'Relatórios',
       icon: <ReportsIcon />,
       page: 'reports' as Page,
-      role: ['Admin', 'Operator'],
     },
   ];
 
+  const canOpenPage = (page: Page) => {
+    const permission = PAGE_PERMISSIONS[page];
+    return !permission || can(permission);
+  };
+
   useEffect(() => {
     const activeParent = navStructure.find(item => 
         item.children?.some(child => child.page === activePage)
@@ -159,10 +183,22 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
   const pageTitles: Record<Page, string> = {
     dashboard: 'Dashboard',
     stock: 'Estoque Atual',
+    item: 'Ficha de Estoque',
+    locations: 'Localizações',
+    categories: 'Categorias',
+    units: 'Unidades de Medida',
     'new-entry': 'Nova Entrada',
+    'purchase-orders': 'Pedidos de Compra',
     'new-exit': 'Nova Saída',
+    requisitions: 'Requisições de Material',
+    approvals: 'Aprovação de Saídas',
+    loans: 'Empréstimo de Ferramentas',
+    employees: 'Colaboradores e EPI',
+    'cost-centers': 'Centros de Custo',
+    periods: 'Fechamento de Períodos',
     reports: 'Relatórios',
     users: 'Gerenciamento de Usuários',
+    roles: 'Perfis de Acesso',
     suppliers: 'Gerenciamento de Fornecedores',
     inventory: 'Inventário',
     backup: 'Backup e Restauração',
@@ -219,8 +255,8 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
         <ul>
             {navStructure.map((group) => {
                 const userHasAccessToGroup = group.children
-                    ? group.children.some(child => (!child.role || child.role.includes(user.role)))
-                    : (group.role && group.role.includes(user.role));
+                    ? group.children.some(child => canOpenPage(child.page))
+                    : canOpenPage(group.page!);
 
                 if (!userHasAccessToGroup) {
                     return null;
@@ -264,7 +300,7 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
                         {isMenuOpen && (
                             <ul className="pl-6 pt-1 transition-all duration-300">
                                 {group.children.map(child => {
-                                    if (child.role && !child.role.includes(user.role)) {
+                                    if (!canOpenPage(child.page)) {
                                         return null;
                                     }
                                     const isChildActive = activePage === child.page;
@@ -447,6 +483,23 @@ const Layout: React.FC<LayoutProps> = ({ children, user, onLogout, activePage, s
             </Button>
           </div>
       </Modal>
+
+      <Modal isOpen={idleTimeout.isWarningVisible} onClose={idleTimeout.stayActive} title="Sessão prestes a expirar">
+          <div className="space-y-4">
+            <p className="text-gray-700">
+              Você está inativo há algum tempo. Por segurança, sua sessão será encerrada em{' '}
+              <strong className="text-red-600">{idleTimeout.secondsLeft} segundo(s)</strong>.
+            </p>
+            <div className="flex justify-end gap-4 pt-4 border-t">
+              <Button onClick={onLogout} className="bg-gray-200 text-gray-800 hover:bg-gray-300">
+                Sair Agora
+              </Button>
+              <Button onClick={idleTimeout.stayActive}>
+                Continuar Conectado
+              </Button>
+            </div>
+          </div>
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Item, Location, LocationStatus, Permission } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PlusIcon, EditIcon, TrashIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import {
+  LOCATION_LEVELS,
+  LOCATION_LEVEL_LABELS,
+  LOCATION_STATUS_LABELS,
+  LOCATION_STATUS_BADGE_CLASSES,
+  getChildLevel,
+  getLocationPath,
+  getDescendantLocations,
+  getLocationBalances,
+  sortLocationTree,
+  getLocationValidationError,
+  getLocationRemovalError,
+} from '../utils/locations';
+
+interface LocationManagementProps {
+  locations: Location[];
+  setLocations: React.Dispatch<React.SetStateAction<Location[]>>;
+  items: Item[];
+  addAuditLog: (action: string) => void;
+  can: (permission: Permission) => boolean;
+}
+
+const LocationManagement: React.FC<LocationManagementProps> = ({ locations, setLocations, items, addAuditLog, can }) => {
+  const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  const canViewValues = can('report.view_values');
+  const isCreating = !!currentLocation && !locations.some(l => l.id === currentLocation.id);
+
+  // Items with stock anywhere below the location, and the value of that stock.
+  const getStockSummary = (location: Location) => {
+    const names = getDescendantLocations(location, locations).map(l => l.name);
+    return items.reduce((summary, item) => {
+      const quantity = getLocationBalances(item)
+        .filter(balance => names.includes(balance.location))
+        .reduce((sum, balance) => sum + balance.quantity, 0);
+      return quantity > 0
+        ? { itemCount: summary.itemCount + 1, value: summary.value + quantity * item.avgUnitValue }
+        : summary;
+    }, { itemCount: 0, value: 0 });
+  };
+
+  const openNewLocation = (parent: Location | null = null) => {
+    const level = parent ? getChildLevel(parent.level) : 'warehouse';
+    if (!level) return;
+    setCurrentLocation({ id: `loc-${Date.now()}`, name: '', level, parentId: parent?.id, status: 'active' });
+  };
+
+  const closeModal = () => setCurrentLocation(null);
+
+  const handleSaveLocation = () => {
+    if (!currentLocation) return;
+    const error = getLocationValidationError(currentLocation, locations, items);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+
+    const saved = { ...currentLocation, name: currentLocation.name.trim() };
+    if (isCreating) {
+      setLocations([...locations, saved]);
+      addAuditLog(`Criou a localização ${getLocationPath(saved, [...locations, saved])}.`);
+      setToast({ message: 'Localização criada com sucesso!', type: 'success' });
+    } else {
+      const previous = locations.find(l => l.id === saved.id)!;
+      setLocations(locations.map(l => l.id === saved.id ? saved : l));
+      addAuditLog(previous.status !== saved.status
+        ? `Alterou a situação da localização ${saved.name} de ${LOCATION_STATUS_LABELS[previous.status]} para ${LOCATION_STATUS_LABELS[saved.status]}.`
+        : `Editou a localização ${saved.name}.`);
+      setToast({ message: 'Localização atualizada com sucesso!', type: 'success' });
+    }
+    closeModal();
+  };
+
+  const handleDeleteLocation = (location: Location) => {
+    const error = getLocationRemovalError(location, locations, items);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir a localização ${location.name}?`)) {
+      setLocations(locations.filter(l => l.id !== location.id));
+      addAuditLog(`Excluiu a localização ${getLocationPath(location, locations)}.`);
+      setToast({ message: 'Localização excluída com sucesso!', type: 'success' });
+    }
+  };
+
+  const parent = currentLocation?.parentId ? locations.find(l => l.id === currentLocation.parentId) : undefined;
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Localizações</h1>
+        <Button onClick={() => openNewLocation()}>
+          <PlusIcon />
+          Novo Almoxarifado
+        </Button>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Código</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nível</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Itens</th>
+                {canViewValues && <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Valor em Estoque</th>}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortLocationTree(locations).map(location => {
+                const { itemCount, value } = getStockSummary(location);
+                const childLevel = getChildLevel(location.level);
+                return (
+                  <tr key={location.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <span style={{ paddingLeft: `${LOCATION_LEVELS.indexOf(location.level) * 1.5}rem` }}>{location.name}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{LOCATION_LEVEL_LABELS[location.level]}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${LOCATION_STATUS_BADGE_CLASSES[location.status]}`}>
+                        {LOCATION_STATUS_LABELS[location.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{itemCount}</td>
+                    {canViewValues && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                      </td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                      {childLevel && (
+                        <button onClick={() => openNewLocation(location)} className="text-green-600 hover:text-green-900" title={`Adicionar ${LOCATION_LEVEL_LABELS[childLevel]}`}>
+                          <PlusIcon />
+                        </button>
+                      )}
+                      <button onClick={() => setCurrentLocation({ ...location })} className="text-blue-600 hover:text-blue-900" title="Editar">
+                        <EditIcon />
+                      </button>
+                      <button onClick={() => handleDeleteLocation(location)} className="text-red-600 hover:text-red-900" title="Excluir">
+                        <TrashIcon />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {locations.length === 0 && (
+                <tr>
+                  <td colSpan={canViewValues ? 6 : 5} className="px-6 py-4 text-center text-sm text-gray-500">Nenhuma localização cadastrada.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal
+        isOpen={!!currentLocation}
+        onClose={closeModal}
+        title={currentLocation ? `${isCreating ? 'Nova' : 'Editar'} Localização - ${LOCATION_LEVEL_LABELS[currentLocation.level]}` : ''}
+      >
+        {currentLocation && (
+            <div className="space-y-4">
+                {parent && (
+                    <p className="text-sm text-gray-600">Dentro de: {getLocationPath(parent, locations)}</p>
+                )}
+                <div>
+                    <label htmlFor="locationName" className="block text-sm font-medium text-gray-700">Código</label>
+                    <Input id="locationName" type="text" value={currentLocation.name} onChange={e => setCurrentLocation({ ...currentLocation, name: e.target.value })} placeholder="Ex: A1-03" />
+                    <p className="text-xs text-gray-500 mt-1">Deve ser único; é o nome usado nos itens e nas movimentações.</p>
+                </div>
+                <div>
+                    <label htmlFor="locationStatus" className="block text-sm font-medium text-gray-700">Situação</label>
+                    <Select id="locationStatus" value={currentLocation.status} onChange={e => setCurrentLocation({ ...currentLocation, status: e.target.value as LocationStatus })}>
+                        {Object.entries<string>(LOCATION_STATUS_LABELS).map(([status, label]) => <option key={status} value={status}>{label}</option>)}
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Localizações bloqueadas não recebem nem liberam estoque; inativas não podem ser usadas em itens.</p>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={closeModal} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSaveLocation}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default LocationManagement;
@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { User } from '../types';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Button from './ui/Button';
@@ -7,11 +6,11 @@ import { EyeIcon, EyeOffIcon } from './icons/Icons';
 import Modal from './ui/Modal';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
-  users: User[];
+  onLogin: (email: string, password: string) => Promise<void>;
+  notice?: string;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, users }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, notice }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -41,23 +40,16 @@ const Login: React.FC<LoginProps> = ({ onLogin, users }) => {
     setError('');
     setFieldErrors({});
 
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    const user = users.find(
-      (u) => u.email.toLowerCase() === email.toLowerCase() && u.password === password
-    );
-
-    setIsLoading(false);
-    if (user) {
+    try {
+      await onLogin(email, password);
       if (rememberMe) {
         localStorage.setItem('rememberedEmail', email);
       } else {
         localStorage.removeItem('rememberedEmail');
       }
-      onLogin(user);
-    } else {
-      setError('E-mail ou senha inválidos.');
+    } catch (err) {
+      setIsLoading(false);
+      setError(err instanceof Error ? err.message : 'E-mail ou senha inválidos.');
       setFieldErrors({ email: true, password: true });
     }
   };
@@ -76,6 +68,11 @@ const Login: React.FC<LoginProps> = ({ onLogin, users }) => {
         <Card>
           <form onSubmit={handleSubmit} className="p-8 space-y-6">
             <h2 className="text-2xl font-semibold text-center text-gray-700">Login</h2>
+            {notice && !error && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                <p className="text-sm text-yellow-800 text-center">{notice}</p>
+              </div>
+            )}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
                 E-mail
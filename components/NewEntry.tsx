@@ -1,172 +1,73 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import Card from './ui/Card';
-import Input from './ui/Input';
 import Button from './ui/Button';
-import Textarea from './ui/Textarea';
-import { Item, Supplier } from '../types';
+import { Item, Supplier, NewMovement, PurchaseOrder, PurchaseOrderReceipt, EntryExitRecord, NfeInvoice, InvoiceImport } from '../types';
 import Toast from './ui/Toast';
 import Select from './ui/Select';
+import { isPurchaseOrderOpen, PURCHASE_ORDER_STATUS_LABELS } from '../utils/purchaseOrders';
+import PurchaseOrderReceiving from './PurchaseOrderReceiving';
+import { parseNfeXml } from '../utils/nfe';
+import NfeImport from './NfeImport';
+import GoodsReceipt from './GoodsReceipt';
 
 interface NewEntryProps {
     items: Item[];
-    setItems: React.Dispatch<React.SetStateAction<Item[]>>;
+    // Item given in the URL (/entradas/nova?item=PAR-001).
     itemForEntry: Item | null;
-    clearItemForEntry: () => void;
     addAuditLog: (action: string) => void;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
     suppliers: Supplier[];
+    purchaseOrders: PurchaseOrder[];
+    // Order given in the URL (/entradas/nova?pedido=PC-0001).
+    orderForEntry: PurchaseOrder | null;
+    receivePurchaseOrder: (orderId: string, receipt: PurchaseOrderReceipt) => Promise<PurchaseOrder | undefined>;
+    history: EntryExitRecord[];
+    importInvoice: (data: InvoiceImport) => Promise<NewMovement[]>;
 }
 
-const NewEntry: React.FC<NewEntryProps> = ({ items, setItems, itemForEntry, clearItemForEntry, addAuditLog, suppliers }) => {
+const NewEntry: React.FC<NewEntryProps> = ({ items, itemForEntry, addAuditLog, registerMovements, suppliers, purchaseOrders, orderForEntry, receivePurchaseOrder, history, importInvoice }) => {
     const [isPreFilled] = useState(!!itemForEntry);
-    const [code, setCode] = useState(itemForEntry?.code || '');
-    const [description, setDescription] = useState(itemForEntry?.description || '');
-    const [quantity, setQuantity] = useState('');
-    const [supplierId, setSupplierId] = useState(itemForEntry?.preferredSupplierId || '');
-    const [invoice, setInvoice] = useState('');
-    const [observations, setObservations] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
+    // Open purchase order being received instead of a receipt without order.
+    const [receivingOrderId, setReceivingOrderId] = useState(orderForEntry && isPurchaseOrderOpen(orderForEntry) ? orderForEntry.id : '');
+    // NF-e read from an XML file, entered line by line instead of a typed receipt.
+    const [importedInvoice, setImportedInvoice] = useState<NfeInvoice | null>(null);
+    const [nfeError, setNfeError] = useState<string | null>(null);
+    const nfeFileInputRef = useRef<HTMLInputElement>(null);
     const [status, setStatus] = useState<{type: 'success' | 'error', text: string} | null>(null);
-    const [codeError, setCodeError] = useState<string | null>(null);
-    const [isItemLocked, setIsItemLocked] = useState(!!itemForEntry);
-    const quantityInputRef = useRef<HTMLInputElement>(null);
 
+    const openOrders = useMemo(() => purchaseOrders.filter(isPurchaseOrderOpen).sort((a, b) => a.expectedDate.localeCompare(b.expectedDate)), [purchaseOrders]);
+    const receivingOrder = openOrders.find(order => order.id === receivingOrderId);
+    const supplierName = (supplierId: string) => suppliers.find(s => s.id === supplierId)?.name ?? 'Fornecedor removido';
 
-    useEffect(() => {
-        // This effect runs once when the component mounts with a pre-filled item.
-        // It's designed to clear the global state in App.tsx to prevent re-filling on navigation.
-        if (itemForEntry) {
-            clearItemForEntry();
-        }
-    }, [itemForEntry, clearItemForEntry]);
-
-    const entryDate = new Date().toLocaleDateString('pt-BR');
-
-    const handleCodeBlur = () => {
-        // Don't validate if it was pre-filled or if the code is empty
-        if (isPreFilled || !code.trim()) {
-            setCodeError(null);
-            if (!isPreFilled && !code.trim()) {
-                setDescription('');
-                setIsItemLocked(false);
-            }
-            return;
-        }
-
-        const foundItem = items.find(i => i.code.toLowerCase() === code.toLowerCase().trim());
-
-        if (foundItem) {
-            setDescription(foundItem.description);
-            setSupplierId(foundItem.preferredSupplierId || '');
-            setCodeError(null);
-            setIsItemLocked(true);
-            quantityInputRef.current?.focus(); // Move focus on success
-        } else {
-            setDescription(''); // Clear description if code is invalid
-            setCodeError('Código do item não encontrado.');
-            setIsItemLocked(false);
-        }
-    };
-
-    const handleCodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'Enter') {
-            e.preventDefault();
-            handleCodeBlur(); // Trigger the same logic as blur
-        }
+    const handleOrderReceived = (order: PurchaseOrder) => {
+        setReceivingOrderId('');
+        setStatus({ type: 'success', text: `Recebimento do pedido ${order.number} registrado. Pedido ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()}.` });
     };
 
-    const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setCode(e.target.value);
-        // If user changes the code, unlock the description and clear it
-        if (isItemLocked) {
-            setIsItemLocked(false);
-            setDescription('');
-        }
-        // Clear error as user types
-        if (codeError) {
-            setCodeError(null);
-        }
-    };
-
-
-    const handleSubmit = async (event: React.FormEvent) => {
-        event.preventDefault();
-        
-        setStatus(null); // Clear previous status messages
-
-        if (codeError) {
-             setStatus({type: 'error', text: 'Por favor, corrija o código do item antes de continuar.'});
-             return;
-        }
-        
-        if (!code.trim()) {
-            setStatus({type: 'error', text: 'O campo "Código" é obrigatório.'});
-            return;
-        }
-        if (!description.trim()) {
-            setStatus({type: 'error', text: 'O campo "Descrição" é obrigatório. Busque por um código válido.'});
-            return;
-        }
-        if (!quantity) {
-            setStatus({type: 'error', text: 'O campo "Quantidade" é obrigatório.'});
-            return;
-        }
-        if (parseFloat(quantity) <= 0) {
-            setStatus({type: 'error', text: 'A quantidade deve ser maior que zero.'});
-            return;
-        }
-        if (!supplierId.trim()) {
-            setStatus({type: 'error', text: 'O campo "Fornecedor" é obrigatório.'});
-            return;
-        }
-        if (!invoice.trim()) {
-            setStatus({type: 'error', text: 'O campo "Nota Fiscal" é obrigatório.'});
-            return;
-        }
-
-        setIsLoading(true);
-
-        // Re-validate the item just before submitting
-        const itemToUpdate = items.find(i => i.code.toLowerCase() === code.toLowerCase());
-        if (!itemToUpdate) {
-            setStatus({ type: 'error', text: 'Código do item não encontrado. A entrada não pode ser registrada.' });
-            setIsLoading(false);
-            return;
-        }
-
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        
-        setItems(prevItems => prevItems.map(item => {
-            if (item.id === itemToUpdate.id) {
-                const newQuantity = item.stockQuantity + parseFloat(quantity);
-                return {
-                    ...item,
-                    stockQuantity: newQuantity,
-                    totalValue: newQuantity * item.avgUnitValue,
-                };
+    const handleNfeFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                setImportedInvoice(parseNfeXml(e.target?.result as string));
+                setNfeError(null);
+                setStatus(null);
+            } catch (error) {
+                setNfeError(error instanceof Error ? error.message : 'Não foi possível ler o XML da NF-e.');
             }
-            return item;
-        }));
-        
-        addAuditLog(`Registrou entrada de ${quantity} unidade(s) para o item ${itemToUpdate.code}.`);
-        setIsLoading(false);
-        setStatus({type: 'success', text: 'Entrada registrada com sucesso!'});
-        
-        // Reset form for the next entry
-        setQuantity('');
-        setSupplierId('');
-        setInvoice('');
-        setObservations('');
-        setCode('');
-        setDescription('');
-        setIsItemLocked(false);
-        setCodeError(null);
+        };
+        reader.readAsText(file);
     };
 
-    const isSubmitDisabled = isLoading || !!codeError || !description;
+    const handleInvoiceImported = (message: string) => {
+        setImportedInvoice(null);
+        setStatus({ type: 'success', text: message });
+    };
 
     return (
-        <div className="space-y-6 max-w-4xl mx-auto">
+        <div className="space-y-6 max-w-5xl mx-auto">
              {status?.type === 'success' && (
                 <Toast 
                     message={status.text}
@@ -175,78 +76,68 @@ const NewEntry: React.FC<NewEntryProps> = ({ items, setItems, itemForEntry, clea
                 />
             )}
             <h1 className="text-3xl font-bold text-gray-800">{isPreFilled ? 'Registrar Entrada para Item Existente' : 'Registrar Nova Entrada'}</h1>
-            <Card>
-                <form onSubmit={handleSubmit} className="p-6 space-y-6">
-                    <div className="p-4 mb-4 bg-blue-50 border border-blue-200 rounded-lg">
-                        <p className="text-sm font-medium text-blue-700">Data de Entrada: <span className="font-bold">{entryDate}</span></p>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <div>
-                            <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">Código</label>
-                            <Input 
-                                id="code" 
-                                type="text" 
-                                value={code} 
-                                onChange={handleCodeChange}
-                                onBlur={handleCodeBlur}
-                                onKeyDown={handleCodeKeyDown}
-                                placeholder="e.g., PAR-001" 
-                                required 
-                                readOnly={isPreFilled} 
-                                className={`${isPreFilled ? 'bg-gray-100 cursor-not-allowed' : ''} ${codeError ? 'border-red-500' : ''}`}
-                             />
-                             {codeError && <p className="text-sm text-red-600 mt-1">{codeError}</p>}
-                        </div>
-                        <div>
-                            <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">Quantidade</label>
-                            <Input ref={quantityInputRef} id="quantity" type="number" value={quantity} onChange={e => setQuantity(e.target.value)} placeholder="e.g., 100" min="0.01" step="any" required />
-                        </div>
-                        <div className="md:col-span-2">
-                            <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">Descrição</label>
-                            <Input 
-                                id="description" 
-                                type="text" 
-                                value={description} 
-                                onChange={e => setDescription(e.target.value)} 
-                                placeholder="e.g., Parafuso Sextavado M8" 
-                                required 
-                                readOnly={isItemLocked} 
-                                className={isItemLocked ? 'bg-gray-100 cursor-not-allowed' : ''} 
-                            />
-                        </div>
-                        <div>
-                            <label htmlFor="supplierId" className="block text-sm font-medium text-gray-700 mb-1">Fornecedor</label>
-                             <Select id="supplierId" value={supplierId} onChange={e => setSupplierId(e.target.value)} required>
-                                <option value="">Selecione um fornecedor</option>
-                                {suppliers.map(s => (
-                                    <option key={s.id} value={s.id}>{s.name}</option>
-                                ))}
-                            </Select>
-                        </div>
-                        <div>
-                            <label htmlFor="invoice" className="block text-sm font-medium text-gray-700 mb-1">Nota Fiscal</label>
-                            <Input id="invoice" type="text" value={invoice} onChange={e => setInvoice(e.target.value)} placeholder="e.g., 987654" required />
-                        </div>
-                        <div className="md:col-span-2">
-                             <label htmlFor="observations" className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
-                            <Textarea id="observations" value={observations} onChange={e => setObservations(e.target.value)} placeholder="Detalhes adicionais sobre a entrada..." />
+            {!isPreFilled && !receivingOrder && !importedInvoice && (
+                <Card className="p-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                        {openOrders.length > 0 && (
+                            <div className="md:col-span-2">
+                                <label htmlFor="purchaseOrderToReceive" className="block text-sm font-medium text-gray-700 mb-1">Receber pedido de compra</label>
+                                <Select id="purchaseOrderToReceive" value="" onChange={e => { setStatus(null); setReceivingOrderId(e.target.value); }}>
+                                    <option value="">Selecione um pedido a caminho para recebê-lo...</option>
+                                    {openOrders.map(order => (
+                                        <option key={order.id} value={order.id}>
+                                            {order.number} - {supplierName(order.supplierId)} (previsto para {new Date(`${order.expectedDate}T00:00:00`).toLocaleDateString('pt-BR')})
+                                        </option>
+                                    ))}
+                                </Select>
+                            </div>
+                        )}
+                        <div className={openOrders.length > 0 ? '' : 'md:col-span-3'}>
+                            <Button type="button" onClick={() => nfeFileInputRef.current?.click()} className="w-full">
+                                Importar XML da NF-e
+                            </Button>
+                            <input type="file" ref={nfeFileInputRef} onChange={handleNfeFile} accept=".xml" className="hidden" />
                         </div>
                     </div>
-                    {status?.type === 'error' && (
-                        <div className={`p-4 rounded-md text-sm bg-red-100 text-red-800`}>
-                            {status.text}
-                        </div>
-                    )}
-                    <div className="flex justify-end pt-4">
-                        <Button type="submit" disabled={isSubmitDisabled}>
-                            {isLoading ? 'Registrando...' : 'Registrar Entrada'}
-                        </Button>
-                    </div>
-                </form>
-            </Card>
+                    {nfeError && <p className="text-sm text-red-600 mt-2">{nfeError}</p>}
+                </Card>
+            )}
+            {importedInvoice ? (
+                <NfeImport
+                    key={importedInvoice.key}
+                    invoice={importedInvoice}
+                    items={items}
+                    suppliers={suppliers}
+                    history={history}
+                    importInvoice={importInvoice}
+                    addAuditLog={addAuditLog}
+                    onImported={handleInvoiceImported}
+                    onClose={() => setImportedInvoice(null)}
+                />
+            ) : receivingOrder ? (
+                <PurchaseOrderReceiving
+                    key={receivingOrder.id}
+                    order={receivingOrder}
+                    items={items}
+                    suppliers={suppliers}
+                    receivePurchaseOrder={receivePurchaseOrder}
+                    addAuditLog={addAuditLog}
+                    onReceived={handleOrderReceived}
+                    onClose={() => setReceivingOrderId('')}
+                />
+            ) : (
+                <GoodsReceipt
+                    items={items}
+                    suppliers={suppliers}
+                    history={history}
+                    itemForEntry={itemForEntry}
+                    registerMovements={registerMovements}
+                    addAuditLog={addAuditLog}
+                    onRegistered={message => setStatus({ type: 'success', text: message })}
+                />
+            )}
         </div>
     );
 };
 
-export default NewEntry;
\ No newline at end of file
+export default NewEntry;
@@ -2,23 +2,54 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Button from './ui/Button';
-import { Item } from '../types';
+import { Item, Location, Employee, NewMovement, LotQuantity, ApprovalRule, ExitApproval, CostCenter, EntryExitRecord } from '../types';
+import Textarea from './ui/Textarea';
 import Toast from './ui/Toast';
+import Select from './ui/Select';
+import { getLocationBalances, getLocationQuantity, getLocationMovementError } from '../utils/locations';
+import { getItemUnitOptions, findItemUnit, toStockQuantity, formatQuantity } from '../utils/units';
+import { getSerialsInStock, getUnserializedQuantity } from '../utils/serials';
+import { getAvailableQuantity } from '../utils/loans';
+import { CA_STATUS_LABELS, CA_STATUS_BADGE_CLASSES, getCaStatus, isEmployeeActive } from '../utils/epi';
+import { getApprovalReasons } from '../utils/approvals';
+import { isCostCenterActive, formatCostCenter, getBudgetWarning, getMonthKey } from '../utils/costCenters';
+import { getItemLots, sortLotsFefo, allocateLotsFefo, sumLotQuantities, isLotExpired, formatLotQuantities, formatLotDate, getToday } from '../utils/lots';
 
 interface NewExitProps {
     items: Item[];
-    setItems: React.Dispatch<React.SetStateAction<Item[]>>;
+    locations: Location[];
+    employees: Employee[];
+    costCenters: CostCenter[];
+    // Exits already recorded, for the cost center's consumption in the month.
+    history: EntryExitRecord[];
+    approvalRules: ApprovalRule[];
+    // Users who can approve exits are not held by the approval rules.
+    canApproveExits: boolean;
+    // Item given in the URL (/saidas/nova?item=PAR-001).
     itemForExit: Item | null;
-    clearItemForExit: () => void;
     addAuditLog: (action: string) => void;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
+    requestExitApproval: (movement: NewMovement) => Promise<ExitApproval | undefined>;
 }
 
-const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearItemForExit, addAuditLog }) => {
+const NewExit: React.FC<NewExitProps> = ({ items, locations, employees, costCenters, history, approvalRules, canApproveExits, itemForExit, addAuditLog, registerMovements, requestExitApproval }) => {
     const [isPreFilled] = useState(!!itemForExit);
     const [itemId, setItemId] = useState(itemForExit?.id || '');
     const [quantity, setQuantity] = useState('');
+    // Unit the quantity is typed in; empty means the item's stock unit.
+    const [exitUnit, setExitUnit] = useState('');
+    const [costCenterId, setCostCenterId] = useState('');
+    // Optional name of who asked for the material; the cost center name when empty.
     const [requester, setRequester] = useState('');
+    // EPI items are delivered to a registered employee instead of a free-text requester.
+    const [employeeId, setEmployeeId] = useState('');
     const [responsible, setResponsible] = useState('');
+    const [observations, setObservations] = useState('');
+    // Empty: taken from the default location first, then from the others.
+    const [location, setLocation] = useState('');
+    // Quantity per lot chosen by the operator; null takes the lots first-expiring-first-out.
+    const [manualLots, setManualLots] = useState<Record<string, string> | null>(null);
+    const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [status, setStatus] = useState<{type: 'success' | 'error', text: string} | null>(null);
     const [searchTerm, setSearchTerm] = useState(itemForExit ? `${itemForExit.code} - ${itemForExit.description}` : '');
@@ -28,6 +59,31 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
     const resultsContainerRef = useRef<HTMLUListElement>(null);
 
     const selectedItem = useMemo(() => items.find(item => item.id === itemId), [itemId, items]);
+    const selectedEmployee = employees.find(employee => employee.id === employeeId);
+    const selectedCostCenter = costCenters.find(costCenter => costCenter.id === costCenterId);
+    const activeCostCenters = useMemo(() => costCenters.filter(isCostCenterActive).sort((a, b) => a.code.localeCompare(b.code)), [costCenters]);
+    const activeEmployees = useMemo(() => employees.filter(isEmployeeActive).sort((a, b) => a.name.localeCompare(b.name)), [employees]);
+    const caStatus = selectedItem?.epi ? getCaStatus(selectedItem.epi) : null;
+    // Blocked locations release nothing.
+    const selectedItemBalances = selectedItem
+        ? getLocationBalances(selectedItem).filter(balance => balance.quantity > 0 && !getLocationMovementError(locations, balance.location, 'out'))
+        : [];
+    const selectedItemLots = selectedItem?.lotTracked ? sortLotsFefo(getItemLots(selectedItem)).filter(lot => lot.quantity > 0) : [];
+    const stockQuantityPreview = selectedItem && parseFloat(quantity) > 0
+        ? toStockQuantity(parseFloat(quantity), (exitUnit && findItemUnit(selectedItem, exitUnit)?.factor) || 1)
+        : 0;
+    const approvalReasons = selectedItem && stockQuantityPreview > 0 && !canApproveExits
+        ? getApprovalReasons(selectedItem, { itemId: selectedItem.id, type: 'exit', quantity: stockQuantityPreview }, approvalRules)
+        : [];
+    // Budgets only warn; the exit is still allowed.
+    const budgetWarning = selectedItem && selectedCostCenter && stockQuantityPreview > 0
+        ? getBudgetWarning(selectedCostCenter, history, stockQuantityPreview * selectedItem.avgUnitValue, getMonthKey(getToday()))
+        : null;
+    const serialsInStock = selectedItem?.serialTracked ? getSerialsInStock(selectedItem).sort((a, b) => a.localeCompare(b)) : [];
+    const unserializedQuantity = selectedItem?.serialTracked ? getUnserializedQuantity(selectedItem) : 0;
+    const chosenLots: LotQuantity[] = manualLots
+        ? Object.entries(manualLots).map(([lot, value]) => ({ lot, quantity: parseFloat(String(value)) || 0 })).filter(lot => lot.quantity > 0)
+        : [];
     
     const searchResults = useMemo(() => {
         if (!searchTerm.trim() || !!itemId) {
@@ -40,12 +96,6 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
         );
     }, [searchTerm, itemId, items]);
 
-    useEffect(() => {
-        if (itemForExit) {
-            clearItemForExit();
-        }
-    }, [itemForExit, clearItemForExit]);
-
     useEffect(() => {
         if (activeIndex >= 0 && resultsContainerRef.current) {
             const activeItem = resultsContainerRef.current.children[activeIndex] as HTMLLIElement;
@@ -65,6 +115,10 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
 
     const handleItemSelect = (item: Item) => {
         setItemId(item.id);
+        setLocation('');
+        setExitUnit('');
+        setManualLots(null);
+        setSelectedSerials([]);
         setSearchTerm(`${item.code} - ${item.description}`);
         setShowResults(false);
         setActiveIndex(-1);
@@ -133,13 +187,20 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
             setStatus({type: 'error', text: 'O campo "Quantidade" é obrigatório.'});
             return;
         }
-        const qty = parseFloat(quantity);
+        const enteredQuantity = parseFloat(quantity);
+        const factor = (selectedItem && exitUnit && findItemUnit(selectedItem, exitUnit)?.factor) || 1;
+        // Balances and the stored movement are in the stock unit.
+        const qty = toStockQuantity(enteredQuantity, factor);
         if (qty <= 0) {
             setStatus({type: 'error', text: 'A quantidade deve ser maior que zero.'});
             return;
         }
-        if (!requester.trim()) {
-            setStatus({type: 'error', text: 'O campo "Solicitante / Setor" é obrigatório.'});
+        if (selectedItem?.epi && !selectedEmployee) {
+            setStatus({type: 'error', text: 'Selecione o colaborador que recebe o EPI.'});
+            return;
+        }
+        if (!selectedCostCenter) {
+            setStatus({type: 'error', text: 'Selecione o centro de custo da saída.'});
             return;
         }
         if (!responsible.trim()) {
@@ -151,33 +212,87 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
             setStatus({type: 'error', text: `Quantidade de saída (${qty}) excede o estoque atual (${selectedItem.stockQuantity}).`});
             return;
         }
+        if (selectedItem && qty > getAvailableQuantity(selectedItem)) {
+            setStatus({type: 'error', text: `Quantidade de saída (${qty}) excede o saldo disponível (${getAvailableQuantity(selectedItem)}): ${selectedItem.loanedQuantity} unidades estão emprestadas.`});
+            return;
+        }
+        if (selectedItem && location && qty > getLocationQuantity(selectedItem, location)) {
+            setStatus({type: 'error', text: `Quantidade de saída (${qty}) excede o saldo em ${location} (${getLocationQuantity(selectedItem, location)}).`});
+            return;
+        }
+
+        if (manualLots && Math.abs(sumLotQuantities(chosenLots) - qty) > 1e-6) {
+            setStatus({type: 'error', text: `A soma das quantidades dos lotes (${sumLotQuantities(chosenLots)}) deve ser igual à quantidade de saída (${qty}).`});
+            return;
+        }
+
+        if (selectedItem?.serialTracked && (selectedSerials.length > qty || qty - selectedSerials.length > unserializedQuantity)) {
+            setStatus({type: 'error', text: unserializedQuantity > 0
+                ? `Selecione os números de série que saem: ${qty} unidades, das quais até ${unserializedQuantity} sem número de série.`
+                : `Selecione ${qty} números de série (${selectedSerials.length} selecionados).`});
+            return;
+        }
 
         setIsLoading(true);
         setItemError(null);
 
-        // Simulate API call
-        await new Promise(resolve => setTimeout(resolve, 1500));
-
-        setItems(prevItems => prevItems.map(item => {
-            if (item.id === itemId) {
-                const newQuantity = item.stockQuantity - qty;
-                return {
-                    ...item,
-                    stockQuantity: newQuantity,
-                    totalValue: newQuantity * item.avgUnitValue
-                };
+        const movement: NewMovement = {
+            itemId,
+            type: 'exit',
+            quantity: qty,
+            ...(factor !== 1 ? { enteredQuantity, enteredUnit: exitUnit } : {}),
+            requester: selectedItem?.epi && selectedEmployee ? selectedEmployee.department || selectedEmployee.name : requester.trim() || selectedCostCenter.name,
+            costCenterId: selectedCostCenter.id,
+            ...(selectedItem?.epi && selectedEmployee ? { employeeId: selectedEmployee.id, employeeName: selectedEmployee.name } : {}),
+            responsible: responsible.trim(),
+            location: location || undefined,
+            ...(manualLots ? { lots: chosenLots } : {}),
+            ...(selectedItem?.serialTracked ? { serials: selectedSerials } : {}),
+            observations: observations.trim() || undefined,
+        };
+        const needsApproval = !!selectedItem && !canApproveExits && getApprovalReasons(selectedItem, movement, approvalRules).length > 0;
+
+        let applied: NewMovement[] = [];
+        try {
+            if (needsApproval) {
+                await requestExitApproval(movement);
+            } else {
+                applied = await registerMovements([movement]);
             }
-            return item;
-        }));
-        
-        addAuditLog(`Registrou saída de ${qty} unidade(s) do item ${selectedItem?.code} para ${requester}.`);
+        } catch (error) {
+            setStatus({ type: 'error', text: error instanceof Error ? error.message : 'Não foi possível registrar a saída.' });
+            setIsLoading(false);
+            return;
+        }
+
+        const quantityText = factor !== 1
+            ? `${formatQuantity(enteredQuantity, exitUnit)} (${formatQuantity(qty, selectedItem?.unit ?? '')})`
+            : formatQuantity(qty, selectedItem?.unit ?? '');
+        const takenLots = applied[0]?.lots;
+        const lotText = [
+            takenLots?.length && `lotes: ${formatLotQuantities(takenLots)}`,
+            selectedSerials.length > 0 && `séries: ${selectedSerials.join(', ')}`,
+        ].filter(Boolean).map(text => ` (${text})`).join('');
+        const recipient = selectedItem?.epi && selectedEmployee
+            ? `${selectedEmployee.name} (matrícula ${selectedEmployee.registration}, CA ${selectedItem.epi.caNumber})`
+            : requester.trim() || selectedCostCenter.name;
+        addAuditLog(needsApproval
+            ? `Solicitou aprovação para a saída de ${quantityText} do item ${selectedItem?.code}${lotText} para ${recipient}, centro de custo ${formatCostCenter(selectedCostCenter)}.`
+            : `Registrou saída de ${quantityText} do item ${selectedItem?.code}${lotText} para ${recipient}, centro de custo ${formatCostCenter(selectedCostCenter)}.`);
         setIsLoading(false);
-        setStatus({type: 'success', text: 'Saída registrada com sucesso!'});
+        setStatus({type: 'success', text: needsApproval ? 'Saída enviada para aprovação.' : 'Saída registrada com sucesso!'});
         
         // Reset form for the next exit
         setQuantity('');
+        setExitUnit('');
         setRequester('');
+        setCostCenterId('');
+        setEmployeeId('');
         setResponsible('');
+        setObservations('');
+        setLocation('');
+        setManualLots(null);
+        setSelectedSerials([]);
         setItemId('');
         setSearchTerm('');
     };
@@ -246,26 +361,179 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
                             {selectedItem && (
                                 <div className="mt-2 text-sm text-gray-600">
                                     Estoque atual: <span className={`font-bold ${selectedItem.stockQuantity <= selectedItem.minQuantity ? 'text-red-600' : 'text-green-600'}`}>{selectedItem.stockQuantity.toLocaleString('pt-BR')}</span>
+                                    {!!selectedItem.loanedQuantity && (
+                                        <span className="ml-2 text-blue-700">({selectedItem.loanedQuantity.toLocaleString('pt-BR')} emprestadas)</span>
+                                    )}
+                                    {selectedItem.epi && caStatus && (
+                                        <div className="mt-1">
+                                            EPI · CA {selectedItem.epi.caNumber}
+                                            {selectedItem.epi.caExpiryDate && ` (validade ${formatLotDate(selectedItem.epi.caExpiryDate)})`}
+                                            <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${CA_STATUS_BADGE_CLASSES[caStatus]}`}>{CA_STATUS_LABELS[caStatus]}</span>
+                                            {caStatus === 'expired' && <p className="text-xs text-red-600 mt-1">O CA deste EPI está vencido. Verifique a renovação do certificado antes de entregar.</p>}
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
                         
                         <div>
                             <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">Quantidade</label>
-                            <Input id="quantity" type="number" value={quantity} onChange={e => setQuantity(e.target.value)} placeholder="e.g., 10" min="0.01" step="0.01" required disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
+                            <div className="flex gap-2">
+                                <Input id="quantity" type="number" value={quantity} onChange={e => setQuantity(e.target.value)} placeholder="e.g., 10" min="0.01" step="0.01" required disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
+                                {selectedItem && getItemUnitOptions(selectedItem).length > 1 && (
+                                    <Select aria-label="Unidade" value={exitUnit || selectedItem.unit} onChange={e => setExitUnit(e.target.value === selectedItem.unit ? '' : e.target.value)} className="w-44">
+                                        {getItemUnitOptions(selectedItem).map(option => (
+                                            <option key={option.unit} value={option.unit}>
+                                                {option.factor === 1 ? option.unit : `${option.unit} (${formatQuantity(option.factor, selectedItem.unit)})`}
+                                            </option>
+                                        ))}
+                                    </Select>
+                                )}
+                            </div>
+                            {selectedItem && exitUnit && parseFloat(quantity) > 0 && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Sairá do estoque como {formatQuantity(toStockQuantity(parseFloat(quantity), findItemUnit(selectedItem, exitUnit)?.factor ?? 1), selectedItem.unit)}.
+                                </p>
+                            )}
                         </div>
 
                         <div>
-                            <label htmlFor="requester" className="block text-sm font-medium text-gray-700 mb-1">Solicitante / Setor</label>
-                            <Input id="requester" type="text" value={requester} onChange={e => setRequester(e.target.value)} placeholder="e.g., Manutenção" required disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
+                            <label htmlFor="costCenter" className="block text-sm font-medium text-gray-700 mb-1">Centro de Custo</label>
+                            <Select id="costCenter" value={costCenterId} onChange={e => setCostCenterId(e.target.value)} required disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''}>
+                                <option value="">Selecione...</option>
+                                {activeCostCenters.map(costCenter => (
+                                    <option key={costCenter.id} value={costCenter.id}>{formatCostCenter(costCenter)}</option>
+                                ))}
+                            </Select>
                         </div>
 
+                        {selectedItem?.epi ? (
+                            <div>
+                                <label htmlFor="employee" className="block text-sm font-medium text-gray-700 mb-1">Colaborador (entrega de EPI)</label>
+                                <Select id="employee" value={employeeId} onChange={e => setEmployeeId(e.target.value)} required>
+                                    <option value="">Selecione...</option>
+                                    {activeEmployees.map(employee => (
+                                        <option key={employee.id} value={employee.id}>{employee.name} - {employee.registration}{employee.department ? ` (${employee.department})` : ''}</option>
+                                    ))}
+                                </Select>
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="requester" className="block text-sm font-medium text-gray-700 mb-1">Solicitante (opcional)</label>
+                                <Input id="requester" type="text" value={requester} onChange={e => setRequester(e.target.value)} placeholder="e.g., João Silva" disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
+                            </div>
+                        )}
+
+                        {selectedItemBalances.length > 1 && (
+                            <div className="md:col-span-2">
+                                <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-1">Retirar de</label>
+                                <Select id="location" value={location} onChange={e => setLocation(e.target.value)}>
+                                    <option value="">Automático (localização padrão primeiro)</option>
+                                    {selectedItemBalances.map(balance => (
+                                        <option key={balance.location} value={balance.location}>
+                                            {balance.location} ({balance.quantity.toLocaleString('pt-BR')} {selectedItem?.unit})
+                                        </option>
+                                    ))}
+                                </Select>
+                            </div>
+                        )}
+
+                        {selectedItemLots.length > 0 && (
+                            <div className="md:col-span-2 space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <span className="block text-sm font-medium text-gray-700">Lotes</span>
+                                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                                        <input type="checkbox" className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" checked={!!manualLots} onChange={e => setManualLots(e.target.checked ? {} : null)} />
+                                        Escolher lotes manualmente
+                                    </label>
+                                </div>
+                                {manualLots ? (
+                                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lote</th>
+                                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Validade</th>
+                                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Saldo</th>
+                                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Retirar ({selectedItem?.unit})</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {selectedItemLots.map(lot => (
+                                                <tr key={lot.lot}>
+                                                    <td className="px-3 py-2">{lot.lot}</td>
+                                                    <td className={`px-3 py-2 ${isLotExpired(lot) ? 'text-red-600 font-semibold' : ''}`}>
+                                                        {formatLotDate(lot.expiryDate)}{isLotExpired(lot) && ' (vencido)'}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right">{lot.quantity.toLocaleString('pt-BR')}</td>
+                                                    <td className="px-3 py-2 text-right">
+                                                        <Input type="number" aria-label={`Quantidade do lote ${lot.lot}`} value={manualLots[lot.lot] ?? ''} onChange={e => setManualLots({ ...manualLots, [lot.lot]: e.target.value })} min="0" max={lot.quantity} step="any" className="w-28 text-right" />
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                ) : (
+                                    <p className="text-sm text-gray-600">
+                                        {stockQuantityPreview > 0
+                                            ? `Sairá dos lotes (FEFO): ${formatLotQuantities(allocateLotsFefo(selectedItemLots, stockQuantityPreview), selectedItem?.unit) || 'nenhum lote válido disponível'}.`
+                                            : 'Os lotes com validade mais próxima saem primeiro; lotes vencidos só saem se escolhidos manualmente.'}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {selectedItem?.serialTracked && (
+                            <div className="md:col-span-2 space-y-2">
+                                <span className="block text-sm font-medium text-gray-700">Números de Série ({selectedSerials.length} selecionados)</span>
+                                {serialsInStock.length > 0 ? (
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-48 overflow-y-auto p-2 border rounded-md">
+                                        {serialsInStock.map(serial => (
+                                            <label key={serial} className="flex items-center gap-2 text-sm text-gray-700">
+                                                <input
+                                                    type="checkbox"
+                                                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                    checked={selectedSerials.includes(serial)}
+                                                    onChange={e => setSelectedSerials(e.target.checked ? [...selectedSerials, serial] : selectedSerials.filter(s => s !== serial))}
+                                                />
+                                                {serial}
+                                            </label>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-gray-500">Nenhum número de série em estoque.</p>
+                                )}
+                                {unserializedQuantity > 0 && (
+                                    <p className="text-xs text-gray-500">{unserializedQuantity.toLocaleString('pt-BR')} {selectedItem.unit} em estoque sem número de série podem sair sem seleção.</p>
+                                )}
+                            </div>
+                        )}
+
                         <div className="md:col-span-2">
                             <label htmlFor="responsible" className="block text-sm font-medium text-gray-700 mb-1">Responsável</label>
                             <Input id="responsible" type="text" value={responsible} onChange={e => setResponsible(e.target.value)} placeholder="e.g., João da Silva" required disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
                         </div>
+
+                        <div className="md:col-span-2">
+                            <label htmlFor="observations" className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
+                            <Textarea id="observations" value={observations} onChange={e => setObservations(e.target.value)} placeholder="Detalhes adicionais sobre a saída..." disabled={!itemId} className={!itemId ? 'bg-gray-100 cursor-not-allowed' : ''} />
+                        </div>
                     </div>
 
+                    {budgetWarning && (
+                        <div className="p-4 rounded-md text-sm bg-yellow-50 border border-yellow-200 text-yellow-800">
+                            {budgetWarning}
+                        </div>
+                    )}
+
+                    {approvalReasons.length > 0 && (
+                        <div className="p-4 rounded-md text-sm bg-yellow-50 border border-yellow-200 text-yellow-800">
+                            <p className="font-medium">Esta saída ficará aguardando aprovação:</p>
+                            <ul className="list-disc list-inside">
+                                {approvalReasons.map(reason => <li key={reason}>{reason}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
                     {status?.type === 'error' && (
                         <div className={`p-4 rounded-md text-sm bg-red-100 text-red-800`}>
                             {status.text}
@@ -274,7 +542,7 @@ const NewExit: React.FC<NewExitProps> = ({ items, setItems, itemForExit, clearIt
 
                     <div className="flex justify-end pt-4">
                         <Button type="submit" disabled={isSubmitDisabled}>
-                            {isLoading ? 'Registrando...' : 'Registrar Saída'}
+                            {isLoading ? 'Registrando...' : approvalReasons.length > 0 ? 'Enviar para Aprovação' : 'Registrar Saída'}
                         </Button>
                     </div>
                 </form>
@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { Item, Supplier, EntryExitRecord, NfeInvoice, InvoiceImport, NewMovement } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import { describeInvoice, findImportedLine, matchNfeLine, suggestItemUnit } from '../utils/nfe';
+import { findSupplierByCnpj, formatCnpj } from '../utils/suppliers';
+import { formatCurrency } from '../utils/costing';
+import { getItemUnitOptions, findItemUnit, formatQuantity, toStockQuantity } from '../utils/units';
+import { parseSerialList } from '../utils/serials';
+
+interface NfeImportProps {
+    invoice: NfeInvoice;
+    items: Item[];
+    suppliers: Supplier[];
+    history: EntryExitRecord[];
+    importInvoice: (data: InvoiceImport) => Promise<NewMovement[]>;
+    addAuditLog: (action: string) => void;
+    onImported: (message: string) => void;
+    onClose: () => void;
+}
+
+// Choices for an NF-e line, by line index.
+interface LineInput {
+    include: boolean;
+    itemId: string;
+    unit: string;
+    lot: string;
+    manufacturingDate: string;
+    expiryDate: string;
+    serialText: string;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR');
+
+const getLineTotal = (line: NfeInvoice['lines'][number]) => line.quantity * line.unitValue + line.freight + line.taxes;
+
+const NfeImport: React.FC<NfeImportProps> = ({ invoice, items, suppliers, history, importInvoice, addAuditLog, onImported, onClose }) => {
+    const matchedSupplier = findSupplierByCnpj(suppliers, invoice.emitterCnpj);
+    const [supplierId, setSupplierId] = useState(matchedSupplier?.id ?? '');
+    // Lines start with the item and unit learned for the supplier's code, and the lot of
+    // the NF-e traceability group. Lines already entered start left out.
+    const [inputs, setInputs] = useState<LineInput[]>(() => invoice.lines.map((line, index) => {
+        const match = matchNfeLine(line, matchedSupplier, items);
+        return {
+            include: !findImportedLine(history, invoice.key, index),
+            itemId: match?.itemId ?? '',
+            unit: match?.unit ?? '',
+            lot: line.lot ?? '',
+            manufacturingDate: line.manufacturingDate ?? '',
+            expiryDate: line.expiryDate ?? '',
+            serialText: '',
+        };
+    }));
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const sortedItems = useMemo(() => [...items].sort((a, b) => a.code.localeCompare(b.code)), [items]);
+    // Without a match by CNPJ, the NF-e can be linked to a supplier that has none yet.
+    const linkableSuppliers = useMemo(() => suppliers.filter(s => !s.cnpj).sort((a, b) => a.name.localeCompare(b.name)), [suppliers]);
+    const supplier = suppliers.find(s => s.id === supplierId);
+    const importedLines = invoice.lines.map((_, index) => findImportedLine(history, invoice.key, index));
+    const importedCount = importedLines.filter(Boolean).length;
+    const firstImported = importedLines.find(Boolean);
+
+    const unmatchedCount = inputs.filter(input => input.include && !input.itemId).length;
+    const includedIndexes = inputs.map((input, index) => input.include ? index : -1).filter(index => index >= 0);
+    const includedTotal = includedIndexes.reduce((sum, index) => sum + getLineTotal(invoice.lines[index]), 0);
+
+    const updateInput = (index: number, changes: Partial<LineInput>) => {
+        setInputs(inputs.map((input, i) => i === index ? { ...input, ...changes } : input));
+    };
+
+    const handleItemChange = (index: number, itemId: string) => {
+        const item = itemById.get(itemId);
+        updateInput(index, { itemId, unit: item ? suggestItemUnit(item, invoice.lines[index].unit) : '' });
+    };
+
+    const handleSubmit = async () => {
+        setError(null);
+        setIsSaving(true);
+        let applied: NewMovement[];
+        try {
+            applied = await importInvoice({
+                invoice,
+                supplierId,
+                lines: includedIndexes.map(index => {
+                    const input = inputs[index];
+                    return {
+                        index,
+                        itemId: input.itemId,
+                        unit: input.unit,
+                        lot: input.lot.trim() || undefined,
+                        manufacturingDate: input.manufacturingDate || undefined,
+                        expiryDate: input.expiryDate || undefined,
+                        serials: parseSerialList(input.serialText),
+                    };
+                }),
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível lançar a NF-e.');
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        const skipped = invoice.lines.length - includedIndexes.length - importedCount;
+        const learned = includedIndexes.filter(index => !matchNfeLine(invoice.lines[index], supplier, items));
+        addAuditLog(`Lançou a ${describeInvoice(invoice)} de ${supplier?.name} (CNPJ ${formatCnpj(invoice.emitterCnpj)}): ${applied.length} ${applied.length > 1 ? 'entradas' : 'entrada'}, total de ${formatCurrency(includedTotal)}.${skipped > 0 ? ` ${skipped} ${skipped > 1 ? 'linhas não lançadas' : 'linha não lançada'}.` : ''}${learned.length > 0 ? ` Códigos vinculados: ${learned.map(index => `${invoice.lines[index].code} → ${itemById.get(inputs[index].itemId)?.code}`).join(', ')}.` : ''}`);
+        onImported(`${describeInvoice(invoice)} lançada com ${applied.length} ${applied.length > 1 ? 'entradas' : 'entrada'}.`);
+    };
+
+    return (
+        <Card>
+            <div className="p-6 space-y-6">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-800">Importação da {describeInvoice(invoice)}</h2>
+                        <p className="text-sm text-gray-600">
+                            {invoice.emitterName} (CNPJ {formatCnpj(invoice.emitterCnpj)}), emitida em {invoice.issueDate ? formatDate(invoice.issueDate) : '-'}. Valor total da nota: {formatCurrency(invoice.total)}.
+                        </p>
+                        <p className="text-xs text-gray-500 break-all">Chave de acesso: {invoice.key}</p>
+                    </div>
+                    <button onClick={onClose} className="text-sm text-blue-600 hover:underline">Voltar para entrada avulsa</button>
+                </div>
+
+                {firstImported && (
+                    <div className="p-4 rounded-md text-sm bg-red-100 text-red-800">
+                        {importedCount === invoice.lines.length
+                            ? `Esta NF-e já foi lançada em ${formatDate(firstImported.date)}${firstImported.userName ? ` por ${firstImported.userName}` : ''}.`
+                            : `${importedCount} ${importedCount > 1 ? 'linhas desta NF-e já foram lançadas' : 'linha desta NF-e já foi lançada'} em ${formatDate(firstImported.date)}${firstImported.userName ? ` por ${firstImported.userName}` : ''}; só as demais podem ser lançadas.`}
+                    </div>
+                )}
+
+                {matchedSupplier ? (
+                    <p className="text-sm text-gray-700">Fornecedor: <span className="font-semibold">{matchedSupplier.name}</span></p>
+                ) : (
+                    <div>
+                        <label htmlFor="nfeSupplier" className="block text-sm font-medium text-gray-700 mb-1">Fornecedor</label>
+                        <Select id="nfeSupplier" value={supplierId} onChange={e => setSupplierId(e.target.value)}>
+                            <option value="">Selecione o fornecedor...</option>
+                            {linkableSuppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </Select>
+                        <p className="text-xs text-yellow-700 mt-1">
+                            Nenhum fornecedor tem o CNPJ {formatCnpj(invoice.emitterCnpj)}. O fornecedor escolhido passará a ter este CNPJ; se ele não estiver na lista, cadastre-o antes em Fornecedores.
+                        </p>
+                    </div>
+                )}
+
+                {unmatchedCount > 0 && (
+                    <p className="text-sm text-yellow-700">
+                        {unmatchedCount} {unmatchedCount > 1 ? 'linhas sem item correspondente' : 'linha sem item correspondente'}. Escolha o item de cada uma (o vínculo com o código do fornecedor será lembrado nas próximas notas) ou desmarque as linhas que não entram no estoque.
+                    </p>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lançar</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Produto na NF-e</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantidade</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Valor Unit.</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Frete / Impostos</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unidade</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {invoice.lines.map((line, index) => {
+                                const input = inputs[index];
+                                const item = itemById.get(input.itemId);
+                                const isUnmatched = input.include && !item;
+                                const factor = (item && findItemUnit(item, input.unit)?.factor) || 1;
+                                return (
+                                    <React.Fragment key={index}>
+                                        <tr className={isUnmatched ? 'bg-yellow-50' : input.include ? '' : 'opacity-50'}>
+                                            <td className="px-3 py-2">
+                                                <input type="checkbox" aria-label={`Lançar a linha ${index + 1}`} checked={input.include} onChange={e => updateInput(index, { include: e.target.checked })} disabled={!!importedLines[index]} />
+                                            </td>
+                                            <td className="px-3 py-2 text-sm text-gray-900">
+                                                <span className="font-mono text-xs text-gray-500">{line.code}</span> {line.description}
+                                                {importedLines[index] && <span className="ml-2 text-xs text-red-700">Já lançada</span>}
+                                            </td>
+                                            <td className="px-3 py-2 text-sm text-gray-700 text-right whitespace-nowrap">{formatQuantity(line.quantity, line.unit)}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-700 text-right whitespace-nowrap">{formatCurrency(line.unitValue)}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-500 text-right whitespace-nowrap">{formatCurrency(line.freight)} / {formatCurrency(line.taxes)}</td>
+                                            <td className="px-3 py-2 w-64">
+                                                <Select aria-label={`Item da linha ${index + 1}`} value={input.itemId} onChange={e => handleItemChange(index, e.target.value)} disabled={!input.include}>
+                                                    <option value="">Selecione...</option>
+                                                    {sortedItems.map(i => <option key={i.id} value={i.id}>{i.code} - {i.description}</option>)}
+                                                </Select>
+                                            </td>
+                                            <td className="px-3 py-2 w-40">
+                                                {item && (
+                                                    <>
+                                                        <Select aria-label={`Unidade da linha ${index + 1}`} value={input.unit} onChange={e => updateInput(index, { unit: e.target.value })} disabled={!input.include}>
+                                                            {getItemUnitOptions(item).map(option => (
+                                                                <option key={option.unit} value={option.unit}>
+                                                                    {option.factor === 1 ? option.unit : `${option.unit} (${formatQuantity(option.factor, item.unit)})`}
+                                                                </option>
+                                                            ))}
+                                                        </Select>
+                                                        {factor !== 1 && <p className="text-xs text-gray-500 mt-1">Entra como {formatQuantity(toStockQuantity(line.quantity, factor), item.unit)}.</p>}
+                                                    </>
+                                                )}
+                                            </td>
+                                        </tr>
+                                        {input.include && item?.lotTracked && (
+                                            <tr>
+                                                <td colSpan={7} className="px-3 pb-3">
+                                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                                        <Input aria-label={`Lote da linha ${index + 1}`} type="text" value={input.lot} onChange={e => updateInput(index, { lot: e.target.value })} placeholder={`Lote de ${item.code}`} />
+                                                        <Input aria-label={`Fabricação da linha ${index + 1}`} type="date" value={input.manufacturingDate} onChange={e => updateInput(index, { manufacturingDate: e.target.value })} title="Fabricação" />
+                                                        <Input aria-label={`Validade da linha ${index + 1}`} type="date" value={input.expiryDate} onChange={e => updateInput(index, { expiryDate: e.target.value })} title="Validade" />
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {input.include && item?.serialTracked && (
+                                            <tr>
+                                                <td colSpan={7} className="px-3 pb-3">
+                                                    <Textarea aria-label={`Números de série da linha ${index + 1}`} rows={2} value={input.serialText} onChange={e => updateInput(index, { serialText: e.target.value })} placeholder={`Números de série de ${item.code}, um por linha`} />
+                                                    <p className="text-xs text-gray-500 mt-1">{parseSerialList(input.serialText).length} de {toStockQuantity(line.quantity, factor)} informados.</p>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex justify-between items-center">
+                    <p className="text-sm text-gray-700">
+                        Total das linhas lançadas: <span className="font-semibold">{formatCurrency(includedTotal)}</span> de {formatCurrency(invoice.total)}
+                    </p>
+                    <Button onClick={handleSubmit} disabled={isSaving || !supplierId || unmatchedCount > 0 || includedIndexes.length === 0}>
+                        {isSaving ? 'Lançando...' : `Lançar NF-e (${includedIndexes.length} ${includedIndexes.length === 1 ? 'linha' : 'linhas'})`}
+                    </Button>
+                </div>
+                {error && (
+                    <div className="p-4 rounded-md text-sm bg-red-100 text-red-800">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+export default NfeImport;
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { PeriodClosing, EntryExitRecord, User } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Select from './ui/Select';
+import Toast from './ui/Toast';
+import { getClosedThrough, getPeriodClosingError, getPeriodReopeningError, buildPeriodClosing } from '../utils/periods';
+import { getMonthKey, formatMonth } from '../utils/costCenters';
+import { getToday } from '../utils/lots';
+
+interface PeriodClosingManagementProps {
+    closings: PeriodClosing[];
+    setClosings: React.Dispatch<React.SetStateAction<PeriodClosing[]>>;
+    history: EntryExitRecord[];
+    currentUser: User;
+    addAuditLog: (action: string) => void;
+}
+
+const previousMonth = (month: string): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return monthNumber === 1 ? `${year - 1}-12` : `${year}-${String(monthNumber - 1).padStart(2, '0')}`;
+};
+
+const PeriodClosingManagement: React.FC<PeriodClosingManagementProps> = ({ closings, setClosings, history, currentUser, addAuditLog }) => {
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+    const closedThrough = getClosedThrough(closings);
+    const sortedClosings = [...closings].sort((a, b) => b.month.localeCompare(a.month));
+
+    const movementCountByMonth = useMemo(() => history.reduce((counts, record) => {
+        const month = getMonthKey(record.date);
+        counts.set(month, (counts.get(month) ?? 0) + 1);
+        return counts;
+    }, new Map<string, number>()), [history]);
+
+    // Ended months after the last closing, back to the first month with movements.
+    const closableMonths = useMemo(() => {
+        const firstMonth = [...movementCountByMonth.keys()].sort()[0] ?? previousMonth(getMonthKey(getToday()));
+        const months: string[] = [];
+        for (let month = previousMonth(getMonthKey(getToday())); month >= firstMonth && (!closedThrough || month > closedThrough); month = previousMonth(month)) {
+            months.push(month);
+        }
+        return months;
+    }, [movementCountByMonth, closedThrough]);
+    const [selectedMonth, setSelectedMonth] = useState('');
+    const monthToClose = closableMonths.includes(selectedMonth) ? selectedMonth : closableMonths[0] ?? '';
+
+    const handleClose = () => {
+        const error = getPeriodClosingError(monthToClose, closings);
+        if (error) {
+            setToast({ message: error, type: 'warning' });
+            return;
+        }
+        if (!window.confirm(`Fechar o período ${formatMonth(monthToClose)}? As movimentações até este mês não poderão mais ser estornadas.`)) return;
+        setClosings([buildPeriodClosing(monthToClose, currentUser), ...closings]);
+        addAuditLog(`Fechou o período de estoque ${formatMonth(monthToClose)}.`);
+        setToast({ message: `Período ${formatMonth(monthToClose)} fechado.`, type: 'success' });
+    };
+
+    const handleReopen = (closing: PeriodClosing) => {
+        const error = getPeriodReopeningError(closing, closings);
+        if (error) {
+            setToast({ message: error, type: 'warning' });
+            return;
+        }
+        if (!window.confirm(`Reabrir o período ${formatMonth(closing.month)}? Suas movimentações voltarão a poder ser estornadas.`)) return;
+        setClosings(closings.filter(c => c.id !== closing.id));
+        addAuditLog(`Reabriu o período de estoque ${formatMonth(closing.month)}, fechado por ${closing.closedByName}.`);
+        setToast({ message: `Período ${formatMonth(closing.month)} reaberto.`, type: 'success' });
+    };
+
+    return (
+        <div className="space-y-6">
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    onClose={() => setToast(null)}
+                />
+            )}
+            <h1 className="text-3xl font-bold text-gray-800">Fechamento de Períodos</h1>
+
+            <Card className="p-6 space-y-4">
+                <p className="text-sm text-gray-700">
+                    {closedThrough
+                        ? <>Períodos fechados até <span className="font-semibold">{formatMonth(closedThrough)}</span>.</>
+                        : 'Nenhum período fechado.'}
+                    {' '}Movimentações de meses fechados não podem mais ser estornadas.
+                </p>
+                {closableMonths.length > 0 ? (
+                    <div className="flex flex-col md:flex-row gap-4 md:items-end">
+                        <div className="md:w-64">
+                            <label htmlFor="periodToClose" className="block text-sm font-medium text-gray-700 mb-1">Fechar até o mês</label>
+                            <Select id="periodToClose" value={monthToClose} onChange={e => setSelectedMonth(e.target.value)}>
+                                {closableMonths.map(month => (
+                                    <option key={month} value={month}>
+                                        {formatMonth(month)} ({movementCountByMonth.get(month) ?? 0} movimentações)
+                                    </option>
+                                ))}
+                            </Select>
+                        </div>
+                        <Button onClick={handleClose}>Fechar Período</Button>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500">Não há meses encerrados a fechar.</p>
+                )}
+            </Card>
+
+            <Card>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Mês</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Movimentações</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fechado em</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fechado por</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {sortedClosings.length > 0 ? sortedClosings.map(closing => (
+                                <tr key={closing.id}>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatMonth(closing.month)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{movementCountByMonth.get(closing.month) ?? 0}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(closing.closedAt).toLocaleString('pt-BR')}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{closing.closedByName}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                        {closing.month === closedThrough && (
+                                            <button onClick={() => handleReopen(closing)} className="text-blue-600 hover:underline">Reabrir</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={5} className="text-center py-8 text-gray-500">Nenhum período fechado.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default PeriodClosingManagement;
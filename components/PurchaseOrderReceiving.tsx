@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { Item, Supplier, PurchaseOrder, PurchaseOrderReceipt } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Textarea from './ui/Textarea';
+import { PURCHASE_ORDER_STATUS_LABELS, getPendingQuantity, getReceiptVariances } from '../utils/purchaseOrders';
+import { formatCurrency } from '../utils/costing';
+import { formatQuantity } from '../utils/units';
+import { parseSerialList } from '../utils/serials';
+
+interface PurchaseOrderReceivingProps {
+    order: PurchaseOrder;
+    items: Item[];
+    suppliers: Supplier[];
+    receivePurchaseOrder: (orderId: string, receipt: PurchaseOrderReceipt) => Promise<PurchaseOrder | undefined>;
+    addAuditLog: (action: string) => void;
+    onReceived: (order: PurchaseOrder) => void;
+    onClose: () => void;
+}
+
+// Values typed for an order line, by line index.
+interface LineInput {
+    quantity: string;
+    unitPrice: string;
+    lot: string;
+    manufacturingDate: string;
+    expiryDate: string;
+    serialText: string;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR');
+
+// Pending lines start filled with the pending quantity and the agreed price.
+const initialInputs = (order: PurchaseOrder): Record<number, LineInput> => Object.fromEntries(
+    order.lines.map((line, index) => [index, {
+        quantity: getPendingQuantity(line) > 0 ? String(getPendingQuantity(line)) : '',
+        unitPrice: String(line.unitPrice),
+        lot: '',
+        manufacturingDate: '',
+        expiryDate: '',
+        serialText: '',
+    }]),
+);
+
+const PurchaseOrderReceiving: React.FC<PurchaseOrderReceivingProps> = ({ order, items, suppliers, receivePurchaseOrder, addAuditLog, onReceived, onClose }) => {
+    const [invoice, setInvoice] = useState('');
+    const [observations, setObservations] = useState('');
+    const [inputs, setInputs] = useState<Record<number, LineInput>>(() => initialInputs(order));
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const supplierName = suppliers.find(s => s.id === order.supplierId)?.name ?? 'Fornecedor removido';
+    const pendingLines = order.lines.map((line, index) => ({ line, index })).filter(({ line }) => getPendingQuantity(line) > 0);
+
+    const receiptLines: PurchaseOrderReceipt['lines'] = pendingLines
+        .map(({ index }) => ({ index, input: inputs[index] }))
+        .filter(({ input }) => parseFloat(input.quantity) > 0)
+        .map(({ index, input }) => ({
+            index,
+            quantity: parseFloat(input.quantity),
+            unitPrice: parseFloat(input.unitPrice),
+            lot: input.lot.trim() || undefined,
+            manufacturingDate: input.manufacturingDate || undefined,
+            expiryDate: input.expiryDate || undefined,
+            serials: parseSerialList(input.serialText),
+        }));
+    const variances = getReceiptVariances(order, receiptLines);
+    const varianceByIndex = new Map(variances.map(variance => [variance.index, variance]));
+    const receiptTotal = receiptLines.reduce((sum, line) => sum + line.quantity * (line.unitPrice || 0), 0);
+
+    const updateInput = (index: number, changes: Partial<LineInput>) => {
+        setInputs({ ...inputs, [index]: { ...inputs[index], ...changes } });
+    };
+
+    const describeLine = (index: number) => {
+        const item = itemById.get(order.lines[index].itemId);
+        return item ? item.code : `linha ${index + 1}`;
+    };
+
+    const describeVariance = (index: number) => {
+        const variance = varianceByIndex.get(index);
+        if (!variance) return null;
+        const unit = itemById.get(order.lines[index].itemId)?.unit ?? '';
+        return [
+            variance.quantityDifference > 0 && `${formatQuantity(variance.quantityDifference, unit)} acima do pendente`,
+            variance.quantityDifference < 0 && `faltam ${formatQuantity(-variance.quantityDifference, unit)}`,
+            variance.priceDifference !== 0 && `preço ${variance.priceDifference > 0 ? '+' : '-'}${formatCurrency(Math.abs(variance.priceDifference))}`,
+        ].filter(Boolean).join(', ');
+    };
+
+    const handleSubmit = async () => {
+        setError(null);
+        const overReceived = variances.filter(variance => variance.quantityDifference > 0);
+        if (overReceived.length > 0 && !window.confirm(
+            `Os itens ${overReceived.map(variance => describeLine(variance.index)).join(', ')} estão sendo recebidos acima do saldo pendente do pedido ${order.number}. Confirma o recebimento a maior?`,
+        )) return;
+
+        setIsSaving(true);
+        let received: PurchaseOrder | undefined;
+        try {
+            received = await receivePurchaseOrder(order.id, {
+                invoice,
+                observations: observations.trim() || undefined,
+                lines: receiptLines,
+                confirmOverReceipt: overReceived.length > 0,
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível registrar o recebimento.');
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!received) return;
+        const differences = variances.map(variance => `${describeLine(variance.index)}: ${describeVariance(variance.index)}`);
+        addAuditLog(`Recebeu ${receiptLines.length} ${receiptLines.length > 1 ? 'itens' : 'item'} do pedido de compra ${received.number} (NF ${invoice.trim()}), total de ${formatCurrency(receiptTotal)}. Pedido ${PURCHASE_ORDER_STATUS_LABELS[received.status].toLowerCase()}.${differences.length > 0 ? ` Divergências: ${differences.join('; ')}.` : ''}`);
+        onReceived(received);
+    };
+
+    return (
+        <Card>
+            <div className="p-6 space-y-6">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-800">Recebimento do Pedido {order.number}</h2>
+                        <p className="text-sm text-gray-600">
+                            {supplierName}, entrega prevista em {formatDate(order.expectedDate)}. {PURCHASE_ORDER_STATUS_LABELS[order.status]}.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-sm text-blue-600 hover:underline">Voltar para entrada avulsa</button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label htmlFor="receiptInvoice" className="block text-sm font-medium text-gray-700 mb-1">Nota Fiscal</label>
+                        <Input id="receiptInvoice" type="text" value={invoice} onChange={e => setInvoice(e.target.value)} placeholder="e.g., 987654" required />
+                    </div>
+                    <div>
+                        <label htmlFor="receiptObservations" className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
+                        <Textarea id="receiptObservations" rows={1} value={observations} onChange={e => setObservations(e.target.value)} placeholder="Opcional" />
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pedido</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pendente</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Preço Pedido</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Qtd. Recebida</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Preço NF (R$)</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Divergência</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {pendingLines.map(({ line, index }) => {
+                                const item = itemById.get(line.itemId);
+                                const input = inputs[index];
+                                const variance = varianceByIndex.get(index);
+                                const isReceived = parseFloat(input.quantity) > 0;
+                                return (
+                                    <React.Fragment key={index}>
+                                        <tr>
+                                            <td className="px-3 py-2 text-sm text-gray-900">{item ? `${item.code} - ${item.description}` : line.itemId}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-500 text-right whitespace-nowrap">{formatQuantity(line.quantity, item?.unit ?? '')}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-700 text-right whitespace-nowrap">{formatQuantity(getPendingQuantity(line), item?.unit ?? '')}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-500 text-right whitespace-nowrap">{formatCurrency(line.unitPrice)}</td>
+                                            <td className="px-3 py-2 w-32">
+                                                <Input aria-label={`Quantidade recebida da linha ${index + 1}`} type="number" min="0" step="any" value={input.quantity} onChange={e => updateInput(index, { quantity: e.target.value })} />
+                                            </td>
+                                            <td className="px-3 py-2 w-32">
+                                                <Input aria-label={`Preço da nota da linha ${index + 1}`} type="number" min="0" step="any" value={input.unitPrice} onChange={e => updateInput(index, { unitPrice: e.target.value })} />
+                                            </td>
+                                            <td className={`px-3 py-2 text-sm ${variance && (variance.quantityDifference > 0 || variance.priceDifference > 0) ? 'text-red-600 font-semibold' : 'text-yellow-700'}`}>
+                                                {describeVariance(index) ?? <span className="text-gray-400">-</span>}
+                                            </td>
+                                        </tr>
+                                        {isReceived && item?.lotTracked && (
+                                            <tr>
+                                                <td colSpan={7} className="px-3 pb-3">
+                                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                                        <Input aria-label={`Lote da linha ${index + 1}`} type="text" value={input.lot} onChange={e => updateInput(index, { lot: e.target.value })} placeholder={`Lote de ${item.code}`} />
+                                                        <Input aria-label={`Fabricação da linha ${index + 1}`} type="date" value={input.manufacturingDate} onChange={e => updateInput(index, { manufacturingDate: e.target.value })} title="Fabricação" />
+                                                        <Input aria-label={`Validade da linha ${index + 1}`} type="date" value={input.expiryDate} onChange={e => updateInput(index, { expiryDate: e.target.value })} title="Validade" />
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                        {isReceived && item?.serialTracked && (
+                                            <tr>
+                                                <td colSpan={7} className="px-3 pb-3">
+                                                    <Textarea aria-label={`Números de série da linha ${index + 1}`} rows={2} value={input.serialText} onChange={e => updateInput(index, { serialText: e.target.value })} placeholder={`Números de série de ${item.code}, um por linha`} />
+                                                    <p className="text-xs text-gray-500 mt-1">{parseSerialList(input.serialText).length} de {parseFloat(input.quantity)} informados.</p>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex justify-between items-center">
+                    <p className="text-sm text-gray-700">
+                        Total recebido: <span className="font-semibold">{formatCurrency(receiptTotal)}</span>
+                        {variances.length > 0 && <span className="text-yellow-700"> ({variances.length} {variances.length > 1 ? 'linhas divergentes' : 'linha divergente'})</span>}
+                    </p>
+                    <Button onClick={handleSubmit} disabled={isSaving || receiptLines.length === 0}>
+                        {isSaving ? 'Registrando...' : 'Registrar Recebimento'}
+                    </Button>
+                </div>
+                {error && (
+                    <div className="p-4 rounded-md text-sm bg-red-100 text-red-800">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+export default PurchaseOrderReceiving;
@@ -0,0 +1,480 @@
+import React, { useMemo, useState } from 'react';
+import { Item, Supplier, PurchaseOrder, NewPurchaseOrder } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import Modal from './ui/Modal';
+import Toast from './ui/Toast';
+import { PlusIcon, TrashIcon, EditIcon, EyeIcon, XCircleIcon, SendIcon, PrintIcon, EntryIcon } from './icons/Icons';
+import {
+    PURCHASE_ORDER_STATUS_LABELS,
+    PURCHASE_ORDER_STATUS_BADGE_CLASSES,
+    isPurchaseOrderOpen,
+    getPendingQuantity,
+    getPurchaseOrderTotal,
+} from '../utils/purchaseOrders';
+import { formatCurrency } from '../utils/costing';
+import { getToday, addDays } from '../utils/lots';
+import { Route, Navigate, withQuery, buildPath } from '../routing';
+
+interface PurchaseOrdersProps {
+    orders: PurchaseOrder[];
+    items: Item[];
+    suppliers: Supplier[];
+    route: Route;
+    navigate: Navigate;
+    createPurchaseOrders: (orders: NewPurchaseOrder[]) => Promise<PurchaseOrder[]>;
+    updatePurchaseOrder: (orderId: string, order: NewPurchaseOrder) => Promise<PurchaseOrder | undefined>;
+    sendPurchaseOrder: (orderId: string) => Promise<PurchaseOrder | undefined>;
+    cancelPurchaseOrder: (orderId: string, reason: string) => Promise<PurchaseOrder | undefined>;
+    canReceive: boolean;
+    addAuditLog: (action: string) => void;
+}
+
+// Values of the "situacao" query parameter.
+const STATUS_FILTERS: Record<string, { label: string; matches: (order: PurchaseOrder) => boolean }> = {
+    abertos: { label: 'Em aberto', matches: order => order.status === 'draft' || isPurchaseOrderOpen(order) },
+    rascunhos: { label: 'Rascunhos', matches: order => order.status === 'draft' },
+    'a-caminho': { label: 'A caminho', matches: isPurchaseOrderOpen },
+    recebidos: { label: 'Recebidos', matches: order => order.status === 'received' },
+    cancelados: { label: 'Cancelados', matches: order => order.status === 'cancelled' },
+    todos: { label: 'Todos', matches: () => true },
+};
+
+// Order being written in the form; id is set when editing a draft.
+type Draft = NewPurchaseOrder & { id?: string };
+
+const emptyLine = () => ({ itemId: '', quantity: 1, unitPrice: 0 });
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR');
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({ orders, items, suppliers, route, navigate, createPurchaseOrders, updatePurchaseOrder, sendPurchaseOrder, cancelPurchaseOrder, canReceive, addAuditLog }) => {
+    const statusFilter = route.query.situacao && STATUS_FILTERS[route.query.situacao] ? route.query.situacao : 'abertos';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [selected, setSelected] = useState<PurchaseOrder | null>(null);
+    const [toCancel, setToCancel] = useState<PurchaseOrder | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const supplierById = useMemo(() => new Map<string, Supplier>(suppliers.map(supplier => [supplier.id, supplier])), [suppliers]);
+    const sortedItems = useMemo(() => [...items].sort((a, b) => a.code.localeCompare(b.code)), [items]);
+    const sortedSuppliers = useMemo(() => [...suppliers].sort((a, b) => a.name.localeCompare(b.name)), [suppliers]);
+
+    const sortedOrders = useMemo(() => [...orders].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [orders]);
+    const filteredOrders = sortedOrders.filter(STATUS_FILTERS[statusFilter].matches);
+    const onTheWay = sortedOrders.filter(isPurchaseOrderOpen);
+    const onTheWayValue = onTheWay.reduce((sum, order) => sum + order.lines.reduce((lineSum, line) => lineSum + getPendingQuantity(line) * line.unitPrice, 0), 0);
+    const today = getToday();
+
+    const describeItem = (itemId: string) => {
+        const item = itemById.get(itemId);
+        return item ? `${item.code} - ${item.description}` : itemId;
+    };
+    const supplierName = (supplierId: string) => supplierById.get(supplierId)?.name ?? 'Fornecedor removido';
+
+    const updateDraftLine = (index: number, changes: Partial<NewPurchaseOrder['lines'][number]>) => {
+        if (!draft) return;
+        setDraft({ ...draft, lines: draft.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+    };
+
+    const openNewDraft = () => setDraft({ supplierId: '', expectedDate: addDays(today, 7), notes: '', lines: [emptyLine()] });
+
+    const openDraftForEdit = (order: PurchaseOrder) => setDraft({
+        id: order.id,
+        supplierId: order.supplierId,
+        expectedDate: order.expectedDate,
+        notes: order.notes ?? '',
+        lines: order.lines.map(line => ({ itemId: line.itemId, quantity: line.quantity, unitPrice: line.unitPrice })),
+    });
+
+    const handleSaveDraft = async () => {
+        if (!draft) return;
+        const { id, ...order } = draft;
+        setIsSaving(true);
+        let saved: PurchaseOrder | undefined;
+        try {
+            saved = id ? await updatePurchaseOrder(id, order) : (await createPurchaseOrders([order]))[0];
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível salvar o pedido de compra.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!saved) return;
+        addAuditLog(`${id ? 'Editou' : 'Criou'} o pedido de compra ${saved.number} para ${supplierName(saved.supplierId)} com ${saved.lines.length} ${saved.lines.length > 1 ? 'itens' : 'item'}, total de ${formatCurrency(getPurchaseOrderTotal(saved))}.`);
+        setToast({ message: `Pedido ${saved.number} salvo como rascunho.`, type: 'success' });
+        setDraft(null);
+    };
+
+    const handleSend = async (order: PurchaseOrder) => {
+        if (!window.confirm(`Confirma o envio do pedido ${order.number} para ${supplierName(order.supplierId)}? Depois de enviado ele não poderá mais ser editado.`)) return;
+        let sent: PurchaseOrder | undefined;
+        try {
+            sent = await sendPurchaseOrder(order.id);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível enviar o pedido de compra.', type: 'warning' });
+            return;
+        }
+        if (!sent) return;
+        addAuditLog(`Enviou o pedido de compra ${sent.number} para ${supplierName(sent.supplierId)}, entrega prevista em ${formatDate(sent.expectedDate)}.`);
+        setToast({ message: `Pedido ${sent.number} enviado.`, type: 'success' });
+    };
+
+    const handleCancel = async () => {
+        if (!toCancel) return;
+        setIsSaving(true);
+        let cancelled: PurchaseOrder | undefined;
+        try {
+            cancelled = await cancelPurchaseOrder(toCancel.id, cancelReason);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível cancelar o pedido de compra.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!cancelled) return;
+        addAuditLog(`Cancelou o pedido de compra ${cancelled.number}. Motivo: ${cancelled.cancelReason}`);
+        setToast({ message: `Pedido ${cancelled.number} cancelado.`, type: 'success' });
+        setToCancel(null);
+    };
+
+    const handlePrint = (order: PurchaseOrder) => {
+        const supplier = supplierById.get(order.supplierId);
+        const printContent = `
+            <html>
+            <head>
+                <title>Pedido de Compra ${order.number} - Alumasa</title>
+                <style>
+                    @media print {
+                        body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+                    }
+                    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; margin: 2rem; color: #333; }
+                    .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #ccc; padding-bottom: 1rem; margin-bottom: 2rem; }
+                    .header h1 { margin: 0; color: #002347; font-size: 2rem; }
+                    .header .info { text-align: right; }
+                    .header .info p, .supplier p { margin: 0; font-size: 0.9rem; color: #555; }
+                    table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; font-size: 0.9rem; }
+                    th, td { border: 1px solid #ddd; padding: 0.75rem; text-align: left; }
+                    th { background-color: #f4f4f4; font-weight: 600; }
+                    td.number { text-align: right; }
+                    tbody tr:nth-child(even) { background-color: #f9f9f9; }
+                    .item-code { font-family: "Courier New", Courier, monospace; }
+                </style>
+            </head>
+            <body>
+                <div class="header">
+                    <div>
+                        <h1>Alumasa</h1>
+                        <p>Pedido de Compra ${order.number}</p>
+                    </div>
+                    <div class="info">
+                        <p><strong>Data de Emissão:</strong> ${new Date(order.sentAt ?? order.createdAt).toLocaleDateString('pt-BR')}</p>
+                        <p><strong>Entrega Prevista:</strong> ${formatDate(order.expectedDate)}</p>
+                    </div>
+                </div>
+                <div class="supplier">
+                    <p><strong>Fornecedor:</strong> ${supplier?.name ?? ''}</p>
+                    ${supplier?.contactPerson ? `<p><strong>Contato:</strong> ${supplier.contactPerson}</p>` : ''}
+                    ${supplier?.email ? `<p><strong>E-mail:</strong> ${supplier.email}</p>` : ''}
+                    ${supplier?.phone ? `<p><strong>Telefone:</strong> ${supplier.phone}</p>` : ''}
+                </div>
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Código</th>
+                            <th>Descrição Item</th>
+                            <th>Quantidade</th>
+                            <th>Preço Unitário</th>
+                            <th>Subtotal</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${order.lines.map(line => {
+                            const item = itemById.get(line.itemId);
+                            return `
+                                <tr>
+                                    <td class="item-code">${item?.code ?? ''}</td>
+                                    <td>${item?.description ?? ''}</td>
+                                    <td class="number">${line.quantity.toLocaleString('pt-BR')} ${item?.unit ?? ''}</td>
+                                    <td class="number">${formatCurrency(line.unitPrice)}</td>
+                                    <td class="number">${formatCurrency(line.quantity * line.unitPrice)}</td>
+                                </tr>
+                            `}).join('')}
+                    </tbody>
+                    <tfoot>
+                        <tr>
+                            <th colspan="4">Total</th>
+                            <th>${formatCurrency(getPurchaseOrderTotal(order))}</th>
+                        </tr>
+                    </tfoot>
+                </table>
+                ${order.notes ? `<p><strong>Observações:</strong> ${order.notes}</p>` : ''}
+            </body>
+            </html>
+        `;
+
+        const printWindow = window.open('', '_blank');
+        if (printWindow) {
+            printWindow.document.write(printContent);
+            printWindow.document.close();
+            printWindow.onload = () => {
+                printWindow.focus();
+                printWindow.print();
+                printWindow.onafterprint = () => printWindow.close();
+            };
+        }
+        addAuditLog(`Imprimiu o pedido de compra ${order.number}.`);
+    };
+
+    const canCancel = (order: PurchaseOrder) => order.status === 'draft' || isPurchaseOrderOpen(order);
+
+    return (
+        <div className="space-y-6">
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    onClose={() => setToast(null)}
+                />
+            )}
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-gray-800">Pedidos de Compra</h1>
+                <Button onClick={openNewDraft}>
+                    <PlusIcon />
+                    Novo Pedido
+                </Button>
+            </div>
+
+            <Card className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                    <div>
+                        <label htmlFor="purchaseOrderStatusFilter" className="block text-sm font-medium text-gray-700">Situação</label>
+                        <Select id="purchaseOrderStatusFilter" value={statusFilter} onChange={e => updateQuery({ situacao: e.target.value === 'abertos' ? '' : e.target.value })}>
+                            {Object.entries(STATUS_FILTERS).map(([value, filter]) => <option key={value} value={value}>{filter.label}</option>)}
+                        </Select>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                        {onTheWay.length} {onTheWay.length === 1 ? 'pedido a caminho' : 'pedidos a caminho'}, {formatCurrency(onTheWayValue)} pendentes de entrega.
+                    </p>
+                </div>
+            </Card>
+
+            <Card>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Número</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fornecedor</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Emissão</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entrega Prevista</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Itens</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {filteredOrders.length > 0 ? filteredOrders.map(order => {
+                                const isLate = isPurchaseOrderOpen(order) && order.expectedDate < today;
+                                return (
+                                    <tr key={order.id}>
+                                        <td className="px-4 py-2 text-sm font-medium text-gray-900">{order.number}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-700">{supplierName(order.supplierId)}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-500">{new Date(order.createdAt).toLocaleDateString('pt-BR')}</td>
+                                        <td className={`px-4 py-2 text-sm ${isLate ? 'text-red-600 font-bold' : 'text-gray-500'}`} title={isLate ? 'Entrega atrasada' : undefined}>{formatDate(order.expectedDate)}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-700 text-right">{order.lines.length}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatCurrency(getPurchaseOrderTotal(order))}</td>
+                                        <td className="px-4 py-2 text-sm">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${PURCHASE_ORDER_STATUS_BADGE_CLASSES[order.status]}`}>
+                                                {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-2 text-sm">
+                                            <div className="flex items-center gap-3">
+                                                <button onClick={() => setSelected(order)} className="text-blue-600 hover:text-blue-900" title="Ver pedido">
+                                                    <EyeIcon />
+                                                </button>
+                                                {order.status === 'draft' && (
+                                                    <>
+                                                        <button onClick={() => openDraftForEdit(order)} className="text-blue-600 hover:text-blue-900" title="Editar rascunho">
+                                                            <EditIcon />
+                                                        </button>
+                                                        <button onClick={() => handleSend(order)} className="text-green-600 hover:text-green-900" title="Enviar ao fornecedor">
+                                                            <SendIcon />
+                                                        </button>
+                                                    </>
+                                                )}
+                                                {canReceive && isPurchaseOrderOpen(order) && (
+                                                    <button onClick={() => navigate(buildPath('new-entry', {}, { pedido: order.number }))} className="text-green-600 hover:text-green-900" title="Receber mercadoria">
+                                                        <EntryIcon />
+                                                    </button>
+                                                )}
+                                                <button onClick={() => handlePrint(order)} className="text-gray-600 hover:text-gray-900" title="Imprimir pedido">
+                                                    <PrintIcon />
+                                                </button>
+                                                {canCancel(order) && (
+                                                    <button onClick={() => { setToCancel(order); setCancelReason(''); }} className="text-red-600 hover:text-red-900" title="Cancelar pedido">
+                                                        <XCircleIcon />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr>
+                                    <td colSpan={8} className="px-4 py-6 text-center text-sm text-gray-500">Nenhum pedido de compra encontrado.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Modal isOpen={!!draft} onClose={() => setDraft(null)} title={draft?.id ? 'Editar Pedido de Compra' : 'Novo Pedido de Compra'}>
+                {draft && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="purchaseOrderSupplier" className="block text-sm font-medium text-gray-700">Fornecedor</label>
+                                <Select id="purchaseOrderSupplier" value={draft.supplierId} onChange={e => setDraft({ ...draft, supplierId: e.target.value })}>
+                                    <option value="">Selecione...</option>
+                                    {sortedSuppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{supplier.name}</option>)}
+                                </Select>
+                            </div>
+                            <div>
+                                <label htmlFor="purchaseOrderExpectedDate" className="block text-sm font-medium text-gray-700">Entrega prevista</label>
+                                <Input id="purchaseOrderExpectedDate" type="date" value={draft.expectedDate} onChange={e => setDraft({ ...draft, expectedDate: e.target.value })} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 uppercase">
+                                <span className="col-span-6">Item</span>
+                                <span className="col-span-2">Quantidade</span>
+                                <span className="col-span-3">Preço unitário (R$)</span>
+                            </div>
+                            {draft.lines.map((line, index) => {
+                                const item = itemById.get(line.itemId);
+                                return (
+                                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                        <div className="col-span-6">
+                                            <Select aria-label={`Item da linha ${index + 1}`} value={line.itemId} onChange={e => updateDraftLine(index, { itemId: e.target.value, unitPrice: itemById.get(e.target.value)?.avgUnitValue ?? 0 })}>
+                                                <option value="">Selecione...</option>
+                                                {sortedItems.map(i => <option key={i.id} value={i.id}>{i.code} - {i.description}</option>)}
+                                            </Select>
+                                        </div>
+                                        <div className="col-span-2">
+                                            <Input aria-label={`Quantidade da linha ${index + 1}`} type="number" min="1" value={line.quantity} onChange={e => updateDraftLine(index, { quantity: parseFloat(e.target.value) || 0 })} title={item ? `Quantidade em ${item.unit}` : undefined} />
+                                        </div>
+                                        <div className="col-span-3">
+                                            <Input aria-label={`Preço unitário da linha ${index + 1}`} type="number" min="0" step="0.01" value={line.unitPrice} onChange={e => updateDraftLine(index, { unitPrice: parseFloat(e.target.value) || 0 })} />
+                                        </div>
+                                        <div className="col-span-1">
+                                            {draft.lines.length > 1 && (
+                                                <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })} className="text-red-600 hover:text-red-900" title="Remover item">
+                                                    <TrashIcon />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            <div className="flex justify-between items-center">
+                                <button onClick={() => setDraft({ ...draft, lines: [...draft.lines, emptyLine()] })} className="text-sm text-blue-600 hover:underline">+ Adicionar item</button>
+                                <span className="text-sm font-medium text-gray-700">Total: {formatCurrency(getPurchaseOrderTotal(draft))}</span>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="purchaseOrderNotes" className="block text-sm font-medium text-gray-700">Observações</label>
+                            <Textarea id="purchaseOrderNotes" rows={2} value={draft.notes ?? ''} onChange={e => setDraft({ ...draft, notes: e.target.value })} placeholder="Condições de pagamento, frete..." />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setDraft(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                            <Button onClick={handleSaveDraft} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Salvar Rascunho'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!selected} onClose={() => setSelected(null)} title={selected ? `Pedido de Compra ${selected.number}` : ''}>
+                {selected && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            {supplierName(selected.supplierId)}. Criado por <strong>{selected.createdByName}</strong> em {new Date(selected.createdAt).toLocaleDateString('pt-BR')}
+                            {selected.sentAt && <>, enviado em {new Date(selected.sentAt).toLocaleDateString('pt-BR')}</>}; entrega prevista em {formatDate(selected.expectedDate)}.
+                            {selected.notes && <> Observações: {selected.notes}</>}
+                        </p>
+                        {selected.cancelReason && (
+                            <p className="text-sm text-red-700">Cancelado por {selected.cancelledByName} em {new Date(selected.cancelledAt!).toLocaleDateString('pt-BR')}: {selected.cancelReason}</p>
+                        )}
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pedido</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Recebido</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pendente</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Preço Unit.</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Subtotal</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {selected.lines.map((line, index) => {
+                                        const item = itemById.get(line.itemId);
+                                        return (
+                                            <tr key={index}>
+                                                <td className="px-3 py-2 text-sm text-gray-900">{describeItem(line.itemId)}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{line.quantity.toLocaleString('pt-BR')} {item?.unit}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{line.receivedQuantity.toLocaleString('pt-BR')}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{selected.status === 'cancelled' ? '-' : getPendingQuantity(line).toLocaleString('pt-BR')}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{formatCurrency(line.unitPrice)}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{formatCurrency(line.quantity * line.unitPrice)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                                <tfoot className="bg-gray-50">
+                                    <tr>
+                                        <td colSpan={5} className="px-3 py-2 text-sm font-medium text-gray-700 text-right">Total</td>
+                                        <td className="px-3 py-2 text-sm font-medium text-gray-900 text-right">{formatCurrency(getPurchaseOrderTotal(selected))}</td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                        <div className="flex justify-end pt-4">
+                            <Button onClick={() => setSelected(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Fechar</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!toCancel} onClose={() => setToCancel(null)} title="Cancelar Pedido de Compra">
+                {toCancel && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Os itens ainda não recebidos do pedido <strong>{toCancel.number}</strong> deixarão de ser esperados. O que já foi recebido permanece registrado.
+                        </p>
+                        <div>
+                            <label htmlFor="purchaseOrderCancelReason" className="block text-sm font-medium text-gray-700">Motivo</label>
+                            <Textarea id="purchaseOrderCancelReason" rows={2} value={cancelReason} onChange={e => setCancelReason(e.target.value)} />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setToCancel(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Voltar</Button>
+                            <Button onClick={handleCancel} disabled={isSaving} className="bg-red-600 hover:bg-red-700">{isSaving ? 'Salvando...' : 'Cancelar Pedido'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default PurchaseOrders;
@@ -1,13 +1,21 @@
 import React, { useState, useMemo, useRef } from 'react';
 import Card from './ui/Card';
 import Button from './ui/Button';
-import { Item, EntryExitRecord, Supplier } from '../types';
-import { PrintIcon, ExportIcon, WarningIcon, StockIcon, HistoryIcon } from './icons/Icons';
+import { Item, EntryExitRecord, Supplier, Permission, CostCenter, PurchaseOrder, NewPurchaseOrder } from '../types';
+import { PrintIcon, ExportIcon, WarningIcon, StockIcon, HistoryIcon, BellIcon, ExitIcon, ChevronRightIcon, PlusIcon } from './icons/Icons';
 import Input from './ui/Input';
 import Select from './ui/Select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import Toast from './ui/Toast';
 import Modal from './ui/Modal';
+import { getMovementTypeLabel, getMovementBadgeClasses } from '../utils/reversals';
+import { formatCurrency } from '../utils/costing';
+import { getLocationBalances } from '../utils/locations';
+import { formatEnteredQuantity, formatInAlternateUnits } from '../utils/units';
+import { getExpiringLots, formatLotDate } from '../utils/lots';
+import { getConsumptionByCostCenter, formatCostCenter, formatMonth } from '../utils/costCenters';
+import { getQuantityOnOrder, buildDraftsBySupplier, getPurchaseOrderTotal } from '../utils/purchaseOrders';
+import { Route, Navigate, buildPath, withQuery } from '../routing';
 
 const getStartOfMonth = () => {
     const now = new Date();
@@ -21,28 +29,65 @@ const getToday = () => {
 interface ReportsProps {
   items: Item[];
   history: EntryExitRecord[];
+  costCenters: CostCenter[];
+  // Open orders show what is already on the way; drafts are created from the low-stock list.
+  purchaseOrders: PurchaseOrder[];
+  createPurchaseOrders: (orders: NewPurchaseOrder[]) => Promise<PurchaseOrder[]>;
   addAuditLog: (action: string) => void;
   suppliers: Supplier[];
+  can: (permission: Permission) => boolean;
+  // The report is the path segment (/relatorios/movimentacao); filters are query values (?de=&ate=&categoria=&dias=).
+  route: Route;
+  navigate: Navigate;
 }
 
-type ReportTab = 'lowStock' | 'movement' | 'locationValue';
+type ReportTab = 'lowStock' | 'movement' | 'locationValue' | 'expiringLots' | 'costCenter';
 
 const TABS: { id: ReportTab; label: string; icon: React.ReactNode }[] = [
     { id: 'lowStock', label: 'Itens Abaixo do Mínimo', icon: <WarningIcon /> },
     { id: 'movement', label: 'Movimentação por Período', icon: <HistoryIcon /> },
     { id: 'locationValue', label: 'Valor por Local', icon: <StockIcon /> },
+    { id: 'expiringLots', label: 'Lotes a Vencer', icon: <BellIcon /> },
+    { id: 'costCenter', label: 'Consumo por Centro de Custo', icon: <ExitIcon /> },
 ];
 
+const REPORT_SLUGS: Record<ReportTab, string> = {
+    lowStock: 'abaixo-do-minimo',
+    movement: 'movimentacao',
+    locationValue: 'valor-por-local',
+    expiringLots: 'lotes-a-vencer',
+    costCenter: 'consumo-por-centro-de-custo',
+};
+
+// Reports that show values are only listed to users who can see them.
+const VALUE_TABS: ReportTab[] = ['locationValue', 'costCenter'];
+
+const DEFAULT_EXPIRY_DAYS = 30;
 
-const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, suppliers }) => {
-  const [startDate, setStartDate] = useState(getStartOfMonth());
-  const [endDate, setEndDate] = useState(getToday());
-  const [filterCategory, setFilterCategory] = useState('');
-  const [activeTab, setActiveTab] = useState<ReportTab>('lowStock');
-  const [orderDescriptions, setOrderDescriptions] = useState<Record<string, string>>({});
+
+const Reports: React.FC<ReportsProps> = ({ items, history, costCenters, purchaseOrders, createPurchaseOrders, addAuditLog, suppliers, can, route, navigate }) => {
+  const startDate = route.query.de || getStartOfMonth();
+  const endDate = route.query.ate || getToday();
+  const filterCategory = route.query.categoria ?? '';
+  const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+  const setStartDate = (de: string) => updateQuery({ de });
+  const setEndDate = (ate: string) => updateQuery({ ate });
+  const setFilterCategory = (categoria: string) => updateQuery({ categoria });
+  const expiryDays = route.query.dias && Number(route.query.dias) >= 0 ? Number(route.query.dias) : DEFAULT_EXPIRY_DAYS;
+  const setExpiryDays = (dias: string) => updateQuery({ dias });
+  // Quantity to order and supplier chosen per low-stock item; the supplier defaults to the preferred one.
+  const [orderQuantities, setOrderQuantities] = useState<Record<string, string>>({});
+  const [orderSuppliers, setOrderSuppliers] = useState<Record<string, string>>({});
+  const [isCreatingOrders, setIsCreatingOrders] = useState(false);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  // Cost center consumption rows opened to show their items, by cost center and month.
+  const [expandedConsumption, setExpandedConsumption] = useState<string[]>([]);
   const reportPrintRef = useRef<HTMLDivElement>(null);
+  const canViewValues = can('report.view_values');
+  const visibleTabs = TABS.filter(tab => !VALUE_TABS.includes(tab.id) || canViewValues);
+  const activeTab = visibleTabs.find(tab => REPORT_SLUGS[tab.id] === route.params.report)?.id ?? 'lowStock';
+  const setActiveTab = (tab: ReportTab) => navigate(buildPath('reports', { report: REPORT_SLUGS[tab] }, route.query));
 
   const categories = useMemo(() => [...new Set(items.map(item => item.category))], [items]);
 
@@ -65,102 +110,61 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
     const lowStockItems = filteredItems.filter(item => item.stockQuantity <= item.minQuantity);
     const movementHistory = filteredHistory.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     const valueByLocation = filteredItems.reduce((acc, item) => {
-        acc[item.location] = (acc[item.location] || 0) + Number(item.totalValue);
+        getLocationBalances(item).forEach(balance => {
+            acc[balance.location] = (acc[balance.location] || 0) + balance.quantity * Number(item.avgUnitValue);
+        });
         return acc;
     }, {} as Record<string, number>);
 
-    return { lowStockItems, movementHistory, valueByLocation };
-  }, [items, history, filterCategory, startDate, endDate]);
+    // Expired lots are listed too, first.
+    const expiringLots = getExpiringLots(filteredItems, expiryDays);
+
+    const costCenterConsumption = getConsumptionByCostCenter(filteredHistory);
 
-  const purchaseOrderItems = useMemo(() => {
+    return { lowStockItems, movementHistory, valueByLocation, expiringLots, costCenterConsumption };
+  }, [items, history, filterCategory, startDate, endDate, expiryDays]);
+
+  const costCenterById = useMemo(() => new Map<string, CostCenter>(costCenters.map(costCenter => [costCenter.id, costCenter])), [costCenters]);
+  const getCostCenterLabel = (costCenterId?: string) => {
+      const costCenter = costCenterId ? costCenterById.get(costCenterId) : undefined;
+      return costCenter ? formatCostCenter(costCenter) : 'Sem centro de custo';
+  };
+  const toggleConsumption = (key: string) => setExpandedConsumption(current => current.includes(key) ? current.filter(k => k !== key) : [...current, key]);
+
+  const canOrder = can('purchase_order.manage');
+  const supplierName = (supplierId: string) => suppliers.find(s => s.id === supplierId)?.name || 'Sem fornecedor';
+
+  const orderSelections = useMemo(() => {
       return filteredReportData.lowStockItems
           .map(item => ({
-              ...item,
-              orderDescription: orderDescriptions[item.id] || '',
+              item,
+              quantity: parseFloat(orderQuantities[item.id] || '') || 0,
+              supplierId: orderSuppliers[item.id] ?? item.preferredSupplierId ?? '',
           }))
-          .filter(item => item.orderDescription.trim() !== '');
-  }, [filteredReportData.lowStockItems, orderDescriptions]);
+          .filter(selection => selection.quantity > 0);
+  }, [filteredReportData.lowStockItems, orderQuantities, orderSuppliers]);
+  const selectionsWithoutSupplier = orderSelections.filter(selection => !selection.supplierId);
+  const draftOrders = useMemo(() => buildDraftsBySupplier(orderSelections.filter(selection => selection.supplierId)), [orderSelections]);
 
-  const handleOrderDescriptionChange = (itemId: string, value: string) => {
-    setOrderDescriptions(prev => ({ ...prev, [itemId]: value }));
-  };
-  
-  const handlePrintPurchaseOrder = () => {
-    const printContent = `
-        <html>
-        <head>
-            <title>Pedido de Compra - Alumasa</title>
-            <style>
-                @media print {
-                    body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
-                }
-                body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; margin: 2rem; color: #333; }
-                .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #ccc; padding-bottom: 1rem; margin-bottom: 2rem; }
-                .header h1 { margin: 0; color: #002347; font-size: 2rem; }
-                .header .info { text-align: right; }
-                .header .info p { margin: 0; font-size: 0.9rem; color: #555; }
-                table { width: 100%; border-collapse: collapse; margin-top: 1.5rem; font-size: 0.9rem; }
-                th, td { border: 1px solid #ddd; padding: 0.75rem; text-align: left; }
-                th { background-color: #f4f4f4; font-weight: 600; }
-                tbody tr:nth-child(even) { background-color: #f9f9f9; }
-                .item-code { font-family: "Courier New", Courier, monospace; }
-            </style>
-        </head>
-        <body>
-            <div class="header">
-                 <div>
-                    <h1>Alumasa</h1>
-                    <p>Pedido de Compra</p>
-                 </div>
-                 <div class="info">
-                    <p><strong>Data de Emissão:</strong></p>
-                    <p>${new Date().toLocaleDateString('pt-BR')}</p>
-                 </div>
-            </div>
-            <table>
-                <thead>
-                    <tr>
-                        <th>Código</th>
-                        <th>Descrição Item</th>
-                        <th>Fornecedor</th>
-                        <th>Descrição do Pedido</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    ${purchaseOrderItems.map(item => {
-                        const supplierName = suppliers.find(s => s.id === item.preferredSupplierId)?.name || 'N/A';
-                        return `
-                            <tr>
-                                <td class="item-code">${item.code}</td>
-                                <td>${item.description}</td>
-                                <td>${supplierName}</td>
-                                <td>${item.orderDescription}</td>
-                            </tr>
-                        `}).join('')}
-                </tbody>
-            </table>
-        </body>
-        </html>
-    `;
-    
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-        printWindow.document.write(printContent);
-        printWindow.document.close();
-        printWindow.onload = () => {
-            printWindow.focus();
-            printWindow.print();
-            printWindow.onafterprint = () => printWindow.close();
-        };
+  const handleCreatePurchaseOrders = async () => {
+    setIsCreatingOrders(true);
+    let created: PurchaseOrder[];
+    try {
+        created = await createPurchaseOrders(draftOrders);
+    } catch (error) {
+        setToast({ message: error instanceof Error ? error.message : 'Não foi possível criar os pedidos de compra.', type: 'warning' });
+        setIsCreatingOrders(false);
+        return;
     }
-
-    addAuditLog(`Gerou um pedido de compra para impressão com ${purchaseOrderItems.length} itens.`);
-    setToast({ message: 'Pedido de compra pronto para impressão!', type: 'success' });
+    setIsCreatingOrders(false);
+    created.forEach(order => {
+        addAuditLog(`Criou o pedido de compra ${order.number} para ${supplierName(order.supplierId)} a partir dos itens abaixo do mínimo, com ${order.lines.length} ${order.lines.length > 1 ? 'itens' : 'item'}.`);
+    });
     setIsConfirmModalOpen(false);
-    setOrderDescriptions({});
-};
-
-
+    setOrderQuantities({});
+    setOrderSuppliers({});
+    navigate(buildPath('purchase-orders', {}, { situacao: 'rascunhos' }));
+  };
 
   const handlePrintReport = () => {
     const printArea = reportPrintRef.current;
@@ -213,24 +217,41 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
 
     switch(activeTab) {
         case 'lowStock':
-            headers = ['Código', 'Descrição', 'Qtd. Atual', 'Qtd. Mínima', 'Categoria', 'Localização', 'Descrição do Pedido'];
+            headers = ['Código', 'Descrição', 'Qtd. Atual', 'Qtd. Mínima', 'Unidade', 'Em Outras Unidades', 'Categoria', 'Localização', 'Em Pedido'];
             rows = filteredReportData.lowStockItems.map(item => [
-                item.code, item.description, item.stockQuantity, item.minQuantity, item.category, item.location, orderDescriptions[item.id] || ''
+                item.code, item.description, item.stockQuantity, item.minQuantity, item.unit, formatInAlternateUnits(item, item.stockQuantity), item.category, item.location, getQuantityOnOrder(purchaseOrders, item.id)
             ]);
             break;
         case 'movement':
-            headers = ['Data', 'Cód. Item', 'Descrição', 'Tipo', 'Quantidade'];
+            headers = ['Data', 'Cód. Item', 'Descrição', 'Tipo', 'Quantidade', 'Unidade', 'Qtd. Informada', 'Unid. Informada', ...(canViewValues ? ['Custo Unitário', 'Frete', 'Impostos', 'Custo Médio Anterior', 'Custo Médio Posterior'] : []), 'Usuário'];
             rows = filteredReportData.movementHistory.map(record => {
                 const item = items.find(i => i.id === record.itemId);
                 return [
                     new Date(record.date).toLocaleDateString('pt-BR'),
                     item?.code || 'N/A',
                     item?.description || 'N/A',
-                    record.type === 'entry' ? 'Entrada' : 'Saída',
-                    record.quantity
+                    record.reversedAt ? `${getMovementTypeLabel(record)} (estornado por ${record.reversedByName})` : getMovementTypeLabel(record),
+                    record.quantity,
+                    item?.unit || '',
+                    record.enteredQuantity ?? '',
+                    record.enteredUnit || '',
+                    ...(canViewValues ? [
+                        record.unitCost ?? '',
+                        record.freight ?? '',
+                        record.taxes ?? '',
+                        record.avgCostBefore ?? '',
+                        record.avgCostAfter ?? '',
+                    ] : []),
+                    record.userName || ''
                 ];
             });
             break;
+        case 'expiringLots':
+            headers = ['Código', 'Descrição', 'Lote', 'Fabricação', 'Validade', 'Dias para Vencer', 'Quantidade', 'Unidade', 'Localização'];
+            rows = filteredReportData.expiringLots.map(({ item, lot, daysToExpiry }) => [
+                item.code, item.description, lot.lot, lot.manufacturingDate ?? '', lot.expiryDate ?? '', daysToExpiry, lot.quantity, item.unit, item.location
+            ]);
+            break;
         case 'locationValue':
             headers = ['Localização', 'Valor Total'];
             rows = Object.entries(filteredReportData.valueByLocation).map(([location, value]) => [
@@ -238,6 +259,27 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
                 new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value))
             ]);
             break;
+        case 'costCenter':
+            // One row per item, so the export carries the drill-down too.
+            headers = ['Centro de Custo', 'Mês', 'Cód. Item', 'Descrição', 'Quantidade', 'Unidade', 'Valor Consumido', 'Total do Mês', 'Orçamento Mensal'];
+            rows = filteredReportData.costCenterConsumption.flatMap(group => {
+                const budget = group.costCenterId ? costCenterById.get(group.costCenterId)?.monthlyBudget : undefined;
+                return group.items.map(line => {
+                    const item = items.find(i => i.id === line.itemId);
+                    return [
+                        getCostCenterLabel(group.costCenterId),
+                        formatMonth(group.month),
+                        item?.code || 'N/A',
+                        item?.description || 'N/A',
+                        line.quantity,
+                        item?.unit || '',
+                        line.value.toFixed(2),
+                        group.value.toFixed(2),
+                        budget ?? '',
+                    ];
+                });
+            });
+            break;
     }
     
     if (headers.length === 0) return;
@@ -282,37 +324,63 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Descrição</th>
                       <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qtd. Atual</th>
                       <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qtd. Mínima</th>
-                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase no-print">Descrição do Pedido</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Em Pedido</th>
+                      {canOrder && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase no-print">Fornecedor</th>}
+                      {canOrder && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase no-print">Qtd. a Pedir</th>}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {lowStockItems.length > 0 ? lowStockItems.map(item => (
-                      <tr key={item.id}>
-                        <td className="px-4 py-2 whitespace-nowrap text-sm">{item.code}</td>
-                        <td className="px-4 py-2 whitespace-nowrap text-sm">{item.description}</td>
-                        <td className="px-4 py-2 whitespace-nowrap text-sm text-red-600 font-bold text-right">{item.stockQuantity}</td>
-                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{item.minQuantity}</td>
-                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right no-print">
-                            <Input
-                                type="text"
-                                className="w-full"
-                                placeholder="Ex: Pedir 100 UN com urgência"
-                                value={orderDescriptions[item.id] || ''}
-                                onChange={(e) => handleOrderDescriptionChange(item.id, e.target.value)}
-                            />
-                        </td>
-                      </tr>
-                    )) : <tr><td colSpan={5} className="text-center py-4 text-gray-500">Nenhum item com estoque baixo para os filtros selecionados.</td></tr>}
+                    {lowStockItems.length > 0 ? lowStockItems.map(item => {
+                      const onOrder = getQuantityOnOrder(purchaseOrders, item.id);
+                      const shortfall = Math.max(0, item.minQuantity - item.stockQuantity - onOrder);
+                      return (
+                        <tr key={item.id}>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm">{item.code}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm">{item.description}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-red-600 font-bold text-right">
+                              {item.stockQuantity} {item.unit}
+                              {item.unitConversions?.length ? <span className="block text-xs font-normal text-gray-500">{formatInAlternateUnits(item, item.stockQuantity)}</span> : null}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{item.minQuantity}</td>
+                          <td className={`px-4 py-2 whitespace-nowrap text-sm text-right ${onOrder > 0 ? 'text-blue-600' : 'text-gray-400'}`}>{onOrder > 0 ? `${onOrder} ${item.unit}` : '-'}</td>
+                          {canOrder && (
+                            <td className="px-4 py-2 whitespace-nowrap text-sm no-print">
+                              <Select
+                                  aria-label={`Fornecedor do item ${item.code}`}
+                                  value={orderSuppliers[item.id] ?? item.preferredSupplierId ?? ''}
+                                  onChange={e => setOrderSuppliers(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              >
+                                  <option value="">Selecione...</option>
+                                  {suppliers.map(supplier => <option key={supplier.id} value={supplier.id}>{supplier.name}</option>)}
+                              </Select>
+                            </td>
+                          )}
+                          {canOrder && (
+                            <td className="px-4 py-2 whitespace-nowrap text-sm no-print">
+                              <Input
+                                  aria-label={`Quantidade a pedir do item ${item.code}`}
+                                  type="number"
+                                  min="0"
+                                  className="w-28"
+                                  placeholder={shortfall > 0 ? String(shortfall) : '0'}
+                                  value={orderQuantities[item.id] || ''}
+                                  onChange={e => setOrderQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                              />
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    }) : <tr><td colSpan={canOrder ? 7 : 5} className="text-center py-4 text-gray-500">Nenhum item com estoque baixo para os filtros selecionados.</td></tr>}
                   </tbody>
                 </table>
-                 {lowStockItems.length > 0 && (
+                 {canOrder && lowStockItems.length > 0 && (
                     <div className="flex justify-end mt-4 no-print">
                         <Button
                             onClick={() => setIsConfirmModalOpen(true)}
-                            disabled={purchaseOrderItems.length === 0}
+                            disabled={orderSelections.length === 0}
                         >
-                            <PrintIcon />
-                            Imprimir Pedido ({purchaseOrderItems.length})
+                            <PlusIcon />
+                            Gerar Pedidos de Compra ({orderSelections.length})
                         </Button>
                     </div>
                 )}
@@ -332,6 +400,13 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Descrição</th>
                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tipo</th>
                       <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantidade</th>
+                      {canViewValues && (
+                        <>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Custo Unit.</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Custo Médio</th>
+                        </>
+                      )}
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Usuário</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -343,11 +418,26 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
                           <td className="px-4 py-2 whitespace-nowrap text-sm">{item?.code || 'N/A'}</td>
                           <td className="px-4 py-2 whitespace-nowrap text-sm">{item?.description || 'N/A'}</td>
                           <td className="px-4 py-2 whitespace-nowrap text-sm">
-                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${record.type === 'entry' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
-                              {record.type === 'entry' ? 'Entrada' : 'Saída'}
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getMovementBadgeClasses(record)}`}>
+                              {getMovementTypeLabel(record)}
                             </span>
+                            {record.reversedAt && <span className="block text-xs text-red-600" title={record.reversalReason}>estornado por {record.reversedByName}</span>}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-right">
+                            {record.quantity} {item?.unit}
+                            {record.enteredUnit && <span className="block text-xs text-gray-500">informado: {formatEnteredQuantity(record)}</span>}
                           </td>
-                          <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{record.quantity}</td>
+                          {canViewValues && (
+                            <>
+                              <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{record.unitCost !== undefined ? formatCurrency(record.unitCost) : '-'}</td>
+                              <td className="px-4 py-2 whitespace-nowrap text-sm text-right">
+                                {record.avgCostBefore !== undefined && record.avgCostAfter !== undefined
+                                  ? `${formatCurrency(record.avgCostBefore)} → ${formatCurrency(record.avgCostAfter)}`
+                                  : '-'}
+                              </td>
+                            </>
+                          )}
+                          <td className="px-4 py-2 whitespace-nowrap text-sm">{record.userName || '-'}</td>
                         </tr>
                       )
                     })}
@@ -406,6 +496,99 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
               </div>
             );
         }
+        case 'expiringLots': {
+            const { expiringLots } = filteredReportData;
+            return (
+              <div ref={reportPrintRef}>
+                {reportHeader}
+                <div className="flex items-end gap-2 mb-4 no-print">
+                  <div>
+                    <label htmlFor="expiry-days" className="block text-sm font-medium text-gray-700 mb-1">Vencendo em até (dias)</label>
+                    <Input id="expiry-days" type="number" min="0" value={expiryDays} onChange={e => setExpiryDays(e.target.value)} className="w-32" />
+                  </div>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Código</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Descrição</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Lote</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Validade</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Dias</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantidade</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {expiringLots.length > 0 ? expiringLots.map(({ item, lot, daysToExpiry }) => (
+                      <tr key={`${item.id}-${lot.lot}`}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">{item.code}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">{item.description}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">{lot.lot}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm">{formatLotDate(lot.expiryDate)}</td>
+                        <td className={`px-4 py-2 whitespace-nowrap text-sm text-right ${daysToExpiry < 0 ? 'text-red-600 font-bold' : ''}`}>
+                          {daysToExpiry < 0 ? `Vencido há ${-daysToExpiry}` : daysToExpiry}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{lot.quantity.toLocaleString('pt-BR')} {item.unit}</td>
+                      </tr>
+                    )) : <tr><td colSpan={6} className="text-center py-4 text-gray-500">Nenhum lote vencendo nos próximos {expiryDays} dias.</td></tr>}
+                  </tbody>
+                </table>
+              </div>
+            );
+        }
+        case 'costCenter': {
+            const { costCenterConsumption } = filteredReportData;
+            return (
+              <div ref={reportPrintRef}>
+                {reportHeader}
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Centro de Custo</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Mês</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Valor Consumido</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Orçamento</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">% do Orçamento</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {costCenterConsumption.length > 0 ? costCenterConsumption.map(group => {
+                      const key = `${group.costCenterId ?? ''}|${group.month}`;
+                      const isExpanded = expandedConsumption.includes(key);
+                      const budget = group.costCenterId ? costCenterById.get(group.costCenterId)?.monthlyBudget : undefined;
+                      const share = budget ? Math.round(group.value / budget * 100) : null;
+                      return (
+                        <React.Fragment key={key}>
+                          <tr className="cursor-pointer hover:bg-gray-50" onClick={() => toggleConsumption(key)}>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm">
+                              <span className="inline-flex items-center gap-1">
+                                <ChevronRightIcon className={`w-4 h-4 no-print transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                                {getCostCenterLabel(group.costCenterId)}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm">{formatMonth(group.month)}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{formatCurrency(group.value)}</td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-right">{budget ? formatCurrency(budget) : '-'}</td>
+                            <td className={`px-4 py-2 whitespace-nowrap text-sm text-right ${share !== null && share > 100 ? 'text-red-600 font-bold' : ''}`}>{share !== null ? `${share}%` : '-'}</td>
+                          </tr>
+                          {isExpanded && group.items.map(line => {
+                            const item = items.find(i => i.id === line.itemId);
+                            return (
+                              <tr key={`${key}-${line.itemId}`} className="bg-gray-50">
+                                <td className="pl-10 pr-4 py-1 whitespace-nowrap text-xs text-gray-600" colSpan={2}>{item ? `${item.code} - ${item.description}` : 'N/A'}</td>
+                                <td className="px-4 py-1 whitespace-nowrap text-xs text-gray-600 text-right">{formatCurrency(line.value)}</td>
+                                <td className="px-4 py-1 whitespace-nowrap text-xs text-gray-600 text-right" colSpan={2}>{line.quantity.toLocaleString('pt-BR')} {item?.unit}</td>
+                              </tr>
+                            );
+                          })}
+                        </React.Fragment>
+                      );
+                    }) : <tr><td colSpan={5} className="text-center py-4 text-gray-500">Nenhuma saída no período.</td></tr>}
+                  </tbody>
+                </table>
+              </div>
+            );
+        }
         default: return null;
     }
   };
@@ -440,7 +623,7 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
       
       <Card>
         <div className="flex border-b border-gray-200">
-            {TABS.map(tab => (
+            {visibleTabs.map(tab => (
                  <button
                     key={tab.id}
                     onClick={() => setActiveTab(tab.id)}
@@ -473,36 +656,45 @@ const Reports: React.FC<ReportsProps> = ({ items, history, addAuditLog, supplier
             {renderReportContent()}
         </div>
       </Card>
-       <Modal isOpen={isConfirmModalOpen} onClose={() => setIsConfirmModalOpen(false)} title="Confirmar Impressão de Pedido">
+       <Modal isOpen={isConfirmModalOpen} onClose={() => setIsConfirmModalOpen(false)} title="Gerar Pedidos de Compra">
         <div className="space-y-4">
             <p>
-                Você está prestes a gerar um pedido de compra para impressão com os seguintes itens:
+                Serão criados {draftOrders.length} {draftOrders.length === 1 ? 'pedido de compra' : 'pedidos de compra'} em rascunho, um por fornecedor, com o custo médio como preço inicial:
             </p>
-            <div className="max-h-60 overflow-y-auto border rounded-md p-2 bg-gray-50">
-                <ul className="divide-y">
-                    <li className="py-1 px-1 grid grid-cols-4 gap-2 font-bold text-xs text-gray-500">
-                        <span className="col-span-2">Item</span>
-                        <span className="text-right">Qtd. Atual</span>
-                        <span className="text-left">Descrição do Pedido</span>
-                    </li>
-                    {purchaseOrderItems.map(item => (
-                        <li key={item.id} className="py-2 px-1 text-sm grid grid-cols-4 gap-2 items-center">
-                            <span className="col-span-2">{item.code} - {item.description}</span>
-                            <span className="font-mono text-right text-red-600">{item.stockQuantity}</span>
-                            <span className="text-left font-medium text-blue-600">{item.orderDescription}</span>
-                        </li> 
-                    ))}
-                </ul>
+            <div className="max-h-60 overflow-y-auto border rounded-md p-2 bg-gray-50 space-y-3">
+                {draftOrders.map(order => (
+                    <div key={order.supplierId}>
+                        <p className="text-sm font-semibold text-gray-700">
+                            {supplierName(order.supplierId)} · entrega prevista em {new Date(`${order.expectedDate}T00:00:00`).toLocaleDateString('pt-BR')} · {formatCurrency(getPurchaseOrderTotal(order))}
+                        </p>
+                        <ul className="divide-y">
+                            {order.lines.map(line => {
+                                const item = items.find(i => i.id === line.itemId);
+                                return (
+                                    <li key={line.itemId} className="py-1 px-1 text-sm grid grid-cols-4 gap-2 items-center">
+                                        <span className="col-span-3">{item?.code} - {item?.description}</span>
+                                        <span className="font-mono text-right">{line.quantity} {item?.unit}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                ))}
             </div>
+            {selectionsWithoutSupplier.length > 0 && (
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-2">
+                    Sem fornecedor, ficarão de fora: {selectionsWithoutSupplier.map(selection => selection.item.code).join(', ')}.
+                </p>
+            )}
             <p className="text-sm font-medium">
-                Deseja continuar?
+                Os pedidos podem ser revisados e enviados em Pedidos de Compra. Deseja continuar?
             </p>
             <div className="flex justify-end gap-4 pt-4">
                 <Button onClick={() => setIsConfirmModalOpen(false)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">
                     Cancelar
                 </Button>
-                <Button onClick={handlePrintPurchaseOrder} className="bg-blue-600 hover:bg-blue-700">
-                    Confirmar e Imprimir
+                <Button onClick={handleCreatePurchaseOrders} disabled={isCreatingOrders || draftOrders.length === 0} className="bg-blue-600 hover:bg-blue-700">
+                    {isCreatingOrders ? 'Criando...' : 'Criar Pedidos'}
                 </Button>
             </div>
         </div>
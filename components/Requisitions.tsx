@@ -0,0 +1,469 @@
+import React, { useMemo, useState } from 'react';
+import { Item, Employee, CostCenter, User, Permission, Requisition, NewRequisition, RequisitionFulfilment } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import Modal from './ui/Modal';
+import Toast from './ui/Toast';
+import { PlusIcon, TrashIcon, CheckCircleIcon, XCircleIcon, EyeIcon } from './icons/Icons';
+import {
+    REQUISITION_STATUS_LABELS,
+    REQUISITION_STATUS_BADGE_CLASSES,
+    REQUISITION_LINE_STATUS_LABELS,
+    isRequisitionPending,
+    getRemainingQuantity,
+} from '../utils/requisitions';
+import { getAvailableQuantity } from '../utils/loans';
+import { getSerialsInStock } from '../utils/serials';
+import { isEmployeeActive } from '../utils/epi';
+import { isCostCenterActive, formatCostCenter } from '../utils/costCenters';
+import { Route, Navigate, withQuery } from '../routing';
+
+interface RequisitionsProps {
+    requisitions: Requisition[];
+    items: Item[];
+    employees: Employee[];
+    costCenters: CostCenter[];
+    currentUser: User;
+    route: Route;
+    navigate: Navigate;
+    can: (permission: Permission) => boolean;
+    createRequisition: (request: NewRequisition) => Promise<Requisition | undefined>;
+    fulfilRequisition: (requisitionId: string, data: RequisitionFulfilment) => Promise<Requisition | undefined>;
+    cancelRequisition: (requisitionId: string, reason: string) => Promise<Requisition | undefined>;
+    addAuditLog: (action: string) => void;
+}
+
+// Values of the "situacao" query parameter.
+const STATUS_FILTERS: Record<string, { label: string; matches: (requisition: Requisition) => boolean }> = {
+    pendentes: { label: 'Pendentes', matches: isRequisitionPending },
+    atendidas: { label: 'Atendidas', matches: requisition => requisition.status === 'fulfilled' },
+    canceladas: { label: 'Canceladas', matches: requisition => requisition.status === 'cancelled' },
+    todas: { label: 'Todas', matches: () => true },
+};
+
+// What the operator fills in for each line when fulfilling.
+interface LinePick {
+    quantity: number;
+    serials: string[];
+    reject: boolean;
+    reason: string;
+}
+
+const emptyLine = () => ({ itemId: '', quantity: 1, employeeId: '' });
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const Requisitions: React.FC<RequisitionsProps> = ({ requisitions, items, employees, costCenters, currentUser, route, navigate, can, createRequisition, fulfilRequisition, cancelRequisition, addAuditLog }) => {
+    const statusFilter = route.query.situacao && STATUS_FILTERS[route.query.situacao] ? route.query.situacao : 'pendentes';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+    // The warehouse sees every requisition; requesters only their own.
+    const canFulfil = can('movement.exit');
+
+    const [draft, setDraft] = useState<NewRequisition | null>(null);
+    const [selected, setSelected] = useState<Requisition | null>(null);
+    const [picks, setPicks] = useState<LinePick[]>([]);
+    const [responsible, setResponsible] = useState('');
+    const [toCancel, setToCancel] = useState<Requisition | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+    const itemById = useMemo(() => new Map<string, Item>(items.map(item => [item.id, item])), [items]);
+    const employeeById = useMemo(() => new Map<string, Employee>(employees.map(employee => [employee.id, employee])), [employees]);
+    const activeEmployees = useMemo(() => employees.filter(isEmployeeActive).sort((a, b) => a.name.localeCompare(b.name)), [employees]);
+    const activeCostCenters = useMemo(() => costCenters.filter(isCostCenterActive).sort((a, b) => a.code.localeCompare(b.code)), [costCenters]);
+    const sortedItems = useMemo(() => [...items].sort((a, b) => a.code.localeCompare(b.code)), [items]);
+
+    const visibleRequisitions = useMemo(() => {
+        return requisitions
+            .filter(requisition => canFulfil || requisition.requesterId === currentUser.id)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }, [requisitions, canFulfil, currentUser.id]);
+    const filteredRequisitions = visibleRequisitions.filter(STATUS_FILTERS[statusFilter].matches);
+    const pendingCount = visibleRequisitions.filter(isRequisitionPending).length;
+
+    const describeItem = (itemId: string) => {
+        const item = itemById.get(itemId);
+        return item ? `${item.code} - ${item.description}` : itemId;
+    };
+
+    const updateDraftLine = (index: number, changes: Partial<NewRequisition['lines'][number]>) => {
+        if (!draft) return;
+        setDraft({ ...draft, lines: draft.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+    };
+
+    const handleCreate = async () => {
+        if (!draft) return;
+        const request: NewRequisition = {
+            ...draft,
+            lines: draft.lines.map(line => ({
+                itemId: line.itemId,
+                quantity: line.quantity,
+                ...(itemById.get(line.itemId)?.epi && line.employeeId ? { employeeId: line.employeeId } : {}),
+            })),
+        };
+        setIsSaving(true);
+        let requisition: Requisition | undefined;
+        try {
+            requisition = await createRequisition(request);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível criar a requisição.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!requisition) return;
+        addAuditLog(`Criou a requisição ${requisition.number} (${requisition.department}) com ${requisition.lines.length} ${requisition.lines.length > 1 ? 'itens' : 'item'}.`);
+        setToast({ message: `Requisição ${requisition.number} criada com sucesso!`, type: 'success' });
+        setDraft(null);
+    };
+
+    const openRequisition = (requisition: Requisition) => {
+        setSelected(requisition);
+        setResponsible('');
+        setPicks(requisition.lines.map(line => {
+            const item = itemById.get(line.itemId);
+            const available = item ? getAvailableQuantity(item) : 0;
+            return { quantity: item?.serialTracked ? 0 : Math.min(getRemainingQuantity(line), available), serials: [], reject: false, reason: '' };
+        }));
+    };
+
+    const updatePick = (index: number, changes: Partial<LinePick>) => {
+        setPicks(prevPicks => prevPicks.map((pick, i) => i === index ? { ...pick, ...changes } : pick));
+    };
+
+    const handleFulfil = async () => {
+        if (!selected) return;
+        const open = selected.lines.map((line, index) => ({ line, pick: picks[index], index })).filter(({ line }) => getRemainingQuantity(line) > 0);
+        const data: RequisitionFulfilment = {
+            responsible,
+            lines: open
+                .filter(({ pick }) => !pick.reject)
+                .map(({ line, pick, index }) => itemById.get(line.itemId)?.serialTracked
+                    ? { index, quantity: pick.serials.length, serials: pick.serials }
+                    : { index, quantity: pick.quantity })
+                .filter(pick => pick.quantity > 0),
+            rejections: open.filter(({ pick }) => pick.reject).map(({ pick, index }) => ({ index, reason: pick.reason })),
+        };
+        setIsSaving(true);
+        let requisition: Requisition | undefined;
+        try {
+            requisition = await fulfilRequisition(selected.id, data);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível registrar o atendimento.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!requisition) return;
+        const delivered = data.lines.map(pick => {
+            const item = itemById.get(selected.lines[pick.index].itemId);
+            return `${pick.quantity} ${item?.unit ?? ''} de ${item?.code ?? selected.lines[pick.index].itemId}`;
+        });
+        const rejected = (data.rejections ?? []).map(rejection => `${itemById.get(selected.lines[rejection.index].itemId)?.code} (${rejection.reason.trim()})`);
+        addAuditLog(`Atendeu a requisição ${requisition.number}${delivered.length ? `: entregou ${delivered.join(', ')} a ${responsible.trim()}` : ''}${rejected.length ? `; recusou ${rejected.join(', ')}` : ''}. Situação: ${REQUISITION_STATUS_LABELS[requisition.status]}.`);
+        setToast({ message: 'Atendimento registrado com sucesso!', type: 'success' });
+        setSelected(null);
+    };
+
+    const handleCancel = async () => {
+        if (!toCancel) return;
+        setIsSaving(true);
+        let requisition: Requisition | undefined;
+        try {
+            requisition = await cancelRequisition(toCancel.id, cancelReason);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível cancelar a requisição.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!requisition) return;
+        addAuditLog(`Cancelou a requisição ${requisition.number}. Motivo: ${requisition.cancelReason}`);
+        setToast({ message: `Requisição ${requisition.number} cancelada.`, type: 'success' });
+        setToCancel(null);
+    };
+
+    const toggleSerial = (index: number, serial: string, checked: boolean) => {
+        const serials = picks[index].serials;
+        updatePick(index, { serials: checked ? [...serials, serial] : serials.filter(s => s !== serial) });
+    };
+
+    const canAct = (requisition: Requisition) => isRequisitionPending(requisition) && (canFulfil || requisition.requesterId === currentUser.id);
+
+    return (
+        <div className="space-y-6">
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    onClose={() => setToast(null)}
+                />
+            )}
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-gray-800">Requisições de Material</h1>
+                <Button onClick={() => setDraft({ department: '', observations: '', lines: [emptyLine()] })}>
+                    <PlusIcon />
+                    Nova Requisição
+                </Button>
+            </div>
+
+            <Card className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                    <div>
+                        <label htmlFor="requisitionStatusFilter" className="block text-sm font-medium text-gray-700">Situação</label>
+                        <Select id="requisitionStatusFilter" value={statusFilter} onChange={e => updateQuery({ situacao: e.target.value === 'pendentes' ? '' : e.target.value })}>
+                            {Object.entries(STATUS_FILTERS).map(([value, filter]) => <option key={value} value={value}>{filter.label}</option>)}
+                        </Select>
+                    </div>
+                    <p className="text-sm text-gray-600">{pendingCount} {pendingCount === 1 ? 'requisição pendente' : 'requisições pendentes'}{canFulfil ? '' : ' criadas por você'}.</p>
+                </div>
+            </Card>
+
+            <Card>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Número</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Data</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Requisitante</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Setor</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Itens</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {filteredRequisitions.length > 0 ? filteredRequisitions.map(requisition => (
+                                <tr key={requisition.id}>
+                                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{requisition.number}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-500">{formatDateTime(requisition.createdAt)}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-700">{requisition.requesterName}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-700">{requisition.department}</td>
+                                    <td className="px-4 py-2 text-sm text-gray-700 text-right">{requisition.lines.length}</td>
+                                    <td className="px-4 py-2 text-sm">
+                                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${REQUISITION_STATUS_BADGE_CLASSES[requisition.status]}`}>
+                                            {REQUISITION_STATUS_LABELS[requisition.status]}
+                                        </span>
+                                    </td>
+                                    <td className="px-4 py-2 text-sm">
+                                        <div className="flex items-center gap-3">
+                                            {canFulfil && isRequisitionPending(requisition) ? (
+                                                <button onClick={() => openRequisition(requisition)} className="text-green-600 hover:text-green-900 flex items-center gap-1" title="Atender requisição">
+                                                    <CheckCircleIcon /> Atender
+                                                </button>
+                                            ) : (
+                                                <button onClick={() => openRequisition(requisition)} className="text-blue-600 hover:text-blue-900 flex items-center gap-1" title="Ver requisição">
+                                                    <EyeIcon /> Ver
+                                                </button>
+                                            )}
+                                            {canAct(requisition) && (
+                                                <button onClick={() => { setToCancel(requisition); setCancelReason(''); }} className="text-red-600 hover:text-red-900 flex items-center gap-1" title="Cancelar requisição">
+                                                    <XCircleIcon /> Cancelar
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            )) : (
+                                <tr>
+                                    <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">Nenhuma requisição encontrada.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Modal isOpen={!!draft} onClose={() => setDraft(null)} title="Nova Requisição">
+                {draft && (
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="requisitionCostCenter" className="block text-sm font-medium text-gray-700">Centro de custo requisitante</label>
+                            <Select
+                                id="requisitionCostCenter"
+                                value={draft.costCenterId ?? ''}
+                                onChange={e => setDraft({ ...draft, costCenterId: e.target.value || undefined, department: costCenters.find(c => c.id === e.target.value)?.name ?? '' })}
+                            >
+                                <option value="">Selecione...</option>
+                                {activeCostCenters.map(costCenter => (
+                                    <option key={costCenter.id} value={costCenter.id}>{formatCostCenter(costCenter)}</option>
+                                ))}
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <span className="block text-sm font-medium text-gray-700">Itens</span>
+                            {draft.lines.map((line, index) => {
+                                const item = itemById.get(line.itemId);
+                                return (
+                                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                        <div className={item?.epi ? 'col-span-5' : 'col-span-8'}>
+                                            <Select aria-label={`Item da linha ${index + 1}`} value={line.itemId} onChange={e => updateDraftLine(index, { itemId: e.target.value, employeeId: '' })}>
+                                                <option value="">Selecione...</option>
+                                                {sortedItems.map(i => <option key={i.id} value={i.id}>{i.code} - {i.description}</option>)}
+                                            </Select>
+                                        </div>
+                                        {item?.epi && (
+                                            <div className="col-span-3">
+                                                <Select aria-label={`Colaborador da linha ${index + 1}`} value={line.employeeId ?? ''} onChange={e => updateDraftLine(index, { employeeId: e.target.value })}>
+                                                    <option value="">Colaborador...</option>
+                                                    {activeEmployees.map(employee => <option key={employee.id} value={employee.id}>{employee.name} ({employee.registration})</option>)}
+                                                </Select>
+                                            </div>
+                                        )}
+                                        <div className="col-span-3">
+                                            <Input aria-label={`Quantidade da linha ${index + 1}`} type="number" min="1" value={line.quantity} onChange={e => updateDraftLine(index, { quantity: parseFloat(e.target.value) || 0 })} title={item ? `Quantidade em ${item.unit}` : undefined} />
+                                        </div>
+                                        <div className="col-span-1">
+                                            {draft.lines.length > 1 && (
+                                                <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })} className="text-red-600 hover:text-red-900" title="Remover item">
+                                                    <TrashIcon />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            <button onClick={() => setDraft({ ...draft, lines: [...draft.lines, emptyLine()] })} className="text-sm text-blue-600 hover:underline">+ Adicionar item</button>
+                        </div>
+                        <div>
+                            <label htmlFor="requisitionObservations" className="block text-sm font-medium text-gray-700">Observações</label>
+                            <Textarea id="requisitionObservations" rows={2} value={draft.observations ?? ''} onChange={e => setDraft({ ...draft, observations: e.target.value })} />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setDraft(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                            <Button onClick={handleCreate} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Criar Requisição'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!selected} onClose={() => setSelected(null)} title={selected ? `Requisição ${selected.number}` : ''}>
+                {selected && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Criada por <strong>{selected.requesterName}</strong> ({selected.department}) em {formatDateTime(selected.createdAt)}.
+                            {selected.observations && <> Observações: {selected.observations}</>}
+                        </p>
+                        {selected.cancelReason && (
+                            <p className="text-sm text-red-700">Cancelada por {selected.cancelledByName} em {formatDateTime(selected.cancelledAt!)}: {selected.cancelReason}</p>
+                        )}
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requisitado</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Entregue</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                        {canFulfil && isRequisitionPending(selected) && <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Atender</th>}
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {selected.lines.map((line, index) => {
+                                        const item = itemById.get(line.itemId);
+                                        const remaining = getRemainingQuantity(line);
+                                        const pick = picks[index];
+                                        const employee = line.employeeId ? employeeById.get(line.employeeId) : undefined;
+                                        return (
+                                            <tr key={index}>
+                                                <td className="px-3 py-2 text-sm text-gray-900">
+                                                    {describeItem(line.itemId)}
+                                                    {employee && <div className="text-xs text-gray-500">EPI para {employee.name} ({employee.registration})</div>}
+                                                    {line.rejectionReason && <div className="text-xs text-red-600">Recusado: {line.rejectionReason}</div>}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{line.quantity.toLocaleString('pt-BR')} {item?.unit}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700 text-right">{line.fulfilledQuantity.toLocaleString('pt-BR')}</td>
+                                                <td className="px-3 py-2 text-sm text-gray-700">{REQUISITION_LINE_STATUS_LABELS[line.status]}</td>
+                                                {canFulfil && isRequisitionPending(selected) && (
+                                                    <td className="px-3 py-2 text-sm text-gray-700 space-y-1">
+                                                        {remaining > 0 && pick && item ? (
+                                                            <>
+                                                                {!pick.reject && (item.serialTracked ? (
+                                                                    <div className="grid grid-cols-2 gap-1 max-h-32 overflow-y-auto">
+                                                                        {getSerialsInStock(item).sort((a, b) => a.localeCompare(b)).map(serial => (
+                                                                            <label key={serial} className="flex items-center gap-1 text-xs">
+                                                                                <input
+                                                                                    type="checkbox"
+                                                                                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                                                    checked={pick.serials.includes(serial)}
+                                                                                    onChange={e => toggleSerial(index, serial, e.target.checked)}
+                                                                                />
+                                                                                {serial}
+                                                                            </label>
+                                                                        ))}
+                                                                    </div>
+                                                                ) : (
+                                                                    <div className="flex items-center gap-2">
+                                                                        <Input aria-label={`Quantidade a entregar da linha ${index + 1}`} type="number" min="0" max={remaining} value={pick.quantity} onChange={e => updatePick(index, { quantity: parseFloat(e.target.value) || 0 })} className="w-24" />
+                                                                        <span className="text-xs text-gray-500">Pendente: {remaining} · Disponível: {getAvailableQuantity(item)}</span>
+                                                                    </div>
+                                                                ))}
+                                                                <label className="flex items-center gap-2 text-xs">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                                        checked={pick.reject}
+                                                                        onChange={e => updatePick(index, { reject: e.target.checked })}
+                                                                    />
+                                                                    Recusar o saldo pendente
+                                                                </label>
+                                                                {pick.reject && (
+                                                                    <Input aria-label={`Motivo da recusa da linha ${index + 1}`} type="text" value={pick.reason} onChange={e => updatePick(index, { reason: e.target.value })} placeholder="Motivo da recusa" />
+                                                                )}
+                                                            </>
+                                                        ) : '-'}
+                                                    </td>
+                                                )}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                        {canFulfil && isRequisitionPending(selected) ? (
+                            <>
+                                <div>
+                                    <label htmlFor="requisitionResponsible" className="block text-sm font-medium text-gray-700">Retirado por</label>
+                                    <Input id="requisitionResponsible" type="text" value={responsible} onChange={e => setResponsible(e.target.value)} />
+                                </div>
+                                <div className="flex justify-end gap-4 pt-4">
+                                    <Button onClick={() => setSelected(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Fechar</Button>
+                                    <Button onClick={handleFulfil} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Registrar Atendimento'}</Button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="flex justify-end pt-4">
+                                <Button onClick={() => setSelected(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Fechar</Button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!toCancel} onClose={() => setToCancel(null)} title="Cancelar Requisição">
+                {toCancel && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            Os itens ainda não entregues da requisição <strong>{toCancel.number}</strong> deixarão de ser atendidos. O que já foi entregue permanece registrado.
+                        </p>
+                        <div>
+                            <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700">Motivo</label>
+                            <Textarea id="cancelReason" rows={2} value={cancelReason} onChange={e => setCancelReason(e.target.value)} />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setToCancel(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Voltar</Button>
+                            <Button onClick={handleCancel} disabled={isSaving} className="bg-red-600 hover:bg-red-700">{isSaving ? 'Salvando...' : 'Cancelar Requisição'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default Requisitions;
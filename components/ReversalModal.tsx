@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Item, EntryExitRecord, NewMovement } from '../types';
+import Modal from './ui/Modal';
+import Textarea from './ui/Textarea';
+import Button from './ui/Button';
+import { describeMovement } from '../utils/reversals';
+
+interface ReversalModalProps {
+    // The modal is open while a movement is given.
+    record: EntryExitRecord | null;
+    item: Item;
+    onClose: () => void;
+    onReversed: (message: string) => void;
+    reverseMovement: (record: EntryExitRecord, reason: string) => Promise<NewMovement[]>;
+}
+
+const ReversalModal: React.FC<ReversalModalProps> = ({ record, item, onClose, onReversed, reverseMovement }) => {
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (!record) return null;
+
+    const handleReverse = async () => {
+        if (!reason.trim()) {
+            setError('Informe o motivo do estorno.');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await reverseMovement(record, reason);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível estornar a movimentação.');
+            setIsSaving(false);
+            return;
+        }
+        onReversed('Movimentação estornada com sucesso!');
+    };
+
+    return (
+        <Modal isOpen={!!record} onClose={onClose} title={`Estornar - ${item.code} - ${item.description}`}>
+            <div className="space-y-4">
+                <p className="text-sm text-gray-700">
+                    Estornar a {describeMovement(record, item)}{record.userName ? `, registrada por ${record.userName}` : ''}.
+                    {' '}O estorno lança a movimentação oposta, ligada a esta, que continua no histórico marcada como estornada.
+                </p>
+                <div>
+                    <label htmlFor="reversalReason" className="block text-sm font-medium text-gray-700">Motivo do estorno</label>
+                    <Textarea id="reversalReason" rows={3} value={reason} onChange={e => setReason(e.target.value)} placeholder="Ex.: quantidade digitada errada" />
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={onClose} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleReverse} disabled={isSaving} className="bg-red-600 hover:bg-red-700">
+                        {isSaving ? 'Estornando...' : 'Estornar'}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default ReversalModal;
@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from 'react';
+import { Role, User, Permission } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import { PlusIcon, EditIcon, TrashIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import { PERMISSIONS } from '../auth/permissions';
+
+interface RoleManagementProps {
+  roles: Role[];
+  setRoles: React.Dispatch<React.SetStateAction<Role[]>>;
+  users: User[];
+  addAuditLog: (action: string) => void;
+}
+
+const RoleManagement: React.FC<RoleManagementProps> = ({ roles, setRoles, users, addAuditLog }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentRole, setCurrentRole] = useState<Role | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+  const permissionGroups = useMemo(() => [...new Set(PERMISSIONS.map(permission => permission.group))], []);
+
+  const userCountByRole = useMemo(() => {
+    return users.reduce((acc, user) => {
+      acc[user.role] = (acc[user.role] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+  }, [users]);
+
+  const openModal = (role: Role | null = null) => {
+    setCurrentRole(role ? { ...role, permissions: [...role.permissions] } : { id: '', name: '', permissions: [] });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setCurrentRole(null);
+  };
+
+  const togglePermission = (permission: Permission) => {
+    if (!currentRole) return;
+    const permissions = currentRole.permissions.includes(permission)
+      ? currentRole.permissions.filter(p => p !== permission)
+      : [...currentRole.permissions, permission];
+    setCurrentRole({ ...currentRole, permissions });
+  };
+
+  const handleSaveRole = () => {
+    if (!currentRole) return;
+    const name = currentRole.name.trim();
+    if (!name) {
+      setToast({ message: 'O nome do perfil é obrigatório.', type: 'warning' });
+      return;
+    }
+    if (roles.some(r => r.id !== currentRole.id && r.name.trim().toLowerCase() === name.toLowerCase())) {
+      setToast({ message: `Já existe um perfil chamado "${name}".`, type: 'warning' });
+      return;
+    }
+
+    if (currentRole.id) { // Editing existing role
+      const updatedRole = { ...currentRole, name };
+      setRoles(roles.map(r => r.id === updatedRole.id ? updatedRole : r));
+      addAuditLog(`Editou o perfil de acesso ${name} (${updatedRole.permissions.length} permissões).`);
+      setToast({ message: 'Perfil atualizado com sucesso!', type: 'success' });
+    } else { // Creating new role
+      const newRole: Role = { ...currentRole, id: `role-${Date.now()}`, name };
+      setRoles([...roles, newRole]);
+      addAuditLog(`Criou o perfil de acesso ${name} (${newRole.permissions.length} permissões).`);
+      setToast({ message: 'Perfil criado com sucesso!', type: 'success' });
+    }
+    closeModal();
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    if (userCountByRole[role.id]) {
+      setToast({ message: `O perfil ${role.name} está atribuído a ${userCountByRole[role.id]} usuário(s) e não pode ser excluído.`, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir o perfil ${role.name}?`)) {
+      setRoles(roles.filter(r => r.id !== role.id));
+      addAuditLog(`Excluiu o perfil de acesso ${role.name}.`);
+      setToast({ message: 'Perfil excluído com sucesso!', type: 'success' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Perfis de Acesso</h1>
+        <Button onClick={() => openModal()}>
+          <PlusIcon />
+          Novo Perfil
+        </Button>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Perfil</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Permissões</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Usuários</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {roles.map(role => (
+                <tr key={role.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {role.name}
+                    {role.isSystem && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">Sistema</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {role.isSystem ? 'Todas as permissões' : `${role.permissions.length} de ${PERMISSIONS.length}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{userCountByRole[role.id] || 0}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                    {!role.isSystem && (
+                      <>
+                        <button onClick={() => openModal(role)} className="text-blue-600 hover:text-blue-900" title="Editar">
+                          <EditIcon />
+                        </button>
+                        <button onClick={() => handleDeleteRole(role)} className="text-red-600 hover:text-red-900" title="Excluir">
+                          <TrashIcon />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal isOpen={isModalOpen} onClose={closeModal} title={currentRole?.id ? 'Editar Perfil' : 'Novo Perfil'}>
+        {currentRole && (
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="name" className="block text-sm font-medium text-gray-700">Nome do Perfil</label>
+                    <Input id="name" name="name" type="text" value={currentRole.name} onChange={e => setCurrentRole({ ...currentRole, name: e.target.value })} required />
+                </div>
+                {permissionGroups.map(group => (
+                    <fieldset key={group}>
+                        <legend className="text-sm font-semibold text-gray-700 mb-2">{group}</legend>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {PERMISSIONS.filter(permission => permission.group === group).map(permission => (
+                                <label key={permission.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        checked={currentRole.permissions.includes(permission.id)}
+                                        onChange={() => togglePermission(permission.id)}
+                                    />
+                                    {permission.label}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                ))}
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={closeModal} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSaveRole}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default RoleManagement;
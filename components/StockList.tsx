@@ -1,40 +1,53 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Item, Page, EntryExitRecord, Supplier, Category, UnitOfMeasurement } from '../types';
+import { Item, Location, NewMovement, Supplier, Category, UnitOfMeasurement, UnitConversion, Permission } from '../types';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Select from './ui/Select';
-import { TrashIcon, EntryIcon, HistoryIcon, ExportIcon, EditIcon, ExitIcon, PlusIcon, QrCodeIcon, PrintIcon, UploadIcon } from './icons/Icons';
+import { TrashIcon, EntryIcon, HistoryIcon, ExportIcon, EditIcon, ExitIcon, PlusIcon, QrCodeIcon, PrintIcon, UploadIcon, TransferIcon } from './icons/Icons';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import Toast from './ui/Toast';
 import Pagination from './ui/Pagination';
+import TransferModal from './TransferModal';
+import { getItemLocations, getLocationBalances, formatLocationBalances, findLocationByName, getDescendantLocations, getLocationPath, getItemLocationError, sortLocationTree } from '../utils/locations';
+import { isCatalogEntryActive, getItemCatalogError, refreshCatalogNames, findCategoryByName, findUnitByAbbreviation } from '../utils/catalog';
+import { getUnitConversionsError } from '../utils/units';
+import { parseSerialList, findDuplicateSerial } from '../utils/serials';
+import { getAvailableQuantity } from '../utils/loans';
+import { getEpiCertificateError } from '../utils/epi';
+import { Route, Navigate, buildPath, withQuery } from '../routing';
 
 interface StockListProps {
     items: Item[];
     suppliers: Supplier[];
     categories: Category[];
     units: UnitOfMeasurement[];
+    locations: Location[];
     setItems: React.Dispatch<React.SetStateAction<Item[]>>;
-    setActivePage: (page: Page) => void;
-    setItemForEntry: (item: Item) => void;
-    setItemForExit: (item: Item) => void;
-    history: EntryExitRecord[];
-    initialSearchTerm?: string;
-    clearInitialSearch: () => void;
-    initialFilters: { category?: string; status?: string };
-    clearInitialFilters: () => void;
+    // Filters and search are kept in the URL (/estoque?categoria=&status=&local=&busca=);
+    // the item page (/itens/:code) keeps them for the way back.
+    route: Route;
+    navigate: Navigate;
     addAuditLog: (action: string) => void;
+    // Saves new items and registers the stock typed on them as their opening balance.
+    createItems: (newItems: Item[], observations: string) => Promise<void>;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
+    can: (permission: Permission) => boolean;
 }
 
-const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, units, setItems, setActivePage, setItemForEntry, setItemForExit, history, initialSearchTerm, clearInitialSearch, initialFilters, clearInitialFilters, addAuditLog }) => {
-    const [filterCategory, setFilterCategory] = useState('');
-    const [filterStatus, setFilterStatus] = useState('');
-    const [filterLocation, setFilterLocation] = useState('');
-    const [searchTerm, setSearchTerm] = useState('');
+const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, units, locations, setItems, route, navigate, addAuditLog, createItems, registerMovements, can }) => {
+    const filterCategory = route.query.categoria ?? '';
+    const filterStatus = route.query.status ?? '';
+    const filterLocation = route.query.local ?? '';
+    const searchTerm = route.query.busca ?? '';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+    const setFilterCategory = (categoria: string) => updateQuery({ categoria });
+    const setFilterStatus = (status: string) => updateQuery({ status });
+    const setFilterLocation = (local: string) => updateQuery({ local });
+    const setSearchTerm = (busca: string) => updateQuery({ busca });
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
     const [itemToDelete, setItemToDelete] = useState<Item | null>(null);
-    const [selectedItemForHistory, setSelectedItemForHistory] = useState<Item | null>(null);
-    const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+    const [itemToTransfer, setItemToTransfer] = useState<Item | null>(null);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [itemToEdit, setItemToEdit] = useState<Partial<Item> | null>(null);
     const [previewItem, setPreviewItem] = useState<Item | null>(null);
@@ -54,28 +67,12 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
     const [currentPage, setCurrentPage] = useState(1);
     const [itemsPerPage] = useState(10);
     
+    const canViewValues = can('report.view_values');
+    const tableHeaders = ['Código', 'Descrição', 'Categoria', 'Local', 'Medida', 'Qtd.', 'Qtd. Mín.', ...(canViewValues ? ['Valor Médio', 'Valor Total'] : []), 'Ações'];
+
     // Generic toast state
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
 
-    useEffect(() => {
-        if (initialSearchTerm) {
-            setSearchTerm(initialSearchTerm);
-            clearInitialSearch();
-        }
-    }, [initialSearchTerm, clearInitialSearch]);
-    
-    useEffect(() => {
-        if (initialFilters?.category) {
-            setFilterCategory(initialFilters.category);
-        }
-        if (initialFilters?.status) {
-            setFilterStatus(initialFilters.status);
-        }
-        if (Object.keys(initialFilters).length > 0) {
-            clearInitialFilters();
-        }
-    }, [initialFilters, clearInitialFilters]);
-
     const generateZplForItem = (item: Item): string => {
         const sanitize = (text: string, maxLength: number) => {
             if (!text) return '';
@@ -128,14 +125,17 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
 
 
     const filteredItems = useMemo(() => {
+        // A registered location also matches the items stored anywhere below it.
+        const filterNode = findLocationByName(locations, filterLocation);
+        const filterNames = filterNode ? getDescendantLocations(filterNode, locations).map(l => l.name) : [filterLocation];
         return items.filter(item => {
             const matchesCategory = filterCategory ? item.category === filterCategory : true;
-            const matchesLocation = filterLocation ? item.location === filterLocation : true;
+            const matchesLocation = filterLocation ? getItemLocations(item).some(name => filterNames.includes(name)) : true;
             const matchesStatus = filterStatus ? (filterStatus === 'low' ? item.stockQuantity <= item.minQuantity : item.stockQuantity > item.minQuantity) : true;
             const matchesSearch = searchTerm ? item.description.toLowerCase().includes(searchTerm.toLowerCase()) || item.code.toLowerCase().includes(searchTerm.toLowerCase()) : true;
             return matchesCategory && matchesLocation && matchesStatus && matchesSearch;
         });
-    }, [filterCategory, filterStatus, filterLocation, searchTerm, items]);
+    }, [filterCategory, filterStatus, filterLocation, searchTerm, items, locations]);
     
     // Clear selection when filters change
     useEffect(() => {
@@ -164,13 +164,6 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         }
     }, []); // Empty dependency array ensures this runs only once on mount
 
-    const itemHistory = useMemo(() => {
-        if (!selectedItemForHistory) return [];
-        return history
-            .filter(record => record.itemId === selectedItemForHistory.id)
-            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [selectedItemForHistory, history]);
-    
     // Pagination calculations
     const paginatedItems = useMemo(() => {
         const startIndex = (currentPage - 1) * itemsPerPage;
@@ -181,7 +174,12 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
     const totalPages = Math.ceil(filteredItems.length / itemsPerPage);
 
     const uniqueCategories = [...new Set(items.map(item => item.category))];
-    const locations = [...new Set(items.map(item => item.location))];
+    const locationTree = sortLocationTree(locations);
+    // Names used by items that are not registered (older data) can still be filtered.
+    const unregisteredLocations = [...new Set<string>(items.flatMap(getItemLocations))]
+        .filter(name => !findLocationByName(locations, name))
+        .sort((a, b) => a.localeCompare(b));
+    const itemLocationOptions = locationTree.filter(location => location.status !== 'inactive');
 
     const openDeleteConfirmation = (item: Item) => {
         setItemToDelete(item);
@@ -194,7 +192,9 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
     };
 
     const confirmDeleteItem = () => {
-        if (itemToDelete) {
+        if (itemToDelete?.loanedQuantity) {
+            setToast({ message: `O item ${itemToDelete.code} possui ${itemToDelete.loanedQuantity} unidades emprestadas e não pode ser excluído.`, type: 'warning' });
+        } else if (itemToDelete) {
             setItems(prev => prev.filter(item => item.id !== itemToDelete.id));
             addAuditLog(`Excluiu o item ${itemToDelete.code} - ${itemToDelete.description}.`);
             setToast({ message: 'Item excluído com sucesso!', type: 'success' });
@@ -203,23 +203,16 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
     };
     
     const handleNewEntryForItem = (item: Item) => {
-        setItemForEntry(item);
-        setActivePage('new-entry');
+        navigate(buildPath('new-entry', {}, { item: item.code }));
     };
 
     const handleNewExitForItem = (item: Item) => {
-        setItemForExit(item);
-        setActivePage('new-exit');
+        navigate(buildPath('new-exit', {}, { item: item.code }));
     };
 
-    const openHistoryModal = (item: Item) => {
-        setSelectedItemForHistory(item);
-        setIsHistoryModalOpen(true);
-    };
-
-    const closeHistoryModal = () => {
-        setSelectedItemForHistory(null);
-        setIsHistoryModalOpen(false);
+    // The current filters stay in the query string, so going back from the item page returns to the same list.
+    const openItemPage = (item: Item) => {
+        navigate(buildPath('item', { code: item.code }, route.query));
     };
 
     const openEditModal = (item: Item) => {
@@ -231,8 +224,10 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         setItemToEdit({
             code: '',
             description: '',
+            categoryId: '',
             category: '',
             location: '',
+            unitId: '',
             unit: '',
             stockQuantity: 0,
             minQuantity: 0,
@@ -261,19 +256,28 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         }
     };
 
-    const handleSaveItem = () => {
+    const setUnitConversions = (unitConversions: UnitConversion[]) => {
+        if (itemToEdit) setItemToEdit({ ...itemToEdit, unitConversions });
+    };
+
+    const updateUnitConversion = (index: number, changes: Partial<UnitConversion>) => {
+        const conversions = itemToEdit?.unitConversions ?? [];
+        setUnitConversions(conversions.map((conversion, i) => i === index ? { ...conversion, ...changes } : conversion));
+    };
+
+    const handleSaveItem = async () => {
         if (!itemToEdit) return;
 
         // --- VALIDATION FOR NEW ITEM ---
         if (!itemToEdit.id) {
-            const { code, description, category, location, unit, stockQuantity } = itemToEdit;
+            const { code, stockQuantity } = itemToEdit;
 
             const requiredFields: { key: keyof Item, name: string }[] = [
                 { key: 'code', name: 'Código' },
                 { key: 'description', name: 'Descrição' },
-                { key: 'category', name: 'Categoria' },
+                { key: 'categoryId', name: 'Categoria' },
                 { key: 'location', name: 'Localização' },
-                { key: 'unit', name: 'Unidade de Medida' }
+                { key: 'unitId', name: 'Unidade de Medida' }
             ];
 
             for (const field of requiredFields) {
@@ -299,9 +303,22 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         }
         // --- END VALIDATION ---
 
+        const original = items.find(item => item.id === itemToEdit.id);
+        const locationError = locations.length > 0 && itemToEdit.location !== original?.location ? getItemLocationError(itemToEdit.location!.trim(), locations) : null;
+        const catalogError = getItemCatalogError(itemToEdit as Item, categories, units, original) ?? getUnitConversionsError(itemToEdit as Item, units) ?? getEpiCertificateError(itemToEdit.epi);
+        if (locationError || catalogError) {
+            setToast({ message: (locationError || catalogError)!, type: 'warning' });
+            return;
+        }
+        // The category name and unit abbreviation are copied from the selected records.
+        const catalogNames = refreshCatalogNames([itemToEdit as Item], categories, units)[0] ?? {};
+
         if (itemToEdit.id) { // Editing
+            // Balances stay where they are; a new location only changes where entries go.
             const updatedItem = {
                 ...itemToEdit,
+                ...catalogNames,
+                locationBalances: original ? getLocationBalances(original) : itemToEdit.locationBalances,
                 totalValue: (itemToEdit.stockQuantity || 0) * (itemToEdit.avgUnitValue || 0)
             } as Item;
             setItems(prevItems => prevItems.map(item => item.id === updatedItem.id ? updatedItem : item));
@@ -310,15 +327,19 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         } else { // Creating
              const newItem: Item = {
                 ...itemToEdit,
+                ...catalogNames,
                 id: `item-${Date.now()}`,
                 code: itemToEdit.code!.trim(),
                 description: itemToEdit.description!.trim(),
-                category: itemToEdit.category!.trim(),
                 location: itemToEdit.location!.trim(),
-                unit: itemToEdit.unit!.trim(),
                 totalValue: (itemToEdit.stockQuantity || 0) * (itemToEdit.avgUnitValue || 0)
             } as Item;
-            setItems(prevItems => [...prevItems, newItem]);
+            try {
+                await createItems([newItem], 'Saldo inicial');
+            } catch (error) {
+                setToast({ message: error instanceof Error ? error.message : 'Não foi possível criar o item.', type: 'warning' });
+                return;
+            }
             addAuditLog(`Criou o item ${newItem.code} - ${newItem.description}.`);
             setToast({ message: 'Item criado com sucesso!', type: 'success' });
         }
@@ -363,33 +384,69 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                     rowData[header.replace(/\s*\(opcional\)/, '')] = values[index]?.trim() ?? '';
                 });
 
-                const { code, description, category, location, unit, stockquantity, minquantity, equipment } = rowData;
+                const { code, description, category, location, unit, stockquantity, minquantity, equipment, serials } = rowData;
 
                 if (!code || !description || !category || !location || !unit) {
                     errors.push(`Linha ${i + 1}: Dados obrigatórios (código, descrição, categoria, local, unidade) faltando.`);
                     continue;
                 }
 
+                const locationError = locations.length > 0 ? getItemLocationError(location, locations) : null;
+                if (locationError) {
+                    errors.push(`Linha ${i + 1}: ${locationError}`);
+                    continue;
+                }
+
+                const categoryRecord = findCategoryByName(categories, category);
+                const unitRecord = findUnitByAbbreviation(units, unit);
+                if (!categoryRecord || !isCatalogEntryActive(categoryRecord)) {
+                    errors.push(`Linha ${i + 1}: Categoria "${category}" não cadastrada ou inativa.`);
+                    continue;
+                }
+                if (!unitRecord || !isCatalogEntryActive(unitRecord)) {
+                    errors.push(`Linha ${i + 1}: Unidade "${unit}" não cadastrada ou inativa.`);
+                    continue;
+                }
+
                 if (existingCodes.has(code.toLowerCase()) || validItems.some(item => item.code?.toLowerCase() === code.toLowerCase())) {
                     errors.push(`Linha ${i + 1}: Código "${code}" já existe no sistema ou no arquivo.`);
                     continue;
                 }
                 
-                const stockQuantityNum = stockquantity ? parseFloat(stockquantity) : 0;
+                // Serial numbers are separated by ";" within the column; the item becomes serialized.
+                const serialList = parseSerialList(serials ?? '');
+                const stockQuantityNum = stockquantity ? parseFloat(stockquantity) : serialList.length;
                 const minQuantityNum = minquantity ? parseFloat(minquantity) : 0;
 
                 if (isNaN(stockQuantityNum) || isNaN(minQuantityNum)) {
                      errors.push(`Linha ${i + 1}: Quantidade em estoque ou mínima ("${stockquantity}", "${minquantity}") não é um número válido.`);
                     continue;
                 }
+                const duplicateSerial = findDuplicateSerial(serialList);
+                if (duplicateSerial) {
+                    errors.push(`Linha ${i + 1}: Número de série "${duplicateSerial}" repetido.`);
+                    continue;
+                }
+                if (serialList.length > 0 && serialList.length !== stockQuantityNum) {
+                    errors.push(`Linha ${i + 1}: A quantidade em estoque (${stockQuantityNum}) difere da quantidade de números de série (${serialList.length}).`);
+                    continue;
+                }
 
                 validItems.push({
-                    code, description, category, location, unit,
+                    code, description, location,
+                    categoryId: categoryRecord.id,
+                    category: categoryRecord.name,
+                    unitId: unitRecord.id,
+                    unit: unitRecord.abbreviation,
                     stockQuantity: stockQuantityNum,
                     minQuantity: minQuantityNum,
                     equipment: equipment || '',
                     avgUnitValue: 0, // Default value
                     leadTimeDays: 0, // Default value
+                    ...(serialList.length > 0 ? {
+                        serialTracked: true,
+                        serials: serialList.map(serial => ({ serial, status: 'in_stock' as const })),
+                    } : {}),
                 });
             }
             setParsedData({ validItems, errors });
@@ -397,7 +454,7 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
         reader.readAsText(file);
     };
     
-    const handleConfirmBulkImport = () => {
+    const handleConfirmBulkImport = async () => {
         if (!parsedData || parsedData.validItems.length === 0) return;
 
         const newItems: Item[] = parsedData.validItems.map((item, index) => ({
@@ -406,41 +463,19 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
             totalValue: (item.stockQuantity || 0) * (item.avgUnitValue || 0),
         } as Item));
 
-        setItems(prev => [...prev, ...newItems]);
-        
+        try {
+            await createItems(newItems, 'Saldo inicial (importação CSV)');
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível importar os itens.', type: 'warning' });
+            return;
+        }
+
         addAuditLog(`Importou em lote ${newItems.length} novos itens via CSV.`);
 
         setToast({ message: `${newItems.length} itens importados com sucesso!`, type: 'success' });
         closeEditModal();
     };
 
-    const handleExportHistory = () => {
-        if (!selectedItemForHistory || itemHistory.length === 0) return;
-
-        const headers = ['Data', 'Tipo', 'Quantidade'];
-        const rows = itemHistory.map(record => [
-            `"${new Date(record.date).toLocaleDateString('pt-BR')}"`,
-            `"${record.type === 'entry' ? 'Entrada' : 'Saída'}"`,
-            `"${record.quantity.toLocaleString('pt-BR')}"`
-        ]);
-
-        const csvContent = [
-            headers.join(','),
-            ...rows.map(row => row.join(','))
-        ].join('\n');
-
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement("a");
-        const url = URL.createObjectURL(blob);
-        link.setAttribute("href", url);
-        link.setAttribute("download", `historico_${selectedItemForHistory.code}.csv`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-    };
-
     const downloadZpl = (zpl: string, filename: string) => {
         const blob = new Blob([zpl], { type: 'text/plain' });
         const url = URL.createObjectURL(blob);
@@ -533,10 +568,12 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                             </Button>
                         </>
                     )}
-                    <Button onClick={openCreateModal}>
-                        <PlusIcon />
-                        Novo Item
-                    </Button>
+                    {can('item.create') && (
+                        <Button onClick={openCreateModal}>
+                            <PlusIcon />
+                            Novo Item
+                        </Button>
+                    )}
                 </div>
             </div>
             
@@ -558,18 +595,21 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                     </Select>
                     <Select value={filterLocation} onChange={e => setFilterLocation(e.target.value)}>
                         <option value="">Todas Localizações</option>
-                        {locations.map(loc => <option key={loc} value={loc}>{loc}</option>)}
+                        {locationTree.map(location => <option key={location.id} value={location.name}>{getLocationPath(location, locations)}</option>)}
+                        {unregisteredLocations.map(loc => <option key={loc} value={loc}>{loc}</option>)}
                     </Select>
                 </div>
             </Card>
 
             <Card>
+                {canViewValues && (
                  <div className="p-4 border-b bg-gray-50">
                     <p className="text-sm font-medium text-gray-600">Valor Total Consolidado (com base nos filtros)</p>
                     <p className="text-2xl font-bold text-blue-600">
                         {totalStockValue.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
                     </p>
                 </div>
+                )}
                 <div className="overflow-x-auto relative">
                     {isFiltering && (
                         <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center z-10 transition-opacity">
@@ -596,7 +636,7 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                                         aria-label="Selecionar todos os itens"
                                     />
                                 </th>
-                                {['Código', 'Descrição', 'Categoria', 'Local', 'Medida', 'Qtd.', 'Qtd. Mín.', 'Valor Médio', 'Valor Total', 'Ações'].map(header => (
+                                {tableHeaders.map(header => (
                                     <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                         {header}
                                     </th>
@@ -639,38 +679,64 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                                             </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{item.description}</td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.category}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.location}</td>
+                                            <td className="px-6 py-4 text-sm text-gray-500" title={formatLocationBalances(item, item.unit)}>
+                                                {getLocationBalances(item).length > 1 ? `${item.location} +${getLocationBalances(item).length - 1}` : item.location}
+                                            </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.unit}</td>
-                                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold ${isLowStock ? 'text-red-600' : 'text-gray-900'}`}>{item.stockQuantity.toLocaleString('pt-BR')}</td>
+                                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold ${isLowStock ? 'text-red-600' : 'text-gray-900'}`}>
+                                                {item.stockQuantity.toLocaleString('pt-BR')}
+                                                {!!item.loanedQuantity && (
+                                                    <div className="text-xs font-normal text-gray-500">
+                                                        Disponível: {getAvailableQuantity(item).toLocaleString('pt-BR')} · <span className="text-blue-700">Emprestado: {item.loanedQuantity.toLocaleString('pt-BR')}</span>
+                                                    </div>
+                                                )}
+                                            </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{item.minQuantity.toLocaleString('pt-BR')}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">R$ {item.avgUnitValue.toFixed(2)}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">R$ {item.totalValue.toFixed(2)}</td>
+                                            {canViewValues && (
+                                                <>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">R$ {item.avgUnitValue.toFixed(2)}</td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">R$ {item.totalValue.toFixed(2)}</td>
+                                                </>
+                                            )}
                                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center space-x-3">
-                                                <button onClick={() => openEditModal(item)} className="text-blue-600 hover:text-blue-900 transition-colors" title="Editar Item">
-                                                    <EditIcon />
-                                                </button>
-                                                <button onClick={() => openHistoryModal(item)} className="text-gray-600 hover:text-gray-900 transition-colors" title="Ver Histórico">
+                                                {can('item.edit') && (
+                                                    <button onClick={() => openEditModal(item)} className="text-blue-600 hover:text-blue-900 transition-colors" title="Editar Item">
+                                                        <EditIcon />
+                                                    </button>
+                                                )}
+                                                <button onClick={() => openItemPage(item)} className="text-gray-600 hover:text-gray-900 transition-colors" title="Ficha de Estoque">
                                                     <HistoryIcon />
                                                 </button>
                                                 <button onClick={() => setPreviewItem(item)} className="text-gray-600 hover:text-gray-900 transition-colors" title="Gerar Etiqueta com QR Code">
                                                     <QrCodeIcon />
                                                 </button>
-                                                <button onClick={() => handleNewEntryForItem(item)} className="text-green-600 hover:text-green-900 transition-colors" title="Registrar Entrada">
-                                                    <EntryIcon />
-                                                </button>
-                                                <button onClick={() => handleNewExitForItem(item)} className="text-yellow-500 hover:text-yellow-700 transition-colors" title="Registrar Saída">
-                                                    <ExitIcon />
-                                                </button>
-                                                <button onClick={() => openDeleteConfirmation(item)} className="text-red-600 hover:text-red-900 transition-colors" title="Excluir Item">
-                                                    <TrashIcon />
-                                                </button>
+                                                {can('movement.entry') && (
+                                                    <button onClick={() => handleNewEntryForItem(item)} className="text-green-600 hover:text-green-900 transition-colors" title="Registrar Entrada">
+                                                        <EntryIcon />
+                                                    </button>
+                                                )}
+                                                {can('movement.exit') && (
+                                                    <button onClick={() => handleNewExitForItem(item)} className="text-yellow-500 hover:text-yellow-700 transition-colors" title="Registrar Saída">
+                                                        <ExitIcon />
+                                                    </button>
+                                                )}
+                                                {can('movement.transfer') && (
+                                                    <button onClick={() => setItemToTransfer(item)} className="text-blue-500 hover:text-blue-700 transition-colors" title="Transferir entre Localizações">
+                                                        <TransferIcon />
+                                                    </button>
+                                                )}
+                                                {can('item.delete') && (
+                                                    <button onClick={() => openDeleteConfirmation(item)} className="text-red-600 hover:text-red-900 transition-colors" title="Excluir Item">
+                                                        <TrashIcon />
+                                                    </button>
+                                                )}
                                             </td>
                                         </tr>
                                     )
                                 })
                             ) : (
                                 <tr>
-                                    <td colSpan={11} className="text-center py-8 text-gray-500">
+                                    <td colSpan={tableHeaders.length + 1} className="text-center py-8 text-gray-500">
                                         Nenhum item encontrado com os filtros selecionados.
                                     </td>
                                 </tr>
@@ -693,6 +759,19 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                 )}
             </Card>
             
+            <TransferModal
+                key={itemToTransfer?.id}
+                item={itemToTransfer}
+                locations={locations}
+                onClose={() => setItemToTransfer(null)}
+                onTransferred={message => {
+                    setItemToTransfer(null);
+                    setToast({ message, type: 'success' });
+                }}
+                registerMovements={registerMovements}
+                addAuditLog={addAuditLog}
+            />
+
             <Modal isOpen={isDeleteModalOpen} onClose={closeDeleteConfirmation} title="Confirmar Exclusão">
                 {itemToDelete && (
                     <div className="space-y-4">
@@ -715,51 +794,6 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                 )}
             </Modal>
 
-            <Modal isOpen={isHistoryModalOpen} onClose={closeHistoryModal} title={`Histórico de Movimentação - ${selectedItemForHistory?.description}`}>
-                {selectedItemForHistory && (
-                    <div>
-                        <div className="flex justify-end mb-4">
-                            <Button onClick={handleExportHistory} disabled={itemHistory.length === 0}>
-                                <ExportIcon />
-                                Exportar Histórico
-                            </Button>
-                        </div>
-                        <div className="overflow-x-auto">
-                            <table className="min-w-full divide-y divide-gray-200">
-                                <thead className="bg-gray-50">
-                                    <tr>
-                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
-                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tipo</th>
-                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quantidade</th>
-                                    </tr>
-                                </thead>
-                                <tbody className="bg-white divide-y divide-gray-200">
-                                    {itemHistory.length > 0 ? (
-                                        itemHistory.map(record => (
-                                            <tr key={record.id}>
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{new Date(record.date).toLocaleDateString('pt-BR')}</td>
-                                                <td className="px-6 py-4 whitespace-nowrap">
-                                                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${record.type === 'entry' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
-                                                        {record.type === 'entry' ? 'Entrada' : 'Saída'}
-                                                    </span>
-                                                </td>
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{record.quantity.toLocaleString('pt-BR')}</td>
-                                            </tr>
-                                        ))
-                                    ) : (
-                                        <tr>
-                                            <td colSpan={3} className="text-center py-8 text-gray-500">
-                                                Nenhuma movimentação encontrada para este item.
-                                            </td>
-                                        </tr>
-                                    )}
-                                </tbody>
-                            </table>
-                        </div>
-                    </div>
-                )}
-            </Modal>
-
             <Modal isOpen={isEditModalOpen} onClose={closeEditModal} title={isCreating ? 'Novo Item' : 'Editar Item'}>
                 {itemToEdit && (
                     <>
@@ -802,20 +836,26 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                                     </div>
                                     <div>
                                         <label htmlFor="category" className="block text-sm font-medium text-gray-700">Categoria</label>
-                                        <Select id="category" name="category" value={itemToEdit.category || ''} onChange={handleEditInputChange}>
+                                        <Select id="category" name="categoryId" value={itemToEdit.categoryId || ''} onChange={handleEditInputChange}>
                                             <option value="">Selecione uma categoria</option>
-                                            {categories.map(cat => <option key={cat.id} value={cat.name}>{cat.name}</option>)}
+                                            {categories.filter(cat => isCatalogEntryActive(cat) || cat.id === itemToEdit.categoryId).map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
                                         </Select>
                                     </div>
                                     <div>
-                                        <label htmlFor="location" className="block text-sm font-medium text-gray-700">Localização</label>
-                                        <Input id="location" name="location" type="text" value={itemToEdit.location || ''} onChange={handleEditInputChange} />
+                                        <label htmlFor="location" className="block text-sm font-medium text-gray-700">{isCreating ? 'Localização' : 'Localização Padrão'}</label>
+                                        <Select id="location" name="location" value={itemToEdit.location || ''} onChange={handleEditInputChange}>
+                                            <option value="">Selecione uma localização</option>
+                                            {itemToEdit.location && !itemLocationOptions.some(location => location.name === itemToEdit.location) && (
+                                                <option value={itemToEdit.location}>{itemToEdit.location}</option>
+                                            )}
+                                            {itemLocationOptions.map(location => <option key={location.id} value={location.name}>{getLocationPath(location, locations)}</option>)}
+                                        </Select>
                                     </div>
                                     <div>
                                         <label htmlFor="unit" className="block text-sm font-medium text-gray-700">Unidade de Medida</label>
-                                        <Select id="unit" name="unit" value={itemToEdit.unit || ''} onChange={handleEditInputChange}>
+                                        <Select id="unit" name="unitId" value={itemToEdit.unitId || ''} onChange={handleEditInputChange}>
                                             <option value="">Selecione uma unidade</option>
-                                            {units.map(u => <option key={u.id} value={u.abbreviation}>{u.name} ({u.abbreviation})</option>)}
+                                            {units.filter(u => isCatalogEntryActive(u) || u.id === itemToEdit.unitId).map(u => <option key={u.id} value={u.id}>{u.name} ({u.abbreviation})</option>)}
                                         </Select>
                                     </div>
                                      <div>
@@ -832,13 +872,104 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                                             <label htmlFor="stockQuantity" className="block text-sm font-medium text-gray-700">Quantidade Inicial</label>
                                             <Input id="stockQuantity" name="stockQuantity" type="number" value={itemToEdit.stockQuantity || 0} onChange={handleEditInputChange} />
                                         </div>
+                                        {can('item.edit_cost') && (
                                         <div>
                                             <label htmlFor="avgUnitValue" className="block text-sm font-medium text-gray-700">Valor Médio Unitário</label>
                                             <Input id="avgUnitValue" name="avgUnitValue" type="number" value={itemToEdit.avgUnitValue || 0} onChange={handleEditInputChange} />
                                         </div>
+                                        )}
                                         </>
                                     )}
                                 </div>
+                                <div className="pt-2 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <p className="text-sm font-medium text-gray-700">Unidades de Compra / Consumo</p>
+                                        <button type="button" onClick={() => setUnitConversions([...(itemToEdit.unitConversions ?? []), { unitId: '', unit: '', factor: 1 }])} className="text-sm text-blue-600 hover:text-blue-800">
+                                            + Adicionar unidade
+                                        </button>
+                                    </div>
+                                    {(itemToEdit.unitConversions ?? []).map((conversion, index) => (
+                                        <div key={index} className="flex items-center gap-2 text-sm text-gray-600">
+                                            <span>1</span>
+                                            <Select
+                                                aria-label="Unidade alternativa"
+                                                value={conversion.unitId}
+                                                onChange={e => updateUnitConversion(index, { unitId: e.target.value, unit: units.find(u => u.id === e.target.value)?.abbreviation ?? '' })}
+                                                className="w-48"
+                                            >
+                                                <option value="">Selecione...</option>
+                                                {units.filter(u => u.id !== itemToEdit.unitId && (isCatalogEntryActive(u) || u.id === conversion.unitId)).map(u => <option key={u.id} value={u.id}>{u.name} ({u.abbreviation})</option>)}
+                                            </Select>
+                                            <span>=</span>
+                                            <Input
+                                                aria-label="Fator de conversão"
+                                                type="number"
+                                                min="0"
+                                                step="any"
+                                                value={conversion.factor}
+                                                onChange={e => updateUnitConversion(index, { factor: Number(e.target.value) })}
+                                                className="w-32"
+                                            />
+                                            <span>{units.find(u => u.id === itemToEdit.unitId)?.abbreviation ?? 'unidades de estoque'}</span>
+                                            <button type="button" onClick={() => setUnitConversions((itemToEdit.unitConversions ?? []).filter((_, i) => i !== index))} className="text-red-600 hover:text-red-900" title="Remover">
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-gray-500">O estoque é mantido na unidade de medida do item; entradas e saídas podem ser informadas nestas unidades.</p>
+                                </div>
+                                <div className="pt-2">
+                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            checked={!!itemToEdit.lotTracked}
+                                            onChange={e => setItemToEdit({ ...itemToEdit, lotTracked: e.target.checked })}
+                                        />
+                                        Controlar lotes e validade
+                                    </label>
+                                    <p className="text-xs text-gray-500 mt-1">Entradas passam a exigir o lote e as saídas consomem primeiro os lotes que vencem antes. O saldo atual fica como "sem lote".</p>
+                                </div>
+                                <div className="pt-2">
+                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            checked={!!itemToEdit.serialTracked}
+                                            onChange={e => setItemToEdit({ ...itemToEdit, serialTracked: e.target.checked })}
+                                        />
+                                        Controlar números de série
+                                    </label>
+                                    <p className="text-xs text-gray-500 mt-1">Cada unidade que entra recebe um número de série, e a saída indica quais unidades saem. O saldo atual fica sem número de série.</p>
+                                </div>
+                                <div className="pt-2 space-y-2">
+                                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            checked={!!itemToEdit.epi}
+                                            onChange={e => setItemToEdit({ ...itemToEdit, epi: e.target.checked ? { caNumber: '' } : undefined })}
+                                        />
+                                        Equipamento de Proteção Individual (NR-6)
+                                    </label>
+                                    <p className="text-xs text-gray-500">Saídas passam a ser entregas a um colaborador, registradas na ficha de EPI com o número do CA.</p>
+                                    {itemToEdit.epi && (
+                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                            <div>
+                                                <label htmlFor="caNumber" className="block text-sm font-medium text-gray-700">Nº do CA</label>
+                                                <Input id="caNumber" type="text" value={itemToEdit.epi.caNumber} onChange={e => setItemToEdit({ ...itemToEdit, epi: { ...itemToEdit.epi!, caNumber: e.target.value } })} />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="caExpiryDate" className="block text-sm font-medium text-gray-700">Validade do CA</label>
+                                                <Input id="caExpiryDate" type="date" value={itemToEdit.epi.caExpiryDate ?? ''} onChange={e => setItemToEdit({ ...itemToEdit, epi: { ...itemToEdit.epi!, caExpiryDate: e.target.value || undefined } })} />
+                                            </div>
+                                            <div>
+                                                <label htmlFor="replacementDays" className="block text-sm font-medium text-gray-700">Troca a cada (dias)</label>
+                                                <Input id="replacementDays" type="number" min="1" value={itemToEdit.epi.replacementDays ?? ''} onChange={e => setItemToEdit({ ...itemToEdit, epi: { ...itemToEdit.epi!, replacementDays: e.target.value ? parseInt(e.target.value, 10) : undefined } })} />
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
                                 {!isCreating && (
                                     <div className="pt-2">
                                         <p className="text-xs text-gray-500">A quantidade em estoque e o valor são atualizados automaticamente através das entradas, saídas e inventário.</p>
@@ -859,8 +990,9 @@ const StockList: React.FC<StockListProps> = ({ items, suppliers, categories, uni
                                 </div>
                                 <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-md">
                                     <p className="font-bold">Formato do CSV:</p>
-                                    <p className="font-mono">code,description,category,location,unit,stockQuantity,minQuantity,equipment(opcional)</p>
+                                    <p className="font-mono">code,description,category,location,unit,stockQuantity,minQuantity,equipment(opcional),serials(opcional)</p>
                                     <p className="mt-1">A primeira linha deve ser o cabeçalho. `stockQuantity` e `minQuantity` serão 0 se não informados.</p>
+                                    <p className="mt-1">`serials` lista os números de série separados por ponto e vírgula (ex: `SN001;SN002`) e torna o item serializado; a quantidade em estoque passa a ser a quantidade de números de série.</p>
                                 </div>
                                 {parsedData && (
                                     <div className="space-y-4 max-h-60 overflow-y-auto">
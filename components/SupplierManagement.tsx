@@ -1,25 +1,27 @@
 import React, { useState } from 'react';
-import { Supplier } from '../types';
+import { Supplier, Item } from '../types';
 import Card from './ui/Card';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import Input from './ui/Input';
 import { PlusIcon, EditIcon, TrashIcon } from './icons/Icons';
 import Toast from './ui/Toast';
+import { getSupplierCnpjError, normalizeCnpj, formatCnpj } from '../utils/suppliers';
 
 interface SupplierManagementProps {
   suppliers: Supplier[];
   setSuppliers: React.Dispatch<React.SetStateAction<Supplier[]>>;
+  items: Item[];
   addAuditLog: (action: string) => void;
 }
 
-const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setSuppliers, addAuditLog }) => {
+const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setSuppliers, items, addAuditLog }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentSupplier, setCurrentSupplier] = useState<Partial<Supplier> | null>(null);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
 
   const openModal = (supplier: Partial<Supplier> | null = null) => {
-    setCurrentSupplier(supplier ? { ...supplier } : { id: '', name: '', contactPerson: '', email: '', phone: '' });
+    setCurrentSupplier(supplier ? { ...supplier, cnpj: supplier.cnpj ? formatCnpj(supplier.cnpj) : '' } : { id: '', name: '', contactPerson: '', email: '', phone: '', cnpj: '' });
     setIsModalOpen(true);
   };
 
@@ -49,13 +51,22 @@ const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setS
       return;
     }
 
+    const cnpjError = getSupplierCnpjError({ id: currentSupplier?.id ?? '', cnpj: currentSupplier?.cnpj }, suppliers);
+    if (cnpjError) {
+      setToast({ message: cnpjError, type: 'warning' });
+      return;
+    }
+    // Stored as digits, the way NF-e files carry it.
+    const cnpj = currentSupplier?.cnpj?.trim() ? normalizeCnpj(currentSupplier.cnpj) : undefined;
+
     if (currentSupplier?.id) { // Editing existing supplier
-      setSuppliers(suppliers.map(s => s.id === currentSupplier.id ? currentSupplier as Supplier : s));
+      setSuppliers(suppliers.map(s => s.id === currentSupplier.id ? { ...currentSupplier, cnpj } as Supplier : s));
       addAuditLog(`Editou os dados do fornecedor ${currentSupplier.name}.`);
       setToast({ message: 'Fornecedor atualizado com sucesso!', type: 'success' });
     } else { // Creating new supplier
       const newSupplier: Supplier = {
         ...currentSupplier,
+        cnpj,
         id: `supplier-${Date.now()}`,
       } as Supplier;
       setSuppliers([...suppliers, newSupplier]);
@@ -105,6 +116,7 @@ const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setS
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">CNPJ</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Contato</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">E-mail</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Telefone</th>
@@ -115,6 +127,7 @@ const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setS
               {suppliers.map(supplier => (
                 <tr key={supplier.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{supplier.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.cnpj ? formatCnpj(supplier.cnpj) : '-'}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.contactPerson}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.email}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{supplier.phone}</td>
@@ -140,6 +153,11 @@ const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setS
                     <label htmlFor="name" className="block text-sm font-medium text-gray-700">Nome do Fornecedor</label>
                     <Input id="name" name="name" type="text" value={currentSupplier.name || ''} onChange={handleInputChange} required />
                 </div>
+                <div>
+                    <label htmlFor="cnpj" className="block text-sm font-medium text-gray-700">CNPJ</label>
+                    <Input id="cnpj" name="cnpj" type="text" value={currentSupplier.cnpj || ''} onChange={handleInputChange} placeholder="Opcional, e.g., 12.345.678/0001-95" />
+                    <p className="text-xs text-gray-500 mt-1">Usado para reconhecer o fornecedor nas NF-e importadas.</p>
+                </div>
                 <div>
                     <label htmlFor="contactPerson" className="block text-sm font-medium text-gray-700">Pessoa de Contato</label>
                     <Input id="contactPerson" name="contactPerson" type="text" value={currentSupplier.contactPerson || ''} onChange={handleInputChange} required />
@@ -152,6 +170,24 @@ const SupplierManagement: React.FC<SupplierManagementProps> = ({ suppliers, setS
                     <label htmlFor="phone" className="block text-sm font-medium text-gray-700">Telefone</label>
                     <Input id="phone" name="phone" type="text" value={currentSupplier.phone || ''} onChange={handleInputChange} required />
                 </div>
+                {currentSupplier.itemCodes && currentSupplier.itemCodes.length > 0 && (
+                    <div>
+                        <p className="block text-sm font-medium text-gray-700">Códigos de produto vinculados</p>
+                        <p className="text-xs text-gray-500 mb-2">Aprendidos na importação de NF-e. Remova um vínculo para escolher o item de novo na próxima nota.</p>
+                        <ul className="divide-y divide-gray-200 border rounded-md max-h-48 overflow-y-auto">
+                            {currentSupplier.itemCodes.map(code => (
+                                <li key={code.code} className="flex justify-between items-center px-3 py-2 text-sm">
+                                    <span>
+                                        <span className="font-mono">{code.code}</span> &rarr; {items.find(i => i.id === code.itemId)?.code ?? 'item removido'} ({code.unit})
+                                    </span>
+                                    <button onClick={() => setCurrentSupplier({ ...currentSupplier, itemCodes: currentSupplier.itemCodes!.filter(c => c.code !== code.code) })} className="text-red-600 hover:text-red-900" title="Remover vínculo">
+                                        <TrashIcon />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
                 <div className="flex justify-end gap-4 pt-4">
                     <Button onClick={closeModal} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
                     <Button onClick={handleSaveSupplier}>Salvar</Button>
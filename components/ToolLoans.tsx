@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from 'react';
+import { Item, ToolLoan, NewToolLoan, ToolLoanReturn, LoanCondition } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import Modal from './ui/Modal';
+import Toast from './ui/Toast';
+import { PlusIcon, CheckCircleIcon } from './icons/Icons';
+import {
+    LOAN_STATUS_LABELS,
+    LOAN_STATUS_BADGE_CLASSES,
+    LOAN_CONDITION_LABELS,
+    LoanStatus,
+    getLoanStatus,
+    getDaysOverdue,
+    getAvailableQuantity,
+    getWorkerLoans,
+    getWorkerNames,
+} from '../utils/loans';
+import { getSerialsInStock } from '../utils/serials';
+import { getToday, formatLotDate } from '../utils/lots';
+import { Route, Navigate, withQuery } from '../routing';
+
+interface ToolLoansProps {
+    items: Item[];
+    loans: ToolLoan[];
+    route: Route;
+    navigate: Navigate;
+    checkOutTool: (request: NewToolLoan) => Promise<ToolLoan | undefined>;
+    checkInTool: (loanId: string, data: ToolLoanReturn) => Promise<ToolLoan | undefined>;
+    addAuditLog: (action: string) => void;
+}
+
+// Values of the "situacao" query parameter.
+const STATUS_FILTERS: Record<string, { label: string; matches: (status: LoanStatus) => boolean }> = {
+    abertos: { label: 'Em aberto', matches: status => status !== 'returned' },
+    atrasados: { label: 'Em atraso', matches: status => status === 'overdue' },
+    devolvidos: { label: 'Devolvidos', matches: status => status === 'returned' },
+    todos: { label: 'Todos', matches: () => true },
+};
+
+const emptyCheckOut = (): NewToolLoan => ({ itemId: '', quantity: 1, serials: [], worker: '', expectedReturnDate: getToday(), observations: '' });
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const ToolLoans: React.FC<ToolLoansProps> = ({ items, loans, route, navigate, checkOutTool, checkInTool, addAuditLog }) => {
+    const statusFilter = route.query.situacao && STATUS_FILTERS[route.query.situacao] ? route.query.situacao : 'abertos';
+    const workerFilter = route.query.colaborador ?? '';
+    const updateQuery = (changes: Record<string, string>) => navigate(withQuery(route, changes), { replace: true });
+
+    const [checkOut, setCheckOut] = useState<NewToolLoan | null>(null);
+    const [loanToReturn, setLoanToReturn] = useState<ToolLoan | null>(null);
+    const [returnData, setReturnData] = useState<ToolLoanReturn>({ condition: 'good', notes: '' });
+    const [isSaving, setIsSaving] = useState(false);
+    const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+
+    const today = getToday();
+    const itemById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+    const workers = useMemo(() => getWorkerNames(loans), [loans]);
+    const openLoans = loans.filter(loan => getLoanStatus(loan, today) !== 'returned');
+    const overdueCount = openLoans.filter(loan => getLoanStatus(loan, today) === 'overdue').length;
+
+    const filteredLoans = useMemo(() => {
+        const source = workerFilter ? getWorkerLoans(loans, workerFilter) : loans;
+        return source
+            .filter(loan => STATUS_FILTERS[statusFilter].matches(getLoanStatus(loan, today)))
+            // Overdue loans first, then by expected return date.
+            .sort((a, b) => getDaysOverdue(b, today) - getDaysOverdue(a, today) || a.expectedReturnDate.localeCompare(b.expectedReturnDate));
+    }, [loans, statusFilter, workerFilter, today]);
+
+    const workerHistory = useMemo(() => workerFilter ? getWorkerLoans(loans, workerFilter) : [], [loans, workerFilter]);
+
+    const lendableItems = useMemo(() => {
+        return items.filter(item => getAvailableQuantity(item) > 0).sort((a, b) => a.code.localeCompare(b.code));
+    }, [items]);
+    const selectedItem = checkOut ? itemById.get(checkOut.itemId) : undefined;
+    const serialsInStock = selectedItem?.serialTracked ? getSerialsInStock(selectedItem).sort((a, b) => a.localeCompare(b)) : [];
+
+    const describeItem = (itemId: string) => {
+        const item = itemById.get(itemId);
+        return item ? `${item.code} - ${item.description}` : itemId;
+    };
+
+    const handleCheckOut = async () => {
+        if (!checkOut || !selectedItem) {
+            setToast({ message: 'Selecione a ferramenta a emprestar.', type: 'warning' });
+            return;
+        }
+        const request: NewToolLoan = {
+            ...checkOut,
+            quantity: selectedItem.serialTracked ? checkOut.serials?.length ?? 0 : checkOut.quantity,
+            serials: selectedItem.serialTracked ? checkOut.serials : undefined,
+        };
+        setIsSaving(true);
+        let loan: ToolLoan | undefined;
+        try {
+            loan = await checkOutTool(request);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível registrar o empréstimo.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!loan) return;
+        const serialText = loan.serials?.length ? ` (séries: ${loan.serials.join(', ')})` : '';
+        addAuditLog(`Emprestou ${loan.quantity} ${selectedItem.unit} do item ${selectedItem.code}${serialText} para ${loan.worker}, com devolução prevista em ${formatLotDate(loan.expectedReturnDate)}.`);
+        setToast({ message: 'Empréstimo registrado com sucesso!', type: 'success' });
+        setCheckOut(null);
+    };
+
+    const openReturnModal = (loan: ToolLoan) => {
+        setLoanToReturn(loan);
+        setReturnData({ condition: 'good', notes: '' });
+    };
+
+    const handleReturn = async () => {
+        if (!loanToReturn) return;
+        setIsSaving(true);
+        let loan: ToolLoan | undefined;
+        try {
+            loan = await checkInTool(loanToReturn.id, returnData);
+        } catch (error) {
+            setToast({ message: error instanceof Error ? error.message : 'Não foi possível registrar a devolução.', type: 'warning' });
+            setIsSaving(false);
+            return;
+        }
+        setIsSaving(false);
+        if (!loan) return;
+        const notesText = loan.returnNotes ? ` Observações: ${loan.returnNotes}` : '';
+        addAuditLog(`Registrou a devolução de ${loan.quantity} unidades do item ${describeItem(loan.itemId)} por ${loan.worker} (estado: ${LOAN_CONDITION_LABELS[returnData.condition]}).${notesText}`);
+        setToast({ message: 'Devolução registrada com sucesso!', type: 'success' });
+        setLoanToReturn(null);
+    };
+
+    const toggleSerial = (serial: string, checked: boolean) => {
+        if (!checkOut) return;
+        const serials = checkOut.serials ?? [];
+        setCheckOut({ ...checkOut, serials: checked ? [...serials, serial] : serials.filter(s => s !== serial) });
+    };
+
+    return (
+        <div className="space-y-6">
+            {toast && (
+                <Toast
+                    message={toast.message}
+                    type={toast.type}
+                    onClose={() => setToast(null)}
+                />
+            )}
+            <div className="flex justify-between items-center">
+                <h1 className="text-3xl font-bold text-gray-800">Empréstimo de Ferramentas</h1>
+                <Button onClick={() => setCheckOut(emptyCheckOut())}>
+                    <PlusIcon />
+                    Novo Empréstimo
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Card className="p-4">
+                    <p className="text-sm text-gray-500">Empréstimos em aberto</p>
+                    <p className="text-2xl font-bold text-gray-800">{openLoans.length}</p>
+                </Card>
+                <button onClick={() => updateQuery({ situacao: 'atrasados' })} className="text-left">
+                    <Card className={`p-4 ${overdueCount > 0 ? 'border-l-4 border-red-500' : ''}`}>
+                        <p className="text-sm text-gray-500">Em atraso</p>
+                        <p className={`text-2xl font-bold ${overdueCount > 0 ? 'text-red-600' : 'text-gray-800'}`}>{overdueCount}</p>
+                    </Card>
+                </button>
+            </div>
+
+            <Card className="p-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="loanStatusFilter" className="block text-sm font-medium text-gray-700">Situação</label>
+                        <Select id="loanStatusFilter" value={statusFilter} onChange={e => updateQuery({ situacao: e.target.value === 'abertos' ? '' : e.target.value })}>
+                            {Object.entries(STATUS_FILTERS).map(([value, filter]) => <option key={value} value={value}>{filter.label}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label htmlFor="loanWorkerFilter" className="block text-sm font-medium text-gray-700">Colaborador</label>
+                        <Select id="loanWorkerFilter" value={workerFilter} onChange={e => updateQuery({ colaborador: e.target.value })}>
+                            <option value="">Todos</option>
+                            {workers.map(worker => <option key={worker} value={worker}>{worker}</option>)}
+                        </Select>
+                    </div>
+                </div>
+            </Card>
+
+            <Card>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ferramenta</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Colaborador</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qtd.</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Retirada</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Devolução Prevista</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {filteredLoans.length > 0 ? filteredLoans.map(loan => {
+                                const status = getLoanStatus(loan, today);
+                                return (
+                                    <tr key={loan.id} className={status === 'overdue' ? 'bg-red-50' : ''}>
+                                        <td className="px-4 py-2 text-sm text-gray-900">
+                                            {describeItem(loan.itemId)}
+                                            {loan.serials?.length ? <div className="text-xs text-gray-500">Séries: {loan.serials.join(', ')}</div> : null}
+                                        </td>
+                                        <td className="px-4 py-2 text-sm text-gray-700">
+                                            <button onClick={() => updateQuery({ colaborador: loan.worker, situacao: 'todos' })} className="text-blue-600 hover:underline">{loan.worker}</button>
+                                        </td>
+                                        <td className="px-4 py-2 text-sm text-gray-700 text-right">{loan.quantity.toLocaleString('pt-BR')} {itemById.get(loan.itemId)?.unit}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-500" title={`Registrado por ${loan.checkOutUserName}`}>{formatDateTime(loan.checkedOutAt)}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-500">{formatLotDate(loan.expectedReturnDate)}</td>
+                                        <td className="px-4 py-2 text-sm">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${LOAN_STATUS_BADGE_CLASSES[status]}`}>
+                                                {LOAN_STATUS_LABELS[status]}{status === 'overdue' ? ` há ${getDaysOverdue(loan, today)} dia(s)` : ''}
+                                            </span>
+                                            {loan.returnCondition && (
+                                                <div className="text-xs text-gray-500 mt-1">{LOAN_CONDITION_LABELS[loan.returnCondition]} em {formatDateTime(loan.returnedAt!)}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-2 text-sm">
+                                            {status !== 'returned' && (
+                                                <button onClick={() => openReturnModal(loan)} className="text-green-600 hover:text-green-900 flex items-center gap-1" title="Registrar devolução">
+                                                    <CheckCircleIcon /> Devolver
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            }) : (
+                                <tr>
+                                    <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">Nenhum empréstimo encontrado.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            {workerFilter && (
+                <Card className="p-4">
+                    <h2 className="text-lg font-semibold text-gray-800 mb-2">Histórico de {workerFilter}</h2>
+                    <p className="text-sm text-gray-600 mb-4">
+                        {workerHistory.length} empréstimos, {workerHistory.filter(loan => !loan.returnedAt).length} em aberto,{' '}
+                        {workerHistory.filter(loan => loan.returnCondition === 'damaged').length} devolvidos danificados.
+                    </p>
+                    <ul className="divide-y divide-gray-200">
+                        {workerHistory.map(loan => (
+                            <li key={loan.id} className="py-2 text-sm text-gray-700">
+                                <span className="font-medium">{formatDateTime(loan.checkedOutAt)}</span> — {loan.quantity.toLocaleString('pt-BR')} × {describeItem(loan.itemId)}
+                                {loan.returnedAt
+                                    ? <> · devolvido em {formatDateTime(loan.returnedAt)} ({LOAN_CONDITION_LABELS[loan.returnCondition!]}){loan.returnNotes ? `: ${loan.returnNotes}` : ''}</>
+                                    : <> · devolução prevista em {formatLotDate(loan.expectedReturnDate)}</>}
+                            </li>
+                        ))}
+                    </ul>
+                </Card>
+            )}
+
+            <Modal isOpen={!!checkOut} onClose={() => setCheckOut(null)} title="Novo Empréstimo">
+                {checkOut && (
+                    <div className="space-y-4">
+                        <div>
+                            <label htmlFor="loanItem" className="block text-sm font-medium text-gray-700">Ferramenta</label>
+                            <Select id="loanItem" value={checkOut.itemId} onChange={e => setCheckOut({ ...checkOut, itemId: e.target.value, serials: [] })}>
+                                <option value="">Selecione...</option>
+                                {lendableItems.map(item => (
+                                    <option key={item.id} value={item.id}>{item.code} - {item.description} (Disponível: {getAvailableQuantity(item)})</option>
+                                ))}
+                            </Select>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="loanWorker" className="block text-sm font-medium text-gray-700">Colaborador</label>
+                                <Input id="loanWorker" type="text" list="loanWorkers" value={checkOut.worker} onChange={e => setCheckOut({ ...checkOut, worker: e.target.value })} />
+                                <datalist id="loanWorkers">
+                                    {workers.map(worker => <option key={worker} value={worker} />)}
+                                </datalist>
+                            </div>
+                            <div>
+                                <label htmlFor="loanExpectedReturn" className="block text-sm font-medium text-gray-700">Devolução Prevista</label>
+                                <Input id="loanExpectedReturn" type="date" min={today} value={checkOut.expectedReturnDate} onChange={e => setCheckOut({ ...checkOut, expectedReturnDate: e.target.value })} />
+                            </div>
+                        </div>
+                        {selectedItem?.serialTracked ? (
+                            <div className="space-y-2">
+                                <span className="block text-sm font-medium text-gray-700">Números de Série ({checkOut.serials?.length ?? 0} selecionados)</span>
+                                {serialsInStock.length > 0 ? (
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-48 overflow-y-auto p-2 border rounded-md">
+                                        {serialsInStock.map(serial => (
+                                            <label key={serial} className="flex items-center gap-2 text-sm text-gray-700">
+                                                <input
+                                                    type="checkbox"
+                                                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                                    checked={checkOut.serials?.includes(serial) ?? false}
+                                                    onChange={e => toggleSerial(serial, e.target.checked)}
+                                                />
+                                                {serial}
+                                            </label>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-gray-500">Nenhum número de série disponível.</p>
+                                )}
+                            </div>
+                        ) : (
+                            <div>
+                                <label htmlFor="loanQuantity" className="block text-sm font-medium text-gray-700">Quantidade{selectedItem ? ` (${selectedItem.unit})` : ''}</label>
+                                <Input id="loanQuantity" type="number" min="1" value={checkOut.quantity} onChange={e => setCheckOut({ ...checkOut, quantity: parseFloat(e.target.value) || 0 })} />
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="loanObservations" className="block text-sm font-medium text-gray-700">Observações</label>
+                            <Textarea id="loanObservations" rows={2} value={checkOut.observations ?? ''} onChange={e => setCheckOut({ ...checkOut, observations: e.target.value })} />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setCheckOut(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                            <Button onClick={handleCheckOut} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Emprestar'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <Modal isOpen={!!loanToReturn} onClose={() => setLoanToReturn(null)} title="Registrar Devolução">
+                {loanToReturn && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            {loanToReturn.quantity.toLocaleString('pt-BR')} × <strong>{describeItem(loanToReturn.itemId)}</strong> emprestado a <strong>{loanToReturn.worker}</strong> em {formatDateTime(loanToReturn.checkedOutAt)}.
+                        </p>
+                        <div>
+                            <label htmlFor="returnCondition" className="block text-sm font-medium text-gray-700">Estado na devolução</label>
+                            <Select id="returnCondition" value={returnData.condition} onChange={e => setReturnData({ ...returnData, condition: e.target.value as LoanCondition })}>
+                                {Object.entries(LOAN_CONDITION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label htmlFor="returnNotes" className="block text-sm font-medium text-gray-700">Observações</label>
+                            <Textarea id="returnNotes" rows={3} value={returnData.notes ?? ''} onChange={e => setReturnData({ ...returnData, notes: e.target.value })} placeholder="Ex: cabo com desgaste, falta acessório..." />
+                        </div>
+                        <div className="flex justify-end gap-4 pt-4">
+                            <Button onClick={() => setLoanToReturn(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                            <Button onClick={handleReturn} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Registrar Devolução'}</Button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+        </div>
+    );
+};
+
+export default ToolLoans;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Item, Location, NewMovement } from '../types';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import Textarea from './ui/Textarea';
+import Button from './ui/Button';
+import { getLocationBalances, getLocationPath, getLocationMovementError, sortLocationTree } from '../utils/locations';
+
+interface TransferModalProps {
+    // The modal is open while an item is given.
+    item: Item | null;
+    // Registered locations; only active ones can receive the stock.
+    locations: Location[];
+    onClose: () => void;
+    onTransferred: (message: string) => void;
+    registerMovements: (movements: NewMovement[]) => Promise<NewMovement[]>;
+    addAuditLog: (action: string) => void;
+}
+
+const TransferModal: React.FC<TransferModalProps> = ({ item, locations, onClose, onTransferred, registerMovements, addAuditLog }) => {
+    const balances = item ? getLocationBalances(item).filter(balance => balance.quantity > 0 && !getLocationMovementError(locations, balance.location, 'out')) : [];
+    const defaultFrom = balances.find(balance => balance.location === item?.location)?.location ?? balances[0]?.location ?? '';
+    const [fromLocation, setFromLocation] = useState(defaultFrom);
+    const [toLocation, setToLocation] = useState('');
+    const [quantity, setQuantity] = useState('');
+    const [observations, setObservations] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    if (!item) return null;
+
+    const available = balances.find(balance => balance.location === fromLocation)?.quantity ?? 0;
+    const destinations = sortLocationTree(locations).filter(location => location.status === 'active' && location.name !== fromLocation);
+
+    const handleTransfer = async () => {
+        const qty = parseFloat(quantity);
+        const destination = toLocation.trim();
+        if (!fromLocation || !destination) {
+            setError('Informe a localização de origem e a de destino.');
+            return;
+        }
+        if (destination === fromLocation) {
+            setError('A localização de destino deve ser diferente da origem.');
+            return;
+        }
+        if (isNaN(qty) || qty <= 0) {
+            setError('A quantidade deve ser maior que zero.');
+            return;
+        }
+        if (qty > available) {
+            setError(`Quantidade a transferir (${qty}) excede o saldo em ${fromLocation} (${available}).`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await registerMovements([{
+                itemId: item.id,
+                type: 'transfer',
+                quantity: qty,
+                fromLocation,
+                toLocation: destination,
+                observations: observations.trim() || undefined,
+            }]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível registrar a transferência.');
+            setIsSaving(false);
+            return;
+        }
+
+        addAuditLog(`Transferiu ${qty} ${item.unit} do item ${item.code} de ${fromLocation} para ${destination}.`);
+        onTransferred('Transferência registrada com sucesso!');
+    };
+
+    return (
+        <Modal isOpen={!!item} onClose={onClose} title={`Transferir - ${item.code} - ${item.description}`}>
+            <div className="space-y-4">
+                {balances.length === 0 ? (
+                    <p className="text-sm text-gray-600">Este item não possui saldo para transferir.</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="transferFrom" className="block text-sm font-medium text-gray-700">Origem</label>
+                                <Select id="transferFrom" value={fromLocation} onChange={e => setFromLocation(e.target.value)}>
+                                    {balances.map(balance => (
+                                        <option key={balance.location} value={balance.location}>
+                                            {balance.location} ({balance.quantity.toLocaleString('pt-BR')} {item.unit})
+                                        </option>
+                                    ))}
+                                </Select>
+                            </div>
+                            <div>
+                                <label htmlFor="transferTo" className="block text-sm font-medium text-gray-700">Destino</label>
+                                <Select id="transferTo" value={toLocation} onChange={e => setToLocation(e.target.value)}>
+                                    <option value="">Selecione...</option>
+                                    {destinations.map(location => (
+                                        <option key={location.id} value={location.name}>{getLocationPath(location, locations)}</option>
+                                    ))}
+                                </Select>
+                            </div>
+                            <div>
+                                <label htmlFor="transferQuantity" className="block text-sm font-medium text-gray-700">Quantidade</label>
+                                <Input id="transferQuantity" type="number" min="0" max={available} value={quantity} onChange={e => setQuantity(e.target.value)} />
+                                <p className="text-xs text-gray-500 mt-1">Disponível na origem: {available.toLocaleString('pt-BR')} {item.unit}</p>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="transferObservations" className="block text-sm font-medium text-gray-700">Observações</label>
+                            <Textarea id="transferObservations" rows={2} value={observations} onChange={e => setObservations(e.target.value)} />
+                        </div>
+                    </>
+                )}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={onClose} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleTransfer} disabled={isSaving || balances.length === 0}>
+                        {isSaving ? 'Transferindo...' : 'Transferir'}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default TransferModal;
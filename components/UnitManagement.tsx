@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { UnitOfMeasurement, Item } from '../types';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import Input from './ui/Input';
+import Select from './ui/Select';
+import { PlusIcon, EditIcon, TrashIcon, TransferIcon } from './icons/Icons';
+import Toast from './ui/Toast';
+import {
+  isCatalogEntryActive,
+  countItemsWithUnit,
+  getUnitValidationError,
+  getUnitRemovalError,
+} from '../utils/catalog';
+
+interface UnitManagementProps {
+  units: UnitOfMeasurement[];
+  setUnits: React.Dispatch<React.SetStateAction<UnitOfMeasurement[]>>;
+  items: Item[];
+  onSave: (unit: UnitOfMeasurement) => Promise<Item[]>;
+  onMerge: (sourceId: string, targetId: string) => Promise<void>;
+  addAuditLog: (action: string) => void;
+}
+
+const UnitManagement: React.FC<UnitManagementProps> = ({ units, setUnits, items, onSave, onMerge, addAuditLog }) => {
+  const [currentUnit, setCurrentUnit] = useState<UnitOfMeasurement | null>(null);
+  const [unitToMerge, setUnitToMerge] = useState<UnitOfMeasurement | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
+  const isCreating = !!currentUnit && !units.some(u => u.id === currentUnit.id);
+  const sortedUnits = [...units].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSaveUnit = async () => {
+    if (!currentUnit) return;
+    const error = getUnitValidationError(currentUnit, units);
+    if (error) {
+      setToast({ message: error, type: 'warning' });
+      return;
+    }
+
+    const saved = { ...currentUnit, name: currentUnit.name.trim(), abbreviation: currentUnit.abbreviation.trim() };
+    const previous = units.find(u => u.id === saved.id);
+    // Items keep a copy of the abbreviation, so a change reaches every item of the unit.
+    let renamed: Item[];
+    try {
+      renamed = await onSave(saved);
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Não foi possível salvar a unidade.', type: 'warning' });
+      return;
+    }
+    if (!previous) {
+      addAuditLog(`Criou a unidade de medida ${saved.name} (${saved.abbreviation}).`);
+      setToast({ message: 'Unidade criada com sucesso!', type: 'success' });
+    } else {
+      if (previous.name !== saved.name || previous.abbreviation !== saved.abbreviation) {
+        addAuditLog(`Renomeou a unidade ${previous.name} (${previous.abbreviation}) para ${saved.name} (${saved.abbreviation}) (${renamed.length} itens atualizados).`);
+      }
+      if (isCatalogEntryActive(previous) !== isCatalogEntryActive(saved)) {
+        addAuditLog(`${isCatalogEntryActive(saved) ? 'Reativou' : 'Desativou'} a unidade ${saved.abbreviation}.`);
+      }
+      setToast({ message: 'Unidade atualizada com sucesso!', type: 'success' });
+    }
+    setCurrentUnit(null);
+  };
+
+  const handleDeleteUnit = (unit: UnitOfMeasurement) => {
+    const error = getUnitRemovalError(unit, items);
+    if (error) {
+      setToast({ message: `${error} Mescle-a com outra unidade ou desative-a.`, type: 'warning' });
+      return;
+    }
+    if (window.confirm(`Tem certeza que deseja excluir a unidade ${unit.name} (${unit.abbreviation})?`)) {
+      setUnits(units.filter(u => u.id !== unit.id));
+      addAuditLog(`Excluiu a unidade de medida ${unit.name} (${unit.abbreviation}).`);
+      setToast({ message: 'Unidade excluída com sucesso!', type: 'success' });
+    }
+  };
+
+  const openMergeModal = (unit: UnitOfMeasurement) => {
+    setUnitToMerge(unit);
+    setMergeTargetId('');
+  };
+
+  const handleMerge = async () => {
+    const target = units.find(u => u.id === mergeTargetId);
+    if (!unitToMerge || !target) {
+      setToast({ message: 'Selecione a unidade de destino.', type: 'warning' });
+      return;
+    }
+    const count = countItemsWithUnit(unitToMerge.id, items);
+    setIsMerging(true);
+    try {
+      await onMerge(unitToMerge.id, target.id);
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Não foi possível mesclar as unidades.', type: 'warning' });
+      setIsMerging(false);
+      return;
+    }
+    addAuditLog(`Mesclou a unidade ${unitToMerge.abbreviation} em ${target.abbreviation} (${count} itens movidos).`);
+    setToast({ message: 'Unidades mescladas com sucesso!', type: 'success' });
+    setIsMerging(false);
+    setUnitToMerge(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {toast && (
+          <Toast
+              message={toast.message}
+              type={toast.type}
+              onClose={() => setToast(null)}
+          />
+      )}
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Unidades de Medida</h1>
+        <Button onClick={() => setCurrentUnit({ id: `unit-${Date.now()}`, name: '', abbreviation: '' })}>
+          <PlusIcon />
+          Nova Unidade
+        </Button>
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nome</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sigla</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Situação</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Itens</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedUnits.map(unit => (
+                <tr key={unit.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{unit.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{unit.abbreviation}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${isCatalogEntryActive(unit) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                      {isCatalogEntryActive(unit) ? 'Ativa' : 'Inativa'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{countItemsWithUnit(unit.id, items)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
+                    <button onClick={() => setCurrentUnit({ ...unit })} className="text-blue-600 hover:text-blue-900" title="Editar">
+                      <EditIcon />
+                    </button>
+                    <button onClick={() => openMergeModal(unit)} className="text-purple-600 hover:text-purple-900" title="Mesclar com outra unidade">
+                      <TransferIcon />
+                    </button>
+                    <button onClick={() => handleDeleteUnit(unit)} className="text-red-600 hover:text-red-900" title="Excluir">
+                      <TrashIcon />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <Modal isOpen={!!currentUnit} onClose={() => setCurrentUnit(null)} title={isCreating ? 'Nova Unidade de Medida' : 'Editar Unidade de Medida'}>
+        {currentUnit && (
+            <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="unitName" className="block text-sm font-medium text-gray-700">Nome</label>
+                        <Input id="unitName" type="text" value={currentUnit.name} onChange={e => setCurrentUnit({ ...currentUnit, name: e.target.value })} placeholder="Ex: Quilograma" />
+                    </div>
+                    <div>
+                        <label htmlFor="unitAbbreviation" className="block text-sm font-medium text-gray-700">Sigla</label>
+                        <Input id="unitAbbreviation" type="text" value={currentUnit.abbreviation} onChange={e => setCurrentUnit({ ...currentUnit, abbreviation: e.target.value })} placeholder="Ex: KG" />
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="unitStatus" className="block text-sm font-medium text-gray-700">Situação</label>
+                    <Select id="unitStatus" value={isCatalogEntryActive(currentUnit) ? 'active' : 'inactive'} onChange={e => setCurrentUnit({ ...currentUnit, active: e.target.value === 'active' })}>
+                        <option value="active">Ativa</option>
+                        <option value="inactive">Inativa</option>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">Unidades inativas continuam nos itens que as usam, mas não podem ser escolhidas para outros itens.</p>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setCurrentUnit(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleSaveUnit}>Salvar</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!unitToMerge} onClose={() => setUnitToMerge(null)} title={`Mesclar Unidade - ${unitToMerge?.abbreviation ?? ''}`}>
+        {unitToMerge && (
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                    Os {countItemsWithUnit(unitToMerge.id, items)} itens da unidade <strong>{unitToMerge.abbreviation}</strong> passarão
+                    para a unidade de destino, e {unitToMerge.abbreviation} será excluída.
+                </p>
+                <p className="text-sm text-yellow-700">As quantidades não são convertidas: use a mesclagem apenas para unidades duplicadas.</p>
+                <div>
+                    <label htmlFor="mergeTarget" className="block text-sm font-medium text-gray-700">Unidade de destino</label>
+                    <Select id="mergeTarget" value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)}>
+                        <option value="">Selecione...</option>
+                        {sortedUnits.filter(u => u.id !== unitToMerge.id).map(u => <option key={u.id} value={u.id}>{u.name} ({u.abbreviation})</option>)}
+                    </Select>
+                </div>
+                <div className="flex justify-end gap-4 pt-4">
+                    <Button onClick={() => setUnitToMerge(null)} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
+                    <Button onClick={handleMerge} disabled={isMerging}>{isMerging ? 'Mesclando...' : 'Mesclar'}</Button>
+                </div>
+            </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default UnitManagement;
@@ -6,23 +6,31 @@ import Button from './ui/Button';
 import Modal from './ui/Modal';
 import Input from './ui/Input';
 import Select from './ui/Select';
-import { PlusIcon, EditIcon, TrashIcon, KeyIcon } from './icons/Icons';
+import { PlusIcon, EditIcon, TrashIcon, KeyIcon, UnlockIcon } from './icons/Icons';
 import Toast from './ui/Toast';
+import { isAccountLocked } from '../auth/securityPolicy';
+import { ADMIN_ROLE_ID, getRoleName } from '../auth/permissions';
 
 interface UserManagementProps {
   users: User[];
+  roles: Role[];
   setUsers: React.Dispatch<React.SetStateAction<User[]>>;
+  onCreateUser: (user: User, temporaryPassword: string) => Promise<void>;
   onChangePassword: (user: User) => void;
+  onUnlockUser: (user: User) => Promise<void>;
   addAuditLog: (action: string) => void;
 }
 
-const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChangePassword, addAuditLog }) => {
+const UserManagement: React.FC<UserManagementProps> = ({ users, roles, setUsers, onCreateUser, onChangePassword, onUnlockUser, addAuditLog }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentUser, setCurrentUser] = useState<Partial<User> | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
   const openModal = (user: Partial<User> | null = null) => {
     setCurrentUser(user ? { ...user } : { id: '', name: '', email: '', role: 'Operator' });
+    setTemporaryPassword('');
     setIsModalOpen(true);
   };
 
@@ -31,7 +39,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
     setCurrentUser(null);
   };
 
-  const handleSaveUser = () => {
+  const handleSaveUser = async () => {
     if (!currentUser || !currentUser.name || !currentUser.email) {
       alert('Nome e E-mail são obrigatórios.');
       return;
@@ -42,14 +50,24 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
       addAuditLog(`Editou os dados do usuário ${currentUser.name} (${currentUser.email}).`);
       setToastMessage('Usuário atualizado com sucesso!');
     } else { // Creating new user
+      if (!temporaryPassword) {
+        alert('A senha temporária é obrigatória.');
+        return;
+      }
       const newUser: User = {
         ...currentUser,
-        id: (users.length + 1).toString(), // simple id generation
+        id: `user-${Date.now()}`,
         profilePictureUrl: `https://picsum.photos/seed/${Date.now()}/100`,
-        password: 'changeme' // default password
       } as User;
-      setUsers([...users, newUser]);
-      addAuditLog(`Criou o usuário ${newUser.name} (${newUser.email}).`);
+      setIsSaving(true);
+      try {
+        await onCreateUser(newUser, temporaryPassword);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Não foi possível criar o usuário.');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
       setToastMessage('Usuário criado com sucesso!');
     }
     closeModal();
@@ -66,6 +84,15 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
     }
   };
 
+  const handleUnlockUser = async (user: User) => {
+    try {
+      await onUnlockUser(user);
+      setToastMessage(`Conta de ${user.name} desbloqueada com sucesso!`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Não foi possível desbloquear o usuário.');
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     if (currentUser) {
         setCurrentUser({ ...currentUser, [e.target.name]: e.target.value });
@@ -114,9 +141,14 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{user.name}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{user.email}</td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.role === 'Admin' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
-                      {user.role}
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${user.role === ADMIN_ROLE_ID ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                      {getRoleName(user.role, roles)}
                     </span>
+                    {isAccountLocked(user) && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800" title={`Bloqueado até ${new Date(user.lockedUntil!).toLocaleString('pt-BR')}`}>
+                        Bloqueado
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium flex items-center gap-4">
                     <button onClick={() => openModal(user)} className="text-blue-600 hover:text-blue-900" title="Editar">
@@ -125,6 +157,11 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
                     <button onClick={() => onChangePassword(user)} className="text-gray-600 hover:text-gray-900" title="Alterar Senha">
                         <KeyIcon />
                     </button>
+                    {isAccountLocked(user) && (
+                      <button onClick={() => handleUnlockUser(user)} className="text-yellow-600 hover:text-yellow-900" title="Desbloquear">
+                        <UnlockIcon />
+                      </button>
+                    )}
                     <button onClick={() => handleDeleteUser(user.id)} className="text-red-600 hover:text-red-900" title="Excluir">
                       <TrashIcon />
                     </button>
@@ -150,20 +187,25 @@ const UserManagement: React.FC<UserManagementProps> = ({ users, setUsers, onChan
                 <div>
                     <label htmlFor="role" className="block text-sm font-medium text-gray-700">Perfil</label>
                     <Select id="role" name="role" value={currentUser.role} onChange={handleInputChange} required>
-                        <option value="Admin">Admin</option>
-                        <option value="Operator">Operator</option>
+                        {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
                     </Select>
                 </div>
                 {!currentUser.id && (
-                    <div className="p-3 mt-2 bg-yellow-50 border border-yellow-200 rounded-md">
-                        <p className="text-sm text-yellow-800">
-                            A senha inicial será <strong>'changeme'</strong>. O usuário deverá alterá-la após o primeiro login.
-                        </p>
-                    </div>
+                    <>
+                        <div>
+                            <label htmlFor="temporaryPassword" className="block text-sm font-medium text-gray-700">Senha Temporária</label>
+                            <Input id="temporaryPassword" type="password" value={temporaryPassword} onChange={e => setTemporaryPassword(e.target.value)} autoComplete="new-password" required />
+                        </div>
+                        <div className="p-3 mt-2 bg-yellow-50 border border-yellow-200 rounded-md">
+                            <p className="text-sm text-yellow-800">
+                                Informe a senha temporária ao usuário. Ele deverá criar uma nova senha no primeiro login.
+                            </p>
+                        </div>
+                    </>
                 )}
                 <div className="flex justify-end gap-4 pt-4">
                     <Button onClick={closeModal} className="bg-gray-200 text-gray-800 hover:bg-gray-300">Cancelar</Button>
-                    <Button onClick={handleSaveUser}>Salvar</Button>
+                    <Button onClick={handleSaveUser} disabled={isSaving}>{isSaving ? 'Salvando...' : 'Salvar'}</Button>
                 </div>
             </div>
         )}
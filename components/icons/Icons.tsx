@@ -158,6 +158,18 @@ export const KeyIcon: React.FC = () => (
   </svg>
 );
 
+export const UnlockIcon: React.FC = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
+  </svg>
+);
+
+export const TransferIcon: React.FC = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+  </svg>
+);
+
 export const QrCodeIcon: React.FC = () => (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v1m6 11h-1m-1 6v-1M4 12H3m1-6h1M4 7V6m17 1v1m0 10v1m-1 1h-1m-5-4h2a1 1 0 001-1v-2a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zm-5-5h2a1 1 0 001-1V9a1 1 0 00-1-1H9a1 1 0 00-1 1v2a1 1 0 001 1zm5-5h2a1 1 0 001-1V4a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM9 4h2a1 1 0 001-1V4a1 1 0 00-1-1H9a1 1 0 00-1 1v2a1 1 0 001 1z"></path>
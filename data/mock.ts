@@ -1,17 +1,27 @@
 
-import { Item, Supplier, Category, Location, User, EntryExitRecord, AuditLog, UnitOfMeasurement } from '../types';
+import { Item, Supplier, Category, Location, User, Employee, CostCenter, EntryExitRecord, AuditLog, UnitOfMeasurement } from '../types';
 
 export const mockUsers: User[] = [
-  { id: '1', name: 'Admin', email: 'admin@alumasa.com', role: 'Admin', password: 'admin', profilePictureUrl: 'https://picsum.photos/seed/admin/100' },
-  { id: '2', name: 'Operador', email: 'op@alumasa.com', role: 'Operator', password: 'op', profilePictureUrl: 'https://picsum.photos/seed/operator/100' },
+  { id: '1', name: 'Admin', email: 'admin@alumasa.com', role: 'Admin', profilePictureUrl: 'https://picsum.photos/seed/admin/100' },
+  { id: '2', name: 'Operador', email: 'op@alumasa.com', role: 'Operator', profilePictureUrl: 'https://picsum.photos/seed/operator/100' },
 ];
 
+// Initial passwords of the sample users. They are only used to seed the (hashed)
+// credentials when a new database is created and are never kept on the user records.
+export const mockUserPasswords: Record<string, string> = {
+  '1': 'admin',
+  '2': 'op',
+};
+
 export const mockItems: Item[] = [
-  { id: '1', code: 'PAR-001', description: 'Parafuso Sextavado M8', category: 'Fixadores', location: 'A1-01', unit: 'UN', stockQuantity: 1500, minQuantity: 500, leadTimeDays: 5, avgUnitValue: 0.75, totalValue: 1125, preferredSupplierId: '2' },
-  { id: '2', code: 'CHP-010', description: 'Chapa de Aço 1/4"', category: 'Matéria-prima', location: 'B2-05', unit: 'KG', stockQuantity: 450, minQuantity: 1000, leadTimeDays: 15, avgUnitValue: 8.50, totalValue: 3825, preferredSupplierId: '1' },
-  { id: '3', code: 'TUB-304', description: 'Tubo Inox 2"', category: 'Matéria-prima', location: 'B2-06', unit: 'M', stockQuantity: 120, minQuantity: 50, leadTimeDays: 10, avgUnitValue: 45.20, totalValue: 5424, preferredSupplierId: '1' },
-  { id: '4', code: 'EPI-002', description: 'Luva de Proteção', category: 'EPI', location: 'C3-12', unit: 'PAR', stockQuantity: 80, minQuantity: 100, leadTimeDays: 7, avgUnitValue: 12.00, totalValue: 960, preferredSupplierId: '3' },
-  { id: '5', code: 'SOL-005', description: 'Eletrodo para Solda', category: 'Consumíveis', location: 'A1-02', unit: 'KG', stockQuantity: 25, minQuantity: 20, leadTimeDays: 3, avgUnitValue: 35.00, totalValue: 875, preferredSupplierId: '3' },
+  { id: '1', code: 'PAR-001', description: 'Parafuso Sextavado M8', categoryId: '1', category: 'Fixadores', location: 'A1-01', unitId: '1', unit: 'UN', stockQuantity: 1500, minQuantity: 500, leadTimeDays: 5, avgUnitValue: 0.75, totalValue: 1125, preferredSupplierId: '2' },
+  { id: '2', code: 'CHP-010', description: 'Chapa de Aço 1/4"', categoryId: '2', category: 'Matéria-prima', location: 'B2-05', unitId: '3', unit: 'KG', stockQuantity: 450, minQuantity: 1000, leadTimeDays: 15, avgUnitValue: 8.50, totalValue: 3825, preferredSupplierId: '1' },
+  { id: '3', code: 'TUB-304', description: 'Tubo Inox 2"', categoryId: '2', category: 'Matéria-prima', location: 'B2-06', unitId: '4', unit: 'M', stockQuantity: 120, minQuantity: 50, leadTimeDays: 10, avgUnitValue: 45.20, totalValue: 5424, preferredSupplierId: '1' },
+  { id: '4', code: 'EPI-002', description: 'Luva de Proteção', categoryId: '3', category: 'EPI', location: 'C3-12', unitId: '7', unit: 'PAR', stockQuantity: 80, minQuantity: 100, leadTimeDays: 7, avgUnitValue: 12.00, totalValue: 960, preferredSupplierId: '3', epi: { caNumber: '32033', caExpiryDate: '2027-06-30', replacementDays: 30 } },
+  { id: '5', code: 'SOL-005', description: 'Eletrodo para Solda', categoryId: '4', category: 'Consumíveis', location: 'A1-02', unitId: '3', unit: 'KG', stockQuantity: 25, minQuantity: 20, leadTimeDays: 3, avgUnitValue: 35.00, totalValue: 875, preferredSupplierId: '3', lotTracked: true, lots: [
+    { lot: 'EL2406', manufacturingDate: '2024-06-10', expiryDate: '2026-06-10', quantity: 10 },
+    { lot: 'EL2502', manufacturingDate: '2025-02-20', expiryDate: '2027-02-20', quantity: 15 },
+  ] },
 ];
 
 export const mockSuppliers: Supplier[] = [
@@ -20,6 +30,18 @@ export const mockSuppliers: Supplier[] = [
     { id: '3', name: 'Global Suprimentos Industriais', contactPerson: 'Mariana Costa', email: 'global@suprimentos.com', phone: '(21) 1234-5678' },
 ];
 
+export const mockEmployees: Employee[] = [
+    { id: 'emp-1', name: 'José Almeida', registration: '1021', department: 'Produção', jobTitle: 'Soldador' },
+    { id: 'emp-2', name: 'Marcos Oliveira', registration: '1034', department: 'Produção', jobTitle: 'Serralheiro' },
+    { id: 'emp-3', name: 'Fernanda Lima', registration: '1102', department: 'Manutenção', jobTitle: 'Eletricista' },
+];
+
+export const mockCostCenters: CostCenter[] = [
+    { id: 'cc-1', code: '1010', name: 'Produção', monthlyBudget: 10000 },
+    { id: 'cc-2', code: '1020', name: 'Manutenção', monthlyBudget: 5000 },
+    { id: 'cc-3', code: '2010', name: 'Administrativo' },
+];
+
 export const mockCategories: Category[] = [
     { id: '1', name: 'Fixadores'},
     { id: '2', name: 'Matéria-prima'},
@@ -45,11 +67,18 @@ export const mockUnits: UnitOfMeasurement[] = [
 ];
 
 export const mockLocations: Location[] = [
-    { id: '1', name: 'A1-01' },
-    { id: '2', name: 'B2-05' },
-    { id: '3', name: 'B2-06' },
-    { id: '4', name: 'C3-12' },
-    { id: '5', name: 'A1-02' },
+    { id: 'wh-1', name: 'Almoxarifado Central', level: 'warehouse', status: 'active' },
+    { id: 'ai-a', name: 'Corredor A', level: 'aisle', parentId: 'wh-1', status: 'active' },
+    { id: 'ai-b', name: 'Corredor B', level: 'aisle', parentId: 'wh-1', status: 'active' },
+    { id: 'ai-c', name: 'Corredor C', level: 'aisle', parentId: 'wh-1', status: 'active' },
+    { id: 'sh-a1', name: 'A1', level: 'shelf', parentId: 'ai-a', status: 'active' },
+    { id: 'sh-b2', name: 'B2', level: 'shelf', parentId: 'ai-b', status: 'active' },
+    { id: 'sh-c3', name: 'C3', level: 'shelf', parentId: 'ai-c', status: 'active' },
+    { id: '1', name: 'A1-01', level: 'bin', parentId: 'sh-a1', status: 'active' },
+    { id: '5', name: 'A1-02', level: 'bin', parentId: 'sh-a1', status: 'active' },
+    { id: '2', name: 'B2-05', level: 'bin', parentId: 'sh-b2', status: 'active' },
+    { id: '3', name: 'B2-06', level: 'bin', parentId: 'sh-b2', status: 'active' },
+    { id: '4', name: 'C3-12', level: 'bin', parentId: 'sh-c3', status: 'active' },
 ];
 
 const today = new Date();
@@ -59,6 +88,13 @@ const twoMonthsAgo = new Date();
 twoMonthsAgo.setMonth(today.getMonth() - 2);
 
 export const mockEntryExitHistory: EntryExitRecord[] = [
+    // Opening balances
+    { id: 'h0-1', itemId: '1', type: 'adjustment', quantity: 500, date: new Date(twoMonthsAgo.setDate(1)).toISOString().split('T')[0], userId: '1', userName: 'Admin', observations: 'Saldo inicial' },
+    { id: 'h0-2', itemId: '2', type: 'adjustment', quantity: 100, date: new Date(twoMonthsAgo.setDate(1)).toISOString().split('T')[0], userId: '1', userName: 'Admin', observations: 'Saldo inicial' },
+    { id: 'h0-3', itemId: '3', type: 'adjustment', quantity: 80, date: new Date(twoMonthsAgo.setDate(1)).toISOString().split('T')[0], userId: '1', userName: 'Admin', observations: 'Saldo inicial' },
+    { id: 'h0-4', itemId: '4', type: 'adjustment', quantity: 10, date: new Date(twoMonthsAgo.setDate(1)).toISOString().split('T')[0], userId: '1', userName: 'Admin', observations: 'Saldo inicial' },
+    { id: 'h0-5', itemId: '5', type: 'adjustment', quantity: 5, date: new Date(twoMonthsAgo.setDate(1)).toISOString().split('T')[0], userId: '1', userName: 'Admin', observations: 'Saldo inicial' },
+
     // Two months ago
     { id: 'h1', itemId: '1', type: 'entry', quantity: 1000, date: new Date(twoMonthsAgo.setDate(5)).toISOString().split('T')[0], supplierId: '2' },
     { id: 'h2', itemId: '2', type: 'entry', quantity: 500, date: new Date(twoMonthsAgo.setDate(10)).toISOString().split('T')[0], supplierId: '1' },
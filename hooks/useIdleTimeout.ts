@@ -0,0 +1,74 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+// Activity is reported to the session store at most once per interval.
+const ACTIVITY_REPORT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Tracks user activity and calls `onTimeout` after `timeoutMs` without any. During the
+ * last `warningMs` a warning is flagged; while it is shown, only `stayActive` (an explicit
+ * confirmation) restarts the timer. `onActivity` is throttled and lets the caller keep the
+ * server-side session alive.
+ */
+export const useIdleTimeout = (
+    timeoutMs: number,
+    warningMs: number,
+    onTimeout: () => void,
+    onActivity?: () => void
+) => {
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+    const lastActivityRef = useRef(Date.now());
+    const lastReportRef = useRef(Date.now());
+    const isWarningRef = useRef(false);
+    const onTimeoutRef = useRef(onTimeout);
+    const onActivityRef = useRef(onActivity);
+    onTimeoutRef.current = onTimeout;
+    onActivityRef.current = onActivity;
+
+    const reportActivity = useCallback((force: boolean) => {
+        const now = Date.now();
+        if (force || now - lastReportRef.current >= ACTIVITY_REPORT_INTERVAL_MS) {
+            lastReportRef.current = now;
+            onActivityRef.current?.();
+        }
+    }, []);
+
+    useEffect(() => {
+        lastActivityRef.current = Date.now();
+        let hasTimedOut = false;
+
+        const handleActivity = () => {
+            if (isWarningRef.current) return;
+            lastActivityRef.current = Date.now();
+            reportActivity(false);
+        };
+
+        const interval = window.setInterval(() => {
+            const remaining = timeoutMs - (Date.now() - lastActivityRef.current);
+            if (remaining <= 0) {
+                if (!hasTimedOut) {
+                    hasTimedOut = true;
+                    onTimeoutRef.current();
+                }
+                return;
+            }
+            isWarningRef.current = remaining <= warningMs;
+            setSecondsLeft(isWarningRef.current ? Math.ceil(remaining / 1000) : null);
+        }, 1000);
+
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+        return () => {
+            window.clearInterval(interval);
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+        };
+    }, [timeoutMs, warningMs, reportActivity]);
+
+    const stayActive = useCallback(() => {
+        lastActivityRef.current = Date.now();
+        isWarningRef.current = false;
+        setSecondsLeft(null);
+        reportActivity(true);
+    }, [reportActivity]);
+
+    return { isWarningVisible: secondsLeft !== null, secondsLeft: secondsLeft ?? 0, stayActive };
+};
@@ -0,0 +1,4 @@
+export { parseLocation, buildPath, withQuery } from './routes';
+export type { Route } from './routes';
+export { useRoute } from './useRoute';
+export type { Navigate } from './useRoute';
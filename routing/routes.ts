@@ -0,0 +1,82 @@
+import { Page } from '../types';
+
+export interface Route {
+    page: Page;
+    // Values captured by the path pattern, e.g. the item code in /itens/:code.
+    params: Record<string, string>;
+    query: Record<string, string>;
+}
+
+// Path of each page; ":name" captures a segment. The first pattern of a page whose
+// parameters are all given is used when building links.
+const ROUTES: { page: Page; path: string }[] = [
+    { page: 'dashboard', path: '/' },
+    { page: 'stock', path: '/estoque' },
+    { page: 'item', path: '/itens/:code' },
+    { page: 'new-entry', path: '/entradas/nova' },
+    { page: 'new-exit', path: '/saidas/nova' },
+    { page: 'requisitions', path: '/requisicoes' },
+    { page: 'approvals', path: '/aprovacoes' },
+    { page: 'purchase-orders', path: '/pedidos-de-compra' },
+    { page: 'loans', path: '/emprestimos' },
+    { page: 'reports', path: '/relatorios/:report' },
+    { page: 'reports', path: '/relatorios' },
+    { page: 'inventory', path: '/inventario' },
+    { page: 'locations', path: '/localizacoes' },
+    { page: 'categories', path: '/categorias' },
+    { page: 'units', path: '/unidades' },
+    { page: 'users', path: '/usuarios' },
+    { page: 'roles', path: '/perfis' },
+    { page: 'suppliers', path: '/fornecedores' },
+    { page: 'employees', path: '/colaboradores' },
+    { page: 'cost-centers', path: '/centros-de-custo' },
+    { page: 'periods', path: '/fechamento' },
+    { page: 'backup', path: '/backup' },
+    { page: 'audit', path: '/auditoria' },
+];
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+    const patternSegments = splitPath(pattern);
+    const pathSegments = splitPath(pathname);
+    if (patternSegments.length !== pathSegments.length) return null;
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternSegments.length; i++) {
+        const segment = patternSegments[i];
+        if (segment.startsWith(':')) {
+            params[segment.slice(1)] = decodeURIComponent(pathSegments[i]);
+        } else if (segment !== pathSegments[i]) {
+            return null;
+        }
+    }
+    return params;
+};
+
+// Unknown paths fall back to the dashboard.
+export const parseLocation = (location: { pathname: string; search: string }): Route => {
+    const query = Object.fromEntries(new URLSearchParams(location.search));
+    for (const route of ROUTES) {
+        const params = matchPath(route.path, location.pathname);
+        if (params) return { page: route.page, params, query };
+    }
+    return { page: 'dashboard', params: {}, query };
+};
+
+// Empty query values are left out, so clearing a filter also removes it from the URL.
+export const buildPath = (page: Page, params: Record<string, string> = {}, query: Record<string, string | undefined> = {}): string => {
+    const route = ROUTES.find(r => r.page === page && splitPath(r.path).every(segment => !segment.startsWith(':') || params[segment.slice(1)]))
+        ?? ROUTES[0];
+    const path = '/' + splitPath(route.path)
+        .map(segment => segment.startsWith(':') ? encodeURIComponent(params[segment.slice(1)]) : segment)
+        .join('/');
+    const search = new URLSearchParams(
+        Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+    ).toString();
+    return search ? `${path}?${search}` : path;
+};
+
+// Path of the given route with some query values replaced.
+export const withQuery = (route: Route, changes: Record<string, string | undefined>) =>
+    buildPath(route.page, route.params, { ...route.query, ...changes });
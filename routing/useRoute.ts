@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Route, parseLocation } from './routes';
+
+export type Navigate = (path: string, options?: { replace?: boolean }) => void;
+
+// Keeps the current route in sync with the browser URL. Navigation pushes a history
+// entry, so the back and forward buttons move between pages of the app.
+export const useRoute = (): { route: Route; navigate: Navigate } => {
+    const [route, setRoute] = useState<Route>(() => parseLocation(window.location));
+
+    useEffect(() => {
+        const handlePopState = () => setRoute(parseLocation(window.location));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback<Navigate>((path, options) => {
+        if (path === window.location.pathname + window.location.search) return;
+        if (options?.replace) {
+            window.history.replaceState(null, '', path);
+        } else {
+            window.history.pushState(null, '', path);
+        }
+        setRoute(parseLocation(window.location));
+    }, []);
+
+    return { route, navigate };
+};
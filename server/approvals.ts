@@ -0,0 +1,64 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Location, Employee, ApprovalRule, ExitApproval, NewMovement, AuditLog } from '../types';
+import { getApprovalReasons, getUnapprovedExitError, buildExitApproval, decideExitApproval, describeExitDecision, ApprovalError } from '../utils/approvals';
+import { applyMovements } from '../utils/movements';
+import { getDeliveryEmployeeError } from '../utils/epi';
+import { transaction, findAll, findById, upsert } from './db';
+import { HttpError } from './http';
+import { Actor, MovementResult, generateId, commitMovements } from './stock';
+import { recordAuditLog } from './audit';
+
+export type ApprovalResult = MovementResult & { approval: ExitApproval; auditLog: AuditLog };
+export type RejectionResult = { approval: ExitApproval; auditLog: AuditLog };
+
+const reasonsFor = (db: DatabaseSync, item: Item, movement: NewMovement) => getApprovalReasons(item, movement, findAll<ApprovalRule>(db, 'approval_rules'));
+
+// Exits matching an approval rule cannot be registered directly, or through a requisition,
+// by users who cannot approve them.
+export const ensureExitsDoNotNeedApproval = (db: DatabaseSync, movements: NewMovement[]) => {
+    const items = movements.map(movement => findById<Item>(db, 'items', movement.itemId)).filter((item): item is Item => item !== undefined);
+    const error = getUnapprovedExitError(movements, items, findAll<ApprovalRule>(db, 'approval_rules'));
+    if (error) throw new ApprovalError(error);
+};
+
+// The exit is checked against the current stock now, so requests that could never be
+// applied are refused up front; it is checked again on approval.
+export const requestExitApproval = (db: DatabaseSync, movement: NewMovement, actor: Actor): ExitApproval => {
+    if (movement?.type !== 'exit' || !movement.itemId) throw new HttpError(400, 'Informe a saída a aprovar.');
+    const item = findById<Item>(db, 'items', movement.itemId);
+    if (!item) throw new HttpError(404, 'Item não encontrado.');
+    const reasons = reasonsFor(db, item, movement);
+    if (reasons.length === 0) throw new HttpError(400, 'Esta saída não precisa de aprovação.');
+    applyMovements([item], [movement], findAll<Location>(db, 'locations'));
+    const employeeError = movement.employeeId ? getDeliveryEmployeeError(findById<Employee>(db, 'employees', movement.employeeId)) : null;
+    if (employeeError) throw new HttpError(400, employeeError);
+    return upsert(db, 'exit_approvals', buildExitApproval(movement, reasons, actor, generateId('apr')));
+};
+
+const loadApproval = (db: DatabaseSync, id: string): ExitApproval => {
+    const approval = findById<ExitApproval>(db, 'exit_approvals', id);
+    if (!approval) throw new HttpError(404, 'Solicitação de aprovação não encontrada.');
+    return approval;
+};
+
+// The exit is registered in the name of the operator who requested it; the approver is
+// kept on the approval and recorded in the audit log, in the same transaction.
+export const approveExit = (db: DatabaseSync, id: string, notes: string | undefined, actor: Actor): ApprovalResult => {
+    return transaction(db, () => {
+        const approval = decideExitApproval(loadApproval(db, id), true, notes, actor);
+        const result = commitMovements(db, [approval.movement], { id: approval.requestedById, name: approval.requestedByName });
+        const approved = { ...approval, recordId: result.records[0]?.id };
+        upsert(db, 'exit_approvals', approved);
+        const auditLog = recordAuditLog(db, actor, describeExitDecision(approved, findById<Item>(db, 'items', approved.movement.itemId)));
+        return { ...result, approval: approved, auditLog };
+    });
+};
+
+export const rejectExit = (db: DatabaseSync, id: string, notes: string | undefined, actor: Actor): RejectionResult => {
+    return transaction(db, () => {
+        const rejected = decideExitApproval(loadApproval(db, id), false, notes, actor);
+        upsert(db, 'exit_approvals', rejected);
+        const auditLog = recordAuditLog(db, actor, describeExitDecision(rejected, findById<Item>(db, 'items', rejected.movement.itemId)));
+        return { approval: rejected, auditLog };
+    });
+};
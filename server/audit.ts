@@ -0,0 +1,15 @@
+import { DatabaseSync } from 'node:sqlite';
+import { AuditLog, AuditEventType } from '../types';
+import { upsert } from './db';
+import { generateId, Actor } from './stock';
+
+export const recordAuditLog = (db: DatabaseSync, actor: Actor, action: string, eventType?: AuditEventType): AuditLog => {
+    return upsert<AuditLog>(db, 'audit_logs', {
+        id: generateId('log'),
+        timestamp: new Date().toISOString(),
+        userId: actor.id,
+        userName: actor.name,
+        action,
+        eventType,
+    });
+};
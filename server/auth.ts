@@ -0,0 +1,220 @@
+import { DatabaseSync } from 'node:sqlite';
+import { createHash, randomBytes } from 'node:crypto';
+import { User } from '../types';
+import { SESSION_TTL_MS, AuthResult } from '../auth/authService';
+import { validatePassword, getPasswordReuseMessage, isAccountLocked, getLockoutMessage, registerFailedLogin } from '../auth/securityPolicy';
+import { transaction, findAll, findById, upsert } from './db';
+import { hashPassword, verifyPassword } from './passwords';
+import { recordAuditLog } from './audit';
+import { HttpError } from './http';
+import { loadSecuritySettings } from './securitySettings';
+
+export const securitySettings = loadSecuritySettings();
+
+export interface Session {
+    token: string;
+    user: User;
+    expiresAt: string;
+}
+
+type CredentialRow = {
+    password_hash: string;
+    failed_attempts: number;
+    password_history: string;
+};
+
+// Only a SHA-256 of the token is stored, so a leaked database cannot be used to hijack sessions.
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const findUserByEmail = (db: DatabaseSync, email: string): User | undefined => {
+    const normalized = email.trim().toLowerCase();
+    return findAll<User>(db, 'users').find(user => user.email.toLowerCase() === normalized);
+};
+
+const getCredential = (db: DatabaseSync, userId: string): CredentialRow | undefined => {
+    return db.prepare('SELECT password_hash, failed_attempts, password_history FROM credentials WHERE user_id = ?').get(userId) as CredentialRow | undefined;
+};
+
+// Validates the password against the policy and the recent history before storing its hash.
+const setPassword = (db: DatabaseSync, userId: string, password: unknown) => {
+    if (typeof password !== 'string' || password.length === 0) {
+        throw new HttpError(400, 'A senha é obrigatória.');
+    }
+    const policyError = validatePassword(password, securitySettings);
+    if (policyError) throw new HttpError(400, policyError);
+
+    const history: string[] = JSON.parse(getCredential(db, userId)?.password_history ?? '[]');
+    if (history.slice(0, securitySettings.passwordHistorySize).some(hash => verifyPassword(password, hash))) {
+        throw new HttpError(400, getPasswordReuseMessage(securitySettings));
+    }
+
+    const passwordHash = hashPassword(password);
+    const newHistory = [passwordHash, ...history].slice(0, securitySettings.passwordHistorySize);
+    db.prepare(`INSERT INTO credentials (user_id, password_hash, failed_attempts, password_history) VALUES (?, ?, 0, ?)
+        ON CONFLICT(user_id) DO UPDATE SET password_hash = excluded.password_hash, failed_attempts = 0, password_history = excluded.password_history`)
+        .run(userId, passwordHash, JSON.stringify(newHistory));
+};
+
+const setFailedAttempts = (db: DatabaseSync, userId: string, failedAttempts: number) => {
+    db.prepare('UPDATE credentials SET failed_attempts = ? WHERE user_id = ?').run(failedAttempts, userId);
+};
+
+const deleteUserSessions = (db: DatabaseSync, userId: string) => {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+};
+
+export const login = (db: DatabaseSync, email: string, password: string): Session => {
+    const now = new Date();
+    let user = findUserByEmail(db, String(email ?? ''));
+    const credential = user && getCredential(db, user.id);
+    if (!user || !credential) {
+        throw new HttpError(401, 'E-mail ou senha inválidos.');
+    }
+
+    if (isAccountLocked(user, now)) {
+        throw new HttpError(423, getLockoutMessage(user, now));
+    }
+    if (user.lockedUntil) {
+        const { lockedUntil, ...unlocked } = user;
+        user = transaction(db, () => {
+            setFailedAttempts(db, unlocked.id, 0);
+            recordAuditLog(db, unlocked, 'Conta desbloqueada após o fim do período de bloqueio.', 'account_unlocked');
+            return upsert<User>(db, 'users', unlocked);
+        });
+        credential.failed_attempts = 0;
+    }
+
+    const account = user;
+    if (!verifyPassword(String(password ?? ''), credential.password_hash)) {
+        const failure = registerFailedLogin(credential.failed_attempts, securitySettings, now);
+        transaction(db, () => {
+            setFailedAttempts(db, account.id, failure.failedAttempts);
+            if (failure.lockedUntil) {
+                upsert<User>(db, 'users', { ...account, lockedUntil: failure.lockedUntil });
+                deleteUserSessions(db, account.id);
+                recordAuditLog(db, account, `Conta bloqueada após ${securitySettings.maxFailedLogins} tentativas de login inválidas.`, 'account_locked');
+            }
+        });
+        if (failure.lockedUntil) {
+            throw new HttpError(423, getLockoutMessage({ lockedUntil: failure.lockedUntil }, now));
+        }
+        throw new HttpError(401, 'E-mail ou senha inválidos.');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+    transaction(db, () => {
+        setFailedAttempts(db, account.id, 0);
+        db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now.toISOString());
+        db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at, last_seen_at) VALUES (?, ?, ?, ?)')
+            .run(hashToken(token), account.id, expiresAt, now.toISOString());
+        recordAuditLog(db, account, 'Fez login no sistema.', 'login');
+    });
+    return { token, user: account, expiresAt };
+};
+
+// Resolves the "Authorization: Bearer <token>" header to a live session and records the
+// activity. Sessions idle for longer than the configured timeout are ended.
+export const authenticate = (db: DatabaseSync, authorization: string | undefined): Session => {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+    if (!token) throw new HttpError(401, 'Sessão não informada. Faça login novamente.');
+
+    const tokenHash = hashToken(token);
+    const row = db.prepare('SELECT user_id, expires_at, last_seen_at FROM sessions WHERE token_hash = ?').get(tokenHash) as
+        { user_id: string; expires_at: string; last_seen_at: string } | undefined;
+    const now = new Date();
+    if (!row || row.expires_at <= now.toISOString()) {
+        throw new HttpError(401, 'Sessão expirada. Faça login novamente.');
+    }
+    const user = findById<User>(db, 'users', row.user_id);
+    if (!user) throw new HttpError(401, 'Sessão inválida. Faça login novamente.');
+
+    const idleMs = now.getTime() - new Date(row.last_seen_at).getTime();
+    if (idleMs > securitySettings.idleTimeoutMinutes * 60000) {
+        transaction(db, () => {
+            db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+            recordAuditLog(db, user, 'Sessão encerrada por inatividade.', 'session_timeout');
+        });
+        throw new HttpError(401, 'Sessão encerrada por inatividade. Faça login novamente.');
+    }
+
+    db.prepare('UPDATE sessions SET last_seen_at = ? WHERE token_hash = ?').run(now.toISOString(), tokenHash);
+    return { token, user, expiresAt: row.expires_at };
+};
+
+export const logout = (db: DatabaseSync, session: Session, reason?: 'timeout') => {
+    transaction(db, () => {
+        db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(session.token));
+        if (reason === 'timeout') {
+            recordAuditLog(db, session.user, 'Sessão encerrada por inatividade.', 'session_timeout');
+        } else {
+            recordAuditLog(db, session.user, 'Fez logout do sistema.', 'logout');
+        }
+    });
+};
+
+export const changeOwnPassword = (db: DatabaseSync, session: Session, currentPassword: string, newPassword: string): AuthResult => {
+    const credential = getCredential(db, session.user.id);
+    if (!credential || !verifyPassword(String(currentPassword ?? ''), credential.password_hash)) {
+        throw new HttpError(400, 'A senha atual está incorreta.');
+    }
+
+    return transaction(db, () => {
+        setPassword(db, session.user.id, newPassword);
+        // Other sessions of the same user are ended; the current one stays valid.
+        db.prepare('DELETE FROM sessions WHERE user_id = ? AND token_hash <> ?').run(session.user.id, hashToken(session.token));
+        const user = upsert<User>(db, 'users', { ...session.user, mustChangePassword: false });
+        return { user, auditLog: recordAuditLog(db, user, 'Alterou a própria senha.', 'password_changed') };
+    });
+};
+
+// An administrator assigns a temporary password; the user must replace it on the next login.
+// This also lifts a lockout, since the administrator has identified the user.
+export const resetPassword = (db: DatabaseSync, actor: User, userId: string, temporaryPassword: string): AuthResult => {
+    const target = findById<User>(db, 'users', userId);
+    if (!target) throw new HttpError(404, 'Usuário não encontrado.');
+
+    return transaction(db, () => {
+        setPassword(db, target.id, temporaryPassword);
+        deleteUserSessions(db, target.id);
+        const { lockedUntil, ...fields } = target;
+        const user = upsert<User>(db, 'users', { ...fields, mustChangePassword: true });
+        return { user, auditLog: recordAuditLog(db, actor, `Definiu uma senha temporária para o usuário ${user.name}.`, 'password_reset') };
+    });
+};
+
+export const unlockUser = (db: DatabaseSync, actor: User, userId: string): AuthResult => {
+    const target = findById<User>(db, 'users', userId);
+    if (!target) throw new HttpError(404, 'Usuário não encontrado.');
+
+    return transaction(db, () => {
+        setFailedAttempts(db, target.id, 0);
+        const { lockedUntil, ...fields } = target;
+        const user = upsert<User>(db, 'users', fields);
+        return { user, auditLog: recordAuditLog(db, actor, `Desbloqueou a conta do usuário ${user.name}.`, 'account_unlocked') };
+    });
+};
+
+export const createUser = (db: DatabaseSync, actor: User, incoming: User & { password?: unknown }, temporaryPassword: string): AuthResult => {
+    const { password: _ignored, ...newUser } = (incoming ?? {}) as User & { password?: unknown };
+    if (!newUser.id || !newUser.name || !newUser.email) {
+        throw new HttpError(400, 'Nome e e-mail são obrigatórios.');
+    }
+    if (findById<User>(db, 'users', newUser.id)) {
+        throw new HttpError(409, 'Já existe um usuário com este id.');
+    }
+    if (findUserByEmail(db, newUser.email)) {
+        throw new HttpError(409, 'Já existe um usuário com este e-mail.');
+    }
+
+    return transaction(db, () => {
+        setPassword(db, newUser.id, temporaryPassword);
+        const user = upsert<User>(db, 'users', { ...newUser, mustChangePassword: true });
+        return { user, auditLog: recordAuditLog(db, actor, `Criou o usuário ${user.name} (${user.email}).`, 'user_created') };
+    });
+};
+
+export const deleteCredentials = (db: DatabaseSync, userId: string) => {
+    db.prepare('DELETE FROM credentials WHERE user_id = ?').run(userId);
+    deleteUserSessions(db, userId);
+};
@@ -0,0 +1,62 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Category, UnitOfMeasurement } from '../types';
+import { getCategoryValidationError, getUnitValidationError, refreshCatalogNames, moveItemsToCategory, moveItemsToUnit } from '../utils/catalog';
+import { transaction, findAll, findById, upsert, remove } from './db';
+import { HttpError } from './http';
+
+export interface CatalogResult<T> {
+    record: T;
+    // Items whose category or unit changed with the operation.
+    items: Item[];
+}
+
+// Saves a category and refreshes the name copied onto its items in the same transaction.
+export const saveCategory = (db: DatabaseSync, incoming: Category): CatalogResult<Category> => {
+    const error = getCategoryValidationError(incoming, findAll<Category>(db, 'categories'));
+    if (error) throw new HttpError(400, error);
+    return transaction(db, () => {
+        const record = upsert(db, 'categories', { ...incoming, name: incoming.name.trim() });
+        const items = refreshCatalogNames(findAll<Item>(db, 'items'), [record], []);
+        items.forEach(item => upsert(db, 'items', item));
+        return { record, items };
+    });
+};
+
+export const saveUnit = (db: DatabaseSync, incoming: UnitOfMeasurement): CatalogResult<UnitOfMeasurement> => {
+    const error = getUnitValidationError(incoming, findAll<UnitOfMeasurement>(db, 'units'));
+    if (error) throw new HttpError(400, error);
+    return transaction(db, () => {
+        const record = upsert(db, 'units', { ...incoming, name: incoming.name.trim(), abbreviation: incoming.abbreviation.trim() });
+        const items = refreshCatalogNames(findAll<Item>(db, 'items'), [], [record]);
+        items.forEach(item => upsert(db, 'items', item));
+        return { record, items };
+    });
+};
+
+const findMergeTarget = <T extends { id: string }>(db: DatabaseSync, table: 'categories' | 'units', sourceId: string, targetId: unknown): T => {
+    if (!findById<T>(db, table, sourceId)) throw new HttpError(404, 'Registro não encontrado.');
+    const target = typeof targetId === 'string' && targetId !== sourceId ? findById<T>(db, table, targetId) : undefined;
+    if (!target) throw new HttpError(400, 'Informe um destino diferente da origem para a mesclagem.');
+    return target;
+};
+
+// Moves every item of the source category to the target and removes the source.
+export const mergeCategory = (db: DatabaseSync, sourceId: string, targetId: unknown): CatalogResult<Category> => {
+    return transaction(db, () => {
+        const target = findMergeTarget<Category>(db, 'categories', sourceId, targetId);
+        const items = moveItemsToCategory(findAll<Item>(db, 'items'), sourceId, target);
+        items.forEach(item => upsert(db, 'items', item));
+        remove(db, 'categories', sourceId);
+        return { record: target, items };
+    });
+};
+
+export const mergeUnit = (db: DatabaseSync, sourceId: string, targetId: unknown): CatalogResult<UnitOfMeasurement> => {
+    return transaction(db, () => {
+        const target = findMergeTarget<UnitOfMeasurement>(db, 'units', sourceId, targetId);
+        const items = moveItemsToUnit(findAll<Item>(db, 'items'), sourceId, target);
+        items.forEach(item => upsert(db, 'items', item));
+        remove(db, 'units', sourceId);
+        return { record: target, items };
+    });
+};
@@ -0,0 +1,236 @@
+import { DatabaseSync } from 'node:sqlite';
+import fs from 'node:fs';
+import path from 'node:path';
+import { User, Role, Item, Category, UnitOfMeasurement } from '../types';
+import { mockUsers, mockUserPasswords, mockItems, mockEntryExitHistory, mockAuditLogs, mockSuppliers, mockCategories, mockUnits, mockLocations, mockEmployees, mockCostCenters } from '../data/mock';
+import { DEFAULT_ROLES } from '../auth/permissions';
+import { linkItemsToCatalog } from '../utils/catalog';
+import { hashPassword } from './passwords';
+
+// Every entity is stored as a JSON document keyed by id, mirroring the browser repositories.
+// Credentials and sessions live in their own tables and are never exposed as resources.
+export type TableName = 'items' | 'users' | 'suppliers' | 'categories' | 'units' | 'movements' | 'audit_logs' | 'inventory_sessions' | 'roles' | 'locations' | 'tool_loans' | 'employees' | 'requisitions' | 'approval_rules' | 'exit_approvals' | 'cost_centers' | 'purchase_orders' | 'period_closings';
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (db: DatabaseSync) => void;
+}
+
+const createDocumentTable = (db: DatabaseSync, table: TableName) => {
+    db.exec(`CREATE TABLE ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+};
+
+const seedTable = (db: DatabaseSync, table: TableName, records: { id: string }[]) => {
+    const insert = db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?)`);
+    records.forEach(record => insert.run(record.id, JSON.stringify(record)));
+};
+
+// Schema migrations, applied in order. Never edit a released migration:
+// append a new one with the next version number instead.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Cria as tabelas iniciais e carrega os dados de exemplo',
+        migrate: (db) => {
+            const tables: TableName[] = ['items', 'users', 'suppliers', 'categories', 'units', 'movements', 'audit_logs', 'inventory_sessions'];
+            tables.forEach(table => createDocumentTable(db, table));
+            db.exec(`CREATE INDEX movements_item_id ON movements (json_extract(data, '$.itemId'))`);
+
+            seedTable(db, 'items', mockItems);
+            seedTable(db, 'users', mockUsers);
+            seedTable(db, 'suppliers', mockSuppliers);
+            seedTable(db, 'categories', mockCategories);
+            seedTable(db, 'units', mockUnits);
+            seedTable(db, 'movements', mockEntryExitHistory);
+            seedTable(db, 'audit_logs', mockAuditLogs);
+        },
+    },
+    {
+        version: 2,
+        description: 'Move as senhas dos usuários para credenciais com hash e cria as sessões',
+        migrate: (db) => {
+            db.exec('CREATE TABLE credentials (user_id TEXT PRIMARY KEY, password_hash TEXT NOT NULL)');
+            db.exec('CREATE TABLE sessions (token_hash TEXT PRIMARY KEY, user_id TEXT NOT NULL, expires_at TEXT NOT NULL)');
+            db.exec('CREATE INDEX sessions_user_id ON sessions (user_id)');
+
+            const insertCredential = db.prepare('INSERT INTO credentials (user_id, password_hash) VALUES (?, ?)');
+            findAll<User & { password?: string }>(db, 'users').forEach(({ password, ...user }) => {
+                const initialPassword = password ?? mockUserPasswords[user.id];
+                if (initialPassword) {
+                    insertCredential.run(user.id, hashPassword(initialPassword));
+                }
+                // 'changeme' was the shared default password of accounts created by an administrator.
+                upsert(db, 'users', { ...user, mustChangePassword: !initialPassword || password === 'changeme' });
+            });
+        },
+    },
+    {
+        version: 3,
+        description: 'Adiciona bloqueio por tentativas, histórico de senhas e tempo de inatividade das sessões',
+        migrate: (db) => {
+            db.exec('ALTER TABLE credentials ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0');
+            // JSON array with the hashes of the most recent passwords, current one first.
+            db.exec("ALTER TABLE credentials ADD COLUMN password_history TEXT NOT NULL DEFAULT '[]'");
+            db.exec('UPDATE credentials SET password_history = json_array(password_hash)');
+            db.exec('ALTER TABLE sessions ADD COLUMN last_seen_at TEXT');
+            db.prepare('UPDATE sessions SET last_seen_at = ?').run(new Date().toISOString());
+        },
+    },
+    {
+        version: 4,
+        description: 'Adiciona os perfis de acesso com permissões',
+        migrate: (db) => {
+            createDocumentTable(db, 'roles');
+            seedTable(db, 'roles', DEFAULT_ROLES);
+        },
+    },
+    {
+        version: 5,
+        description: 'Permite transferências entre localizações aos perfis que registram saídas',
+        migrate: (db) => {
+            findAll<Role>(db, 'roles')
+                .filter(role => role.permissions.includes('movement.exit') && !role.permissions.includes('movement.transfer'))
+                .forEach(role => upsert(db, 'roles', { ...role, permissions: [...role.permissions, 'movement.transfer'] }));
+        },
+    },
+    {
+        version: 6,
+        description: 'Adiciona o cadastro de localizações',
+        migrate: (db) => {
+            createDocumentTable(db, 'locations');
+            seedTable(db, 'locations', mockLocations);
+        },
+    },
+    {
+        version: 7,
+        description: 'Vincula os itens às categorias e unidades pelo id',
+        migrate: (db) => {
+            const categories = findAll<Category>(db, 'categories');
+            const units = findAll<UnitOfMeasurement>(db, 'units');
+            const linked = linkItemsToCatalog(findAll<Item>(db, 'items'), categories, units);
+            linked.items.forEach(item => upsert(db, 'items', item));
+            seedTable(db, 'categories', linked.categories.slice(categories.length));
+            seedTable(db, 'units', linked.units.slice(units.length));
+        },
+    },
+    {
+        version: 8,
+        description: 'Adiciona o empréstimo de ferramentas',
+        migrate: (db) => {
+            createDocumentTable(db, 'tool_loans');
+            findAll<Role>(db, 'roles')
+                .filter(role => role.permissions.includes('movement.exit') && !role.permissions.includes('loan.manage'))
+                .forEach(role => upsert(db, 'roles', { ...role, permissions: [...role.permissions, 'loan.manage'] }));
+        },
+    },
+    {
+        version: 9,
+        description: 'Adiciona o cadastro de colaboradores para a entrega de EPI',
+        migrate: (db) => {
+            createDocumentTable(db, 'employees');
+            seedTable(db, 'employees', mockEmployees);
+            findAll<Role>(db, 'roles')
+                .filter(role => role.permissions.includes('movement.exit') && !role.permissions.includes('employee.manage'))
+                .forEach(role => upsert(db, 'roles', { ...role, permissions: [...role.permissions, 'employee.manage'] }));
+        },
+    },
+    {
+        version: 10,
+        description: 'Adiciona as requisições de material',
+        migrate: (db) => {
+            createDocumentTable(db, 'requisitions');
+            findAll<Role>(db, 'roles')
+                .filter(role => role.permissions.includes('movement.exit') && !role.permissions.includes('requisition.create'))
+                .forEach(role => upsert(db, 'roles', { ...role, permissions: [...role.permissions, 'requisition.create'] }));
+        },
+    },
+    {
+        version: 11,
+        description: 'Adiciona as regras de aprovação de saídas',
+        migrate: (db) => {
+            createDocumentTable(db, 'approval_rules');
+            createDocumentTable(db, 'exit_approvals');
+        },
+    },
+    {
+        version: 12,
+        description: 'Adiciona o cadastro de centros de custo',
+        migrate: (db) => {
+            createDocumentTable(db, 'cost_centers');
+            seedTable(db, 'cost_centers', mockCostCenters);
+        },
+    },
+    {
+        version: 13,
+        description: 'Adiciona os pedidos de compra',
+        migrate: (db) => {
+            createDocumentTable(db, 'purchase_orders');
+        },
+    },
+    {
+        version: 14,
+        description: 'Adiciona o fechamento de períodos de estoque',
+        migrate: (db) => {
+            createDocumentTable(db, 'period_closings');
+        },
+    },
+];
+
+export const openDatabase = (file: string): DatabaseSync => {
+    if (file !== ':memory:') {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    const db = new DatabaseSync(file);
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, description TEXT NOT NULL, applied_at TEXT NOT NULL)');
+
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    const currentVersion = row.version ?? 0;
+
+    MIGRATIONS
+        .filter(migration => migration.version > currentVersion)
+        .forEach(migration => {
+            transaction(db, () => {
+                migration.migrate(db);
+                db.prepare('INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)')
+                    .run(migration.version, migration.description, new Date().toISOString());
+            });
+        });
+
+    return db;
+};
+
+// Runs the callback inside an immediate transaction, rolling back if it throws.
+export const transaction = <T>(db: DatabaseSync, callback: () => T): T => {
+    db.exec('BEGIN IMMEDIATE');
+    try {
+        const result = callback();
+        db.exec('COMMIT');
+        return result;
+    } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+    }
+};
+
+export const findAll = <T>(db: DatabaseSync, table: TableName): T[] => {
+    const rows = db.prepare(`SELECT data FROM ${table}`).all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as T);
+};
+
+export const findById = <T>(db: DatabaseSync, table: TableName, id: string): T | undefined => {
+    const row = db.prepare(`SELECT data FROM ${table} WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) as T : undefined;
+};
+
+export const upsert = <T extends { id: string }>(db: DatabaseSync, table: TableName, record: T): T => {
+    db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`)
+        .run(record.id, JSON.stringify(record));
+    return record;
+};
+
+export const remove = (db: DatabaseSync, table: TableName, id: string): boolean => {
+    const result = db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+    return Number(result.changes) > 0;
+};
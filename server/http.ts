@@ -0,0 +1,57 @@
+import http from 'node:http';
+
+export class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+// Request bodies are JSON objects; their fields are checked where they are used.
+export type JsonBody = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonBody => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+
+// Reads the body as a JSON object. Endpoints that take a whole record name its type; the
+// operations they call validate its fields.
+export const readJsonBody = async <T extends object = JsonBody>(req: http.IncomingMessage): Promise<T> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+    if (chunks.length === 0) return {} as T;
+    let body: unknown;
+    try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+        throw new HttpError(400, 'Corpo da requisição não é um JSON válido.');
+    }
+    if (!isJsonObject(body)) {
+        throw new HttpError(400, 'O corpo da requisição deve ser um objeto JSON.');
+    }
+    return body as T;
+};
+
+// Text field of a request body; anything else reads as an empty text, which the
+// operations reject as missing.
+export const getText = (body: JsonBody, field: string): string => {
+    const value = body[field];
+    return typeof value === 'string' ? value : '';
+};
+
+// Object field of a request body, or undefined if it is not one.
+export const getObject = <T>(body: JsonBody, field: string): T | undefined => {
+    const value = body[field];
+    return isJsonObject(value) ? value as T : undefined;
+};
+
+// List field of a request body whose entries are JSON objects, or undefined if it is not one.
+export const getObjectList = <T>(body: JsonBody, field: string): T[] | undefined => {
+    const value = body[field];
+    if (!Array.isArray(value) || !value.every(isJsonObject)) return undefined;
+    return value as T[];
+};
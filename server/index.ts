@@ -0,0 +1,531 @@
+import http from 'node:http';
+import path from 'node:path';
+import { Item, User, Role, Location, Category, UnitOfMeasurement, Employee, CostCenter, ApprovalRule, EntryExitRecord, PeriodClosing, Permission, NewMovement, MovementType, NewToolLoan, ToolLoanReturn, NewRequisition, RequisitionFulfilment, NewPurchaseOrder, PurchaseOrderReceipt, InvoiceImport } from '../types';
+import { MovementError, withoutStock, buildOpeningBalances } from '../utils/movements';
+import { LoanError } from '../utils/loans';
+import { RequisitionError } from '../utils/requisitions';
+import { ApprovalError, getApprovalRuleError } from '../utils/approvals';
+import { PurchaseOrderError } from '../utils/purchaseOrders';
+import { NfeError } from '../utils/nfe';
+import { ReversalError, withoutLinkFields } from '../utils/reversals';
+import { getPeriodClosingError, getPeriodReopeningError, buildPeriodClosing } from '../utils/periods';
+import { hasPermission, PERMISSIONS } from '../auth/permissions';
+import { getLocationBalances, getItemLocationError, getLocationValidationError, getLocationRemovalError } from '../utils/locations';
+import { getItemCatalogError, getCategoryRemovalError, getUnitRemovalError, refreshCatalogNames } from '../utils/catalog';
+import { getUnitConversionsError } from '../utils/units';
+import { getEpiCertificateError, getEmployeeValidationError, getEmployeeRemovalError } from '../utils/epi';
+import { getCostCenterValidationError, getCostCenterRemovalError } from '../utils/costCenters';
+import { openDatabase, findAll, findById, upsert, remove, transaction, TableName } from './db';
+import { registerMovements, registerInventorySession, createItems } from './stock';
+import { saveCategory, saveUnit, mergeCategory, mergeUnit } from './catalog';
+import { checkOutTool, checkInTool } from './loans';
+import { createRequisition, fulfilRequisition, cancelRequisition } from './requisitions';
+import { ensureExitsDoNotNeedApproval, requestExitApproval, approveExit, rejectExit } from './approvals';
+import { createPurchaseOrders, updatePurchaseOrder, sendPurchaseOrder, cancelPurchaseOrder, receivePurchaseOrder } from './purchaseOrders';
+import { importInvoice } from './invoices';
+import { reverseMovement } from './reversals';
+import { recordAuditLog } from './audit';
+import { login, authenticate, logout, changeOwnPassword, resetPassword, unlockUser, createUser, deleteCredentials, securitySettings, Session } from './auth';
+import { HttpError, sendJson, readJsonBody, getText, getObject, getObjectList } from './http';
+
+const PORT = Number(process.env.PORT) || 3001;
+const DATABASE_FILE = process.env.DATABASE_FILE || path.resolve('server/data/almoxarifado.sqlite');
+
+const db = openDatabase(DATABASE_FILE);
+
+// REST resource name -> table. Items are created with their opening balance through
+// POST /api/items. Stock balances on items can only change through
+// POST /api/movements and POST /api/inventory-sessions; loans through POST /api/tool-loans
+// and POST /api/tool-loans/:id/return; requisitions through POST /api/requisitions and
+// its fulfil and cancel actions; held exits through POST /api/exit-approvals and its
+// approve and reject actions; purchase orders through POST /api/purchase-orders, PUT on
+// drafts and the send, receive and cancel actions. NF-e are entered through
+// POST /api/suppliers/:id/invoices, and movements are reversed through
+// POST /api/movements/:id/reverse. Ledger records are never changed or removed, and
+// audit log entries are only appended, through POST /api/audit-logs, in the name of the
+// session user.
+const RESOURCES: Record<string, TableName> = {
+    items: 'items',
+    users: 'users',
+    roles: 'roles',
+    suppliers: 'suppliers',
+    categories: 'categories',
+    units: 'units',
+    locations: 'locations',
+    employees: 'employees',
+    'cost-centers': 'cost_centers',
+    movements: 'movements',
+    'audit-logs': 'audit_logs',
+    'inventory-sessions': 'inventory_sessions',
+    'tool-loans': 'tool_loans',
+    requisitions: 'requisitions',
+    'approval-rules': 'approval_rules',
+    'exit-approvals': 'exit_approvals',
+    'purchase-orders': 'purchase_orders',
+    'period-closings': 'period_closings',
+};
+
+const READ_ONLY_RESOURCES = ['movements', 'audit-logs', 'inventory-sessions', 'tool-loans', 'requisitions', 'exit-approvals', 'purchase-orders'];
+
+// Permission needed to list or read records of a resource, the same one that guards its page.
+const READ_PERMISSIONS: Partial<Record<string, Permission>> = {
+    'audit-logs': 'audit.view',
+};
+
+// Permission needed to change records of a resource through PUT and DELETE. Items and
+// users have their own rules below.
+const WRITE_PERMISSIONS: Partial<Record<string, Permission>> = {
+    roles: 'role.manage',
+    suppliers: 'supplier.manage',
+    categories: 'item.edit',
+    units: 'item.edit',
+    locations: 'location.manage',
+    employees: 'employee.manage',
+    'cost-centers': 'cost_center.manage',
+    'approval-rules': 'exit.approve',
+    'period-closings': 'period.close',
+};
+
+const MOVEMENT_PERMISSIONS: Record<MovementType, Permission> = {
+    entry: 'movement.entry',
+    exit: 'movement.exit',
+    adjustment: 'inventory.approve',
+    transfer: 'movement.transfer',
+};
+
+// The opening balance of a new item, posted by whoever created it: a positive adjustment
+// on an item without stock and without movements.
+const getMovementPermission = (movement: NewMovement): Permission => MOVEMENT_PERMISSIONS[movement.type] ?? 'inventory.approve';
+
+const can = (session: Session, permission: Permission) => hasPermission(session.user, findAll<Role>(db, 'roles'), permission);
+
+const requirePermission = (session: Session, permission: Permission) => {
+    if (!can(session, permission)) {
+        throw new HttpError(403, 'Você não tem permissão para realizar esta operação.');
+    }
+};
+
+// Keeps the stored balance when an existing item is saved, so an edit made on a
+// stale copy cannot overwrite movements registered from another terminal; new items are
+// saved without stock, which comes from their opening balance. The category and unit
+// names are taken from the referenced records.
+const preserveStockFields = (body: Item, session: Session): Item => {
+    const existing = findById<Item>(db, 'items', body.id);
+    requirePermission(session, existing ? 'item.edit' : 'item.create');
+    const locations = findAll<Location>(db, 'locations');
+    const locationError = locations.length > 0 && body.location !== existing?.location ? getItemLocationError(body.location, locations) : null;
+    if (locationError) throw new HttpError(400, locationError);
+    const categories = findAll<Category>(db, 'categories');
+    const units = findAll<UnitOfMeasurement>(db, 'units');
+    const catalogError = getItemCatalogError(body, categories, units, existing) ?? getUnitConversionsError(body, units) ?? getEpiCertificateError(body.epi);
+    if (catalogError) throw new HttpError(400, catalogError);
+    const incoming = refreshCatalogNames([body], categories, units)[0] ?? body;
+    if (!existing) {
+        return can(session, 'item.edit_cost') ? withoutStock(incoming) : { ...withoutStock(incoming), avgUnitValue: 0 };
+    }
+    return {
+        ...incoming,
+        stockQuantity: existing.stockQuantity,
+        locationBalances: getLocationBalances(existing),
+        lots: existing.lots,
+        serials: existing.serials,
+        loanedQuantity: existing.loanedQuantity,
+        avgUnitValue: existing.avgUnitValue,
+        totalValue: existing.totalValue,
+    };
+};
+
+// The password and lockout fields are only changed by the auth endpoints, and only user
+// managers may change roles or edit other users.
+const preserveUserFields = (incoming: User & { password?: unknown }, session: Session): User => {
+    const { password, ...user } = incoming;
+    const existing = findById<User>(db, 'users', user.id);
+    const canManageUsers = can(session, 'user.manage');
+    if (!canManageUsers && existing?.id !== session.user.id) {
+        throw new HttpError(403, 'Você não tem permissão para alterar outros usuários.');
+    }
+    if (canManageUsers && !findById<Role>(db, 'roles', user.role)) {
+        throw new HttpError(400, 'Perfil de acesso não encontrado.');
+    }
+    return {
+        ...user,
+        role: canManageUsers ? user.role : existing!.role,
+        mustChangePassword: existing ? existing.mustChangePassword : true,
+        lockedUntil: existing?.lockedUntil,
+    };
+};
+
+// Built-in roles are kept as they are, so restoring a backup does not change them.
+const validateRole = (incoming: Role): Role => {
+    const existing = findById<Role>(db, 'roles', incoming.id);
+    if (existing?.isSystem) return existing;
+    if (!incoming.name?.trim()) {
+        throw new HttpError(400, 'O nome do perfil é obrigatório.');
+    }
+    const known = new Set(PERMISSIONS.map(permission => permission.id));
+    return {
+        id: incoming.id,
+        name: incoming.name.trim(),
+        permissions: (incoming.permissions ?? []).filter(permission => known.has(permission)),
+    };
+};
+
+const validateLocation = (incoming: Location): Location => {
+    const error = getLocationValidationError(incoming, findAll<Location>(db, 'locations'), findAll<Item>(db, 'items'));
+    if (error) throw new HttpError(400, error);
+    return { ...incoming, name: incoming.name.trim() };
+};
+
+const ensureLocationCanBeRemoved = (locationId: string) => {
+    const location = findById<Location>(db, 'locations', locationId);
+    const error = location && getLocationRemovalError(location, findAll<Location>(db, 'locations'), findAll<Item>(db, 'items'));
+    if (error) throw new HttpError(409, error);
+};
+
+const validateEmployee = (incoming: Employee): Employee => {
+    const error = getEmployeeValidationError(incoming, findAll<Employee>(db, 'employees'));
+    if (error) throw new HttpError(400, error);
+    return { ...incoming, name: incoming.name.trim(), registration: incoming.registration.trim() };
+};
+
+const validateCostCenter = (incoming: CostCenter): CostCenter => {
+    const error = getCostCenterValidationError(incoming, findAll<CostCenter>(db, 'cost_centers'));
+    if (error) throw new HttpError(400, error);
+    return { ...incoming, code: incoming.code.trim(), name: incoming.name.trim() };
+};
+
+const ensureCostCenterCanBeRemoved = (costCenterId: string) => {
+    const costCenter = findById<CostCenter>(db, 'cost_centers', costCenterId);
+    const error = costCenter && getCostCenterRemovalError(costCenter, findAll<EntryExitRecord>(db, 'movements'));
+    if (error) throw new HttpError(409, error);
+};
+
+const validateApprovalRule = (incoming: ApprovalRule): ApprovalRule => {
+    const error = getApprovalRuleError(incoming, findAll<Category>(db, 'categories'));
+    if (error) throw new HttpError(400, error);
+    return incoming;
+};
+
+// The month is the id, and who closed it is taken from the session.
+const validatePeriodClosing = (incoming: PeriodClosing, session: Session): PeriodClosing => {
+    const error = getPeriodClosingError(incoming.month, findAll<PeriodClosing>(db, 'period_closings'));
+    if (error) throw new HttpError(400, error);
+    if (incoming.id !== incoming.month) throw new HttpError(400, 'O id do fechamento deve ser o mês.');
+    return buildPeriodClosing(incoming.month, session.user);
+};
+
+const ensurePeriodCanBeReopened = (closingId: string) => {
+    const closing = findById<PeriodClosing>(db, 'period_closings', closingId);
+    const error = closing && getPeriodReopeningError(closing, findAll<PeriodClosing>(db, 'period_closings'));
+    if (error) throw new HttpError(409, error);
+};
+
+const ensureEmployeeCanBeRemoved = (employeeId: string) => {
+    const employee = findById<Employee>(db, 'employees', employeeId);
+    const error = employee && getEmployeeRemovalError(employee, findAll<EntryExitRecord>(db, 'movements'));
+    if (error) throw new HttpError(409, error);
+};
+
+const ensureCategoryCanBeRemoved = (categoryId: string) => {
+    const category = findById<Category>(db, 'categories', categoryId);
+    const error = category && getCategoryRemovalError(category, findAll<Item>(db, 'items'));
+    if (error) throw new HttpError(409, error);
+};
+
+const ensureUnitCanBeRemoved = (unitId: string) => {
+    const unit = findById<UnitOfMeasurement>(db, 'units', unitId);
+    const error = unit && getUnitRemovalError(unit, findAll<Item>(db, 'items'));
+    if (error) throw new HttpError(409, error);
+};
+
+const ensureItemCanBeRemoved = (itemId: string) => {
+    const item = findById<Item>(db, 'items', itemId);
+    if (item?.loanedQuantity) {
+        throw new HttpError(409, `O item ${item.code} possui ${item.loanedQuantity} unidades emprestadas e não pode ser excluído.`);
+    }
+};
+
+const ensureRoleCanBeRemoved = (roleId: string) => {
+    if (findById<Role>(db, 'roles', roleId)?.isSystem) {
+        throw new HttpError(403, 'O perfil de administrador não pode ser excluído.');
+    }
+    if (findAll<User>(db, 'users').some(user => user.role === roleId)) {
+        throw new HttpError(409, 'Este perfil está atribuído a usuários e não pode ser excluído.');
+    }
+};
+
+const handleAuthRequest = async (req: http.IncomingMessage, res: http.ServerResponse, action: string | undefined) => {
+    if (req.method === 'POST' && action === 'login') {
+        const body = await readJsonBody(req);
+        return sendJson(res, 200, login(db, getText(body, 'email'), getText(body, 'password')));
+    }
+    if (req.method === 'GET' && action === 'settings') {
+        return sendJson(res, 200, securitySettings);
+    }
+
+    const session = authenticate(db, req.headers.authorization);
+
+    if (req.method === 'GET' && action === 'session') {
+        return sendJson(res, 200, { user: session.user, expiresAt: session.expiresAt });
+    }
+    if (req.method === 'POST' && action === 'logout') {
+        const body = await readJsonBody(req);
+        logout(db, session, body.reason === 'timeout' ? 'timeout' : undefined);
+        res.writeHead(204);
+        return res.end();
+    }
+    if (req.method === 'POST' && action === 'password') {
+        const body = await readJsonBody(req);
+        return sendJson(res, 200, changeOwnPassword(db, session, getText(body, 'currentPassword'), getText(body, 'newPassword')));
+    }
+
+    throw new HttpError(404, 'Recurso não encontrado.');
+};
+
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const [prefix, resource, id, subresource] = url.pathname.split('/').filter(Boolean);
+    if (prefix === 'api' && resource === 'auth') {
+        return handleAuthRequest(req, res, id);
+    }
+    if (prefix !== 'api' || !resource || !(resource in RESOURCES)) {
+        throw new HttpError(404, 'Recurso não encontrado.');
+    }
+    const table = RESOURCES[resource];
+
+    const session = authenticate(db, req.headers.authorization);
+    if (session.user.mustChangePassword) {
+        throw new HttpError(403, 'É necessário alterar a senha antes de continuar.');
+    }
+
+    if (req.method === 'POST' && !id && resource === 'audit-logs') {
+        const body = await readJsonBody(req);
+        const action = getText(body, 'action').trim();
+        if (!action) throw new HttpError(400, 'Informe a ação registrada.');
+        return sendJson(res, 201, recordAuditLog(db, session.user, action));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'movements') {
+        const movements = getObjectList<NewMovement>(await readJsonBody(req), 'movements')?.map(withoutLinkFields);
+        if (!movements?.length) {
+            throw new HttpError(400, 'Nenhuma movimentação informada.');
+        }
+        const permissions = new Set(movements.map(getMovementPermission));
+        permissions.forEach(permission => requirePermission(session, permission));
+        if (!can(session, 'exit.approve')) ensureExitsDoNotNeedApproval(db, movements);
+        return sendJson(res, 201, registerMovements(db, movements, session.user));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'items') {
+        const body = await readJsonBody(req);
+        const items = getObjectList<Item>(body, 'items');
+        if (!items?.length) throw new HttpError(400, 'Nenhum item informado.');
+        if (items.some(item => typeof item.id !== 'string' || !item.id)) throw new HttpError(400, 'Informe o id de cada item.');
+        if (items.some(item => findById<Item>(db, 'items', item.id))) throw new HttpError(409, 'O item já está cadastrado.');
+        const unstocked = items.map(item => preserveStockFields(item, session));
+        return sendJson(res, 201, createItems(db, unstocked, buildOpeningBalances(items, getText(body, 'observations')), session.user));
+    }
+
+    if (req.method === 'POST' && id && resource === 'movements' && subresource === 'reverse') {
+        requirePermission(session, 'movement.reverse');
+        const body = await readJsonBody(req);
+        return sendJson(res, 200, reverseMovement(db, id, getText(body, 'reason'), session.user));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'inventory-sessions') {
+        requirePermission(session, 'inventory.approve');
+        const counts = getObjectList<{ itemId: string; countedQuantity: number; location?: string }>(await readJsonBody(req), 'counts');
+        if (!counts) {
+            throw new HttpError(400, 'Nenhuma contagem informada.');
+        }
+        return sendJson(res, 201, registerInventorySession(db, counts, session.user));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'tool-loans') {
+        requirePermission(session, 'loan.manage');
+        const body = await readJsonBody<NewToolLoan>(req);
+        return sendJson(res, 201, checkOutTool(db, body, session.user));
+    }
+
+    if (req.method === 'POST' && id && resource === 'tool-loans' && subresource === 'return') {
+        requirePermission(session, 'loan.manage');
+        const body = await readJsonBody<ToolLoanReturn>(req);
+        return sendJson(res, 200, checkInTool(db, id, body, session.user));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'requisitions') {
+        requirePermission(session, 'requisition.create');
+        const body = await readJsonBody<NewRequisition>(req);
+        return sendJson(res, 201, createRequisition(db, body, session.user));
+    }
+
+    if (req.method === 'POST' && id && resource === 'requisitions' && subresource === 'fulfil') {
+        requirePermission(session, 'movement.exit');
+        const body = await readJsonBody<RequisitionFulfilment>(req);
+        return sendJson(res, 200, fulfilRequisition(db, id, body, session.user, can(session, 'exit.approve')));
+    }
+
+    if (req.method === 'POST' && id && resource === 'requisitions' && subresource === 'cancel') {
+        requirePermission(session, 'requisition.create');
+        const body = await readJsonBody(req);
+        return sendJson(res, 200, cancelRequisition(db, id, getText(body, 'reason'), session.user, can(session, 'movement.exit')));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'exit-approvals') {
+        requirePermission(session, 'movement.exit');
+        const movement = getObject<NewMovement>(await readJsonBody(req), 'movement');
+        if (!movement) throw new HttpError(400, 'Nenhuma movimentação informada.');
+        return sendJson(res, 201, requestExitApproval(db, withoutLinkFields(movement), session.user));
+    }
+
+    if (req.method === 'POST' && id && resource === 'exit-approvals' && (subresource === 'approve' || subresource === 'reject')) {
+        requirePermission(session, 'exit.approve');
+        const body = await readJsonBody(req);
+        const result = subresource === 'approve' ? approveExit(db, id, getText(body, 'notes'), session.user) : rejectExit(db, id, getText(body, 'notes'), session.user);
+        return sendJson(res, 200, result);
+    }
+
+    if (req.method === 'POST' && !id && resource === 'purchase-orders') {
+        requirePermission(session, 'purchase_order.manage');
+        const orders = getObjectList<NewPurchaseOrder>(await readJsonBody(req), 'orders');
+        if (!orders?.length) {
+            throw new HttpError(400, 'Nenhum pedido de compra informado.');
+        }
+        return sendJson(res, 201, createPurchaseOrders(db, orders, session.user));
+    }
+
+    if (req.method === 'PUT' && id && !subresource && resource === 'purchase-orders') {
+        requirePermission(session, 'purchase_order.manage');
+        const body = await readJsonBody<NewPurchaseOrder>(req);
+        return sendJson(res, 200, updatePurchaseOrder(db, id, body));
+    }
+
+    if (req.method === 'POST' && id && resource === 'purchase-orders' && (subresource === 'send' || subresource === 'cancel')) {
+        requirePermission(session, 'purchase_order.manage');
+        const body = await readJsonBody(req);
+        const result = subresource === 'send' ? sendPurchaseOrder(db, id) : cancelPurchaseOrder(db, id, getText(body, 'reason'), session.user);
+        return sendJson(res, 200, result);
+    }
+
+    if (req.method === 'POST' && id && resource === 'purchase-orders' && subresource === 'receive') {
+        requirePermission(session, 'movement.entry');
+        const body = await readJsonBody<PurchaseOrderReceipt>(req);
+        return sendJson(res, 200, receivePurchaseOrder(db, id, body, session.user));
+    }
+
+    if (req.method === 'POST' && id && resource === 'suppliers' && subresource === 'invoices') {
+        requirePermission(session, 'movement.entry');
+        const body = await readJsonBody<InvoiceImport>(req);
+        return sendJson(res, 201, importInvoice(db, { ...body, supplierId: id }, session.user));
+    }
+
+    if (req.method === 'POST' && !id && resource === 'users') {
+        requirePermission(session, 'user.manage');
+        const body = await readJsonBody(req);
+        const user = getObject<User>(body, 'user');
+        if (!user) throw new HttpError(400, 'Informe os dados do usuário.');
+        return sendJson(res, 201, createUser(db, session.user, user, getText(body, 'temporaryPassword')));
+    }
+
+    if (req.method === 'PUT' && id && resource === 'users' && subresource === 'password') {
+        requirePermission(session, 'user.manage');
+        const body = await readJsonBody(req);
+        return sendJson(res, 200, resetPassword(db, session.user, id, getText(body, 'temporaryPassword')));
+    }
+
+    if (req.method === 'POST' && id && resource === 'users' && subresource === 'unlock') {
+        requirePermission(session, 'user.manage');
+        return sendJson(res, 200, unlockUser(db, session.user, id));
+    }
+
+    if (req.method === 'POST' && id && (resource === 'categories' || resource === 'units') && subresource === 'merge') {
+        requirePermission(session, 'item.edit');
+        const body = await readJsonBody(req);
+        const result = resource === 'categories' ? mergeCategory(db, id, getText(body, 'targetId')) : mergeUnit(db, id, getText(body, 'targetId'));
+        return sendJson(res, 200, result);
+    }
+
+    if (subresource) {
+        throw new HttpError(404, 'Recurso não encontrado.');
+    }
+
+    if (req.method === 'GET') {
+        const permission = READ_PERMISSIONS[resource];
+        if (permission) requirePermission(session, permission);
+    }
+
+    if (req.method === 'GET' && !id) {
+        return sendJson(res, 200, findAll(db, table));
+    }
+
+    if (req.method === 'GET' && id) {
+        const record = findById(db, table, id);
+        if (!record) throw new HttpError(404, 'Registro não encontrado.');
+        return sendJson(res, 200, record);
+    }
+
+    if ((req.method === 'PUT' || req.method === 'DELETE') && READ_ONLY_RESOURCES.includes(resource)) {
+        throw new HttpError(405, 'Este recurso não pode ser alterado diretamente.');
+    }
+
+    if (req.method === 'PUT' || req.method === 'DELETE') {
+        const permission = WRITE_PERMISSIONS[resource];
+        if (permission) requirePermission(session, permission);
+    }
+
+    if (req.method === 'PUT' && id) {
+        const body = await readJsonBody<{ id: string }>(req);
+        if (body.id !== id) throw new HttpError(400, 'O id do registro não corresponde à URL.');
+        if (resource === 'categories') return sendJson(res, 200, saveCategory(db, body as Category));
+        if (resource === 'units') return sendJson(res, 200, saveUnit(db, body as UnitOfMeasurement));
+        const record = resource === 'items' ? preserveStockFields(body as Item, session)
+            : resource === 'users' ? preserveUserFields(body as User, session)
+            : resource === 'roles' ? validateRole(body as Role)
+            : resource === 'locations' ? validateLocation(body as Location)
+            : resource === 'employees' ? validateEmployee(body as Employee)
+            : resource === 'cost-centers' ? validateCostCenter(body as CostCenter)
+            : resource === 'approval-rules' ? validateApprovalRule(body as ApprovalRule)
+            : resource === 'period-closings' ? validatePeriodClosing(body as PeriodClosing, session)
+            : body;
+        return sendJson(res, 200, upsert(db, table, record));
+    }
+
+    if (req.method === 'DELETE' && id) {
+        if (resource === 'users') requirePermission(session, 'user.manage');
+        if (resource === 'items') requirePermission(session, 'item.delete');
+        if (resource === 'items') ensureItemCanBeRemoved(id);
+        if (resource === 'roles') ensureRoleCanBeRemoved(id);
+        if (resource === 'locations') ensureLocationCanBeRemoved(id);
+        if (resource === 'employees') ensureEmployeeCanBeRemoved(id);
+        if (resource === 'cost-centers') ensureCostCenterCanBeRemoved(id);
+        if (resource === 'categories') ensureCategoryCanBeRemoved(id);
+        if (resource === 'units') ensureUnitCanBeRemoved(id);
+        if (resource === 'period-closings') ensurePeriodCanBeReopened(id);
+        const removed = transaction(db, () => {
+            if (resource === 'users') deleteCredentials(db, id);
+            return remove(db, table, id);
+        });
+        if (!removed) throw new HttpError(404, 'Registro não encontrado.');
+        res.writeHead(204);
+        return res.end();
+    }
+
+    throw new HttpError(405, 'Método não suportado.');
+};
+
+const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+        if (error instanceof HttpError) {
+            return sendJson(res, error.status, { error: error.message });
+        }
+        if (error instanceof MovementError || error instanceof LoanError || error instanceof RequisitionError || error instanceof ApprovalError || error instanceof PurchaseOrderError || error instanceof NfeError || error instanceof ReversalError) {
+            return sendJson(res, 409, { error: error.message });
+        }
+        console.error(`${req.method} ${req.url} failed:`, error);
+        sendJson(res, 500, { error: 'Erro interno do servidor.' });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`API do almoxarifado em http://localhost:${PORT}/api (banco: ${DATABASE_FILE})`);
+});
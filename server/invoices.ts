@@ -0,0 +1,26 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Supplier, EntryExitRecord, InvoiceImport } from '../types';
+import { buildInvoiceEntries } from '../utils/nfe';
+import { transaction, findAll, upsert } from './db';
+import { HttpError } from './http';
+import { Actor, MovementResult, commitMovements } from './stock';
+
+export type InvoiceImportResult = MovementResult & { supplier: Supplier };
+
+const findInvoiceEntries = (db: DatabaseSync, key: string): EntryExitRecord[] => {
+    const rows = db.prepare(`SELECT data FROM movements WHERE json_extract(data, '$.invoiceKey') = ?`).all(key) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+// The entries and the codes learned for the supplier are written together. The invoice
+// parsed by the client is checked against its access key, and each of its lines is only
+// entered once.
+export const importInvoice = (db: DatabaseSync, data: InvoiceImport, actor: Actor): InvoiceImportResult => {
+    return transaction(db, () => {
+        if (typeof data.invoice?.key !== 'string' || !Array.isArray(data.invoice.lines)) throw new HttpError(400, 'NF-e não informada.');
+        const { movements, supplier } = buildInvoiceEntries(data, findAll<Supplier>(db, 'suppliers'), findAll<Item>(db, 'items'), findInvoiceEntries(db, data.invoice.key));
+        const result = commitMovements(db, movements, actor);
+        upsert(db, 'suppliers', supplier);
+        return { ...result, supplier };
+    });
+};
@@ -0,0 +1,39 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, ToolLoan, NewToolLoan, ToolLoanReturn } from '../types';
+import { checkOutItem, checkInItem, buildLoan, closeLoan } from '../utils/loans';
+import { transaction, findById, upsert } from './db';
+import { HttpError } from './http';
+import { Actor, generateId } from './stock';
+
+export interface LoanResult {
+    item: Item;
+    loan: ToolLoan;
+}
+
+// Reads the item inside the transaction, so two check-outs of the last unit from
+// different terminals cannot both succeed.
+export const checkOutTool = (db: DatabaseSync, request: NewToolLoan, actor: Actor): LoanResult => {
+    return transaction(db, () => {
+        const item = findById<Item>(db, 'items', request.itemId);
+        if (!item) throw new HttpError(404, 'Item não encontrado.');
+        const updated = checkOutItem(item, request);
+        const loan = buildLoan(request, actor, generateId('loan'));
+        upsert(db, 'items', updated);
+        upsert(db, 'tool_loans', loan);
+        return { item: updated, loan };
+    });
+};
+
+export const checkInTool = (db: DatabaseSync, loanId: string, data: ToolLoanReturn, actor: Actor): LoanResult => {
+    return transaction(db, () => {
+        const loan = findById<ToolLoan>(db, 'tool_loans', loanId);
+        if (!loan) throw new HttpError(404, 'Empréstimo não encontrado.');
+        const item = findById<Item>(db, 'items', loan.itemId);
+        if (!item) throw new HttpError(404, 'Item não encontrado.');
+        const closed = closeLoan(loan, data, actor);
+        const updated = checkInItem(item, loan);
+        upsert(db, 'items', updated);
+        upsert(db, 'tool_loans', closed);
+        return { item: updated, loan: closed };
+    });
+};
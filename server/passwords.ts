@@ -0,0 +1,19 @@
+import { scryptSync, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as "scrypt$<salt>$<hash>" (hex), so the algorithm can be changed
+// later without invalidating existing credentials.
+export const hashPassword = (password: string): string => {
+    const salt = randomBytes(16);
+    const hash = scryptSync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = (password: string, storedHash: string): boolean => {
+    const [algorithm, saltHex, hashHex] = storedHash.split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
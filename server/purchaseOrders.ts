@@ -0,0 +1,78 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Supplier, PurchaseOrder, NewPurchaseOrder, PurchaseOrderReceipt } from '../types';
+import {
+    getPurchaseOrderValidationError,
+    getNextPurchaseOrderNumber,
+    buildPurchaseOrder,
+    updatePurchaseOrder as applyUpdate,
+    sendPurchaseOrder as markSent,
+    cancelPurchaseOrder as closePurchaseOrder,
+    receivePurchaseOrder as applyReceipt,
+} from '../utils/purchaseOrders';
+import { transaction, findAll, findById, upsert } from './db';
+import { HttpError } from './http';
+import { Actor, MovementResult, generateId, commitMovements } from './stock';
+
+export type ReceiptResult = MovementResult & { order: PurchaseOrder };
+
+const ensureValid = (db: DatabaseSync, order: NewPurchaseOrder) => {
+    const error = getPurchaseOrderValidationError(order, findAll<Item>(db, 'items'), findAll<Supplier>(db, 'suppliers'));
+    if (error) throw new HttpError(400, error);
+};
+
+const loadPurchaseOrder = (db: DatabaseSync, id: string): PurchaseOrder => {
+    const order = findById<PurchaseOrder>(db, 'purchase_orders', id);
+    if (!order) throw new HttpError(404, 'Pedido de compra não encontrado.');
+    return order;
+};
+
+// Orders generated together (one per supplier) are numbered in sequence, and none is
+// saved if any of them is invalid.
+export const createPurchaseOrders = (db: DatabaseSync, orders: NewPurchaseOrder[], actor: Actor): PurchaseOrder[] => {
+    return transaction(db, () => {
+        orders.forEach(order => ensureValid(db, order));
+        const created: PurchaseOrder[] = [];
+        orders.forEach(order => {
+            const number = getNextPurchaseOrderNumber([...findAll<PurchaseOrder>(db, 'purchase_orders'), ...created]);
+            created.push(buildPurchaseOrder(order, actor, generateId('po'), number));
+        });
+        created.forEach(order => upsert(db, 'purchase_orders', order));
+        return created;
+    });
+};
+
+export const updatePurchaseOrder = (db: DatabaseSync, id: string, incoming: NewPurchaseOrder): PurchaseOrder => {
+    return transaction(db, () => {
+        ensureValid(db, incoming);
+        const updated = applyUpdate(loadPurchaseOrder(db, id), incoming);
+        upsert(db, 'purchase_orders', updated);
+        return updated;
+    });
+};
+
+export const sendPurchaseOrder = (db: DatabaseSync, id: string): PurchaseOrder => {
+    return transaction(db, () => {
+        const sent = markSent(loadPurchaseOrder(db, id));
+        upsert(db, 'purchase_orders', sent);
+        return sent;
+    });
+};
+
+export const cancelPurchaseOrder = (db: DatabaseSync, id: string, reason: string, actor: Actor): PurchaseOrder => {
+    return transaction(db, () => {
+        const cancelled = closePurchaseOrder(loadPurchaseOrder(db, id), reason, actor);
+        upsert(db, 'purchase_orders', cancelled);
+        return cancelled;
+    });
+};
+
+// The entries and the order balance are written together: if any line is rejected (a
+// missing lot, a repeated serial...), nothing is received.
+export const receivePurchaseOrder = (db: DatabaseSync, id: string, receipt: PurchaseOrderReceipt, actor: Actor): ReceiptResult => {
+    return transaction(db, () => {
+        const { movements, order } = applyReceipt(loadPurchaseOrder(db, id), receipt);
+        const result = commitMovements(db, movements, actor);
+        upsert(db, 'purchase_orders', order);
+        return { ...result, order };
+    });
+};
@@ -0,0 +1,62 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Employee, CostCenter, Requisition, NewRequisition, RequisitionFulfilment } from '../types';
+import { getRequisitionValidationError, getNextRequisitionNumber, buildRequisition, fulfilRequisition as applyFulfilment, cancelRequisition as closeRequisition } from '../utils/requisitions';
+import { getDeliveryEmployeeError } from '../utils/epi';
+import { getExitCostCenterError } from '../utils/costCenters';
+import { transaction, findAll, findById, upsert } from './db';
+import { HttpError } from './http';
+import { Actor, MovementResult, generateId, commitMovements } from './stock';
+import { ensureExitsDoNotNeedApproval } from './approvals';
+
+export type RequisitionResult = MovementResult & { requisition: Requisition };
+
+// The number is assigned inside the transaction, so requisitions created at the same
+// time do not get the same one. The department is the name of the cost center, when
+// one is given.
+export const createRequisition = (db: DatabaseSync, incoming: NewRequisition, actor: Actor): Requisition => {
+    return transaction(db, () => {
+        const costCenter = incoming.costCenterId ? findById<CostCenter>(db, 'cost_centers', incoming.costCenterId) : undefined;
+        const costCenterError = incoming.costCenterId ? getExitCostCenterError(costCenter) : null;
+        if (costCenterError) throw new HttpError(400, costCenterError);
+        const request = costCenter ? { ...incoming, department: costCenter.name } : incoming;
+        const error = getRequisitionValidationError(request, findAll<Item>(db, 'items'));
+        if (error) throw new HttpError(400, error);
+        request.lines.forEach(line => {
+            const employeeError = line.employeeId ? getDeliveryEmployeeError(findById<Employee>(db, 'employees', line.employeeId)) : null;
+            if (employeeError) throw new HttpError(400, employeeError);
+        });
+        const requisition = buildRequisition(request, actor, generateId('req'), getNextRequisitionNumber(findAll<Requisition>(db, 'requisitions')));
+        upsert(db, 'requisitions', requisition);
+        return requisition;
+    });
+};
+
+const loadRequisition = (db: DatabaseSync, id: string): Requisition => {
+    const requisition = findById<Requisition>(db, 'requisitions', id);
+    if (!requisition) throw new HttpError(404, 'Requisição não encontrada.');
+    return requisition;
+};
+
+// The exits and the requisition are written together: if any line lacks stock, or needs
+// approval the user cannot give, nothing is delivered.
+export const fulfilRequisition = (db: DatabaseSync, id: string, data: RequisitionFulfilment, actor: Actor, canApprove: boolean): RequisitionResult => {
+    return transaction(db, () => {
+        const { movements, requisition } = applyFulfilment(loadRequisition(db, id), data);
+        if (!canApprove) ensureExitsDoNotNeedApproval(db, movements);
+        const result = movements.length > 0 ? commitMovements(db, movements, actor) : { items: [], records: [] };
+        upsert(db, 'requisitions', requisition);
+        return { ...result, requisition };
+    });
+};
+
+export const cancelRequisition = (db: DatabaseSync, id: string, reason: string, actor: Actor, canCancelOthers: boolean): Requisition => {
+    return transaction(db, () => {
+        const requisition = loadRequisition(db, id);
+        if (requisition.requesterId !== actor.id && !canCancelOthers) {
+            throw new HttpError(403, 'Somente o requisitante ou o almoxarifado podem cancelar a requisição.');
+        }
+        const cancelled = closeRequisition(requisition, reason, actor);
+        upsert(db, 'requisitions', cancelled);
+        return cancelled;
+    });
+};
@@ -0,0 +1,34 @@
+import { DatabaseSync } from 'node:sqlite';
+import { AuditLog, EntryExitRecord, Item, PeriodClosing, PurchaseOrder, Requisition } from '../types';
+import { buildReversal, markReversed, describeReversal, ReversalError } from '../utils/reversals';
+import { reversePurchaseOrderReceipt } from '../utils/purchaseOrders';
+import { reverseRequisitionFulfilment } from '../utils/requisitions';
+import { transaction, findAll, findById, upsert } from './db';
+import { Actor, MovementResult, commitMovements, findItemMovements } from './stock';
+import { recordAuditLog } from './audit';
+
+export type ReversalResult = MovementResult & { auditLog: AuditLog; order?: PurchaseOrder; requisition?: Requisition };
+
+// The reversal movements, the mark on the reversed one, its audit entry and the quantity
+// given back to its purchase order or requisition are written together, and the records
+// returned include the reversed movement. The reversal and the cost it undoes are built
+// from the stored movement: only the reason comes from the request.
+export const reverseMovement = (db: DatabaseSync, recordId: string, reason: string, actor: Actor): ReversalResult => {
+    return transaction(db, () => {
+        const record = findById<EntryExitRecord>(db, 'movements', recordId);
+        if (!record) throw new ReversalError('Movimentação não encontrada.');
+        const movements = buildReversal(record, reason, findAll<PeriodClosing>(db, 'period_closings'), findItemMovements(db, record.itemId));
+        const result = commitMovements(db, movements, actor);
+        const reversed = upsert(db, 'movements', markReversed(record, reason, actor));
+        const order = record.purchaseOrderId ? findById<PurchaseOrder>(db, 'purchase_orders', record.purchaseOrderId) : undefined;
+        const requisition = record.requisitionId ? findById<Requisition>(db, 'requisitions', record.requisitionId) : undefined;
+        const auditLog = recordAuditLog(db, actor, describeReversal(record, findById<Item>(db, 'items', record.itemId), reason, result.records));
+        return {
+            ...result,
+            records: [reversed, ...result.records],
+            auditLog,
+            ...(order ? { order: upsert(db, 'purchase_orders', reversePurchaseOrderReceipt(order, record)) } : {}),
+            ...(requisition ? { requisition: upsert(db, 'requisitions', reverseRequisitionFulfilment(requisition, record)) } : {}),
+        };
+    });
+};
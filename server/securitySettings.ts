@@ -0,0 +1,25 @@
+import { SecuritySettings, DEFAULT_SECURITY_SETTINGS } from '../auth/securityPolicy';
+
+const readNumber = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+const readBoolean = (name: string, fallback: boolean) => {
+    const value = process.env[name];
+    return value === undefined ? fallback : value === 'true' || value === '1';
+};
+
+// Security rules can be tuned per installation through SECURITY_* environment variables.
+export const loadSecuritySettings = (): SecuritySettings => ({
+    maxFailedLogins: readNumber('SECURITY_MAX_FAILED_LOGINS', DEFAULT_SECURITY_SETTINGS.maxFailedLogins),
+    lockoutMinutes: readNumber('SECURITY_LOCKOUT_MINUTES', DEFAULT_SECURITY_SETTINGS.lockoutMinutes),
+    passwordMinLength: readNumber('SECURITY_PASSWORD_MIN_LENGTH', DEFAULT_SECURITY_SETTINGS.passwordMinLength),
+    passwordRequireUppercase: readBoolean('SECURITY_PASSWORD_REQUIRE_UPPERCASE', DEFAULT_SECURITY_SETTINGS.passwordRequireUppercase),
+    passwordRequireLowercase: readBoolean('SECURITY_PASSWORD_REQUIRE_LOWERCASE', DEFAULT_SECURITY_SETTINGS.passwordRequireLowercase),
+    passwordRequireDigit: readBoolean('SECURITY_PASSWORD_REQUIRE_DIGIT', DEFAULT_SECURITY_SETTINGS.passwordRequireDigit),
+    passwordRequireSymbol: readBoolean('SECURITY_PASSWORD_REQUIRE_SYMBOL', DEFAULT_SECURITY_SETTINGS.passwordRequireSymbol),
+    passwordHistorySize: readNumber('SECURITY_PASSWORD_HISTORY_SIZE', DEFAULT_SECURITY_SETTINGS.passwordHistorySize),
+    idleTimeoutMinutes: readNumber('SECURITY_IDLE_TIMEOUT_MINUTES', DEFAULT_SECURITY_SETTINGS.idleTimeoutMinutes),
+    idleWarningSeconds: readNumber('SECURITY_IDLE_WARNING_SECONDS', DEFAULT_SECURITY_SETTINGS.idleWarningSeconds),
+});
@@ -0,0 +1,105 @@
+import { DatabaseSync } from 'node:sqlite';
+import { Item, Location, Employee, CostCenter, EntryExitRecord, NewMovement, InventorySession } from '../types';
+import { applyMovements, buildInventoryAdjustments, MovementError } from '../utils/movements';
+import { getDeliveryEmployeeError } from '../utils/epi';
+import { getExitCostCenterError } from '../utils/costCenters';
+import { transaction, findAll, findById, upsert } from './db';
+
+export interface Actor {
+    id: string;
+    name: string;
+}
+
+export interface MovementResult {
+    items: Item[];
+    records: EntryExitRecord[];
+}
+
+let sequence = 0;
+export const generateId = (prefix: string) => `${prefix}-${Date.now()}-${sequence++}`;
+
+const loadItems = (db: DatabaseSync, itemIds: string[]): Item[] => {
+    return [...new Set(itemIds)]
+        .map(id => findById<Item>(db, 'items', id))
+        .filter((item): item is Item => item !== undefined);
+};
+
+export const findItemMovements = (db: DatabaseSync, itemId: string): EntryExitRecord[] => {
+    const rows = db.prepare(`SELECT data FROM movements WHERE json_extract(data, '$.itemId') = ?`).all(itemId) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+};
+
+// EPI deliveries store the employee's name from the register, not as sent by the client.
+const withEmployeeNames = (db: DatabaseSync, movements: NewMovement[]): NewMovement[] => {
+    return movements.map(movement => {
+        if (!movement.employeeId) return movement;
+        const employee = findById<Employee>(db, 'employees', movement.employeeId);
+        const error = getDeliveryEmployeeError(employee);
+        if (error) throw new MovementError(error);
+        return { ...movement, employeeName: employee!.name };
+    });
+};
+
+const ensureCostCentersActive = (db: DatabaseSync, movements: NewMovement[]) => {
+    movements.forEach(movement => {
+        if (!movement.costCenterId) return;
+        const error = getExitCostCenterError(findById<CostCenter>(db, 'cost_centers', movement.costCenterId));
+        if (error) throw new MovementError(error);
+    });
+};
+
+// Must be called inside a transaction: reads the current balances, applies the
+// movements and writes items and ledger records together.
+export const commitMovements = (db: DatabaseSync, movements: NewMovement[], actor: Actor): MovementResult => {
+    ensureCostCentersActive(db, movements);
+    const { items, movements: applied } = applyMovements(loadItems(db, movements.map(m => m.itemId)), withEmployeeNames(db, movements), findAll<Location>(db, 'locations'));
+    const date = new Date().toISOString().split('T')[0];
+    const records: EntryExitRecord[] = applied.map(movement => ({
+        ...movement,
+        id: generateId('mov'),
+        date,
+        userId: actor.id,
+        userName: actor.name,
+    }));
+    items.forEach(item => upsert(db, 'items', item));
+    records.forEach(record => upsert(db, 'movements', record));
+    return { items, records };
+};
+
+export const registerMovements = (db: DatabaseSync, movements: NewMovement[], actor: Actor): MovementResult => {
+    return transaction(db, () => commitMovements(db, movements, actor));
+};
+
+// New items and their opening balances are written together, so an item is never left
+// without the stock it was created with.
+export const createItems = (db: DatabaseSync, items: Item[], openingBalances: NewMovement[], actor: Actor): MovementResult => {
+    return transaction(db, () => {
+        items.forEach(item => upsert(db, 'items', item));
+        const result = commitMovements(db, openingBalances, actor);
+        const updatedById = new Map(result.items.map(item => [item.id, item]));
+        return { items: items.map(item => updatedById.get(item.id) ?? item), records: result.records };
+    });
+};
+
+// Counted quantities are compared against the balances at commit time, so movements
+// made while the count was in progress are not overwritten.
+export const registerInventorySession = (
+    db: DatabaseSync,
+    counts: { itemId: string; countedQuantity: number; location?: string }[],
+    actor: Actor
+): MovementResult & { session: InventorySession } => {
+    return transaction(db, () => {
+        const { lines, movements } = buildInventoryAdjustments(loadItems(db, counts.map(c => c.itemId)), counts);
+        const result = commitMovements(db, movements, actor);
+
+        const session: InventorySession = {
+            id: generateId('inv'),
+            timestamp: new Date().toISOString(),
+            userId: actor.id,
+            userName: actor.name,
+            lines,
+        };
+        upsert(db, 'inventory_sessions', session);
+        return { ...result, session };
+    });
+};
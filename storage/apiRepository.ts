@@ -0,0 +1,33 @@
+import { apiRequest } from '../api/client';
+import { StoreName } from './db';
+import { Repository } from './repository';
+
+// Repository backed by the REST API, used instead of IndexedDB when API_URL is set.
+export const createApiRepository = <T extends { id: string }>(
+    storeName: StoreName,
+    resource: string,
+    sort?: (a: T, b: T) => number
+): Repository<T> => {
+    const getAll = async () => {
+        const records = await apiRequest<T[]>(`/${resource}`);
+        return sort ? records.sort(sort) : records;
+    };
+
+    const getById = async (id: string) => {
+        return apiRequest<T>(`/${resource}/${encodeURIComponent(id)}`);
+    };
+
+    const applyChanges = async (upserts: T[], deletedIds: string[]) => {
+        await Promise.all([
+            ...upserts.map(record => apiRequest<T>(`/${resource}/${encodeURIComponent(record.id)}`, {
+                method: 'PUT',
+                body: JSON.stringify(record),
+            })),
+            ...deletedIds.map(id => apiRequest<void>(`/${resource}/${encodeURIComponent(id)}`, { method: 'DELETE' })),
+        ]);
+    };
+
+    const save = (record: T) => applyChanges([record], []);
+
+    return { storeName, getAll, getById, save, applyChanges };
+};
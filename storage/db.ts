@@ -0,0 +1,273 @@
+import { Role, Permission, Item, Category, UnitOfMeasurement } from '../types';
+import { DEFAULT_ROLES } from '../auth/permissions';
+import { linkItemsToCatalog } from '../utils/catalog';
+import { mockUsers, mockUserPasswords, mockItems, mockEntryExitHistory, mockAuditLogs, mockSuppliers, mockCategories, mockUnits, mockLocations, mockEmployees, mockCostCenters } from '../data/mock';
+
+const DB_NAME = 'alumasa-almoxarifado';
+
+export type StoreName = 'items' | 'users' | 'suppliers' | 'categories' | 'units' | 'history' | 'auditLogs' | 'inventorySessions' | 'credentials' | 'roles' | 'locations' | 'toolLoans' | 'employees' | 'requisitions' | 'approvalRules' | 'exitApprovals' | 'costCenters' | 'purchaseOrders' | 'periodClosings';
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+const seedStore = (transaction: IDBTransaction, storeName: StoreName, records: { id: string }[]) => {
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+};
+
+// Schema migrations, applied in order. Never edit a released migration:
+// append a new one with the next version number instead.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Cria os repositórios iniciais e carrega os dados de exemplo',
+        migrate: (db, transaction) => {
+            const storeNames: StoreName[] = ['items', 'users', 'suppliers', 'categories', 'units', 'history', 'auditLogs'];
+            storeNames.forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+            transaction.objectStore('history').createIndex('itemId', 'itemId');
+
+            seedStore(transaction, 'items', mockItems);
+            seedStore(transaction, 'users', mockUsers);
+            seedStore(transaction, 'suppliers', mockSuppliers);
+            seedStore(transaction, 'categories', mockCategories);
+            seedStore(transaction, 'units', mockUnits);
+            seedStore(transaction, 'history', mockEntryExitHistory);
+            seedStore(transaction, 'auditLogs', mockAuditLogs);
+        },
+    },
+    {
+        version: 2,
+        description: 'Adiciona o repositório de sessões de inventário',
+        migrate: (db) => {
+            db.createObjectStore('inventorySessions', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 3,
+        description: 'Move as senhas dos usuários para o repositório de credenciais',
+        migrate: (db, transaction) => {
+            db.createObjectStore('credentials', { keyPath: 'id' });
+            const credentials = transaction.objectStore('credentials');
+            const users = transaction.objectStore('users');
+            // Hashing is asynchronous and cannot run inside the upgrade transaction, so the
+            // passwords are moved as pending and hashed by the local auth service on first use.
+            users.openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const { password, ...user } = cursor.value;
+                const initialPassword = password ?? mockUserPasswords[user.id];
+                if (initialPassword) {
+                    credentials.put({ id: user.id, pendingPassword: initialPassword });
+                }
+                cursor.update({ ...user, mustChangePassword: !initialPassword || password === 'changeme' });
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 4,
+        description: 'Adiciona os perfis de acesso com permissões',
+        migrate: (db, transaction) => {
+            db.createObjectStore('roles', { keyPath: 'id' });
+            seedStore(transaction, 'roles', DEFAULT_ROLES);
+        },
+    },
+    {
+        version: 5,
+        description: 'Permite transferências entre localizações aos perfis que registram saídas',
+        migrate: (db, transaction) => {
+            transaction.objectStore('roles').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const role: Role = cursor.value;
+                if (role.permissions.includes('movement.exit') && !role.permissions.includes('movement.transfer')) {
+                    cursor.update({ ...role, permissions: [...role.permissions, 'movement.transfer'] });
+                }
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 6,
+        description: 'Adiciona o cadastro de localizações',
+        migrate: (db, transaction) => {
+            db.createObjectStore('locations', { keyPath: 'id' });
+            seedStore(transaction, 'locations', mockLocations);
+        },
+    },
+    {
+        version: 7,
+        description: 'Vincula os itens às categorias e unidades pelo id',
+        migrate: (db, transaction) => {
+            const getAll = <T>(storeName: StoreName, onLoaded: (records: T[]) => void) => {
+                transaction.objectStore(storeName).getAll().onsuccess = (event) => onLoaded((event.target as IDBRequest<T[]>).result);
+            };
+            getAll<Item>('items', items => getAll<Category>('categories', categories => getAll<UnitOfMeasurement>('units', units => {
+                const linked = linkItemsToCatalog(items, categories, units);
+                seedStore(transaction, 'items', linked.items);
+                seedStore(transaction, 'categories', linked.categories.slice(categories.length));
+                seedStore(transaction, 'units', linked.units.slice(units.length));
+            })));
+        },
+    },
+    {
+        version: 8,
+        description: 'Adiciona o empréstimo de ferramentas',
+        migrate: (db, transaction) => {
+            db.createObjectStore('toolLoans', { keyPath: 'id' });
+            transaction.objectStore('roles').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const role: Role = cursor.value;
+                if (role.permissions.includes('movement.exit') && !role.permissions.includes('loan.manage')) {
+                    cursor.update({ ...role, permissions: [...role.permissions, 'loan.manage'] });
+                }
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 9,
+        description: 'Adiciona o cadastro de colaboradores para a entrega de EPI',
+        migrate: (db, transaction) => {
+            db.createObjectStore('employees', { keyPath: 'id' });
+            seedStore(transaction, 'employees', mockEmployees);
+            transaction.objectStore('roles').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const role: Role = cursor.value;
+                if (role.permissions.includes('movement.exit') && !role.permissions.includes('employee.manage')) {
+                    cursor.update({ ...role, permissions: [...role.permissions, 'employee.manage'] });
+                }
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 10,
+        description: 'Adiciona as requisições de material',
+        migrate: (db, transaction) => {
+            db.createObjectStore('requisitions', { keyPath: 'id' });
+            transaction.objectStore('roles').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const role: Role = cursor.value;
+                if (role.permissions.includes('movement.exit') && !role.permissions.includes('requisition.create')) {
+                    cursor.update({ ...role, permissions: [...role.permissions, 'requisition.create'] });
+                }
+                cursor.continue();
+            };
+        },
+    },
+    {
+        version: 11,
+        description: 'Adiciona as regras de aprovação de saídas',
+        migrate: (db) => {
+            db.createObjectStore('approvalRules', { keyPath: 'id' });
+            db.createObjectStore('exitApprovals', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 12,
+        description: 'Adiciona o cadastro de centros de custo',
+        migrate: (db, transaction) => {
+            db.createObjectStore('costCenters', { keyPath: 'id' });
+            seedStore(transaction, 'costCenters', mockCostCenters);
+        },
+    },
+    {
+        version: 13,
+        description: 'Adiciona os pedidos de compra',
+        migrate: (db) => {
+            db.createObjectStore('purchaseOrders', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 14,
+        description: 'Adiciona o fechamento de períodos de estoque',
+        migrate: (db) => {
+            db.createObjectStore('periodClosings', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 15,
+        description: 'Concede de novo as permissões das versões 5, 8, 9 e 10 aos perfis que registram saídas',
+        migrate: (db, transaction) => {
+            // Those migrations each open a cursor on the roles in the same upgrade, so a database
+            // upgraded across several of them kept only the last grant. One pass grants them all.
+            const granted: Permission[] = ['movement.transfer', 'loan.manage', 'employee.manage', 'requisition.create'];
+            transaction.objectStore('roles').openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const role: Role = cursor.value;
+                const missing = granted.filter(permission => !role.permissions.includes(permission));
+                if (role.permissions.includes('movement.exit') && missing.length > 0) {
+                    cursor.update({ ...role, permissions: [...role.permissions, ...missing] });
+                }
+                cursor.continue();
+            };
+        },
+    },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB não está disponível neste navegador.'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const transaction = request.transaction!;
+            const oldVersion = event.oldVersion;
+            MIGRATIONS
+                .filter(migration => migration.version > oldVersion)
+                .forEach(migration => migration.migrate(db, transaction));
+        };
+
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema; release our connection so the upgrade can proceed.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('A atualização do banco de dados está bloqueada por outra aba aberta.'));
+    });
+
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,31 @@
+import { Item, User, Role, Supplier, Category, UnitOfMeasurement, Location, EntryExitRecord, AuditLog, InventorySession, ToolLoan, Employee, CostCenter, Requisition, ApprovalRule, ExitApproval, PurchaseOrder, PeriodClosing } from '../types';
+import { isApiEnabled } from '../api/client';
+import { StoreName } from './db';
+import { createRepository, Repository } from './repository';
+import { createApiRepository } from './apiRepository';
+
+const repositoryFor = <T extends { id: string }>(storeName: StoreName, resource: string, sort?: (a: T, b: T) => number): Repository<T> => {
+    return isApiEnabled ? createApiRepository<T>(storeName, resource, sort) : createRepository<T>(storeName, sort);
+};
+
+export const itemRepository = repositoryFor<Item>('items', 'items');
+export const userRepository = repositoryFor<User>('users', 'users');
+export const roleRepository = repositoryFor<Role>('roles', 'roles');
+export const supplierRepository = repositoryFor<Supplier>('suppliers', 'suppliers');
+export const categoryRepository = repositoryFor<Category>('categories', 'categories');
+export const unitRepository = repositoryFor<UnitOfMeasurement>('units', 'units');
+export const employeeRepository = repositoryFor<Employee>('employees', 'employees');
+export const costCenterRepository = repositoryFor<CostCenter>('costCenters', 'cost-centers');
+export const locationRepository = repositoryFor<Location>('locations', 'locations');
+export const historyRepository = repositoryFor<EntryExitRecord>('history', 'movements', (a, b) => a.date.localeCompare(b.date));
+export const auditLogRepository = repositoryFor<AuditLog>('auditLogs', 'audit-logs', (a, b) => b.timestamp.localeCompare(a.timestamp));
+export const toolLoanRepository = repositoryFor<ToolLoan>('toolLoans', 'tool-loans', (a, b) => b.checkedOutAt.localeCompare(a.checkedOutAt));
+export const requisitionRepository = repositoryFor<Requisition>('requisitions', 'requisitions', (a, b) => b.createdAt.localeCompare(a.createdAt));
+export const approvalRuleRepository = repositoryFor<ApprovalRule>('approvalRules', 'approval-rules');
+export const exitApprovalRepository = repositoryFor<ExitApproval>('exitApprovals', 'exit-approvals', (a, b) => b.requestedAt.localeCompare(a.requestedAt));
+export const purchaseOrderRepository = repositoryFor<PurchaseOrder>('purchaseOrders', 'purchase-orders', (a, b) => b.createdAt.localeCompare(a.createdAt));
+export const periodClosingRepository = repositoryFor<PeriodClosing>('periodClosings', 'period-closings', (a, b) => b.month.localeCompare(a.month));
+export const inventorySessionRepository = repositoryFor<InventorySession>('inventorySessions', 'inventory-sessions', (a, b) => b.timestamp.localeCompare(a.timestamp));
+
+export type { Repository } from './repository';
+export { usePersistedCollection, setSaveErrorHandler } from './usePersistedCollection';
@@ -0,0 +1,43 @@
+import { openDatabase, requestToPromise, transactionToPromise, StoreName } from './db';
+
+export interface Repository<T extends { id: string }> {
+    storeName: StoreName;
+    getAll: () => Promise<T[]>;
+    getById: (id: string) => Promise<T | undefined>;
+    save: (record: T) => Promise<void>;
+    // Applies upserts and deletions in a single transaction.
+    applyChanges: (upserts: T[], deletedIds: string[]) => Promise<void>;
+}
+
+export const createRepository = <T extends { id: string }>(
+    storeName: StoreName,
+    sort?: (a: T, b: T) => number
+): Repository<T> => {
+    const getAll = async () => {
+        const db = await openDatabase();
+        const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+        const records = await requestToPromise(store.getAll() as IDBRequest<T[]>);
+        // IndexedDB returns records ordered by key; restore the order the UI expects.
+        return sort ? records.sort(sort) : records;
+    };
+
+    const getById = async (id: string) => {
+        const db = await openDatabase();
+        const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+        return requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+    };
+
+    const applyChanges = async (upserts: T[], deletedIds: string[]) => {
+        if (upserts.length === 0 && deletedIds.length === 0) return;
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        upserts.forEach(record => store.put(record));
+        deletedIds.forEach(id => store.delete(id));
+        await transactionToPromise(transaction);
+    };
+
+    const save = (record: T) => applyChanges([record], []);
+
+    return { storeName, getAll, getById, save, applyChanges };
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Repository } from './repository';
+
+let saveErrorHandler: ((message: string) => void) | null = null;
+
+// Called when changes could not be saved (e.g. refused by the server), so the app can tell the user.
+export const setSaveErrorHandler = (handler: ((message: string) => void) | null) => {
+    saveErrorHandler = handler;
+};
+
+/**
+ * State hook backed by a repository. Records are loaded once on mount and every
+ * subsequent state change is written through: records whose object identity changed
+ * are upserted and records that disappeared are deleted.
+ *
+ * Nothing is loaded while `enabled` is false (e.g. before login); disabling it again
+ * clears the records from memory.
+ *
+ * If the storage cannot be opened, the fallback data is used and changes stay in memory.
+ * Changes the storage refuses (e.g. the server rejects them) are undone by reloading the
+ * records, and the error is passed to the handler set with `setSaveErrorHandler`.
+ * Records that were already saved elsewhere (e.g. returned by the API) are merged with
+ * the returned `syncRecords`, which updates state without writing them back; records
+ * already removed elsewhere are dropped the same way through `removedIds`.
+ */
+export const usePersistedCollection = <T extends { id: string }>(
+    repository: Repository<T>,
+    fallback: T[],
+    enabled = true
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, boolean, (synced: T[], removedIds?: string[]) => void] => {
+    const [records, setRecords] = useState<T[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const persistedRef = useRef<Map<string, T> | null>(null);
+
+    useEffect(() => {
+        if (!enabled) {
+            persistedRef.current = null;
+            setRecords([]);
+            setIsLoaded(false);
+            return;
+        }
+
+        let isCancelled = false;
+        repository.getAll()
+            .then(stored => {
+                if (isCancelled) return;
+                persistedRef.current = new Map(stored.map(record => [record.id, record]));
+                setRecords(stored);
+                setIsLoaded(true);
+            })
+            .catch(error => {
+                if (isCancelled) return;
+                console.error(`Falha ao carregar "${repository.storeName}" do armazenamento:`, error);
+                setRecords(fallback);
+                setIsLoaded(true);
+            });
+        return () => {
+            isCancelled = true;
+        };
+    }, [repository, enabled]);
+
+    useEffect(() => {
+        const persisted = persistedRef.current;
+        if (!isLoaded || !persisted) return;
+
+        const upserts = records.filter(record => persisted.get(record.id) !== record);
+        const currentIds = new Set(records.map(record => record.id));
+        const deletedIds = [...persisted.keys()].filter(id => !currentIds.has(id));
+        if (upserts.length === 0 && deletedIds.length === 0) return;
+
+        persistedRef.current = new Map(records.map(record => [record.id, record]));
+        repository.applyChanges(upserts, deletedIds).catch(async error => {
+            console.error(`Falha ao salvar "${repository.storeName}" no armazenamento:`, error);
+            saveErrorHandler?.(`As alterações não foram salvas: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
+            try {
+                const stored = await repository.getAll();
+                persistedRef.current = new Map(stored.map(record => [record.id, record]));
+                setRecords(stored);
+            } catch (reloadError) {
+                console.error(`Falha ao recarregar "${repository.storeName}" do armazenamento:`, reloadError);
+            }
+        });
+    }, [records, isLoaded, repository]);
+
+    const syncRecords = useCallback((synced: T[], removedIds: string[] = []) => {
+        if (synced.length === 0 && removedIds.length === 0) return;
+        const persisted = persistedRef.current;
+        synced.forEach(record => persisted?.set(record.id, record));
+        removedIds.forEach(id => persisted?.delete(id));
+        setRecords(prev => {
+            const syncedById = new Map(synced.map(record => [record.id, record]));
+            const merged = prev
+                .filter(record => !removedIds.includes(record.id))
+                .map(record => syncedById.get(record.id) ?? record);
+            const existingIds = new Set(prev.map(record => record.id));
+            return [...merged, ...synced.filter(record => !existingIds.has(record.id))];
+        });
+    }, []);
+
+    return [records, setRecords, isLoaded, syncRecords];
+};
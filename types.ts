@@ -1,23 +1,63 @@
-export type Page = 'dashboard' | 'stock' | 'new-entry' | 'new-exit' | 'reports' | 'users' | 'inventory' | 'backup' | 'audit' | 'suppliers';
+export type Page = 'dashboard' | 'stock' | 'item' | 'new-entry' | 'new-exit' | 'reports' | 'users' | 'roles' | 'inventory' | 'backup' | 'audit' | 'suppliers' | 'locations' | 'categories' | 'units' | 'loans' | 'employees' | 'requisitions' | 'approvals' | 'cost-centers' | 'purchase-orders' | 'periods';
 
-export type Role = 'Admin' | 'Operator';
+export type Permission =
+  | 'item.create'
+  | 'item.edit'
+  | 'item.edit_cost'
+  | 'item.delete'
+  | 'location.manage'
+  | 'movement.entry'
+  | 'movement.exit'
+  | 'movement.transfer'
+  | 'movement.reverse'
+  | 'requisition.create'
+  | 'exit.approve'
+  | 'loan.manage'
+  | 'employee.manage'
+  | 'cost_center.manage'
+  | 'inventory.approve'
+  | 'report.view'
+  | 'report.view_values'
+  | 'supplier.manage'
+  | 'purchase_order.manage'
+  | 'period.close'
+  | 'user.manage'
+  | 'role.manage'
+  | 'backup.restore'
+  | 'audit.view';
+
+// Named bundle of permissions assigned to users.
+export interface Role {
+  id: string;
+  name: string;
+  permissions: Permission[];
+  // Built-in role that cannot be edited or removed.
+  isSystem?: boolean;
+}
 
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: Role;
+  role: string; // Role id
   profilePictureUrl?: string;
-  password?: string; // Should not be stored in frontend state in a real app
+  // Set when the password was assigned by an administrator; the user must choose a new one on the next login.
+  mustChangePassword?: boolean;
+  // End of the lockout period after too many failed logins (ISO string).
+  lockedUntil?: string;
 }
 
 export interface Item {
   id:string;
   code: string;
   description: string;
-  category: string;
-  location: string;
-  unit: string;
+  categoryId: string;
+  category: string; // Name of the category, kept in sync for display
+  location: string; // Default location: entries and new balances go here
+  unitId: string;
+  unit: string; // Abbreviation of the unit, kept in sync for display
+  // Other units the item is bought or issued in. Stock is always kept in `unit`.
+  unitConversions?: UnitConversion[];
   stockQuantity: number;
   minQuantity: number;
   leadTimeDays: number;
@@ -25,6 +65,58 @@ export interface Item {
   totalValue: number;
   preferredSupplierId?: string;
   equipment?: string;
+  // Quantity held at each location; the quantities add up to stockQuantity. Missing on
+  // items that were never transferred, whose whole balance is at `location`.
+  locationBalances?: LocationBalance[];
+  // Items with lot tracking keep their stock split in lots with expiry dates; the lot
+  // quantities add up to stockQuantity. Stock held before tracking was enabled has no lot.
+  lotTracked?: boolean;
+  lots?: ItemLot[];
+  // Serialized items register each unit by its serial number. Stock held before the item
+  // was serialized has none, so it can be more than the serials in stock.
+  serialTracked?: boolean;
+  serials?: ItemSerial[];
+  // Units out on loan: still part of stockQuantity, but not available for exits.
+  loanedQuantity?: number;
+  // Set for EPI (NR-6): exits are deliveries to an employee and record the CA number.
+  epi?: EpiCertificate;
+}
+
+export interface EpiCertificate {
+  caNumber: string; // Certificado de Aprovação
+  caExpiryDate?: string; // 'YYYY-MM-DD'
+  replacementDays?: number; // Days after a delivery when the employee is due a new one
+}
+
+export type SerialStatus = 'in_stock' | 'loaned' | 'out';
+
+export interface ItemSerial {
+  serial: string;
+  status: SerialStatus;
+}
+
+export interface ItemLot {
+  lot: string; // Lot or batch number from the manufacturer
+  manufacturingDate?: string; // 'YYYY-MM-DD'
+  expiryDate?: string; // 'YYYY-MM-DD'
+  quantity: number;
+}
+
+export interface LotQuantity {
+  lot: string;
+  quantity: number;
+}
+
+// One `unit` equals `factor` stock units, e.g. a box (CX) of 5 KG has factor 5.
+export interface UnitConversion {
+  unitId: string;
+  unit: string; // Abbreviation, kept in sync for display
+  factor: number;
+}
+
+export interface LocationBalance {
+  location: string;
+  quantity: number;
 }
 
 export interface Supplier {
@@ -33,37 +125,376 @@ export interface Supplier {
   contactPerson?: string;
   email?: string;
   phone?: string;
+  cnpj?: string; // Digits only; matches the emitter of imported NF-e
+  itemCodes?: SupplierItemCode[]; // Learned from NF-e imports
+}
+
+// One of our items as it appears on the supplier's NF-e: its product code (cProd) and
+// the item unit its invoice unit stands for.
+export interface SupplierItemCode {
+  code: string;
+  itemId: string;
+  unit: string;
+}
+
+// Employee who receives EPI. Kept apart from users, who are the people operating the system.
+export interface Employee {
+  id: string;
+  name: string;
+  registration: string; // Matrícula
+  department?: string;
+  jobTitle?: string;
+  active?: boolean; // Missing means active
+}
+
+// Month closed for corrections: movements dated in it, or in an earlier month, can no
+// longer be reversed. The id is the month.
+export interface PeriodClosing {
+  id: string;
+  month: string; // 'YYYY-MM'
+  closedAt: string; // ISO string
+  closedById: string;
+  closedByName: string;
+}
+
+// Sector that consumes material; exits are charged to one.
+export interface CostCenter {
+  id: string;
+  code: string;
+  name: string;
+  monthlyBudget?: number; // R$ per calendar month; no budget when missing
+  active?: boolean; // Missing means active
 }
 
 export interface Category {
     id: string;
     name: string;
+    active?: boolean; // Inactive categories cannot be chosen for items; missing means active
 }
 
+export type LocationLevel = 'warehouse' | 'aisle' | 'shelf' | 'bin';
+
+// Blocked locations keep their stock but accept no movements; inactive ones are retired
+// and can no longer be assigned to items.
+export type LocationStatus = 'active' | 'blocked' | 'inactive';
+
 export interface Location {
     id: string;
-    name: string;
+    name: string; // Unique code referenced by items and movements, e.g. "A1-01"
+    level: LocationLevel;
+    parentId?: string; // Location one level up; warehouses have none
+    status: LocationStatus;
 }
 
 export interface UnitOfMeasurement {
   id: string;
   name: string;
   abbreviation: string;
+  active?: boolean; // Inactive units cannot be chosen for items; missing means active
 }
 
+export type MovementType = 'entry' | 'exit' | 'adjustment' | 'transfer';
+
 export interface EntryExitRecord {
   id: string;
   itemId: string;
-  type: 'entry' | 'exit';
-  quantity: number;
+  type: MovementType;
+  quantity: number; // In the stock unit. Positive for entries/exits/transfers; signed difference for adjustments
+  enteredQuantity?: number; // As typed, when the movement was made in another unit of the item
+  enteredUnit?: string;
   date: string; // ISO string format 'YYYY-MM-DD'
+  location?: string; // Location the quantity went into or came out of; the item's location when missing
+  lot?: string; // Entries of lot-tracked items: lot received
+  manufacturingDate?: string; // Entries only
+  expiryDate?: string; // Entries only
+  // Exits and adjustments of lot-tracked items: lots the quantity came from. Chosen by
+  // the operator, or picked first-expiring-first-out when the movement has none.
+  lots?: LotQuantity[];
+  serials?: string[]; // Serialized items: serial numbers that came in or went out
+  fromLocation?: string; // Transfers only
+  toLocation?: string; // Transfers only
+  userId?: string;
+  userName?: string;
   supplierId?: string;
+  invoice?: string;
+  invoiceKey?: string; // Entries imported from an NF-e: its 44-digit access key
+  invoiceDate?: string; // Entries: issue date of the invoice, 'YYYY-MM-DD'
+  requester?: string;
+  responsible?: string;
+  // Exits of EPI items: employee who received it and the CA number at the time.
+  employeeId?: string;
+  employeeName?: string;
+  caNumber?: string;
+  requisitionId?: string; // Exits made to fulfil a requisition
+  costCenterId?: string; // Exits: cost center charged with the consumption
+  purchaseOrderId?: string; // Entries received against a purchase order
+  lineIndex?: number; // Line of the requisition, purchase order or NF-e the movement was made for
+  observations?: string;
+  unitCost?: number; // Per stock unit. Invoice unit price for entries; average cost at the time for exits/adjustments
+  freight?: number;
+  taxes?: number;
+  avgCostBefore?: number;
+  avgCostAfter?: number;
+  // Reversals (estornos): movement this one cancels. Reversals are adjustments, or
+  // transfers back for transfers.
+  reversalOfId?: string;
+  reversalReason?: string; // On the reversal and on the movement it cancels
+  // Movements cancelled by a reversal.
+  reversedAt?: string; // ISO string
+  reversedByName?: string;
+}
+
+// Movement data supplied by the forms; id, date and user are filled in by App.
+export type NewMovement = Omit<EntryExitRecord, 'id' | 'date' | 'userId' | 'userName'>;
+
+export type ApprovalRuleKind = 'exit_value' | 'category' | 'stock_share';
+
+// Exits matching an active rule wait for approval before leaving stock.
+export interface ApprovalRule {
+  id: string;
+  kind: ApprovalRuleKind;
+  threshold?: number; // exit_value: R$ of the exit at average cost; stock_share: % of the item's stock
+  categoryId?: string; // category rules only
+  active?: boolean; // Missing on rules created active
+}
+
+export type ExitApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// An exit held until someone with 'exit.approve' decides on it. The movement is only
+// applied on approval, against the stock at that time.
+export interface ExitApproval {
+  id: string;
+  movement: NewMovement;
+  reasons: string[]; // Rules the exit matched, as shown to the approver
+  requestedAt: string; // ISO string
+  requestedById: string;
+  requestedByName: string;
+  status: ExitApprovalStatus;
+  decidedAt?: string; // ISO string
+  decidedById?: string;
+  decidedByName?: string;
+  decisionNotes?: string;
+  recordId?: string; // Movement created on approval
+}
+
+export type RequisitionStatus = 'open' | 'partial' | 'fulfilled' | 'cancelled';
+
+export type RequisitionLineStatus = 'pending' | 'partial' | 'fulfilled' | 'rejected';
+
+export interface RequisitionLine {
+  itemId: string;
+  quantity: number; // Requested, in the stock unit
+  fulfilledQuantity: number;
+  status: RequisitionLineStatus;
+  employeeId?: string; // EPI items: employee the EPI is for
+  rejectionReason?: string;
+}
+
+// Material request with several items, fulfilled by the warehouse through exits.
+export interface Requisition {
+  id: string;
+  number: string; // 'REQ-0001', assigned on creation
+  createdAt: string; // ISO string
+  requesterId: string;
+  requesterName: string;
+  department: string; // Cost center name, or free text on requisitions created before cost centers
+  costCenterId?: string;
+  observations?: string;
+  lines: RequisitionLine[];
+  status: RequisitionStatus;
+  cancelledAt?: string; // ISO string
+  cancelledByName?: string;
+  cancelReason?: string;
+}
+
+// Requisition data supplied by the form; number, requester and statuses are filled in on creation.
+export type NewRequisition = Pick<Requisition, 'department' | 'costCenterId' | 'observations'> & {
+  lines: Pick<RequisitionLine, 'itemId' | 'quantity' | 'employeeId'>[];
+};
+
+// What the warehouse delivers or rejects in one pass. Lines are referenced by index.
+export interface RequisitionFulfilment {
+  responsible: string; // Who collected the material
+  lines: { index: number; quantity: number; serials?: string[] }[];
+  rejections?: { index: number; reason: string }[];
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partial' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  itemId: string;
+  quantity: number; // Ordered, in the stock unit
+  unitPrice: number; // Agreed price per stock unit
+  receivedQuantity: number;
+}
+
+// Order placed with one supplier. Drafts can still be edited; once sent, the pending
+// quantities count as on the way.
+export interface PurchaseOrder {
+  id: string;
+  number: string; // 'PC-0001', assigned on creation
+  supplierId: string;
+  createdAt: string; // ISO string
+  createdById: string;
+  createdByName: string;
+  expectedDate: string; // 'YYYY-MM-DD', expected delivery
+  notes?: string;
+  lines: PurchaseOrderLine[];
+  status: PurchaseOrderStatus;
+  sentAt?: string; // ISO string
+  cancelledAt?: string; // ISO string
+  cancelledByName?: string;
+  cancelReason?: string;
+}
+
+// Order data supplied by the form; number, author and statuses are filled in on creation.
+export type NewPurchaseOrder = Pick<PurchaseOrder, 'supplierId' | 'expectedDate' | 'notes'> & {
+  lines: Pick<PurchaseOrderLine, 'itemId' | 'quantity' | 'unitPrice'>[];
+};
+
+// Goods received against a sent order, as on the supplier's invoice. Lines refer to the
+// order lines by index; quantities are in the stock unit.
+export interface PurchaseOrderReceipt {
+  invoice: string;
+  observations?: string;
+  lines: {
+    index: number;
+    quantity: number;
+    unitPrice: number; // Invoiced price per stock unit
+    lot?: string;
+    manufacturingDate?: string;
+    expiryDate?: string;
+    serials?: string[];
+  }[];
+  confirmOverReceipt?: boolean; // Required to receive more than is pending on a line
+}
+
+// A supplier invoice entered as one document: its header and the lines received. Freight
+// and taxes are for the whole invoice.
+export interface GoodsReceipt {
+  supplierId: string;
+  invoice: string;
+  invoiceDate: string; // 'YYYY-MM-DD'
+  invoiceTotal: number;
+  freight?: number;
+  taxes?: number;
+  observations?: string;
+  lines: GoodsReceiptLine[];
+}
+
+export interface GoodsReceiptLine {
+  itemId: string;
+  quantity: number; // In the line unit
+  unit?: string; // Item unit the line is in; the stock unit when missing
+  unitCost: number; // Per line unit
+  lot?: string;
+  manufacturingDate?: string;
+  expiryDate?: string;
+  serials?: string[];
 }
 
+// Header and product lines read from an NF-e XML.
+export interface NfeInvoice {
+  key: string; // Access key (chave de acesso), 44 digits
+  number: string;
+  series: string;
+  issueDate: string; // 'YYYY-MM-DD'
+  emitterCnpj: string; // Digits only
+  emitterName: string;
+  total: number; // vNF
+  lines: NfeLine[];
+}
+
+export interface NfeLine {
+  code: string; // Supplier's product code (cProd)
+  description: string;
+  unit: string; // As invoiced (uCom)
+  quantity: number;
+  unitValue: number; // Net of the line discount
+  freight: number;
+  taxes: number; // IPI and ICMS-ST, which go into the cost
+  lot?: string; // From the traceability group (rastro), when present
+  manufacturingDate?: string;
+  expiryDate?: string;
+}
+
+// An NF-e to be entered: the item and unit chosen for each line, by index. Lines left
+// out are not entered.
+export interface InvoiceImport {
+  invoice: NfeInvoice;
+  supplierId: string;
+  lines: {
+    index: number;
+    itemId: string;
+    unit: string; // Item unit the invoiced quantity is in
+    lot?: string;
+    manufacturingDate?: string;
+    expiryDate?: string;
+    serials?: string[];
+  }[];
+}
+
+export type LoanCondition = 'good' | 'worn' | 'damaged';
+
+// A tool lent to a worker. It stays in stock while out, and is returned by check-in.
+export interface ToolLoan {
+  id: string;
+  itemId: string;
+  quantity: number; // In the stock unit
+  serials?: string[]; // Serialized items: the units lent
+  worker: string; // Name of the worker who took the tool
+  checkedOutAt: string; // ISO string
+  expectedReturnDate: string; // 'YYYY-MM-DD'
+  checkOutUserId: string;
+  checkOutUserName: string;
+  observations?: string;
+  // Set on check-in.
+  returnedAt?: string; // ISO string
+  returnUserId?: string;
+  returnUserName?: string;
+  returnCondition?: LoanCondition;
+  returnNotes?: string;
+}
+
+// Check-out data supplied by the form; id, dates of record and user are filled in on registration.
+export type NewToolLoan = Pick<ToolLoan, 'itemId' | 'quantity' | 'serials' | 'worker' | 'expectedReturnDate' | 'observations'>;
+
+export interface ToolLoanReturn {
+  condition: LoanCondition;
+  notes?: string;
+}
+
+export interface InventoryCountLine {
+  itemId: string;
+  location?: string; // Set when only one location was counted
+  systemQuantity: number;
+  countedQuantity: number;
+}
+
+export interface InventorySession {
+  id: string;
+  timestamp: string; // ISO string
+  userId: string;
+  userName: string;
+  lines: InventoryCountLine[]; // Only the lines that produced an adjustment
+}
+
+export type AuditEventType =
+  | 'login'
+  | 'logout'
+  | 'session_timeout'
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'password_changed'
+  | 'password_reset'
+  | 'user_created';
+
 export interface AuditLog {
   id: string;
   timestamp: string; // ISO string
   userId: string;
   userName: string;
   action: string;
+  // Set for security events; regular operations only carry the action text.
+  eventType?: AuditEventType;
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { Item, Category, ApprovalRule, ApprovalRuleKind, ExitApproval, ExitApprovalStatus, NewMovement } from '../types';
+import { toStockUnit } from './movements';
+import { formatCurrency } from './costing';
+import { formatEnteredQuantity } from './units';
+
+export class ApprovalError extends Error {}
+
+export const APPROVAL_RULE_KIND_LABELS: Record<ApprovalRuleKind, string> = {
+    exit_value: 'Valor da saída acima de (R$)',
+    category: 'Itens da categoria',
+    stock_share: 'Percentual do estoque acima de (%)',
+};
+
+export const EXIT_APPROVAL_STATUS_LABELS: Record<ExitApprovalStatus, string> = {
+    pending: 'Aguardando aprovação',
+    approved: 'Aprovada',
+    rejected: 'Recusada',
+};
+
+export const EXIT_APPROVAL_STATUS_BADGE_CLASSES: Record<ExitApprovalStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+};
+
+export const isApprovalRuleActive = (rule: ApprovalRule): boolean => rule.active !== false;
+
+export const describeApprovalRule = (rule: ApprovalRule, categories: Category[]): string => {
+    switch (rule.kind) {
+        case 'exit_value':
+            return `Saídas acima de ${formatCurrency(rule.threshold ?? 0)}`;
+        case 'category':
+            return `Saídas da categoria ${categories.find(category => category.id === rule.categoryId)?.name ?? rule.categoryId}`;
+        case 'stock_share':
+            return `Saídas de mais de ${(rule.threshold ?? 0).toLocaleString('pt-BR')}% do estoque do item`;
+    }
+};
+
+export const getApprovalRuleError = (rule: ApprovalRule, categories: Category[]): string | null => {
+    if (!APPROVAL_RULE_KIND_LABELS[rule.kind]) return 'Selecione o tipo da regra.';
+    if (rule.kind === 'category') {
+        return categories.some(category => category.id === rule.categoryId) ? null : 'Selecione uma categoria cadastrada.';
+    }
+    if (!(rule.threshold !== undefined && rule.threshold > 0)) return 'O limite da regra deve ser maior que zero.';
+    if (rule.kind === 'stock_share' && rule.threshold > 100) return 'O percentual do estoque deve ser de até 100%.';
+    return null;
+};
+
+/**
+ * Why the exit needs approval: one message per active rule it matches, empty when it can
+ * be registered directly. The value is taken at the item's average cost and the share
+ * against its current stock, both in the stock unit.
+ */
+export const getApprovalReasons = (item: Item, movement: NewMovement, rules: ApprovalRule[]): string[] => {
+    if (movement.type !== 'exit') return [];
+    const quantity = toStockUnit(item, movement).quantity;
+    return rules.filter(isApprovalRuleActive).flatMap(rule => {
+        switch (rule.kind) {
+            case 'exit_value': {
+                const value = quantity * item.avgUnitValue;
+                return value > (rule.threshold ?? Infinity) ? [`Valor da saída (${formatCurrency(value)}) acima de ${formatCurrency(rule.threshold!)}.`] : [];
+            }
+            case 'category':
+                return item.categoryId === rule.categoryId ? [`Item da categoria ${item.category}.`] : [];
+            case 'stock_share': {
+                const share = item.stockQuantity > 0 ? quantity / item.stockQuantity * 100 : 100;
+                return share > (rule.threshold ?? Infinity) ? [`Saída de ${share.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}% do estoque, acima de ${rule.threshold!.toLocaleString('pt-BR')}%.`] : [];
+            }
+        }
+    });
+};
+
+// Why the first of the exits cannot be registered by a user who cannot approve it, or
+// null when none needs approval.
+export const getUnapprovedExitError = (movements: NewMovement[], items: Item[], rules: ApprovalRule[]): string | null => {
+    for (const movement of movements) {
+        const item = items.find(i => i.id === movement.itemId);
+        const reasons = item ? getApprovalReasons(item, movement, rules) : [];
+        if (reasons.length > 0) return `A saída do item ${item!.code} precisa de aprovação: ${reasons.join(' ')}`;
+    }
+    return null;
+};
+
+export const buildExitApproval = (movement: NewMovement, reasons: string[], user: { id: string; name: string }, id: string): ExitApproval => ({
+    id,
+    movement,
+    reasons,
+    requestedAt: new Date().toISOString(),
+    requestedById: user.id,
+    requestedByName: user.name,
+    status: 'pending',
+});
+
+// "10 UN (2 CX) do item PAR-001 - Parafuso sextavado", for the list and the audit log.
+export const describeApprovalExit = (approval: ExitApproval, item: Item | undefined): string => {
+    const typed = formatEnteredQuantity(approval.movement);
+    return `${approval.movement.quantity.toLocaleString('pt-BR')} ${item?.unit ?? ''}${typed ? ` (${typed})` : ''} do item ${item ? `${item.code} - ${item.description}` : approval.movement.itemId}`;
+};
+
+// Audit log entry for a decided approval, with the approver's notes or reason.
+export const describeExitDecision = (approval: ExitApproval, item: Item | undefined): string => {
+    const notesText = approval.decisionNotes ? ` ${approval.status === 'approved' ? 'Observações' : 'Motivo'}: ${approval.decisionNotes}` : '';
+    return `${approval.status === 'approved' ? 'Aprovou' : 'Recusou'} a saída de ${describeApprovalExit(approval, item)} solicitada por ${approval.requestedByName}.${notesText}`;
+};
+
+// Rejections must say why; approval notes are optional.
+export const decideExitApproval = (approval: ExitApproval, approved: boolean, notes: string | undefined, user: { id: string; name: string }): ExitApproval => {
+    if (approval.status !== 'pending') {
+        throw new ApprovalError(`Esta saída já foi ${approval.status === 'approved' ? 'aprovada' : 'recusada'}.`);
+    }
+    if (!approved && !notes?.trim()) {
+        throw new ApprovalError('Informe o motivo da recusa.');
+    }
+    return {
+        ...approval,
+        status: approved ? 'approved' : 'rejected',
+        decidedAt: new Date().toISOString(),
+        decidedById: user.id,
+        decidedByName: user.name,
+        ...(notes?.trim() ? { decisionNotes: notes.trim() } : {}),
+    };
+};
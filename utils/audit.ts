@@ -0,0 +1,23 @@
+import { AuditEventType } from '../types';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+    login: 'Login',
+    logout: 'Logout',
+    session_timeout: 'Sessão expirada',
+    account_locked: 'Conta bloqueada',
+    account_unlocked: 'Conta desbloqueada',
+    password_changed: 'Senha alterada',
+    password_reset: 'Senha redefinida',
+    user_created: 'Usuário criado',
+};
+
+export const AUDIT_EVENT_BADGE_CLASSES: Record<AuditEventType, string> = {
+    login: 'bg-blue-100 text-blue-800',
+    logout: 'bg-gray-100 text-gray-800',
+    session_timeout: 'bg-yellow-100 text-yellow-800',
+    account_locked: 'bg-red-100 text-red-800',
+    account_unlocked: 'bg-green-100 text-green-800',
+    password_changed: 'bg-purple-100 text-purple-800',
+    password_reset: 'bg-purple-100 text-purple-800',
+    user_created: 'bg-indigo-100 text-indigo-800',
+};
@@ -0,0 +1,133 @@
+import { Item, Category, UnitOfMeasurement } from '../types';
+
+type CatalogItem = Pick<Item, 'category' | 'categoryId' | 'unit' | 'unitId' | 'unitConversions'>;
+
+// Records without the flag were created before categories and units could be deactivated.
+export const isCatalogEntryActive = (entry: Category | UnitOfMeasurement): boolean => entry.active !== false;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findCategoryByName = (categories: Category[], name: string) => categories.find(category => sameText(category.name, name));
+
+export const findUnitByAbbreviation = (units: UnitOfMeasurement[], abbreviation: string) => units.find(unit => sameText(unit.abbreviation, abbreviation));
+
+export const countItemsWithCategory = (categoryId: string, items: CatalogItem[]) => items.filter(item => item.categoryId === categoryId).length;
+
+// Counts the items stocked in the unit or converting to it.
+export const countItemsWithUnit = (unitId: string, items: CatalogItem[]) => {
+    return items.filter(item => item.unitId === unitId || item.unitConversions?.some(conversion => conversion.unitId === unitId)).length;
+};
+
+export const getCategoryValidationError = (incoming: Category, categories: Category[]): string | null => {
+    const name = incoming.name?.trim();
+    if (!name) return 'O nome da categoria é obrigatório.';
+    if (categories.some(category => category.id !== incoming.id && sameText(category.name, name))) {
+        return `Já existe uma categoria chamada "${name}".`;
+    }
+    return null;
+};
+
+export const getUnitValidationError = (incoming: UnitOfMeasurement, units: UnitOfMeasurement[]): string | null => {
+    const name = incoming.name?.trim();
+    const abbreviation = incoming.abbreviation?.trim();
+    if (!name || !abbreviation) return 'O nome e a sigla da unidade são obrigatórios.';
+    if (units.some(unit => unit.id !== incoming.id && sameText(unit.abbreviation, abbreviation))) {
+        return `Já existe uma unidade com a sigla "${abbreviation}".`;
+    }
+    return null;
+};
+
+export const getCategoryRemovalError = (category: Category, items: CatalogItem[]): string | null => {
+    const count = countItemsWithCategory(category.id, items);
+    return count > 0 ? `A categoria ${category.name} está em uso por ${count} ${count > 1 ? 'itens' : 'item'} e não pode ser excluída.` : null;
+};
+
+export const getUnitRemovalError = (unit: UnitOfMeasurement, items: CatalogItem[]): string | null => {
+    const count = countItemsWithUnit(unit.id, items);
+    return count > 0 ? `A unidade ${unit.abbreviation} está em uso por ${count} ${count > 1 ? 'itens' : 'item'} e não pode ser excluída.` : null;
+};
+
+/**
+ * Why the item cannot be saved with its category and unit, or null if it can. Both must
+ * be registered; a category or unit that was deactivated can be kept but not chosen.
+ */
+export const getItemCatalogError = (item: CatalogItem, categories: Category[], units: UnitOfMeasurement[], previous?: CatalogItem): string | null => {
+    const category = categories.find(c => c.id === item.categoryId);
+    if (!category) return 'Selecione uma categoria cadastrada.';
+    if (!isCatalogEntryActive(category) && previous?.categoryId !== category.id) return `A categoria ${category.name} está inativa.`;
+    const unit = units.find(u => u.id === item.unitId);
+    if (!unit) return 'Selecione uma unidade de medida cadastrada.';
+    if (!isCatalogEntryActive(unit) && previous?.unitId !== unit.id) return `A unidade ${unit.abbreviation} está inativa.`;
+    return null;
+};
+
+// Items keep a copy of the category name and unit abbreviations for display, refreshed
+// from the referenced records. Only the items that changed are returned.
+export const refreshCatalogNames = <T extends CatalogItem>(items: T[], categories: Category[], units: UnitOfMeasurement[]): T[] => {
+    const abbreviationOf = (unitId: string, current: string) => units.find(u => u.id === unitId)?.abbreviation ?? current;
+    return items.flatMap(item => {
+        const category = categories.find(c => c.id === item.categoryId)?.name ?? item.category;
+        const unit = abbreviationOf(item.unitId, item.unit);
+        const conversionsChanged = item.unitConversions?.some(conversion => abbreviationOf(conversion.unitId, conversion.unit) !== conversion.unit);
+        if (category === item.category && unit === item.unit && !conversionsChanged) return [];
+        return [{
+            ...item,
+            category,
+            unit,
+            ...(conversionsChanged ? {
+                unitConversions: item.unitConversions!.map(conversion => ({ ...conversion, unit: abbreviationOf(conversion.unitId, conversion.unit) })),
+            } : {}),
+        }];
+    });
+};
+
+// Moves the items of the source category to the target; returns the items that changed.
+export const moveItemsToCategory = <T extends CatalogItem>(items: T[], sourceId: string, target: Category): T[] => {
+    return items
+        .filter(item => item.categoryId === sourceId)
+        .map(item => ({ ...item, categoryId: target.id, category: target.name }));
+};
+
+// Same for units, including the conversions to the source unit. Quantities are not
+// converted: merging is meant for duplicated units. A conversion that would end up in
+// the stock unit, or repeat another one, is dropped.
+export const moveItemsToUnit = <T extends CatalogItem>(items: T[], sourceId: string, target: UnitOfMeasurement): T[] => {
+    return items
+        .filter(item => item.unitId === sourceId || item.unitConversions?.some(conversion => conversion.unitId === sourceId))
+        .map(item => {
+            const unitId = item.unitId === sourceId ? target.id : item.unitId;
+            const unitConversions = item.unitConversions
+                ?.map(conversion => conversion.unitId === sourceId ? { ...conversion, unitId: target.id, unit: target.abbreviation } : conversion)
+                .filter((conversion, index, all) => conversion.unitId !== unitId && all.findIndex(c => c.unitId === conversion.unitId) === index);
+            return {
+                ...item,
+                unitId,
+                unit: item.unitId === sourceId ? target.abbreviation : item.unit,
+                ...(unitConversions ? { unitConversions } : {}),
+            };
+        });
+};
+
+/**
+ * Sets the category and unit ids of items that only have the names (data created before
+ * items referenced them by id, or older backups). Names that are not registered become
+ * new categories and units, so no item is left without one.
+ */
+export const linkItemsToCatalog = <T extends CatalogItem>(items: T[], categories: Category[], units: UnitOfMeasurement[]) => {
+    const linkedCategories = [...categories];
+    const linkedUnits = [...units];
+    const linkedItems = items.map(item => {
+        let category = linkedCategories.find(c => c.id === item.categoryId) ?? findCategoryByName(linkedCategories, item.category);
+        if (!category) {
+            category = { id: `category-${Date.now()}-${linkedCategories.length}`, name: item.category.trim() };
+            linkedCategories.push(category);
+        }
+        let unit = linkedUnits.find(u => u.id === item.unitId) ?? findUnitByAbbreviation(linkedUnits, item.unit);
+        if (!unit) {
+            unit = { id: `unit-${Date.now()}-${linkedUnits.length}`, name: item.unit.trim(), abbreviation: item.unit.trim() };
+            linkedUnits.push(unit);
+        }
+        return { ...item, categoryId: category.id, category: category.name, unitId: unit.id, unit: unit.abbreviation };
+    });
+    return { items: linkedItems, categories: linkedCategories, units: linkedUnits };
+};
@@ -0,0 +1,92 @@
+import { CostCenter, EntryExitRecord } from '../types';
+import { formatCurrency } from './costing';
+import { isReversed } from './movements';
+
+export const isCostCenterActive = (costCenter: CostCenter): boolean => costCenter.active !== false;
+
+export const formatCostCenter = (costCenter: CostCenter): string => `${costCenter.code} - ${costCenter.name}`;
+
+export const getCostCenterValidationError = (incoming: CostCenter, costCenters: CostCenter[]): string | null => {
+    const code = incoming.code?.trim();
+    if (!code || !incoming.name?.trim()) return 'O código e o nome do centro de custo são obrigatórios.';
+    if (costCenters.some(costCenter => costCenter.id !== incoming.id && costCenter.code.trim() === code)) {
+        return `Já existe um centro de custo com o código ${code}.`;
+    }
+    if (incoming.monthlyBudget !== undefined && !(incoming.monthlyBudget > 0)) return 'O orçamento mensal deve ser maior que zero.';
+    return null;
+};
+
+// Consumption already charged to the cost center must stay attributable, so it is
+// deactivated instead of removed.
+export const getCostCenterRemovalError = (costCenter: CostCenter, history: EntryExitRecord[]): string | null => {
+    const count = history.filter(record => record.costCenterId === costCenter.id).length;
+    return count > 0 ? `O centro de custo ${costCenter.name} possui ${count} ${count > 1 ? 'saídas registradas' : 'saída registrada'} e não pode ser excluído. Desative-o.` : null;
+};
+
+// Why exits cannot be charged to the cost center, or null if they can.
+export const getExitCostCenterError = (costCenter: CostCenter | undefined): string | null => {
+    if (!costCenter) return 'Centro de custo não encontrado.';
+    return isCostCenterActive(costCenter) ? null : `O centro de custo ${costCenter.name} está inativo.`;
+};
+
+// 'YYYY-MM' of a movement date.
+export const getMonthKey = (date: string): string => date.slice(0, 7);
+
+export const formatMonth = (month: string): string => {
+    const [year, monthNumber] = month.split('-');
+    return `${monthNumber}/${year}`;
+};
+
+// Consumed value of an exit, at the average cost when it left.
+export const getExitValue = (record: Pick<EntryExitRecord, 'quantity' | 'unitCost'>): number => record.quantity * (record.unitCost ?? 0);
+
+export const getMonthlyConsumption = (history: EntryExitRecord[], costCenterId: string, month: string): number => {
+    return history
+        .filter(record => record.type === 'exit' && record.costCenterId === costCenterId && getMonthKey(record.date) === month && !isReversed(record))
+        .reduce((sum, record) => sum + getExitValue(record), 0);
+};
+
+export interface CostCenterConsumption {
+    costCenterId?: string; // Missing for exits not charged to a cost center
+    month: string;
+    value: number;
+    items: { itemId: string; quantity: number; value: number }[];
+}
+
+/**
+ * Consumed value per cost center and month, with the items that make it up; reversed
+ * exits are left out. Sorted by month, most recent first, then by value.
+ */
+export const getConsumptionByCostCenter = (exits: EntryExitRecord[]): CostCenterConsumption[] => {
+    const groups = new Map<string, CostCenterConsumption>();
+    exits.filter(record => record.type === 'exit' && !isReversed(record)).forEach(record => {
+        const month = getMonthKey(record.date);
+        const key = `${record.costCenterId ?? ''}|${month}`;
+        const group = groups.get(key) ?? { costCenterId: record.costCenterId, month, value: 0, items: [] };
+        const value = getExitValue(record);
+        group.value += value;
+        const line = group.items.find(i => i.itemId === record.itemId);
+        if (line) {
+            line.quantity += record.quantity;
+            line.value += value;
+        } else {
+            group.items.push({ itemId: record.itemId, quantity: record.quantity, value });
+        }
+        groups.set(key, group);
+    });
+    return [...groups.values()]
+        .map(group => ({ ...group, items: group.items.sort((a, b) => b.value - a.value) }))
+        .sort((a, b) => b.month.localeCompare(a.month) || b.value - a.value);
+};
+
+/**
+ * Warning shown when an exit of the given value takes the cost center over its monthly
+ * budget; null when it has no budget or stays within it. Budgets only warn, exits are
+ * not blocked.
+ */
+export const getBudgetWarning = (costCenter: CostCenter, history: EntryExitRecord[], exitValue: number, month: string): string | null => {
+    if (!costCenter.monthlyBudget) return null;
+    const consumed = getMonthlyConsumption(history, costCenter.id, month);
+    if (consumed + exitValue <= costCenter.monthlyBudget) return null;
+    return `Esta saída (${formatCurrency(exitValue)}) ultrapassa o orçamento mensal de ${costCenter.name}: ${formatCurrency(consumed)} já consumidos de ${formatCurrency(costCenter.monthlyBudget)}.`;
+};
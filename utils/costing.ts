@@ -0,0 +1,34 @@
+export interface ReceiptCost {
+    quantity: number;
+    unitCost: number;
+    freight?: number;
+    taxes?: number;
+}
+
+// Landed cost of a receipt line: goods plus the freight and taxes charged on the invoice.
+export const getReceiptTotalCost = ({ quantity, unitCost, freight = 0, taxes = 0 }: ReceiptCost): number => {
+    return quantity * unitCost + freight + taxes;
+};
+
+// Moving weighted average cost after receiving goods. When there is no positive
+// balance on hand the previous average is meaningless, so the landed unit cost is used.
+export const calculateWeightedAverageCost = (currentQuantity: number, currentAvgCost: number, receipt: ReceiptCost): number => {
+    const receiptTotal = getReceiptTotalCost(receipt);
+    if (currentQuantity <= 0) {
+        return receipt.quantity > 0 ? receiptTotal / receipt.quantity : currentAvgCost;
+    }
+    const newQuantity = currentQuantity + receipt.quantity;
+    return (currentQuantity * currentAvgCost + receiptTotal) / newQuantity;
+};
+
+// Average cost after a reversal takes out or puts back goods at the cost they moved with,
+// undoing their effect on the average. Kept as it is when nothing is left in stock.
+export const calculateReversalAverageCost = (currentQuantity: number, currentAvgCost: number, delta: number, unitCost: number): number => {
+    const newQuantity = currentQuantity + delta;
+    if (newQuantity <= 0) return currentAvgCost;
+    return Math.max(0, (currentQuantity * currentAvgCost + delta * unitCost) / newQuantity);
+};
+
+export const roundCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const formatCurrency = (value: number): string => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
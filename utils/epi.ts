@@ -0,0 +1,100 @@
+import { Item, Employee, EntryExitRecord, EpiCertificate } from '../types';
+import { getToday, addDays } from './lots';
+import { isReversed } from './movements';
+
+export type CaStatus = 'valid' | 'expiring' | 'expired';
+
+// A CA expiring within these days is flagged before it expires.
+export const CA_WARNING_DAYS = 30;
+
+export const CA_STATUS_LABELS: Record<CaStatus, string> = {
+    valid: 'CA válido',
+    expiring: 'CA a vencer',
+    expired: 'CA vencido',
+};
+
+export const CA_STATUS_BADGE_CLASSES: Record<CaStatus, string> = {
+    valid: 'bg-green-100 text-green-800',
+    expiring: 'bg-yellow-100 text-yellow-800',
+    expired: 'bg-red-100 text-red-800',
+};
+
+export const isEmployeeActive = (employee: Employee): boolean => employee.active !== false;
+
+// A CA without an expiry date is taken as valid.
+export const getCaStatus = (epi: EpiCertificate, today = getToday()): CaStatus => {
+    if (!epi.caExpiryDate) return 'valid';
+    if (epi.caExpiryDate < today) return 'expired';
+    return epi.caExpiryDate <= addDays(today, CA_WARNING_DAYS) ? 'expiring' : 'valid';
+};
+
+export const getItemsWithExpiredCa = (items: Item[], today = getToday()): Item[] => {
+    return items.filter(item => item.epi && getCaStatus(item.epi, today) === 'expired');
+};
+
+export const getEpiCertificateError = (epi: EpiCertificate | undefined): string | null => {
+    if (!epi) return null;
+    if (!epi.caNumber?.trim()) return 'Informe o número do CA (Certificado de Aprovação) do EPI.';
+    if (epi.replacementDays !== undefined && !(epi.replacementDays > 0)) return 'A periodicidade de troca do EPI deve ser maior que zero.';
+    return null;
+};
+
+export const getEmployeeValidationError = (incoming: Employee, employees: Employee[]): string | null => {
+    const name = incoming.name?.trim();
+    const registration = incoming.registration?.trim();
+    if (!name || !registration) return 'O nome e a matrícula do colaborador são obrigatórios.';
+    if (employees.some(employee => employee.id !== incoming.id && employee.registration.trim() === registration)) {
+        return `Já existe um colaborador com a matrícula ${registration}.`;
+    }
+    return null;
+};
+
+// Deliveries are the proof required by NR-6, so employees who received EPI are
+// deactivated instead of removed.
+export const getEmployeeRemovalError = (employee: Employee, history: EntryExitRecord[]): string | null => {
+    const count = history.filter(record => record.employeeId === employee.id).length;
+    return count > 0 ? `O colaborador ${employee.name} possui ${count} ${count > 1 ? 'entregas de EPI registradas' : 'entrega de EPI registrada'} e não pode ser excluído. Desative-o.` : null;
+};
+
+// Why the employee cannot receive EPI, or null if they can.
+export const getDeliveryEmployeeError = (employee: Employee | undefined): string | null => {
+    if (!employee) return 'Colaborador não encontrado.';
+    return isEmployeeActive(employee) ? null : `O colaborador ${employee.name} está inativo.`;
+};
+
+// EPI delivered to the employee, most recent first. Reversed deliveries are left out.
+export const getEpiDeliveries = (history: EntryExitRecord[], employeeId: string): EntryExitRecord[] => {
+    return history
+        .filter(record => record.type === 'exit' && record.employeeId === employeeId && !isReversed(record))
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export interface EpiReplacement {
+    employee: Employee;
+    item: Item;
+    lastDelivery: string;
+    dueDate: string;
+}
+
+/**
+ * EPI due for replacement: for each active employee and item with a replacement period,
+ * the last delivery is older than the period. Sorted by due date, oldest first.
+ */
+export const getDueReplacements = (history: EntryExitRecord[], items: Item[], employees: Employee[], today = getToday()): EpiReplacement[] => {
+    const latest = new Map<string, EntryExitRecord>();
+    history.forEach(record => {
+        if (record.type !== 'exit' || !record.employeeId || isReversed(record)) return;
+        const key = `${record.employeeId}|${record.itemId}`;
+        const current = latest.get(key);
+        if (!current || record.date > current.date) latest.set(key, record);
+    });
+    return [...latest.values()]
+        .flatMap(record => {
+            const item = items.find(i => i.id === record.itemId);
+            const employee = employees.find(e => e.id === record.employeeId);
+            if (!item?.epi?.replacementDays || !employee || !isEmployeeActive(employee)) return [];
+            const dueDate = addDays(record.date, item.epi.replacementDays);
+            return dueDate <= today ? [{ employee, item, lastDelivery: record.date, dueDate }] : [];
+        })
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+};
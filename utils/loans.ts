@@ -0,0 +1,143 @@
+import { Item, ToolLoan, NewToolLoan, ToolLoanReturn, LoanCondition } from '../types';
+import { getToday } from './lots';
+import { findDuplicateSerial, setSerialStatus } from './serials';
+
+export class LoanError extends Error {}
+
+export type LoanStatus = 'open' | 'overdue' | 'returned';
+
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+    open: 'Emprestada',
+    overdue: 'Em atraso',
+    returned: 'Devolvida',
+};
+
+export const LOAN_STATUS_BADGE_CLASSES: Record<LoanStatus, string> = {
+    open: 'bg-blue-100 text-blue-800',
+    overdue: 'bg-red-100 text-red-800',
+    returned: 'bg-gray-100 text-gray-800',
+};
+
+export const LOAN_CONDITION_LABELS: Record<LoanCondition, string> = {
+    good: 'Bom estado',
+    worn: 'Desgastada',
+    damaged: 'Danificada',
+};
+
+type LendableItem = Pick<Item, 'stockQuantity' | 'loanedQuantity'>;
+
+// Stock that can leave or be lent: loaned units are still counted in stockQuantity.
+export const getAvailableQuantity = (item: LendableItem): number => Math.max(0, item.stockQuantity - (item.loanedQuantity ?? 0));
+
+export const getLoanStatus = (loan: ToolLoan, today = getToday()): LoanStatus => {
+    if (loan.returnedAt) return 'returned';
+    return loan.expectedReturnDate < today ? 'overdue' : 'open';
+};
+
+// Days past the expected return date; zero for loans returned or still on time.
+export const getDaysOverdue = (loan: ToolLoan, today = getToday()): number => {
+    if (getLoanStatus(loan, today) !== 'overdue') return 0;
+    return Math.round((Date.parse(today) - Date.parse(loan.expectedReturnDate)) / 86_400_000);
+};
+
+/**
+ * The item after lending the requested quantity. Serialized items lend specific units,
+ * one serial per unit, which must be in stock. Throws LoanError when the loan is not
+ * possible.
+ */
+export const checkOutItem = (item: Item, request: NewToolLoan, today = getToday()): Item => {
+    if (!request.worker?.trim()) {
+        throw new LoanError('Informe o colaborador que está retirando a ferramenta.');
+    }
+    if (!(request.quantity > 0)) {
+        throw new LoanError(`A quantidade emprestada do item ${item.code} deve ser maior que zero.`);
+    }
+    if (!request.expectedReturnDate || request.expectedReturnDate < today) {
+        throw new LoanError('Informe uma data prevista de devolução a partir de hoje.');
+    }
+    const available = getAvailableQuantity(item);
+    if (request.quantity > available) {
+        throw new LoanError(`Quantidade emprestada (${request.quantity}) excede o saldo disponível do item ${item.code} (${available}).`);
+    }
+    if (!item.serialTracked) {
+        return { ...item, loanedQuantity: (item.loanedQuantity ?? 0) + request.quantity };
+    }
+
+    const listed = request.serials ?? [];
+    const duplicate = findDuplicateSerial(listed);
+    if (duplicate) {
+        throw new LoanError(`O número de série ${duplicate} foi informado mais de uma vez para o item ${item.code}.`);
+    }
+    if (listed.length !== request.quantity) {
+        throw new LoanError(`Selecione um número de série para cada unidade emprestada do item ${item.code}.`);
+    }
+    const serials = item.serials ?? [];
+    const missing = listed.find(serial => !serials.some(s => s.serial === serial && s.status === 'in_stock'));
+    if (missing) {
+        throw new LoanError(`O número de série ${missing} do item ${item.code} não está disponível em estoque.`);
+    }
+    return {
+        ...item,
+        loanedQuantity: (item.loanedQuantity ?? 0) + request.quantity,
+        serials: setSerialStatus(serials, listed, 'loaned'),
+    };
+};
+
+// The item after the loan comes back: the units are available again.
+export const checkInItem = (item: Item, loan: ToolLoan): Item => {
+    const loanedQuantity = Math.max(0, (item.loanedQuantity ?? 0) - loan.quantity);
+    const returning = (loan.serials ?? []).filter(serial => item.serials?.some(s => s.serial === serial && s.status === 'loaned'));
+    return {
+        ...item,
+        loanedQuantity,
+        ...(item.serials && returning.length > 0 ? { serials: setSerialStatus(item.serials, returning, 'in_stock') } : {}),
+    };
+};
+
+export const buildLoan = (request: NewToolLoan, user: { id: string; name: string }, id: string): ToolLoan => ({
+    id,
+    itemId: request.itemId,
+    quantity: request.quantity,
+    ...(request.serials && request.serials.length > 0 ? { serials: request.serials } : {}),
+    worker: request.worker.trim(),
+    checkedOutAt: new Date().toISOString(),
+    expectedReturnDate: request.expectedReturnDate,
+    checkOutUserId: user.id,
+    checkOutUserName: user.name,
+    ...(request.observations?.trim() ? { observations: request.observations.trim() } : {}),
+});
+
+export const closeLoan = (loan: ToolLoan, data: ToolLoanReturn, user: { id: string; name: string }): ToolLoan => {
+    if (loan.returnedAt) {
+        throw new LoanError('Este empréstimo já foi devolvido.');
+    }
+    if (!data.condition || !LOAN_CONDITION_LABELS[data.condition]) {
+        throw new LoanError('Informe o estado da ferramenta na devolução.');
+    }
+    return {
+        ...loan,
+        returnedAt: new Date().toISOString(),
+        returnUserId: user.id,
+        returnUserName: user.name,
+        returnCondition: data.condition,
+        ...(data.notes?.trim() ? { returnNotes: data.notes.trim() } : {}),
+    };
+};
+
+// Loans of one worker, most recent first. Names are compared ignoring case and spaces
+// around them, as they are typed at each check-out.
+export const getWorkerLoans = (loans: ToolLoan[], worker: string): ToolLoan[] => {
+    const name = worker.trim().toLowerCase();
+    return loans
+        .filter(loan => loan.worker.trim().toLowerCase() === name)
+        .sort((a, b) => b.checkedOutAt.localeCompare(a.checkedOutAt));
+};
+
+export const getWorkerNames = (loans: ToolLoan[]): string[] => {
+    const names = new Map<string, string>();
+    loans.forEach(loan => {
+        const key = loan.worker.trim().toLowerCase();
+        if (!names.has(key)) names.set(key, loan.worker.trim());
+    });
+    return [...names.values()].sort((a, b) => a.localeCompare(b));
+};
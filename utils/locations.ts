@@ -0,0 +1,178 @@
+import { Item, Location, LocationBalance, LocationLevel, LocationStatus } from '../types';
+
+type StockedItem = Pick<Item, 'location' | 'stockQuantity' | 'locationBalances'>;
+
+export const LOCATION_LEVELS: LocationLevel[] = ['warehouse', 'aisle', 'shelf', 'bin'];
+
+export const LOCATION_LEVEL_LABELS: Record<LocationLevel, string> = {
+    warehouse: 'Almoxarifado',
+    aisle: 'Corredor',
+    shelf: 'Prateleira',
+    bin: 'Posição',
+};
+
+export const LOCATION_STATUS_LABELS: Record<LocationStatus, string> = {
+    active: 'Ativa',
+    blocked: 'Bloqueada',
+    inactive: 'Inativa',
+};
+
+export const LOCATION_STATUS_BADGE_CLASSES: Record<LocationStatus, string> = {
+    active: 'bg-green-100 text-green-800',
+    blocked: 'bg-yellow-100 text-yellow-800',
+    inactive: 'bg-gray-100 text-gray-800',
+};
+
+// Level of the locations created under a location of the given level; bins are the last one.
+export const getChildLevel = (level: LocationLevel): LocationLevel | undefined => LOCATION_LEVELS[LOCATION_LEVELS.indexOf(level) + 1];
+
+export const findLocationByName = (locations: Location[], name: string) => locations.find(location => location.name === name);
+
+// "Almoxarifado Central › Corredor A › A1 › A1-01"
+export const getLocationPath = (location: Location, locations: Location[]): string => {
+    const names: string[] = [];
+    let current: Location | undefined = location;
+    while (current && names.length < LOCATION_LEVELS.length) {
+        names.unshift(current.name);
+        current = current.parentId ? locations.find(l => l.id === current!.parentId) : undefined;
+    }
+    return names.join(' › ');
+};
+
+// The location and everything below it.
+export const getDescendantLocations = (location: Location, locations: Location[]): Location[] => {
+    const children = locations.filter(l => l.parentId === location.id);
+    return [location, ...children.flatMap(child => getDescendantLocations(child, locations))];
+};
+
+// Hierarchy in display order: each location followed by its children, sorted by name.
+export const sortLocationTree = (locations: Location[]): Location[] => {
+    const byName = (a: Location, b: Location) => a.name.localeCompare(b.name);
+    const roots = locations.filter(l => !l.parentId || !locations.some(parent => parent.id === l.parentId)).sort(byName);
+    const visit = (location: Location): Location[] => [
+        location,
+        ...locations.filter(l => l.parentId === location.id).sort(byName).flatMap(visit),
+    ];
+    return roots.flatMap(visit);
+};
+
+/**
+ * Why stock cannot move into (`in`) or out of (`out`) the named location, or null if it
+ * can. Only active registered locations receive stock; blocked ones release nothing.
+ * Names that are not registered (older data) can still be emptied.
+ */
+export const getLocationMovementError = (locations: Location[], name: string, direction: 'in' | 'out'): string | null => {
+    const location = findLocationByName(locations, name);
+    if (!location) {
+        return direction === 'in' ? `A localização ${name} não está cadastrada.` : null;
+    }
+    if (location.status === 'blocked') {
+        return `A localização ${name} está bloqueada para movimentações.`;
+    }
+    if (direction === 'in' && location.status === 'inactive') {
+        return `A localização ${name} está inativa.`;
+    }
+    return null;
+};
+
+// Items that never had a per-location balance keep their whole stock at the default location.
+export const getLocationBalances = (item: StockedItem): LocationBalance[] => {
+    if (item.locationBalances) return item.locationBalances;
+    return item.stockQuantity !== 0 ? [{ location: item.location, quantity: item.stockQuantity }] : [];
+};
+
+export const getLocationQuantity = (item: StockedItem, location: string): number => {
+    return getLocationBalances(item).find(balance => balance.location === location)?.quantity ?? 0;
+};
+
+// Default location first, then every other location holding stock.
+export const getItemLocations = (item: StockedItem): string[] => {
+    return [...new Set([item.location, ...getLocationBalances(item).filter(b => b.quantity > 0).map(b => b.location)])];
+};
+
+export const isItemAtLocation = (item: StockedItem, location: string): boolean => getItemLocations(item).includes(location);
+
+// Returns the balances with `delta` added at `location`; locations left empty are dropped.
+export const changeLocationBalance = (balances: LocationBalance[], location: string, delta: number): LocationBalance[] => {
+    const current = balances.find(balance => balance.location === location)?.quantity ?? 0;
+    const others = balances.filter(balance => balance.location !== location);
+    const quantity = current + delta;
+    return quantity !== 0 ? [...others, { location, quantity }] : others;
+};
+
+// Takes `quantity` out of the balances, starting with the preferred location and then
+// the others in order, skipping the excluded ones. The caller checks that the total is enough.
+export const withdrawFromLocations = (balances: LocationBalance[], quantity: number, preferredLocation: string, excluded: string[] = []): LocationBalance[] => {
+    const ordered = balances.filter(balance => !excluded.includes(balance.location)).sort((a, b) => Number(b.location === preferredLocation) - Number(a.location === preferredLocation));
+    let remaining = quantity;
+    let result = balances;
+    for (const balance of ordered) {
+        if (remaining <= 0) break;
+        const taken = Math.min(balance.quantity, remaining);
+        if (taken <= 0) continue;
+        result = changeLocationBalance(result, balance.location, -taken);
+        remaining -= taken;
+    }
+    return result;
+};
+
+export const formatLocationBalances = (item: StockedItem, unit = ''): string => {
+    return getLocationBalances(item)
+        .map(balance => `${balance.location} (${balance.quantity.toLocaleString('pt-BR')}${unit ? ` ${unit}` : ''})`)
+        .join(', ');
+};
+
+// Items that use the location as their default or hold stock there.
+export const isLocationInUse = (name: string, items: StockedItem[]): boolean => {
+    return items.some(item => item.location === name || getLocationQuantity(item, name) !== 0);
+};
+
+// Items may only point to registered locations that have not been retired.
+export const getItemLocationError = (name: string, locations: Location[]): string | null => {
+    const location = findLocationByName(locations, name);
+    if (!location) return `A localização "${name}" não está cadastrada.`;
+    if (location.status === 'inactive') return `A localização "${name}" está inativa.`;
+    return null;
+};
+
+export const getLocationValidationError = (incoming: Location, locations: Location[], items: StockedItem[]): string | null => {
+    const name = incoming.name?.trim();
+    if (!name) return 'O código da localização é obrigatório.';
+    if (!LOCATION_LEVELS.includes(incoming.level)) return 'Nível de localização inválido.';
+    if (!LOCATION_STATUS_LABELS[incoming.status]) return 'Situação da localização inválida.';
+    if (locations.some(l => l.id !== incoming.id && l.name.trim().toLowerCase() === name.toLowerCase())) {
+        return `Já existe uma localização com o código "${name}".`;
+    }
+
+    const parent = incoming.parentId ? locations.find(l => l.id === incoming.parentId) : undefined;
+    if (incoming.level === 'warehouse' ? !!incoming.parentId : !parent || getChildLevel(parent.level) !== incoming.level) {
+        const parentLevel = LOCATION_LEVELS[LOCATION_LEVELS.indexOf(incoming.level) - 1];
+        return parentLevel
+            ? `O nível "${LOCATION_LEVEL_LABELS[incoming.level]}" deve ficar dentro de um(a) "${LOCATION_LEVEL_LABELS[parentLevel]}".`
+            : 'Um almoxarifado não pode ficar dentro de outra localização.';
+    }
+
+    const existing = locations.find(l => l.id === incoming.id);
+    if (existing) {
+        if (existing.name !== name && isLocationInUse(existing.name, items)) {
+            return `A localização ${existing.name} está em uso por itens e não pode ter o código alterado.`;
+        }
+        if (existing.level !== incoming.level && locations.some(l => l.parentId === existing.id)) {
+            return `A localização ${existing.name} possui sublocalizações e não pode mudar de nível.`;
+        }
+    }
+    if (incoming.status === 'inactive' && isLocationInUse(existing?.name ?? name, items)) {
+        return `A localização ${name} tem estoque ou é a localização padrão de itens e não pode ser inativada.`;
+    }
+    return null;
+};
+
+export const getLocationRemovalError = (location: Location, locations: Location[], items: StockedItem[]): string | null => {
+    if (locations.some(l => l.parentId === location.id)) {
+        return `A localização ${location.name} possui sublocalizações e não pode ser excluída.`;
+    }
+    if (isLocationInUse(location.name, items)) {
+        return `A localização ${location.name} está em uso por itens e não pode ser excluída.`;
+    }
+    return null;
+};
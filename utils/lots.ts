@@ -0,0 +1,93 @@
+import { Item, ItemLot, LotQuantity } from '../types';
+
+type LotItem = Pick<Item, 'stockQuantity' | 'lotTracked' | 'lots'>;
+
+// Lot of the stock an item held before its lots were tracked.
+export const NO_LOT = 'SEM LOTE';
+
+export const getToday = () => new Date().toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string => {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+};
+
+// Items that never had a lot keep their whole stock in NO_LOT.
+export const getItemLots = (item: LotItem): ItemLot[] => {
+    if (item.lots) return item.lots;
+    return item.stockQuantity !== 0 ? [{ lot: NO_LOT, quantity: item.stockQuantity }] : [];
+};
+
+export const isLotExpired = (lot: Pick<ItemLot, 'expiryDate'>, today = getToday()): boolean => !!lot.expiryDate && lot.expiryDate < today;
+
+// Days until the lot expires, negative once it has expired; undefined when it does not expire.
+export const getDaysToExpiry = (lot: Pick<ItemLot, 'expiryDate'>, today = getToday()): number | undefined => {
+    if (!lot.expiryDate) return undefined;
+    return Math.round((Date.parse(lot.expiryDate) - Date.parse(today)) / 86_400_000);
+};
+
+// First-expiring-first-out: earliest expiry first, lots without an expiry date last.
+export const sortLotsFefo = (lots: ItemLot[]): ItemLot[] => {
+    const expiryOf = (lot: ItemLot) => lot.expiryDate ?? '9999-12-31';
+    return [...lots].sort((a, b) => expiryOf(a).localeCompare(expiryOf(b)) || a.lot.localeCompare(b.lot));
+};
+
+// Lots `quantity` is taken from in FEFO order, leaving expired lots out unless asked to.
+// The result may add up to less than `quantity`; the caller checks it.
+export const allocateLotsFefo = (lots: ItemLot[], quantity: number, includeExpired = false, today = getToday()): LotQuantity[] => {
+    const allocation: LotQuantity[] = [];
+    let remaining = quantity;
+    for (const lot of sortLotsFefo(lots)) {
+        if (remaining <= 0) break;
+        if (lot.quantity <= 0 || (!includeExpired && isLotExpired(lot, today))) continue;
+        const taken = Math.min(lot.quantity, remaining);
+        allocation.push({ lot: lot.lot, quantity: taken });
+        remaining -= taken;
+    }
+    return allocation;
+};
+
+export const sumLotQuantities = (lots: LotQuantity[]): number => lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+// Returns the lots with `delta` added to the given lot, creating it with the given dates
+// when it is new; lots left empty are dropped.
+export const changeLotBalance = (lots: ItemLot[], lot: Omit<ItemLot, 'quantity'>, delta: number): ItemLot[] => {
+    const current = lots.find(l => l.lot === lot.lot);
+    const others = lots.filter(l => l.lot !== lot.lot);
+    const quantity = (current?.quantity ?? 0) + delta;
+    if (quantity === 0) return others;
+    const manufacturingDate = current?.manufacturingDate ?? lot.manufacturingDate;
+    const expiryDate = current?.expiryDate ?? lot.expiryDate;
+    return [...others, {
+        lot: lot.lot,
+        ...(manufacturingDate ? { manufacturingDate } : {}),
+        ...(expiryDate ? { expiryDate } : {}),
+        quantity,
+    }];
+};
+
+export const formatLotQuantities = (lots: LotQuantity[], unit = ''): string => {
+    return lots.map(lot => `${lot.lot} (${lot.quantity.toLocaleString('pt-BR')}${unit ? ` ${unit}` : ''})`).join(', ');
+};
+
+// Dates are parsed as local days so they do not shift back one day in Brazilian time.
+export const formatLotDate = (date?: string): string => date ? new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR') : '-';
+
+export interface ExpiringLot {
+    item: Item;
+    lot: ItemLot;
+    daysToExpiry: number;
+}
+
+// Lots with stock that expire within `days` days, including the ones already expired,
+// soonest first.
+export const getExpiringLots = (items: Item[], days: number, today = getToday()): ExpiringLot[] => {
+    return items
+        .filter(item => item.lotTracked)
+        .flatMap(item => getItemLots(item).map(lot => ({ item, lot, daysToExpiry: getDaysToExpiry(lot, today) })))
+        .filter((entry): entry is ExpiringLot => entry.lot.quantity > 0 && entry.daysToExpiry !== undefined && entry.daysToExpiry <= days)
+        .sort((a, b) => a.daysToExpiry - b.daysToExpiry);
+};
+
+export const getExpiredLots = (items: Item[], today = getToday()): ExpiringLot[] => getExpiringLots(items, -1, today);
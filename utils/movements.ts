@@ -0,0 +1,376 @@
+import { EntryExitRecord, Item, MovementType, NewMovement, InventoryCountLine, LocationBalance, Location, ItemLot, LotQuantity, ItemSerial } from '../types';
+import { calculateWeightedAverageCost, calculateReversalAverageCost, roundCost } from './costing';
+import { getLocationBalances, getLocationQuantity, changeLocationBalance, withdrawFromLocations, getLocationMovementError } from './locations';
+import { findItemUnit, toStockQuantity } from './units';
+import { findDuplicateSerial, getUnserializedQuantity, setSerialStatus } from './serials';
+import { NO_LOT, getItemLots, allocateLotsFefo, changeLotBalance, sumLotQuantities, isLotExpired } from './lots';
+import { getAvailableQuantity } from './loans';
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+    entry: 'Entrada',
+    exit: 'Saída',
+    adjustment: 'Ajuste',
+    transfer: 'Transferência',
+};
+
+export const MOVEMENT_TYPE_BADGE_CLASSES: Record<MovementType, string> = {
+    entry: 'bg-green-100 text-green-800',
+    exit: 'bg-yellow-100 text-yellow-800',
+    adjustment: 'bg-purple-100 text-purple-800',
+    transfer: 'bg-blue-100 text-blue-800',
+};
+
+// Raised when a movement cannot be applied (unknown item, insufficient stock).
+export class MovementError extends Error {}
+
+// Signed effect of a movement on the item's stock quantity.
+export const getMovementDelta = (record: Pick<EntryExitRecord, 'type' | 'quantity'>): number => {
+    switch (record.type) {
+        case 'entry':
+            return record.quantity;
+        case 'exit':
+            return -record.quantity;
+        case 'adjustment':
+            return record.quantity;
+        case 'transfer': // Moves stock between locations; the total is unchanged
+        default:
+            return 0;
+    }
+};
+
+// Movements cancelled by a reversal. Reversals are never entries or exits, so leaving the
+// reversed movements out of consumption and delivery figures is enough to cancel them there.
+export const isReversed = (record: Pick<EntryExitRecord, 'reversedAt'>): boolean => record.reversedAt !== undefined;
+
+// Stock balance of an item as derived from the movement ledger.
+export const getLedgerBalance = (history: EntryExitRecord[], itemId: string): number => {
+    return history
+        .filter(record => record.itemId === itemId)
+        .reduce((balance, record) => balance + getMovementDelta(record), 0);
+};
+
+export interface KardexLine {
+    record: EntryExitRecord;
+    balance: number;
+    avgCost: number;
+    balanceValue: number;
+}
+
+/**
+ * Stock card of an item: its movements in chronological order with the running balance
+ * and average cost. Records without a cost snapshot (created before costing was tracked)
+ * keep the previous average, or recompute it for entries that carry a unit cost.
+ */
+export const buildKardex = (history: EntryExitRecord[], itemId: string): KardexLine[] => {
+    let balance = 0;
+    let avgCost = 0;
+    return history
+        .filter(record => record.itemId === itemId)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(record => {
+            if (record.avgCostAfter !== undefined) {
+                avgCost = record.avgCostAfter;
+            } else if (record.type === 'entry' && record.unitCost !== undefined) {
+                avgCost = roundCost(calculateWeightedAverageCost(balance, avgCost, {
+                    quantity: record.quantity,
+                    unitCost: record.unitCost,
+                    freight: record.freight,
+                    taxes: record.taxes,
+                }));
+            }
+            balance += getMovementDelta(record);
+            return { record, balance, avgCost, balanceValue: balance * avgCost };
+        });
+};
+
+// Per-location balances of the item after the movement. Entries go to the given location
+// (or the default one); exits without a location draw from the default location first.
+// When registered locations are given, entries, exits and transfers must respect their
+// status; inventory adjustments are corrections and are always accepted.
+const applyToLocations = (item: Item, movement: NewMovement, locations: Location[]): LocationBalance[] => {
+    const balances = getLocationBalances(item);
+    const checkLocation = (name: string, direction: 'in' | 'out') => {
+        const error = locations.length > 0 && movement.type !== 'adjustment' ? getLocationMovementError(locations, name, direction) : null;
+        if (error) throw new MovementError(`${error} (item ${item.code})`);
+    };
+
+    if (movement.type === 'transfer') {
+        const { fromLocation, toLocation, quantity } = movement;
+        if (!fromLocation || !toLocation || fromLocation === toLocation) {
+            throw new MovementError(`Informe localizações de origem e destino diferentes para transferir o item ${item.code}.`);
+        }
+        if (!(quantity > 0)) {
+            throw new MovementError(`A quantidade a transferir do item ${item.code} deve ser maior que zero.`);
+        }
+        checkLocation(fromLocation, 'out');
+        checkLocation(toLocation, 'in');
+        const available = getLocationQuantity(item, fromLocation);
+        if (quantity > available) {
+            throw new MovementError(`Quantidade a transferir (${quantity}) excede o saldo do item ${item.code} em ${fromLocation} (${available}).`);
+        }
+        return changeLocationBalance(changeLocationBalance(balances, fromLocation, -quantity), toLocation, quantity);
+    }
+
+    const delta = getMovementDelta(movement);
+    if (delta >= 0) {
+        const target = movement.location || item.location;
+        checkLocation(target, 'in');
+        return changeLocationBalance(balances, target, delta);
+    }
+    if (!movement.location) {
+        // Stock in blocked locations is left out.
+        const excluded = movement.type === 'adjustment' ? [] : balances
+            .filter(balance => locations.length > 0 && getLocationMovementError(locations, balance.location, 'out'))
+            .map(balance => balance.location);
+        const available = balances.filter(balance => !excluded.includes(balance.location)).reduce((sum, balance) => sum + balance.quantity, 0);
+        if (-delta > available) {
+            const blockedNote = excluded.length > 0 ? '; há estoque em localizações bloqueadas' : '';
+            throw new MovementError(`Quantidade de saída (${-delta}) excede o saldo disponível do item ${item.code} (${available})${blockedNote}.`);
+        }
+        return withdrawFromLocations(balances, -delta, item.location, excluded);
+    }
+    checkLocation(movement.location, 'out');
+    const available = getLocationQuantity(item, movement.location);
+    if (-delta > available) {
+        throw new MovementError(`Quantidade de saída (${-delta}) excede o saldo do item ${item.code} em ${movement.location} (${available}).`);
+    }
+    return changeLocationBalance(balances, movement.location, delta);
+};
+
+// Lots of a lot-tracked item after the movement, and the lots an exit or negative
+// adjustment was taken from. Entries need a lot. Exits take the lots the operator chose
+// or, without them, the lots that are not expired in FEFO order; inventory adjustments
+// write expired lots off too. Lots are kept per item, so transfers do not change them.
+const applyToLots = (item: Item, movement: NewMovement): { lots?: ItemLot[]; taken?: LotQuantity[] } => {
+    const delta = getMovementDelta(movement);
+    if (!item.lotTracked || delta === 0) return { lots: item.lots };
+    const lots = getItemLots(item);
+
+    if (delta > 0) {
+        const lot = movement.lot?.trim();
+        if (!lot) {
+            if (movement.type === 'entry') throw new MovementError(`Informe o lote do item ${item.code}.`);
+            return { lots: changeLotBalance(lots, { lot: NO_LOT }, delta) };
+        }
+        const existing = lots.find(l => l.lot === lot);
+        if (existing?.expiryDate && movement.expiryDate && existing.expiryDate !== movement.expiryDate) {
+            throw new MovementError(`O lote ${lot} do item ${item.code} já está registrado com validade ${existing.expiryDate}.`);
+        }
+        if (movement.manufacturingDate && movement.expiryDate && movement.expiryDate < movement.manufacturingDate) {
+            throw new MovementError(`A validade do lote ${lot} do item ${item.code} é anterior à data de fabricação.`);
+        }
+        return { lots: changeLotBalance(lots, { lot, manufacturingDate: movement.manufacturingDate, expiryDate: movement.expiryDate }, delta) };
+    }
+
+    const quantity = -delta;
+    const chosen = movement.lots?.filter(lot => lot.quantity > 0) ?? [];
+    let taken: LotQuantity[];
+    if (chosen.length > 0) {
+        if (Math.abs(sumLotQuantities(chosen) - quantity) > 1e-6) {
+            throw new MovementError(`A soma dos lotes (${sumLotQuantities(chosen)}) difere da quantidade de saída (${quantity}) do item ${item.code}.`);
+        }
+        for (const lot of chosen) {
+            const available = lots.find(l => l.lot === lot.lot)?.quantity ?? 0;
+            if (lot.quantity > available) {
+                throw new MovementError(`Quantidade do lote ${lot.lot} (${lot.quantity}) excede o saldo do lote no item ${item.code} (${available}).`);
+            }
+        }
+        taken = chosen;
+    } else {
+        taken = allocateLotsFefo(lots, quantity, movement.type === 'adjustment');
+        const available = sumLotQuantities(taken);
+        if (available < quantity) {
+            const expiredNote = lots.some(lot => isLotExpired(lot)) ? '; lotes vencidos só saem se escolhidos manualmente' : '';
+            throw new MovementError(`Quantidade de saída (${quantity}) excede o saldo em lotes válidos do item ${item.code} (${available})${expiredNote}.`);
+        }
+    }
+    return { lots: taken.reduce((result, lot) => changeLotBalance(result, { lot: lot.lot }, -lot.quantity), lots), taken };
+};
+
+// Serial numbers of a serialized item after the movement. Entries register one serial
+// per unit; exits name the serials that leave, and may only leave out units received
+// before the item was serialized. Inventory adjustments may omit them, and transfers do
+// not change them.
+const applyToSerials = (item: Item, movement: NewMovement): ItemSerial[] | undefined => {
+    const delta = getMovementDelta(movement);
+    if (!item.serialTracked || delta === 0) return item.serials;
+    const serials = item.serials ?? [];
+    const listed = movement.serials ?? [];
+    const duplicate = findDuplicateSerial(listed);
+    if (duplicate) {
+        throw new MovementError(`O número de série ${duplicate} foi informado mais de uma vez para o item ${item.code}.`);
+    }
+    if (listed.length > Math.abs(delta)) {
+        throw new MovementError(`Foram informados mais números de série (${listed.length}) que a quantidade (${Math.abs(delta)}) do item ${item.code}.`);
+    }
+    const isInStock = (serial: string) => serials.some(s => s.serial === serial && s.status === 'in_stock');
+
+    if (delta > 0) {
+        if (movement.type === 'entry' && listed.length !== delta) {
+            throw new MovementError(`Informe um número de série para cada unidade do item ${item.code} (${delta} na entrada, ${listed.length} informados).`);
+        }
+        const repeated = listed.find(isInStock);
+        if (repeated) throw new MovementError(`O número de série ${repeated} do item ${item.code} já está em estoque.`);
+        return setSerialStatus(serials, listed, 'in_stock');
+    }
+
+    const missing = listed.find(serial => !isInStock(serial));
+    if (missing) throw new MovementError(`O número de série ${missing} do item ${item.code} não está em estoque.`);
+    if (movement.type === 'exit' && -delta - listed.length > getUnserializedQuantity(item)) {
+        throw new MovementError(`Informe os números de série das unidades do item ${item.code} que estão saindo.`);
+    }
+    return setSerialStatus(serials, listed, 'out');
+};
+
+// Movements typed in another unit of the item are stored in the stock unit; the typed
+// quantity and unit are kept on the record.
+export const toStockUnit = (item: Item, movement: NewMovement): NewMovement => {
+    if (!movement.enteredUnit) return movement;
+    const conversion = findItemUnit(item, movement.enteredUnit);
+    if (!conversion || movement.enteredQuantity === undefined) {
+        throw new MovementError(`O item ${item.code} não possui conversão para a unidade ${movement.enteredUnit}.`);
+    }
+    if (conversion.factor === 1) {
+        const { enteredQuantity, enteredUnit, ...rest } = movement;
+        return { ...rest, quantity: enteredQuantity };
+    }
+    return { ...movement, quantity: toStockQuantity(movement.enteredQuantity, conversion.factor) };
+};
+
+// Movements come from forms, imports and API clients: anything but a finite quantity would
+// corrupt the balances, and only adjustments carry a sign. Costs cannot be negative.
+const getMovementValueError = (movement: NewMovement, item: Item): string | null => {
+    if (!Object.keys(MOVEMENT_TYPE_LABELS).includes(movement.type)) {
+        return `Tipo de movimentação inválido (${movement.type}) para o item ${item.code}.`;
+    }
+    const { quantity } = movement;
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || (movement.type !== 'adjustment' && quantity <= 0)) {
+        return `Quantidade inválida (${quantity}) para o item ${item.code}.`;
+    }
+    const costs = [movement.unitCost, movement.freight, movement.taxes];
+    if (costs.some(cost => cost !== undefined && (typeof cost !== 'number' || !Number.isFinite(cost) || cost < 0))) {
+        return `Custo inválido informado para o item ${item.code}.`;
+    }
+    return null;
+};
+
+/**
+ * Applies stock-changing movements to the given items. Entries with a unit cost
+ * recompute the weighted average cost, and reversals with one undo the effect of the
+ * movement they cancel; every movement gets the cost snapshot stored
+ * on its ledger record. Throws if any movement has an invalid quantity or cost, would
+ * leave an item with negative stock or use a location that is not available, in which
+ * case none of the movements should be committed.
+ */
+export const applyMovements = (items: Item[], movements: NewMovement[], locations: Location[] = []): { items: Item[]; movements: NewMovement[] } => {
+    const updatedItems = new Map<string, Item>();
+    const appliedMovements = movements.map(requested => {
+        const item = updatedItems.get(requested.itemId) ?? items.find(i => i.id === requested.itemId);
+        if (!item) {
+            throw new MovementError(`Item ${requested.itemId} não encontrado.`);
+        }
+        const movement = toStockUnit(item, requested);
+        const valueError = getMovementValueError(movement, item);
+        if (valueError) throw new MovementError(valueError);
+
+        const avgCostBefore = item.avgUnitValue;
+        const avgCostAfter = movement.type === 'entry' && movement.unitCost !== undefined
+            ? roundCost(calculateWeightedAverageCost(item.stockQuantity, item.avgUnitValue, {
+                quantity: movement.quantity,
+                unitCost: movement.unitCost,
+                freight: movement.freight,
+                taxes: movement.taxes,
+            }))
+            : movement.reversalOfId && movement.unitCost !== undefined
+                ? roundCost(calculateReversalAverageCost(item.stockQuantity, item.avgUnitValue, getMovementDelta(movement), movement.unitCost))
+                : avgCostBefore;
+
+        const newQuantity = item.stockQuantity + getMovementDelta(movement);
+        if (newQuantity < 0) {
+            throw new MovementError(`Quantidade de saída (${movement.quantity}) excede o estoque atual (${item.stockQuantity}) do item ${item.code}.`);
+        }
+        // Loaned tools are still in stock but cannot leave until they are returned.
+        if (movement.type === 'exit' && newQuantity < (item.loanedQuantity ?? 0)) {
+            throw new MovementError(`Quantidade de saída (${movement.quantity}) excede o saldo disponível do item ${item.code} (${getAvailableQuantity(item)}; ${item.loanedQuantity} emprestadas).`);
+        }
+
+        if (item.epi && movement.type === 'exit' && !movement.employeeId) {
+            throw new MovementError(`Informe o colaborador que recebe o EPI ${item.code}.`);
+        }
+
+        const { lots, taken } = applyToLots(item, movement);
+        const serials = applyToSerials(item, movement);
+        updatedItems.set(item.id, {
+            ...item,
+            locationBalances: applyToLocations(item, movement, locations),
+            ...(lots ? { lots } : {}),
+            ...(serials ? { serials } : {}),
+            stockQuantity: newQuantity,
+            avgUnitValue: avgCostAfter,
+            totalValue: newQuantity * avgCostAfter,
+        });
+
+        return {
+            ...movement,
+            ...(taken ? { lots: taken } : {}),
+            // The CA at the time of the delivery, as NR-6 requires.
+            ...(item.epi && movement.type === 'exit' ? { caNumber: item.epi.caNumber } : {}),
+            unitCost: movement.type === 'entry' || (movement.reversalOfId && movement.unitCost !== undefined) ? movement.unitCost : avgCostBefore,
+            avgCostBefore,
+            avgCostAfter,
+        };
+    });
+
+    return { items: [...updatedItems.values()], movements: appliedMovements };
+};
+
+// Compares counted quantities with the current balances and returns the divergent
+// lines together with the adjustment movements that reconcile them. A count with a
+// location is compared with the item's balance at that location only.
+export const buildInventoryAdjustments = (
+    items: Item[],
+    counts: { itemId: string; countedQuantity: number; location?: string }[]
+): { lines: InventoryCountLine[]; movements: NewMovement[] } => {
+    const lines = counts
+        .map((count): InventoryCountLine | null => {
+            const item = items.find(i => i.id === count.itemId);
+            if (!item) return null;
+            const systemQuantity = count.location ? getLocationQuantity(item, count.location) : item.stockQuantity;
+            return { itemId: item.id, ...(count.location ? { location: count.location } : {}), systemQuantity, countedQuantity: count.countedQuantity };
+        })
+        .filter((line): line is InventoryCountLine => line !== null && line.countedQuantity !== line.systemQuantity);
+
+    const movements: NewMovement[] = lines.map(line => ({
+        itemId: line.itemId,
+        type: 'adjustment',
+        quantity: line.countedQuantity - line.systemQuantity,
+        location: line.location,
+        observations: `Inventário${line.location ? ` (${line.location})` : ''}: ${line.systemQuantity} → ${line.countedQuantity}`,
+    }));
+
+    return { lines, movements };
+};
+
+// New items are registered without stock: the quantity typed on them is posted as an
+// opening balance adjustment, so every balance comes from the ledger.
+export const withoutStock = (item: Item): Item => ({
+    ...item,
+    stockQuantity: 0,
+    totalValue: 0,
+    locationBalances: [],
+    lots: item.lotTracked ? [] : undefined,
+    serials: item.serialTracked ? [] : undefined,
+    loanedQuantity: 0,
+});
+
+export const buildOpeningBalances = (items: Item[], observations: string): NewMovement[] => {
+    return items
+        .filter(item => item.stockQuantity > 0)
+        .map(item => ({
+            itemId: item.id,
+            type: 'adjustment',
+            quantity: item.stockQuantity,
+            observations,
+            ...(item.serials?.length ? { serials: item.serials.map(serial => serial.serial) } : {}),
+        }));
+};
@@ -0,0 +1,174 @@
+import { Item, Supplier, EntryExitRecord, NfeInvoice, NfeLine, InvoiceImport, NewMovement } from '../types';
+import { findItemUnit, getItemUnitOptions, toStockQuantity } from './units';
+import { normalizeCnpj, formatCnpj, getSupplierCnpjError } from './suppliers';
+import { roundCost } from './costing';
+import { isReversed } from './movements';
+
+export class NfeError extends Error {}
+
+// NF-e files use a default namespace, so lookups match the local name in any namespace.
+const findFirst = (parent: Document | Element | undefined, tag: string): Element | undefined => parent?.getElementsByTagNameNS('*', tag)[0];
+const textOf = (parent: Document | Element | undefined, tag: string): string => findFirst(parent, tag)?.textContent?.trim() ?? '';
+const numberOf = (parent: Document | Element | undefined, tag: string): number => parseFloat(textOf(parent, tag)) || 0;
+
+const parseLine = (det: Element): NfeLine => {
+    const prod = findFirst(det, 'prod');
+    const imposto = findFirst(det, 'imposto');
+    const rastro = findFirst(prod, 'rastro');
+    const quantity = numberOf(prod, 'qCom');
+    return {
+        code: textOf(prod, 'cProd'),
+        description: textOf(prod, 'xProd'),
+        unit: textOf(prod, 'uCom'),
+        quantity,
+        unitValue: quantity > 0 ? roundCost((numberOf(prod, 'vProd') - numberOf(prod, 'vDesc')) / quantity) : 0,
+        freight: numberOf(prod, 'vFrete'),
+        taxes: roundCost(numberOf(imposto, 'vIPI') + numberOf(imposto, 'vICMSST')),
+        ...(rastro ? {
+            lot: textOf(rastro, 'nLote') || undefined,
+            manufacturingDate: textOf(rastro, 'dFab') || undefined,
+            expiryDate: textOf(rastro, 'dVal') || undefined,
+        } : {}),
+    };
+};
+
+/**
+ * Reads an NF-e XML, either the authorized file (nfeProc) suppliers send or the bare NFe.
+ * Unit values are net of the line discount. Taxes are the IPI and the ICMS-ST, which
+ * are part of the cost; ICMS, PIS and COFINS are recoverable and left out. Throws
+ * NfeError when the file is not an NF-e.
+ */
+export const parseNfeXml = (xml: string): NfeInvoice => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new NfeError('O arquivo não é um XML válido.');
+    const infNFe = findFirst(doc, 'infNFe');
+    if (!infNFe) throw new NfeError('O arquivo não é uma NF-e.');
+
+    const key = (textOf(doc, 'chNFe') || infNFe.getAttribute('Id') || '').replace(/\D/g, '');
+    if (key.length !== 44) throw new NfeError('A NF-e não tem uma chave de acesso válida.');
+    const ide = findFirst(infNFe, 'ide');
+    const emit = findFirst(infNFe, 'emit');
+    const lines = Array.from(infNFe.getElementsByTagNameNS('*', 'det')).map(parseLine);
+    if (lines.length === 0) throw new NfeError('A NF-e não tem itens.');
+
+    return {
+        key,
+        number: textOf(ide, 'nNF'),
+        series: textOf(ide, 'serie'),
+        issueDate: (textOf(ide, 'dhEmi') || textOf(ide, 'dEmi')).slice(0, 10),
+        emitterCnpj: normalizeCnpj(textOf(emit, 'CNPJ')),
+        emitterName: textOf(emit, 'xNome'),
+        total: numberOf(findFirst(infNFe, 'ICMSTot'), 'vNF'),
+        lines,
+    };
+};
+
+export const describeInvoice = (invoice: Pick<NfeInvoice, 'number' | 'series'>): string => `NF-e ${invoice.number} série ${invoice.series}`;
+
+// Modulo 11 over the first 43 digits of the access key, weights 2 to 9 from the right.
+const getKeyCheckDigit = (key: string): number => {
+    const sum = key.slice(0, 43).split('').reverse().reduce((total, digit, i) => total + Number(digit) * (2 + (i % 8)), 0);
+    return sum % 11 < 2 ? 0 : 11 - (sum % 11);
+};
+
+/**
+ * Why an NF-e read in the browser cannot be entered, or null. The key is checked by its
+ * check digit, and the emitter CNPJ, series and number must be the ones the key carries
+ * (positions 7-20, 23-25 and 26-34); the line values must be non-negative numbers.
+ */
+export const getInvoiceError = (invoice: NfeInvoice): string | null => {
+    const key = typeof invoice.key === 'string' ? invoice.key : '';
+    if (!/^\d{44}$/.test(key) || getKeyCheckDigit(key) !== Number(key[43])) return 'A NF-e não tem uma chave de acesso válida.';
+    if (normalizeCnpj(String(invoice.emitterCnpj ?? '')) !== key.slice(6, 20)) return 'O CNPJ do emitente não é o da chave de acesso da NF-e.';
+    if (Number(invoice.series) !== Number(key.slice(22, 25)) || Number(invoice.number) !== Number(key.slice(25, 34))) {
+        return 'O número e a série da NF-e não são os da chave de acesso.';
+    }
+    if (!Array.isArray(invoice.lines) || invoice.lines.length === 0) return 'A NF-e não tem itens.';
+    const invalid = invoice.lines.findIndex(line => typeof line?.code !== 'string'
+        || ![line.quantity, line.unitValue, line.freight, line.taxes].every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0));
+    return invalid >= 0 ? `A linha ${invalid + 1} da NF-e tem valores inválidos.` : null;
+};
+
+// The entry already made for a line of the NF-e. Entries made before the line was
+// recorded on them stand for every line of the invoice; reversed entries free the line to
+// be entered again.
+export const findImportedLine = (history: EntryExitRecord[], key: string, index: number): EntryExitRecord | undefined => {
+    return history.find(record => record.invoiceKey === key && !isReversed(record) && (record.lineIndex === undefined || record.lineIndex === index));
+};
+
+// Item unit with the invoiced unit's name, ignoring case; the stock unit otherwise.
+export const suggestItemUnit = (item: Item, invoicedUnit: string): string => {
+    return getItemUnitOptions(item).find(option => option.unit.toLowerCase() === invoicedUnit.toLowerCase())?.unit ?? item.unit;
+};
+
+// Item and unit of a line from the codes learned for the supplier; null when the code
+// was never entered.
+export const matchNfeLine = (line: NfeLine, supplier: Supplier | undefined, items: Item[]): { itemId: string; unit: string } | null => {
+    const known = supplier?.itemCodes?.find(code => code.code === line.code);
+    const item = known && items.find(i => i.id === known.itemId);
+    if (!known || !item) return null;
+    return { itemId: item.id, unit: findItemUnit(item, known.unit) ? known.unit : suggestItemUnit(item, line.unit) };
+};
+
+/**
+ * The entries for the chosen lines, priced per stock unit, and the supplier with the
+ * emitter CNPJ (when it had none) and the codes of the entered lines learned. Lines
+ * already entered (found in history) are refused, so the lines left out can be entered
+ * later. Lots and serials are checked when the entries are applied. Throws NfeError when
+ * the invoice cannot be entered.
+ */
+export const buildInvoiceEntries = (data: InvoiceImport, suppliers: Supplier[], items: Item[], history: EntryExitRecord[]): { movements: NewMovement[]; supplier: Supplier } => {
+    const { invoice } = data;
+    const invoiceError = getInvoiceError(invoice);
+    if (invoiceError) throw new NfeError(invoiceError);
+    const current = suppliers.find(s => s.id === data.supplierId);
+    if (!current) throw new NfeError('Selecione o fornecedor da NF-e.');
+    const cnpj = normalizeCnpj(invoice.emitterCnpj ?? '');
+    if (current.cnpj && normalizeCnpj(current.cnpj) !== cnpj) {
+        throw new NfeError(`A NF-e foi emitida pelo CNPJ ${formatCnpj(cnpj)}, que não é o do fornecedor ${current.name}.`);
+    }
+    const supplier: Supplier = { ...current, cnpj: current.cnpj || cnpj, itemCodes: [...(current.itemCodes ?? [])] };
+    const cnpjError = getSupplierCnpjError(supplier, suppliers);
+    if (cnpjError) throw new NfeError(cnpjError);
+    if (!data.lines?.length) throw new NfeError('Selecione ao menos uma linha da NF-e para lançar.');
+
+    const movements: NewMovement[] = data.lines.map(entry => {
+        const line = invoice.lines[entry.index];
+        const lineNumber = entry.index + 1;
+        if (!line) throw new NfeError('Linha da NF-e não encontrada.');
+        if (data.lines.filter(other => other.index === entry.index).length > 1) {
+            throw new NfeError(`A linha ${lineNumber} da NF-e foi informada mais de uma vez.`);
+        }
+        if (findImportedLine(history, invoice.key, entry.index)) throw new NfeError(`A linha ${lineNumber} da ${describeInvoice(invoice)} já foi lançada.`);
+        if (!(line.quantity > 0)) throw new NfeError(`A linha ${lineNumber} da NF-e não tem quantidade.`);
+        const item = items.find(i => i.id === entry.itemId);
+        if (!item) throw new NfeError(`Selecione o item da linha ${lineNumber} da NF-e (${line.code} - ${line.description}).`);
+        const factor = findItemUnit(item, entry.unit)?.factor;
+        if (!factor) throw new NfeError(`A unidade ${entry.unit} não é uma unidade do item ${item.code}.`);
+
+        supplier.itemCodes = [...supplier.itemCodes!.filter(code => code.code !== line.code), { code: line.code, itemId: item.id, unit: entry.unit }];
+        return {
+            itemId: item.id,
+            type: 'entry',
+            quantity: toStockQuantity(line.quantity, factor),
+            ...(factor !== 1 ? { enteredQuantity: line.quantity, enteredUnit: entry.unit } : {}),
+            ...(entry.lot?.trim() ? {
+                lot: entry.lot.trim(),
+                manufacturingDate: entry.manufacturingDate || undefined,
+                expiryDate: entry.expiryDate || undefined,
+            } : {}),
+            ...(entry.serials && entry.serials.length > 0 ? { serials: entry.serials } : {}),
+            supplierId: supplier.id,
+            invoice: invoice.number,
+            invoiceKey: invoice.key,
+            lineIndex: entry.index,
+            invoiceDate: invoice.issueDate || undefined,
+            unitCost: roundCost(line.unitValue / factor),
+            freight: line.freight || undefined,
+            taxes: line.taxes || undefined,
+            observations: describeInvoice(invoice),
+        };
+    });
+
+    return { movements, supplier };
+};
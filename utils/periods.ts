@@ -0,0 +1,35 @@
+import { PeriodClosing } from '../types';
+import { getMonthKey, formatMonth } from './costCenters';
+import { getToday } from './lots';
+
+// Last closed month; every month up to it is closed. Undefined while none was closed.
+export const getClosedThrough = (closings: PeriodClosing[]): string | undefined => {
+    return closings.reduce<string | undefined>((last, closing) => !last || closing.month > last ? closing.month : last, undefined);
+};
+
+export const isPeriodClosed = (date: string, closings: PeriodClosing[]): boolean => {
+    const closedThrough = getClosedThrough(closings);
+    return !!closedThrough && getMonthKey(date) <= closedThrough;
+};
+
+// Only months that have ended can be closed.
+export const getPeriodClosingError = (month: string, closings: PeriodClosing[], today = getToday()): string | null => {
+    if (!/^\d{4}-\d{2}$/.test(month ?? '')) return 'Informe o mês a fechar.';
+    if (month >= getMonthKey(today)) return 'Somente meses já encerrados podem ser fechados.';
+    if (isPeriodClosed(`${month}-01`, closings)) return `O período ${formatMonth(month)} já está fechado.`;
+    return null;
+};
+
+// Closing a month closes the earlier ones too, so only the last closing can be undone.
+export const getPeriodReopeningError = (closing: PeriodClosing, closings: PeriodClosing[]): string | null => {
+    const closedThrough = getClosedThrough(closings);
+    return closing.month !== closedThrough ? `Reabra primeiro o período ${formatMonth(closedThrough!)}.` : null;
+};
+
+export const buildPeriodClosing = (month: string, user: { id: string; name: string }): PeriodClosing => ({
+    id: month,
+    month,
+    closedAt: new Date().toISOString(),
+    closedById: user.id,
+    closedByName: user.name,
+});
@@ -0,0 +1,228 @@
+import { Item, Supplier, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, NewPurchaseOrder, PurchaseOrderReceipt, NewMovement, EntryExitRecord } from '../types';
+import { addDays, getToday } from './lots';
+import { roundCost } from './costing';
+
+export class PurchaseOrderError extends Error {}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+    draft: 'Rascunho',
+    sent: 'Enviado',
+    partial: 'Parcialmente recebido',
+    received: 'Recebido',
+    cancelled: 'Cancelado',
+};
+
+export const PURCHASE_ORDER_STATUS_BADGE_CLASSES: Record<PurchaseOrderStatus, string> = {
+    draft: 'bg-gray-100 text-gray-800',
+    sent: 'bg-blue-100 text-blue-800',
+    partial: 'bg-yellow-100 text-yellow-800',
+    received: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+};
+
+// Orders placed with the supplier whose goods have not all arrived.
+export const isPurchaseOrderOpen = (order: PurchaseOrder): boolean => order.status === 'sent' || order.status === 'partial';
+
+export const getPendingQuantity = (line: PurchaseOrderLine): number => Math.max(0, line.quantity - line.receivedQuantity);
+
+// Status of a sent order derived from its lines.
+export const getPurchaseOrderStatus = (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+    if (lines.every(line => line.receivedQuantity >= line.quantity)) return 'received';
+    return lines.some(line => line.receivedQuantity > 0) ? 'partial' : 'sent';
+};
+
+export const getPurchaseOrderTotal = (order: { lines: Pick<PurchaseOrderLine, 'quantity' | 'unitPrice'>[] }): number => {
+    return order.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+};
+
+// Quantity of the item still to arrive on open orders.
+export const getQuantityOnOrder = (orders: PurchaseOrder[], itemId: string): number => {
+    return orders
+        .filter(isPurchaseOrderOpen)
+        .flatMap(order => order.lines)
+        .filter(line => line.itemId === itemId)
+        .reduce((sum, line) => sum + getPendingQuantity(line), 0);
+};
+
+export const getPurchaseOrderValidationError = (order: NewPurchaseOrder, items: Item[], suppliers: Supplier[]): string | null => {
+    const supplier = suppliers.find(s => s.id === order.supplierId);
+    if (!supplier) return 'Selecione o fornecedor do pedido.';
+    if (!order.expectedDate) return 'Informe a data prevista de entrega.';
+    if (!order.lines?.length) return 'Adicione ao menos um item ao pedido.';
+    for (const line of order.lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) return 'Selecione um item cadastrado em todas as linhas.';
+        if (!(line.quantity > 0)) return `A quantidade pedida do item ${item.code} deve ser maior que zero.`;
+        if (!(line.unitPrice >= 0)) return `Informe o preço combinado do item ${item.code}.`;
+        if (order.lines.filter(l => l.itemId === line.itemId).length > 1) return `O item ${item.code} foi adicionado mais de uma vez.`;
+    }
+    return null;
+};
+
+// Next number in the PC-0001 sequence.
+export const getNextPurchaseOrderNumber = (orders: PurchaseOrder[]): string => {
+    const last = orders.reduce((max, order) => Math.max(max, Number(order.number.replace(/\D/g, '')) || 0), 0);
+    return `PC-${String(last + 1).padStart(4, '0')}`;
+};
+
+const toLines = (order: NewPurchaseOrder): PurchaseOrderLine[] => order.lines.map(line => ({
+    itemId: line.itemId,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    receivedQuantity: 0,
+}));
+
+export const buildPurchaseOrder = (order: NewPurchaseOrder, user: { id: string; name: string }, id: string, number: string): PurchaseOrder => ({
+    id,
+    number,
+    supplierId: order.supplierId,
+    createdAt: new Date().toISOString(),
+    createdById: user.id,
+    createdByName: user.name,
+    expectedDate: order.expectedDate,
+    ...(order.notes?.trim() ? { notes: order.notes.trim() } : {}),
+    lines: toLines(order),
+    status: 'draft',
+});
+
+/**
+ * Draft orders, one per supplier, for the quantities chosen on the low-stock list. Prices
+ * start at the item's average cost and the expected date at today plus the longest lead
+ * time among the supplier's items.
+ */
+export const buildDraftsBySupplier = (selections: { item: Item; quantity: number; supplierId: string }[], today = getToday()): NewPurchaseOrder[] => {
+    const bySupplier = new Map<string, { item: Item; quantity: number }[]>();
+    selections.forEach(({ item, quantity, supplierId }) => {
+        bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), { item, quantity }]);
+    });
+    return [...bySupplier.entries()].map(([supplierId, lines]) => ({
+        supplierId,
+        expectedDate: addDays(today, Math.max(0, ...lines.map(({ item }) => item.leadTimeDays || 0))),
+        lines: lines.map(({ item, quantity }) => ({ itemId: item.id, quantity, unitPrice: item.avgUnitValue })),
+    }));
+};
+
+const ensureDraft = (order: PurchaseOrder) => {
+    if (order.status !== 'draft') {
+        throw new PurchaseOrderError(`O pedido ${order.number} está ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} e não pode mais ser alterado.`);
+    }
+};
+
+// Only drafts can be edited; number, author and statuses are kept.
+export const updatePurchaseOrder = (current: PurchaseOrder, incoming: NewPurchaseOrder): PurchaseOrder => {
+    ensureDraft(current);
+    return {
+        ...current,
+        supplierId: incoming.supplierId,
+        expectedDate: incoming.expectedDate,
+        notes: incoming.notes?.trim() || undefined,
+        lines: toLines(incoming),
+    };
+};
+
+export const sendPurchaseOrder = (order: PurchaseOrder): PurchaseOrder => {
+    ensureDraft(order);
+    return { ...order, status: 'sent', sentAt: new Date().toISOString() };
+};
+
+// Cancelling closes what is still pending; quantities already received stay recorded.
+export const cancelPurchaseOrder = (order: PurchaseOrder, reason: string, user: { name: string }): PurchaseOrder => {
+    if (order.status === 'received' || order.status === 'cancelled') {
+        throw new PurchaseOrderError(`O pedido ${order.number} está ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()}.`);
+    }
+    if (!reason?.trim()) {
+        throw new PurchaseOrderError('Informe o motivo do cancelamento.');
+    }
+    return {
+        ...order,
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString(),
+        cancelledByName: user.name,
+        cancelReason: reason.trim(),
+    };
+};
+
+export interface ReceiptVariance {
+    index: number;
+    quantityDifference: number; // Received minus pending: positive when more arrived than was ordered
+    priceDifference: number; // Invoiced minus agreed price, per stock unit
+}
+
+// Received lines whose quantity or price does not match what is pending on the order.
+export const getReceiptVariances = (order: PurchaseOrder, lines: PurchaseOrderReceipt['lines']): ReceiptVariance[] => {
+    return lines.flatMap(received => {
+        const line = order.lines[received.index];
+        if (!line || !(received.quantity > 0)) return [];
+        const quantityDifference = roundCost(received.quantity - getPendingQuantity(line));
+        const priceDifference = roundCost(received.unitPrice - line.unitPrice);
+        return quantityDifference !== 0 || priceDifference !== 0 ? [{ index: received.index, quantityDifference, priceDifference }] : [];
+    });
+};
+
+/**
+ * The entries for the received quantities, one per line, and the order with its balance
+ * updated. Entries are priced at the invoiced price, so price differences reach the
+ * average cost. Receiving more than is pending on a line needs confirmOverReceipt.
+ * Throws PurchaseOrderError when the receipt is not possible.
+ */
+export const receivePurchaseOrder = (order: PurchaseOrder, receipt: PurchaseOrderReceipt): { movements: NewMovement[]; order: PurchaseOrder } => {
+    if (order.status === 'draft') {
+        throw new PurchaseOrderError(`O pedido ${order.number} ainda não foi enviado ao fornecedor.`);
+    }
+    if (!isPurchaseOrderOpen(order)) {
+        throw new PurchaseOrderError(`O pedido ${order.number} está ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()}.`);
+    }
+    if (!receipt.invoice?.trim()) {
+        throw new PurchaseOrderError('Informe o número da nota fiscal.');
+    }
+    const received = (receipt.lines ?? []).filter(line => line.quantity > 0);
+    if (received.length === 0) {
+        throw new PurchaseOrderError('Informe as quantidades recebidas.');
+    }
+
+    const lines = order.lines.map(line => ({ ...line }));
+    const movements: NewMovement[] = received.map(receivedLine => {
+        const line = lines[receivedLine.index];
+        const lineNumber = receivedLine.index + 1;
+        if (!line) throw new PurchaseOrderError('Linha do pedido não encontrada.');
+        if (received.filter(other => other.index === receivedLine.index).length > 1) {
+            throw new PurchaseOrderError(`A linha ${lineNumber} do pedido foi informada mais de uma vez.`);
+        }
+        if (!(receivedLine.unitPrice >= 0)) {
+            throw new PurchaseOrderError(`Informe o preço unitário da nota na linha ${lineNumber}.`);
+        }
+        const pending = getPendingQuantity(line);
+        if (receivedLine.quantity > pending && !receipt.confirmOverReceipt) {
+            throw new PurchaseOrderError(`A quantidade recebida na linha ${lineNumber} (${receivedLine.quantity}) excede o saldo pendente (${pending}). Confirme o recebimento a maior.`);
+        }
+        line.receivedQuantity += receivedLine.quantity;
+        return {
+            itemId: line.itemId,
+            type: 'entry',
+            quantity: receivedLine.quantity,
+            ...(receivedLine.lot?.trim() ? {
+                lot: receivedLine.lot.trim(),
+                manufacturingDate: receivedLine.manufacturingDate || undefined,
+                expiryDate: receivedLine.expiryDate || undefined,
+            } : {}),
+            ...(receivedLine.serials && receivedLine.serials.length > 0 ? { serials: receivedLine.serials } : {}),
+            supplierId: order.supplierId,
+            invoice: receipt.invoice.trim(),
+            purchaseOrderId: order.id,
+            lineIndex: receivedLine.index,
+            unitCost: receivedLine.unitPrice,
+            observations: [`Pedido ${order.number}`, receipt.observations?.trim()].filter(Boolean).join(' - '),
+        };
+    });
+
+    return { movements, order: { ...order, lines, status: getPurchaseOrderStatus(lines) } };
+};
+
+// The order after a received entry was reversed: the quantity is pending again on its line
+// (found by item for entries received before the line was recorded). Cancelled orders stay
+// cancelled.
+export const reversePurchaseOrderReceipt = (order: PurchaseOrder, record: EntryExitRecord): PurchaseOrder => {
+    const index = record.lineIndex ?? order.lines.findIndex(line => line.itemId === record.itemId);
+    const lines = order.lines.map((line, i) => i === index ? { ...line, receivedQuantity: Math.max(0, line.receivedQuantity - record.quantity) } : line);
+    return { ...order, lines, status: order.status === 'cancelled' ? 'cancelled' : getPurchaseOrderStatus(lines) };
+};
@@ -0,0 +1,105 @@
+import { Item, EntryExitRecord, GoodsReceipt, GoodsReceiptLine, NewMovement } from '../types';
+import { findItemUnit, toStockQuantity } from './units';
+import { findDuplicateSerial } from './serials';
+import { roundCost, formatCurrency } from './costing';
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export const getLineFactor = (item: Item, line: Pick<GoodsReceiptLine, 'unit'>): number => (line.unit && findItemUnit(item, line.unit)?.factor) || 1;
+
+export const getReceiptLineValue = (line: Pick<GoodsReceiptLine, 'quantity' | 'unitCost'>): number => (line.quantity || 0) * (line.unitCost || 0);
+
+export const getReceiptItemsValue = (receipt: Pick<GoodsReceipt, 'lines'>): number => {
+    return roundCents(receipt.lines.reduce((sum, line) => sum + getReceiptLineValue(line), 0));
+};
+
+// Items plus freight and taxes, to be compared with the invoice total.
+export const getReceiptTotal = (receipt: Pick<GoodsReceipt, 'lines' | 'freight' | 'taxes'>): number => {
+    return roundCents(getReceiptItemsValue(receipt) + (receipt.freight || 0) + (receipt.taxes || 0));
+};
+
+// Positive when the lines add up to more than the invoice total.
+export const getReceiptTotalDifference = (receipt: GoodsReceipt): number => roundCents(getReceiptTotal(receipt) - (receipt.invoiceTotal || 0));
+
+/**
+ * Splits an amount in proportion to the weights, in cents, so the shares add up to the
+ * amount exactly; the cents left over by rounding go to the first shares. Equal shares
+ * when all weights are zero.
+ */
+export const apportion = (amount: number, weights: number[]): number[] => {
+    if (weights.length === 0) return [];
+    const cents = Math.round(amount * 100);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = weights.map(weight => Math.floor(totalWeight > 0 ? cents * weight / totalWeight : cents / weights.length));
+    let remainder = cents - shares.reduce((sum, share) => sum + share, 0);
+    for (let index = 0; remainder > 0; index = (index + 1) % shares.length, remainder--) shares[index]++;
+    return shares.map(share => share / 100);
+};
+
+// Price of the item on its last entry, to start a new line with.
+export const getLastEntryCost = (history: EntryExitRecord[], itemId: string): number | undefined => {
+    return history
+        .filter(record => record.itemId === itemId && record.type === 'entry' && record.unitCost !== undefined)
+        .sort((a, b) => b.date.localeCompare(a.date))[0]?.unitCost;
+};
+
+export const getGoodsReceiptError = (receipt: GoodsReceipt, items: Item[]): string | null => {
+    if (!receipt.supplierId) return 'O campo "Fornecedor" é obrigatório.';
+    if (!receipt.invoice.trim()) return 'O campo "Nota Fiscal" é obrigatório.';
+    if (!receipt.invoiceDate) return 'Informe a data de emissão da nota.';
+    if (!(receipt.invoiceTotal > 0)) return 'Informe o valor total da nota.';
+    if ((receipt.freight || 0) < 0 || (receipt.taxes || 0) < 0) return 'Valores de frete e impostos não podem ser negativos.';
+    if (receipt.lines.length === 0) return 'Adicione ao menos um item ao recebimento.';
+    for (const line of receipt.lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) return 'Item não encontrado. O recebimento não pode ser registrado.';
+        if (!(line.quantity > 0)) return `A quantidade do item ${item.code} deve ser maior que zero.`;
+        if (!(line.unitCost >= 0)) return `Informe o valor unitário do item ${item.code}.`;
+        if (item.lotTracked && !line.lot?.trim()) return `Informe o lote do item ${item.code}.`;
+        if (line.manufacturingDate && line.expiryDate && line.expiryDate < line.manufacturingDate) {
+            return `A data de validade do item ${item.code} não pode ser anterior à data de fabricação.`;
+        }
+        if (item.serialTracked) {
+            const serials = line.serials ?? [];
+            const stockQuantity = toStockQuantity(line.quantity, getLineFactor(item, line));
+            const duplicate = findDuplicateSerial(serials);
+            if (duplicate) return `O número de série ${duplicate} foi informado mais de uma vez.`;
+            if (serials.length !== stockQuantity) return `Informe um número de série para cada unidade do item ${item.code}: ${stockQuantity} na entrada, ${serials.length} informados.`;
+        }
+    }
+    const difference = getReceiptTotalDifference(receipt);
+    if (difference !== 0) {
+        return `A soma dos itens, frete e impostos difere do total da nota em ${formatCurrency(Math.abs(difference))}. Confira as quantidades e os valores.`;
+    }
+    return null;
+};
+
+// One entry per line, priced per stock unit, with the invoice freight and taxes split
+// among the lines by value so they reach each item's average cost.
+export const buildReceiptEntries = (receipt: GoodsReceipt, items: Item[]): NewMovement[] => {
+    const freights = apportion(receipt.freight || 0, receipt.lines.map(getReceiptLineValue));
+    const taxes = apportion(receipt.taxes || 0, receipt.lines.map(getReceiptLineValue));
+    return receipt.lines.map((line, index) => {
+        const item = items.find(i => i.id === line.itemId)!;
+        const factor = getLineFactor(item, line);
+        return {
+            itemId: item.id,
+            type: 'entry',
+            quantity: toStockQuantity(line.quantity, factor),
+            ...(factor !== 1 ? { enteredQuantity: line.quantity, enteredUnit: line.unit } : {}),
+            ...(item.lotTracked ? {
+                lot: line.lot!.trim(),
+                manufacturingDate: line.manufacturingDate || undefined,
+                expiryDate: line.expiryDate || undefined,
+            } : {}),
+            ...(item.serialTracked ? { serials: line.serials } : {}),
+            supplierId: receipt.supplierId,
+            invoice: receipt.invoice.trim(),
+            invoiceDate: receipt.invoiceDate,
+            observations: receipt.observations?.trim() || undefined,
+            unitCost: roundCost(line.unitCost / factor),
+            freight: freights[index] || undefined,
+            taxes: taxes[index] || undefined,
+        };
+    });
+};
@@ -0,0 +1,187 @@
+import { Item, Requisition, RequisitionLine, RequisitionStatus, RequisitionLineStatus, NewRequisition, RequisitionFulfilment, NewMovement, EntryExitRecord } from '../types';
+
+export class RequisitionError extends Error {}
+
+export const REQUISITION_STATUS_LABELS: Record<RequisitionStatus, string> = {
+    open: 'Aberta',
+    partial: 'Parcialmente atendida',
+    fulfilled: 'Atendida',
+    cancelled: 'Cancelada',
+};
+
+export const REQUISITION_STATUS_BADGE_CLASSES: Record<RequisitionStatus, string> = {
+    open: 'bg-blue-100 text-blue-800',
+    partial: 'bg-yellow-100 text-yellow-800',
+    fulfilled: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+};
+
+export const REQUISITION_LINE_STATUS_LABELS: Record<RequisitionLineStatus, string> = {
+    pending: 'Pendente',
+    partial: 'Parcial',
+    fulfilled: 'Atendido',
+    rejected: 'Recusado',
+};
+
+// Requisitions the warehouse still has to act on.
+export const isRequisitionPending = (requisition: Requisition): boolean => requisition.status === 'open' || requisition.status === 'partial';
+
+// Quantity still to be delivered; rejected lines have nothing left.
+export const getRemainingQuantity = (line: RequisitionLine): number => {
+    return line.status === 'rejected' ? 0 : Math.max(0, line.quantity - line.fulfilledQuantity);
+};
+
+const getLineStatus = (line: RequisitionLine): RequisitionLineStatus => {
+    if (line.status === 'rejected') return 'rejected';
+    if (line.fulfilledQuantity >= line.quantity) return 'fulfilled';
+    return line.fulfilledQuantity > 0 ? 'partial' : 'pending';
+};
+
+/**
+ * Status derived from the lines: once every line is delivered or rejected, fulfilled if
+ * something was delivered and cancelled otherwise; before that, partial as soon as some
+ * quantity was delivered.
+ */
+export const getRequisitionStatus = (lines: RequisitionLine[]): RequisitionStatus => {
+    const closed = lines.every(line => line.status === 'fulfilled' || line.status === 'rejected');
+    const delivered = lines.some(line => line.fulfilledQuantity > 0);
+    if (closed) return delivered ? 'fulfilled' : 'cancelled';
+    return delivered ? 'partial' : 'open';
+};
+
+export const getRequisitionValidationError = (request: NewRequisition, items: Item[]): string | null => {
+    if (!request.department?.trim()) return 'Informe o setor requisitante.';
+    if (!request.lines?.length) return 'Adicione ao menos um item à requisição.';
+    for (const line of request.lines) {
+        const item = items.find(i => i.id === line.itemId);
+        if (!item) return 'Selecione um item cadastrado em todas as linhas.';
+        if (!(line.quantity > 0)) return `A quantidade requisitada do item ${item.code} deve ser maior que zero.`;
+        if (item.epi && !line.employeeId) return `Informe o colaborador que recebe o EPI ${item.code}.`;
+        if (request.lines.filter(l => l.itemId === line.itemId && l.employeeId === line.employeeId).length > 1) {
+            return `O item ${item.code} foi adicionado mais de uma vez.`;
+        }
+    }
+    return null;
+};
+
+// Next number in the REQ-0001 sequence.
+export const getNextRequisitionNumber = (requisitions: Requisition[]): string => {
+    const last = requisitions.reduce((max, requisition) => Math.max(max, Number(requisition.number.replace(/\D/g, '')) || 0), 0);
+    return `REQ-${String(last + 1).padStart(4, '0')}`;
+};
+
+export const buildRequisition = (request: NewRequisition, user: { id: string; name: string }, id: string, number: string): Requisition => ({
+    id,
+    number,
+    createdAt: new Date().toISOString(),
+    requesterId: user.id,
+    requesterName: user.name,
+    department: request.department.trim(),
+    ...(request.costCenterId ? { costCenterId: request.costCenterId } : {}),
+    ...(request.observations?.trim() ? { observations: request.observations.trim() } : {}),
+    lines: request.lines.map(line => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        fulfilledQuantity: 0,
+        status: 'pending',
+        ...(line.employeeId ? { employeeId: line.employeeId } : {}),
+    })),
+    status: 'open',
+});
+
+/**
+ * The exits that deliver the picked quantities, one per line, and the requisition with
+ * the delivered quantities and rejections applied. Stock is checked when the exits are
+ * applied; this only checks the quantities against what is still pending. Throws
+ * RequisitionError when the fulfilment is not possible.
+ */
+export const fulfilRequisition = (requisition: Requisition, data: RequisitionFulfilment): { movements: NewMovement[]; requisition: Requisition } => {
+    if (!isRequisitionPending(requisition)) {
+        throw new RequisitionError(`A requisição ${requisition.number} está ${REQUISITION_STATUS_LABELS[requisition.status].toLowerCase()}.`);
+    }
+    const picks = (data.lines ?? []).filter(pick => pick.quantity > 0);
+    const rejections = data.rejections ?? [];
+    if (picks.length === 0 && rejections.length === 0) {
+        throw new RequisitionError('Informe as quantidades entregues ou os itens recusados.');
+    }
+    if (picks.length > 0 && !data.responsible?.trim()) {
+        throw new RequisitionError('Informe quem retirou o material.');
+    }
+
+    const lines = requisition.lines.map(line => ({ ...line }));
+    const lineAt = (index: number) => {
+        const line = lines[index];
+        if (!line) throw new RequisitionError('Linha da requisição não encontrada.');
+        if (line.status === 'rejected' || line.status === 'fulfilled') {
+            throw new RequisitionError(`A linha ${index + 1} da requisição já foi ${line.status === 'rejected' ? 'recusada' : 'atendida'}.`);
+        }
+        return line;
+    };
+
+    rejections.forEach(rejection => {
+        if (picks.some(pick => pick.index === rejection.index)) {
+            throw new RequisitionError(`A linha ${rejection.index + 1} não pode ser entregue e recusada ao mesmo tempo.`);
+        }
+        if (!rejection.reason?.trim()) {
+            throw new RequisitionError(`Informe o motivo da recusa da linha ${rejection.index + 1}.`);
+        }
+        const line = lineAt(rejection.index);
+        line.status = 'rejected';
+        line.rejectionReason = rejection.reason.trim();
+    });
+
+    const movements: NewMovement[] = picks.map(pick => {
+        const line = lineAt(pick.index);
+        const remaining = getRemainingQuantity(line);
+        if (pick.quantity > remaining) {
+            throw new RequisitionError(`Quantidade entregue na linha ${pick.index + 1} (${pick.quantity}) excede o saldo pendente (${remaining}).`);
+        }
+        line.fulfilledQuantity += pick.quantity;
+        line.status = getLineStatus(line);
+        return {
+            itemId: line.itemId,
+            type: 'exit',
+            quantity: pick.quantity,
+            requester: requisition.department,
+            responsible: data.responsible.trim(),
+            requisitionId: requisition.id,
+            lineIndex: pick.index,
+            ...(requisition.costCenterId ? { costCenterId: requisition.costCenterId } : {}),
+            ...(line.employeeId ? { employeeId: line.employeeId } : {}),
+            ...(pick.serials && pick.serials.length > 0 ? { serials: pick.serials } : {}),
+            observations: `Requisição ${requisition.number}`,
+        };
+    });
+
+    return { movements, requisition: { ...requisition, lines, status: getRequisitionStatus(lines) } };
+};
+
+// Cancelling closes what is still pending; quantities already delivered stay recorded.
+export const cancelRequisition = (requisition: Requisition, reason: string, user: { name: string }): Requisition => {
+    if (!isRequisitionPending(requisition)) {
+        throw new RequisitionError(`A requisição ${requisition.number} está ${REQUISITION_STATUS_LABELS[requisition.status].toLowerCase()}.`);
+    }
+    if (!reason?.trim()) {
+        throw new RequisitionError('Informe o motivo do cancelamento.');
+    }
+    return {
+        ...requisition,
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString(),
+        cancelledByName: user.name,
+        cancelReason: reason.trim(),
+    };
+};
+
+// The requisition after a delivery was reversed: the quantity is pending again on its line
+// (found by item and employee for exits made before the line was recorded). Cancelled
+// requisitions stay cancelled.
+export const reverseRequisitionFulfilment = (requisition: Requisition, record: EntryExitRecord): Requisition => {
+    const index = record.lineIndex ?? requisition.lines.findIndex(line => line.itemId === record.itemId && line.employeeId === record.employeeId);
+    const lines = requisition.lines.map((line, i) => {
+        if (i !== index) return line;
+        const reversed = { ...line, fulfilledQuantity: Math.max(0, line.fulfilledQuantity - record.quantity) };
+        return { ...reversed, status: getLineStatus(reversed) };
+    });
+    return { ...requisition, lines, status: requisition.status === 'cancelled' ? 'cancelled' : getRequisitionStatus(lines) };
+};
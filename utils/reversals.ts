@@ -0,0 +1,128 @@
+import { EntryExitRecord, Item, NewMovement, PeriodClosing, LotQuantity } from '../types';
+import { MOVEMENT_TYPE_LABELS, MOVEMENT_TYPE_BADGE_CLASSES, getMovementDelta } from './movements';
+import { getReceiptTotalCost, formatCurrency } from './costing';
+import { getMonthKey, formatMonth } from './costCenters';
+import { isPeriodClosed } from './periods';
+import { formatQuantity } from './units';
+
+// Raised when a movement cannot be reversed (already reversed, closed period).
+export class ReversalError extends Error {}
+
+export const getMovementTypeLabel = (record: Pick<EntryExitRecord, 'type' | 'reversalOfId'>): string => {
+    return record.reversalOfId ? 'Estorno' : MOVEMENT_TYPE_LABELS[record.type];
+};
+
+export const getMovementBadgeClasses = (record: Pick<EntryExitRecord, 'type' | 'reversalOfId'>): string => {
+    return record.reversalOfId ? 'bg-red-100 text-red-800' : MOVEMENT_TYPE_BADGE_CLASSES[record.type];
+};
+
+// Why the movement cannot be reversed, or null if it can.
+export const getReversalError = (record: EntryExitRecord, closings: PeriodClosing[]): string | null => {
+    if (record.reversalOfId) return 'Um estorno não pode ser estornado.';
+    if (record.reversedAt) return `Esta movimentação já foi estornada por ${record.reversedByName}.`;
+    if (isPeriodClosed(record.date, closings)) {
+        return `O período ${formatMonth(getMonthKey(record.date))} está fechado; a movimentação não pode mais ser estornada.`;
+    }
+    return null;
+};
+
+// "movimentação de entrada de 10 un do item PAR-001 de 01/10/2026", for messages and the audit log.
+export const describeMovement = (record: EntryExitRecord, item: Item | undefined): string => {
+    const date = new Date(`${record.date}T00:00:00`).toLocaleDateString('pt-BR');
+    return `movimentação de ${MOVEMENT_TYPE_LABELS[record.type].toLowerCase()} de ${formatQuantity(Math.abs(record.quantity), item?.unit ?? '')} do item ${item?.code ?? record.itemId} de ${date}`;
+};
+
+// Audit log entry for a reversal, with the change of average cost the applied reversal
+// movements made.
+export const describeReversal = (record: EntryExitRecord, item: Item | undefined, reason: string, applied: NewMovement[]): string => {
+    const first = applied[0];
+    const last = applied[applied.length - 1];
+    const costText = first?.avgCostBefore !== undefined && last?.avgCostAfter !== undefined && first.avgCostBefore !== last.avgCostAfter
+        ? ` Custo médio: ${formatCurrency(first.avgCostBefore)} → ${formatCurrency(last.avgCostAfter)}.`
+        : '';
+    const authorText = record.userName ? ` (registrada por ${record.userName})` : '';
+    return `Estornou a ${describeMovement(record, item)}${authorText}. Motivo: ${reason.trim()}.${costText}`;
+};
+
+// Cost per stock unit the goods moved with: the landed cost for entries, the average
+// cost at the time for exits and adjustments.
+const getMovedUnitCost = (record: EntryExitRecord): number | undefined => {
+    if (record.type === 'entry' && record.unitCost !== undefined && record.quantity > 0) {
+        return getReceiptTotalCost({ quantity: record.quantity, unitCost: record.unitCost, freight: record.freight, taxes: record.taxes }) / record.quantity;
+    }
+    return record.unitCost;
+};
+
+// A lot that ran out is no longer on the item, so its dates are taken from its entry.
+const withLotDates = (lot: LotQuantity, itemHistory: EntryExitRecord[]) => {
+    const entry = itemHistory.find(record => record.type === 'entry' && record.lot === lot.lot);
+    return {
+        lot: lot.lot,
+        manufacturingDate: entry?.manufacturingDate,
+        expiryDate: entry?.expiryDate,
+    };
+};
+
+/**
+ * The movements that cancel a registered one. Entries, exits and adjustments are
+ * cancelled by an adjustment of the opposite sign, at the location, lots, serial numbers
+ * and cost the goods moved with; transfers by a transfer back. Exits taken from several
+ * lots get one adjustment per lot. itemHistory holds the movements of the record's item.
+ * Throws ReversalError when the movement cannot be reversed.
+ */
+export const buildReversal = (record: EntryExitRecord, reason: string, closings: PeriodClosing[], itemHistory: EntryExitRecord[]): NewMovement[] => {
+    const error = getReversalError(record, closings) ?? (!reason?.trim() ? 'Informe o motivo do estorno.' : null);
+    if (error) throw new ReversalError(error);
+    const base = {
+        itemId: record.itemId,
+        reversalOfId: record.id,
+        reversalReason: reason.trim(),
+        observations: `Estorno: ${reason.trim()}`,
+    };
+
+    if (record.type === 'transfer') {
+        return [{ ...base, type: 'transfer', quantity: record.quantity, fromLocation: record.toLocation, toLocation: record.fromLocation }];
+    }
+
+    const delta = -getMovementDelta(record);
+    const unitCost = getMovedUnitCost(record);
+    const adjustment = {
+        ...base,
+        type: 'adjustment' as const,
+        ...(record.location ? { location: record.location } : {}),
+        ...(unitCost !== undefined ? { unitCost } : {}),
+    };
+    const serials = record.serials?.length ? { serials: record.serials } : {};
+
+    // Takes out what came in, from the lot it came in.
+    if (delta < 0) {
+        return [{ ...adjustment, quantity: delta, ...(record.lot ? { lots: [{ lot: record.lot, quantity: -delta }] } : {}), ...serials }];
+    }
+    // Puts back what went out, into the lots it came from.
+    if (!record.lots?.length) {
+        return [{ ...adjustment, quantity: delta, ...serials }];
+    }
+    return record.lots.map((lot, index) => ({
+        ...adjustment,
+        quantity: lot.quantity,
+        ...withLotDates(lot, itemHistory),
+        ...(index === 0 ? serials : {}),
+    }));
+};
+
+// Only buildReversal and markReversed link movements to each other, and only receiving a
+// purchase order, fulfilling a requisition and importing an NF-e link them to the document.
+// Movements sent by clients lose the links, so they cannot pass for a reversal, undo the
+// average cost at a cost of their own or give quantities back to a document when reversed.
+export const withoutLinkFields = (movement: NewMovement): NewMovement => {
+    const { reversalOfId, reversalReason, reversedAt, reversedByName, purchaseOrderId, requisitionId, invoiceKey, lineIndex, ...rest } = movement;
+    return rest;
+};
+
+// The reversed movement keeps its quantities; it is only marked, with who reversed it and why.
+export const markReversed = (record: EntryExitRecord, reason: string, user: { name: string }): EntryExitRecord => ({
+    ...record,
+    reversedAt: new Date().toISOString(),
+    reversedByName: user.name,
+    reversalReason: reason.trim(),
+});
@@ -0,0 +1,45 @@
+import { Item, ItemSerial, SerialStatus, EntryExitRecord } from '../types';
+
+type SerializedItem = Pick<Item, 'stockQuantity' | 'serialTracked' | 'serials'>;
+
+export const SERIAL_STATUS_LABELS: Record<SerialStatus, string> = {
+    in_stock: 'Em estoque',
+    loaned: 'Emprestado',
+    out: 'Fora do estoque',
+};
+
+export const SERIAL_STATUS_BADGE_CLASSES: Record<SerialStatus, string> = {
+    in_stock: 'bg-green-100 text-green-800',
+    loaned: 'bg-blue-100 text-blue-800',
+    out: 'bg-gray-100 text-gray-800',
+};
+
+// Serial lists are typed one per line or separated by commas, semicolons or pipes.
+export const parseSerialList = (text: string): string[] => text.split(/[\n,;|]+/).map(serial => serial.trim()).filter(Boolean);
+
+export const findDuplicateSerial = (serials: string[]): string | undefined => serials.find((serial, index) => serials.indexOf(serial) !== index);
+
+export const getSerialsInStock = (item: SerializedItem): string[] => {
+    return (item.serials ?? []).filter(serial => serial.status === 'in_stock').map(serial => serial.serial);
+};
+
+// Units in stock without a serial number, received before the item was serialized.
+// Loaned serials are still part of the stock.
+export const getUnserializedQuantity = (item: SerializedItem): number => {
+    const serialized = (item.serials ?? []).filter(serial => serial.status !== 'out').length;
+    return Math.max(0, item.stockQuantity - serialized);
+};
+
+// Returns the serials with the listed ones set to `status`, registering the new ones.
+export const setSerialStatus = (serials: ItemSerial[], listed: string[], status: SerialStatus): ItemSerial[] => {
+    const updated = serials.map(serial => listed.includes(serial.serial) ? { ...serial, status } : serial);
+    const added = listed.filter(serial => !serials.some(s => s.serial === serial)).map(serial => ({ serial, status }));
+    return [...updated, ...added];
+};
+
+// Movements of the item that carried the serial, oldest first.
+export const getSerialHistory = (history: EntryExitRecord[], itemId: string, serial: string): EntryExitRecord[] => {
+    return history
+        .filter(record => record.itemId === itemId && record.serials?.includes(serial))
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
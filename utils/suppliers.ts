@@ -0,0 +1,36 @@
+import { Supplier } from '../types';
+
+export const normalizeCnpj = (value: string): string => value.replace(/\D/g, '');
+
+// 12.345.678/0001-95; values that are not 14 digits are returned as typed.
+export const formatCnpj = (value: string): string => {
+    const digits = normalizeCnpj(value);
+    return digits.length === 14 ? digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5') : value;
+};
+
+const getCnpjCheckDigit = (digits: string): number => {
+    const weights = digits.length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const remainder = digits.split('').reduce((sum, digit, index) => sum + Number(digit) * weights[index], 0) % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+};
+
+export const isValidCnpj = (value: string): boolean => {
+    const digits = normalizeCnpj(value);
+    if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+    const first = getCnpjCheckDigit(digits.slice(0, 12));
+    const second = getCnpjCheckDigit(`${digits.slice(0, 12)}${first}`);
+    return digits.endsWith(`${first}${second}`);
+};
+
+export const findSupplierByCnpj = (suppliers: Supplier[], cnpj: string): Supplier | undefined => {
+    const digits = normalizeCnpj(cnpj);
+    return suppliers.find(supplier => !!supplier.cnpj && normalizeCnpj(supplier.cnpj) === digits);
+};
+
+// The CNPJ is optional, but must be valid and not belong to another supplier.
+export const getSupplierCnpjError = (supplier: Pick<Supplier, 'id' | 'cnpj'>, suppliers: Supplier[]): string | null => {
+    if (!supplier.cnpj?.trim()) return null;
+    if (!isValidCnpj(supplier.cnpj)) return `O CNPJ ${supplier.cnpj} é inválido.`;
+    const other = findSupplierByCnpj(suppliers.filter(s => s.id !== supplier.id), supplier.cnpj);
+    return other ? `O CNPJ ${formatCnpj(supplier.cnpj)} já está cadastrado para ${other.name}.` : null;
+};
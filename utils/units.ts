@@ -0,0 +1,43 @@
+import { Item, UnitConversion, UnitOfMeasurement, EntryExitRecord } from '../types';
+
+type ConvertibleItem = Pick<Item, 'unitId' | 'unit' | 'unitConversions'>;
+
+// Units an item can be moved in: the stock unit (factor 1) followed by its conversions.
+export const getItemUnitOptions = (item: ConvertibleItem): UnitConversion[] => [
+    { unitId: item.unitId, unit: item.unit, factor: 1 },
+    ...(item.unitConversions ?? []),
+];
+
+export const findItemUnit = (item: ConvertibleItem, unit: string): UnitConversion | undefined => {
+    return getItemUnitOptions(item).find(option => option.unit === unit);
+};
+
+// Rounded to avoid floating point noise such as 0.30000000000000004 in stored quantities.
+export const toStockQuantity = (quantity: number, factor: number): number => Math.round(quantity * factor * 1e6) / 1e6;
+
+export const formatQuantity = (quantity: number, unit: string): string => `${quantity.toLocaleString('pt-BR')} ${unit}`;
+
+// "1.500 UN = 1,5 MIL" for each alternate unit of the item; empty when it has none.
+export const formatInAlternateUnits = (item: ConvertibleItem, quantity: number): string => {
+    return (item.unitConversions ?? [])
+        .map(conversion => formatQuantity(Math.round((quantity / conversion.factor) * 1000) / 1000, conversion.unit))
+        .join(' · ');
+};
+
+// Quantity as the operator typed it, when the movement was made in another unit.
+export const formatEnteredQuantity = (record: Pick<EntryExitRecord, 'enteredQuantity' | 'enteredUnit'>): string => {
+    return record.enteredUnit && record.enteredQuantity !== undefined ? formatQuantity(record.enteredQuantity, record.enteredUnit) : '';
+};
+
+export const getUnitConversionsError = (item: ConvertibleItem, units: UnitOfMeasurement[]): string | null => {
+    const seen = new Set<string>();
+    for (const conversion of item.unitConversions ?? []) {
+        const unit = units.find(u => u.id === conversion.unitId);
+        if (!unit) return 'Selecione uma unidade cadastrada para cada conversão.';
+        if (conversion.unitId === item.unitId) return `A unidade ${unit.abbreviation} já é a unidade de estoque do item.`;
+        if (seen.has(conversion.unitId)) return `A unidade ${unit.abbreviation} aparece em mais de uma conversão.`;
+        if (!(conversion.factor > 0)) return `Informe um fator de conversão maior que zero para ${unit.abbreviation}.`;
+        seen.add(conversion.unitId);
+    }
+    return null;
+};